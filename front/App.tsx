@@ -10,6 +10,7 @@ import Leagues from './components/Leagues';
 import Analytics from './components/Analytics';
 import Feed from './components/Feed';
 import AdminPanel from './components/AdminPanel';
+import PlayerProfile from './components/PlayerProfile';
 import CardDetailModal, { CardDetailData } from './components/CardDetailModal';
 import ProfileSetupModal from './components/ProfileSetupModal';
 import ProfileEditModal from './components/ProfileEditModal';
@@ -18,22 +19,33 @@ import TournamentCTA from './components/TournamentCTA';
 import DashboardLeaderboard from './components/DashboardLeaderboard';
 import MobileWidgets from './components/MobileWidgets';
 import SplashScreen from './components/SplashScreen';
+import TxToasts from './components/TxToasts';
+import OfflineBanner from './components/OfflineBanner';
+import AlertToasts from './components/AlertToasts';
+import AlertBell from './components/AlertBell';
 import { NavSection, UserProfile, Rarity, CardData } from './types';
 import { Filter, Search, Wallet, Loader2, Sun, Moon, LogOut, User } from 'lucide-react';
 import { useTheme } from './context/ThemeContext';
 import { ThemeProvider } from './context/ThemeContext';
 import { WalletProvider, useWalletContext } from './context/WalletContext';
-import { formatXTZ, CHAIN_NAME } from './lib/contracts';
+import { formatXTZ } from './lib/contracts';
 import { isAdmin } from './hooks/useAdmin';
 import { useUser } from './hooks/useUser';
+import { useSearchAlerts } from './hooks/useSearchAlerts';
 import { generatePixelAvatar } from './lib/pixelAvatar';
 import { ethers } from 'ethers';
 import { useMarketplaceV2, Listing } from './hooks/useMarketplaceV2';
 import { useNFT } from './hooks/useNFT';
+import { chainEvents } from './lib/chainEvents';
+import { txManager } from './lib/txManager';
+import { describeError } from './lib/errors';
+import { formatQuote } from './lib/preflight';
+import { useRoute, navigate, goBack, isAddress, RoutePaths } from './lib/router';
 
 // Inner component that uses wallet context
 const AppContent: React.FC = () => {
-    const [activeSection, setActiveSection] = useState<NavSection>(NavSection.HOME);
+    const route = useRoute();
+    const activeSection = route.section;
     const [isPackModalOpen, setIsPackModalOpen] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
     const [dashboardSelectedStartup, setDashboardSelectedStartup] = useState<CardDetailData | null>(null);
@@ -57,12 +69,16 @@ const AppContent: React.FC = () => {
         disconnect,
         switchChain,
         formatAddress,
-        isConnecting
+        isConnecting,
+        network
     } = useWalletContext();
 
     // User profile hook
     const { profile, needsRegistration, isNewUser, registerUser, updateProfile } = useUser();
 
+    // Saved-search alerts follow the connected wallet on every page
+    useSearchAlerts(isConnected ? address ?? null : null);
+
     // Profile edit modal state
     const [isProfileEditOpen, setIsProfileEditOpen] = useState(false);
 
@@ -71,7 +87,7 @@ const AppContent: React.FC = () => {
     const { theme, toggleTheme } = useTheme();
 
     // Marketplace hook
-    const { getActiveListings, buyCard } = useMarketplaceV2();
+    const { getActiveListings, simulateBuyCard, buyCard } = useMarketplaceV2();
     const [buyingId, setBuyingId] = useState<number | null>(null);
 
     // NFT hook
@@ -91,13 +107,24 @@ const AppContent: React.FC = () => {
     };
 
     // Pre-fetch user's NFT cards as soon as wallet connects (background, non-blocking)
-    // Cards get cached in blockchainCache + localStorage → Portfolio loads instantly
+    // Cards get cached in blockchainCache + IndexedDB → Portfolio loads instantly
     useEffect(() => {
         if (isConnected && address) {
             getCards(address).catch(() => {}); // fire-and-forget
         }
     }, [isConnected, address, getCards]);
 
+    // Watch contract logs so cached data refreshes within a block — polling becomes the fallback
+    // Transactions still pending from a previous visit resume watching alongside it
+    useEffect(() => {
+        chainEvents.start();
+        txManager.start();
+        return () => {
+            chainEvents.stop();
+            txManager.stop();
+        };
+    }, []);
+
     // Load dashboard listings with NFT metadata
     useEffect(() => {
         const loadDashboardData = async () => {
@@ -179,9 +206,42 @@ const AppContent: React.FC = () => {
     }, [dashboardListings, searchQuery, activeFilter, sortBy]);
 
     const handleSectionChange = (section: NavSection) => {
-        setActiveSection(section);
+        navigate(RoutePaths.section(section));
     };
 
+    // /card/:tokenId — dashboard clicks fill the modal first; shared links load the card here
+    useEffect(() => {
+        const tokenId = route.tokenId;
+        if (tokenId === undefined) {
+            setDashboardSelectedCard(null);
+            setDashboardSelectedStartup(null);
+            return;
+        }
+        if (dashboardSelectedCard?.tokenId === tokenId) return;
+
+        let cancelled = false;
+        getCardInfo(tokenId).then(card => {
+            if (cancelled) return;
+            if (!card) {
+                alert(`Card #${tokenId} does not exist or was burned`);
+                navigate(RoutePaths.section(activeSection), { replace: true });
+                return;
+            }
+            setDashboardSelectedCard(card);
+            setDashboardSelectedStartup({
+                id: card.tokenId.toString(),
+                image: card.image,
+                name: card.name,
+                value: card.multiplier,
+                rarity: card.rarity,
+                multiplier: `${card.multiplier}x`,
+                batch: `Edition ${card.edition}`,
+                stage: card.rarity
+            });
+        });
+        return () => { cancelled = true; };
+    }, [route.tokenId, getCardInfo]);
+
     const handleWalletClick = async () => {
         if (!isConnected) {
             await connect();
@@ -195,7 +255,9 @@ const AppContent: React.FC = () => {
             case NavSection.MARKETPLACE:
                 return <Marketplace />;
             case NavSection.PORTFOLIO:
-                return <Portfolio onBuyPack={() => setIsPackModalOpen(true)} />;
+                return route.player
+                    ? <PlayerProfile key={route.player} address={route.player} />
+                    : <Portfolio onBuyPack={() => setIsPackModalOpen(true)} />;
             case NavSection.LEAGUES:
                 return <Leagues />;
             case NavSection.FEED:
@@ -303,6 +365,7 @@ const AppContent: React.FC = () => {
                                                         batch: `Edition ${card.edition}`,
                                                         stage: card.rarity
                                                     });
+                                                    navigate(RoutePaths.card(card.tokenId));
                                                 }}
                                             >
                                                 <div className="overflow-hidden" style={{ aspectRatio: '591/1004' }}>
@@ -317,9 +380,15 @@ const AppContent: React.FC = () => {
                                                             if (!isConnected) { alert('Please connect your wallet first'); return; }
                                                             if (listing.seller.toLowerCase() === address?.toLowerCase()) { alert("You can't buy your own listing"); return; }
                                                             setBuyingId(Number(listing.listingId));
-                                                            buyCard(listing.listingId, listing.price)
-                                                                .then(() => { alert('Purchase successful!'); window.location.reload(); })
-                                                                .catch((err: any) => alert(`Error: ${err.message}`))
+                                                            simulateBuyCard(listing.listingId, listing.price)
+                                                                .then(async (check) => {
+                                                                    if (!check.ok) { alert(check.error); return; }
+                                                                    if (!confirm(`Buy ${card.name} for ${formatXTZ(listing.price)} XTZ?\n\n${formatQuote(check.quote)}`)) return;
+                                                                    await buyCard(listing.listingId, listing.price);
+                                                                    alert('Purchase successful!');
+                                                                    window.location.reload();
+                                                                })
+                                                                .catch((err: any) => alert(describeError(err, 'Purchase failed')))
                                                                 .finally(() => setBuyingId(null));
                                                         }}
                                                         disabled={buyingId === Number(listing.listingId)}
@@ -360,6 +429,8 @@ const AppContent: React.FC = () => {
             <main className="w-full md:pl-72 xl:pr-64 min-h-screen pb-24 md:pb-6 overflow-x-hidden">
                 <div className="w-full mx-auto p-4 md:p-6 max-w-full overflow-hidden">
 
+                    <OfflineBanner />
+
                     {/* Top Bar */}
                     <div className="flex items-center justify-between mb-4 md:mb-8 py-2 md:py-4">
 
@@ -369,7 +440,15 @@ const AppContent: React.FC = () => {
                                 type="text"
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
-                                placeholder="Search..."
+                                onKeyDown={(e) => {
+                                    // A pasted wallet address opens its read-only profile
+                                    const query = searchQuery.trim();
+                                    if (e.key === 'Enter' && isAddress(query)) {
+                                        setSearchQuery('');
+                                        navigate(RoutePaths.player(query));
+                                    }
+                                }}
+                                placeholder="Search or paste a wallet address..."
                                 className="w-full bg-gray-100 dark:bg-[#121212] border-none rounded-2xl pl-10 md:pl-12 pr-4 py-2.5 md:py-3.5 text-sm font-medium text-yc-text-primary dark:text-white focus:outline-none focus:ring-2 focus:ring-yc-orange/20 transition-all placeholder-gray-400"
                             />
                         </div>
@@ -389,12 +468,15 @@ const AppContent: React.FC = () => {
                                     <div className="text-right hidden lg:block border-l border-gray-200 dark:border-gray-800 pl-6">
                                         <p className="text-[10px] uppercase font-bold text-gray-400 tracking-wider">Network</p>
                                         <p className={`text-sm font-bold ${isCorrectChain ? 'text-yc-green' : 'text-yc-orange'}`}>
-                                            {isCorrectChain ? 'Etherlink' : 'Wrong Chain'}
+                                            {isCorrectChain ? network.label : 'Wrong Chain'}
                                         </p>
                                     </div>
                                 </>
                             )}
 
+                            {/* Market alerts */}
+                            {isConnected && <AlertBell />}
+
                             {/* Wallet Button - desktop */}
                             <button
                                 onClick={handleWalletClick}
@@ -554,10 +636,7 @@ const AppContent: React.FC = () => {
             <CardDetailModal
                 data={dashboardSelectedStartup}
                 cardData={dashboardSelectedCard}
-                onClose={() => {
-                    setDashboardSelectedStartup(null);
-                    setDashboardSelectedCard(null);
-                }}
+                onClose={() => goBack(RoutePaths.section(activeSection))}
             />
 
             {/* Profile Setup Modal - shown on first wallet connection */}
@@ -580,6 +659,12 @@ const AppContent: React.FC = () => {
             {/* Bottom Navigation (mobile only) */}
             <BottomNav activeSection={activeSection} onNavigate={handleSectionChange} />
 
+            {/* Transaction toasts - pending/confirmed/failed writes */}
+            <TxToasts />
+
+            {/* Saved-search alerts - new matching listings, auctions ending soon */}
+            <AlertToasts />
+
         </div>
     );
 };
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Award, Flame, Layers, Lock, Loader2, Trophy } from 'lucide-react';
+import type { Achievement, AchievementCategory } from '../lib/achievements';
+
+interface AchievementsProps {
+    achievements: Achievement[] | null;     // null while loading
+    compact?: boolean;                      // Unlocked badges only, in a single row
+}
+
+const CATEGORY_ICON: Record<AchievementCategory, React.ElementType> = {
+    collection: Layers,
+    forge: Flame,
+    tournament: Trophy,
+};
+
+// Achievement badges — full grid with progress, or a compact strip of unlocked ones for profile headers
+const Achievements: React.FC<AchievementsProps> = ({ achievements, compact = false }) => {
+    if (!achievements) {
+        if (compact) return null;
+        return (
+            <p className="flex items-center gap-1.5 text-xs text-gray-400">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Checking achievements…
+            </p>
+        );
+    }
+
+    const unlocked = achievements.filter(a => a.unlocked);
+
+    if (compact) {
+        if (unlocked.length === 0) return null;
+        return (
+            <div className="flex flex-wrap items-center gap-2">
+                {unlocked.map(a => {
+                    const Icon = CATEGORY_ICON[a.category];
+                    return (
+                        <span
+                            key={a.id}
+                            title={a.description}
+                            className="flex items-center gap-1 px-2.5 py-1 rounded-full bg-yc-orange/10 border border-yc-orange/30 text-yc-orange text-xs font-bold"
+                        >
+                            <Icon className="w-3 h-3" />
+                            {a.title}
+                        </span>
+                    );
+                })}
+            </div>
+        );
+    }
+
+    return (
+        <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-2xl p-4 md:p-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold text-yc-text-primary dark:text-white flex items-center gap-2">
+                    <Award className="w-5 h-5 text-yc-orange" />
+                    Achievements
+                </h3>
+                <span className="text-sm font-mono text-gray-500">{unlocked.length} / {achievements.length}</span>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                {achievements.map(a => {
+                    const Icon = a.unlocked ? CATEGORY_ICON[a.category] : Lock;
+                    return (
+                        <div
+                            key={a.id}
+                            className={`flex items-start gap-3 p-3 rounded-xl border ${a.unlocked
+                                ? 'border-yc-orange/30 bg-yc-orange/5'
+                                : 'border-gray-200 dark:border-[#2A2A2A]'
+                                }`}
+                        >
+                            <div className={`p-2 rounded-lg shrink-0 ${a.unlocked ? 'bg-yc-orange text-white' : 'bg-gray-100 dark:bg-[#1A1A1A] text-gray-400'}`}>
+                                <Icon className="w-4 h-4" />
+                            </div>
+                            <div className="min-w-0 flex-1">
+                                <p className={`text-sm font-bold ${a.unlocked ? 'text-gray-900 dark:text-white' : 'text-gray-500'}`}>{a.title}</p>
+                                <p className="text-xs text-gray-500">{a.description}</p>
+                                {!a.unlocked && a.target > 1 && (
+                                    <div className="flex items-center gap-2 mt-1.5">
+                                        <div className="flex-1 h-1 rounded-full bg-gray-100 dark:bg-[#1A1A1A] overflow-hidden">
+                                            <div className="h-full bg-yc-orange/60" style={{ width: `${(a.current / a.target) * 100}%` }} />
+                                        </div>
+                                        <span className="text-[10px] font-mono text-gray-500">{a.current}/{a.target}</span>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default Achievements;
@@ -23,6 +23,7 @@ import { useWalletContext } from '../context/WalletContext';
 import { useAdmin, isAdmin, ContractBalances, AdminStats, TournamentData } from '../hooks/useAdmin';
 import { useNFT } from '../hooks/useNFT';
 import { formatXTZ } from '../lib/contracts';
+import { describeError } from '../lib/errors';
 import { ethers } from 'ethers';
 
 const AdminPanel: React.FC = () => {
@@ -213,7 +214,7 @@ const AdminPanel: React.FC = () => {
             await admin.pausePackOpener(signer);
             showMessage('success', 'PackOpener paused');
         } catch (e: any) {
-            showMessage('error', e.message);
+            showMessage('error', describeError(e));
         }
     };
 
@@ -225,7 +226,7 @@ const AdminPanel: React.FC = () => {
             await admin.unpausePackOpener(signer);
             showMessage('success', 'PackOpener unpaused');
         } catch (e: any) {
-            showMessage('error', e.message);
+            showMessage('error', describeError(e));
         }
     };
 
@@ -283,7 +284,7 @@ const AdminPanel: React.FC = () => {
                 showMessage('error', result.error || 'Withdrawal failed');
             }
         } catch (e: any) {
-            showMessage('error', e.message);
+            showMessage('error', describeError(e));
         }
         setActionLoading(null);
     };
@@ -330,7 +331,7 @@ const AdminPanel: React.FC = () => {
                 showMessage('error', result.error || 'Failed to finalize with points');
             }
         } catch (e: any) {
-            showMessage('error', e.message);
+            showMessage('error', describeError(e));
         }
         setActionLoading(null);
     };
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Bell, BellRing } from 'lucide-react';
+import { useMarketAlerts } from '../hooks/useSavedSearches';
+import { alertCenter } from '../lib/alerts';
+
+const timeAgo = (ms: number) => {
+    const minutes = Math.floor((Date.now() - ms) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    return `${Math.floor(minutes / 60)}h ago`;
+};
+
+// Top-bar bell — unread count and this session's saved-search alerts
+const AlertBell: React.FC = () => {
+    const alerts = useMarketAlerts();
+    const [open, setOpen] = useState(false);
+    const unread = alerts.filter(a => !a.read).length;
+
+    const toggle = () => {
+        if (open) alertCenter.markAllRead();
+        setOpen(!open);
+    };
+
+    const close = () => {
+        alertCenter.markAllRead();
+        setOpen(false);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={toggle}
+                title="Market alerts"
+                className="relative p-2 rounded-xl text-gray-500 hover:text-yc-orange hover:bg-gray-100 dark:hover:bg-[#1A1A1A] transition-colors"
+            >
+                {unread > 0 ? <BellRing className="w-5 h-5 text-yc-orange" /> : <Bell className="w-5 h-5" />}
+                {unread > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-yc-orange text-white text-[10px] font-bold flex items-center justify-center">
+                        {unread > 9 ? '9+' : unread}
+                    </span>
+                )}
+            </button>
+
+            {open && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={close} />
+                    <div className="absolute right-0 top-12 z-50 w-80 bg-white dark:bg-[#1a1a1a] border border-gray-200 dark:border-[#2a2a2a] rounded-2xl shadow-2xl overflow-hidden">
+                        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-[#2a2a2a]">
+                            <p className="text-sm font-bold text-gray-900 dark:text-white">Market alerts</p>
+                            {alerts.length > 0 && (
+                                <button onClick={() => alertCenter.clear()} className="text-xs text-gray-500 hover:text-yc-orange">
+                                    Clear
+                                </button>
+                            )}
+                        </div>
+                        <div className="max-h-96 overflow-y-auto">
+                            {alerts.length === 0 ? (
+                                <p className="px-4 py-6 text-center text-xs text-gray-500">
+                                    No alerts yet. Save a search on the Marketplace to get one when a matching card is listed.
+                                </p>
+                            ) : alerts.map(alert => (
+                                <button
+                                    key={alert.id}
+                                    onClick={() => {
+                                        alertCenter.open(alert.id);
+                                        close();
+                                    }}
+                                    className={`w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-[#222] transition-colors ${alert.read ? '' : 'bg-yc-orange/5'}`}
+                                >
+                                    {alert.image && <img src={alert.image} alt="" className="w-8 h-8 rounded-lg object-cover shrink-0" />}
+                                    <div className="min-w-0 flex-1">
+                                        <p className="text-xs font-bold text-gray-900 dark:text-white truncate">{alert.title}</p>
+                                        <p className="text-[11px] text-gray-500 line-clamp-2">{alert.body}</p>
+                                    </div>
+                                    <span className="text-[10px] text-gray-400 shrink-0">{timeAgo(alert.createdAt)}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AlertBell;
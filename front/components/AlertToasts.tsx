@@ -0,0 +1,43 @@
+import React from 'react';
+import { BellRing, X } from 'lucide-react';
+import { useMarketAlerts } from '../hooks/useSavedSearches';
+import { alertCenter } from '../lib/alerts';
+
+// Fresh saved-search alerts — top right, clear of the transaction toasts at the bottom
+const AlertToasts: React.FC = () => {
+    const toasts = useMarketAlerts().filter(a => a.toast);
+    if (toasts.length === 0) return null;
+
+    return (
+        <div className="fixed right-4 top-4 z-[70] flex flex-col gap-3 w-[calc(100%-2rem)] max-w-sm">
+            {toasts.slice(0, 3).map(alert => (
+                <div
+                    key={alert.id}
+                    onClick={() => alertCenter.open(alert.id)}
+                    className="flex items-start gap-3 p-3 rounded-xl bg-white dark:bg-[#1A1A1A] border border-yc-orange/30 shadow-lg cursor-pointer hover:border-yc-orange transition-colors animate-[slideUp_0.3s_ease-out]"
+                >
+                    {alert.image ? (
+                        <img src={alert.image} alt="" className="w-10 h-10 rounded-lg object-cover shrink-0" />
+                    ) : (
+                        <BellRing className="w-5 h-5 shrink-0 mt-0.5 text-yc-orange" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                        <p className="text-sm font-bold text-yc-text-primary dark:text-white truncate">{alert.title}</p>
+                        <p className="text-xs mt-0.5 text-gray-400 line-clamp-2">{alert.body}</p>
+                    </div>
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            alertCenter.hideToast(alert.id);
+                        }}
+                        className="p-1 rounded-lg text-gray-400 hover:text-yc-text-primary dark:hover:text-white transition-colors shrink-0"
+                    >
+                        <X size={14} />
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default AlertToasts;
@@ -1,11 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
-import { Trophy, TrendingUp, Wallet, Target, RefreshCw } from 'lucide-react';
+import { Trophy, TrendingUp, Wallet, Target, RefreshCw, Scale, Receipt, LineChart, Award } from 'lucide-react';
 import { useWalletContext } from '../context/WalletContext';
 import { useNFT } from '../hooks/useNFT';
 import { usePortfolioAnalytics, CardAnalytics } from '../hooks/usePortfolioAnalytics';
 import { CardData, RARITY_ORDER, sortByRarity } from '../types';
 import { formatXTZ } from '../lib/contracts';
+import type { CostSource } from '../lib/costBasis';
 
 const API_BASE_URL = '/api';
 
@@ -26,13 +27,27 @@ const RARITY_BG: Record<string, string> = {
     'Legendary': 'bg-yellow-500/10 border-yellow-500/20',
 };
 
+// How each held card was acquired (cost basis source)
+const COST_SOURCE_LABEL: Record<CostSource, string> = {
+    pack: 'Pack',
+    market: 'Bought',
+    merge: 'Forged',
+    unknown: 'Received',
+};
+
 interface DailyPoint {
     date: string;
     points: number;
 }
 
-const Analytics: React.FC = () => {
-    const { isConnected, address } = useWalletContext();
+interface AnalyticsProps {
+    address?: string;           // Another wallet, read-only — defaults to the connected one
+}
+
+const Analytics: React.FC<AnalyticsProps> = ({ address: viewedAddress }) => {
+    const wallet = useWalletContext();
+    const address = viewedAddress ?? wallet.address;
+    const isConnected = !!viewedAddress || wallet.isConnected;
     const { getCards } = useNFT();
     const [cards, setCards] = useState<CardData[]>([]);
     const [cardsLoading, setCardsLoading] = useState(false);
@@ -133,6 +148,23 @@ const Analytics: React.FC = () => {
         return `${val.toFixed(2)} XTZ`;
     };
 
+    // Fair-value total of the cards that have an estimate, with its band
+    const formatFairValue = (): string => {
+        if (!summary.fairValue) return '--';
+        return `${parseFloat(formatXTZ(summary.fairValue.value)).toFixed(2)} XTZ`;
+    };
+    const fairValueRange = summary.fairValue
+        ? `${parseFloat(formatXTZ(summary.fairValue.low)).toFixed(2)}–${parseFloat(formatXTZ(summary.fairValue.high)).toFixed(2)} XTZ`
+        : null;
+
+    // Signed XTZ amount for P&L figures
+    const formatPnl = (wei: bigint): string => {
+        const val = parseFloat(formatXTZ(wei < 0n ? -wei : wei));
+        return `${wei < 0n ? '-' : wei > 0n ? '+' : ''}${val.toFixed(2)} XTZ`;
+    };
+    const pnlColor = (wei: bigint | null) =>
+        wei === null || wei === 0n ? 'text-gray-500' : wei > 0n ? 'text-yc-green' : 'text-yc-red';
+
     // Sort card analytics: best performers first (by totalPoints desc)
     const sortedAnalytics = [...cardAnalytics].sort((a, b) => b.totalPoints - a.totalPoints);
     const bestPerformer = sortedAnalytics[0] || null;
@@ -162,7 +194,9 @@ const Analytics: React.FC = () => {
                     <p className="text-xl font-bold text-yc-text-primary dark:text-white">
                         {isLoading ? '...' : formatPortfolioValue()}
                     </p>
-                    <p className="text-xs text-gray-500 mt-1">{summary.totalCards} cards</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                        {summary.totalCards} cards{summary.fairValue && ` · fair value ${formatFairValue()}`}
+                    </p>
                 </div>
 
                 <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4">
@@ -203,6 +237,61 @@ const Analytics: React.FC = () => {
                 </div>
             </div>
 
+            {/* Profit & Loss */}
+            <h3 className="font-bold text-yc-text-primary dark:text-white mb-4">Profit &amp; Loss</h3>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+                <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4">
+                    <div className="flex items-center gap-2 mb-2">
+                        <Scale className="w-4 h-4 text-yc-orange" />
+                        <span className="text-gray-500 text-xs uppercase font-bold">Net P&amp;L</span>
+                    </div>
+                    <p className={`text-xl font-bold ${pnlColor(summary.netPnl)}`}>
+                        {isLoading ? '...' : formatPnl(summary.netPnl)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                        {formatXTZ(summary.totalInvested)} XTZ invested
+                        {summary.packsUnopened > 0 && ` · ${summary.packsUnopened} unopened`}
+                    </p>
+                </div>
+
+                <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4">
+                    <div className="flex items-center gap-2 mb-2">
+                        <LineChart className="w-4 h-4 text-blue-400" />
+                        <span className="text-gray-500 text-xs uppercase font-bold">Unrealized</span>
+                    </div>
+                    <p className={`text-xl font-bold ${pnlColor(summary.unrealizedPnl)}`}>
+                        {isLoading ? '...' : formatPnl(summary.unrealizedPnl)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                        {summary.pricedCards} of {summary.totalCards} cards have a floor · cost {formatXTZ(summary.costBasis)} XTZ
+                    </p>
+                </div>
+
+                <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4">
+                    <div className="flex items-center gap-2 mb-2">
+                        <Receipt className="w-4 h-4 text-purple-400" />
+                        <span className="text-gray-500 text-xs uppercase font-bold">Realized</span>
+                    </div>
+                    <p className={`text-xl font-bold ${pnlColor(summary.realizedPnl)}`}>
+                        {isLoading ? '...' : formatPnl(summary.realizedPnl)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                        {summary.cardsSold} {summary.cardsSold === 1 ? 'card' : 'cards'} sold, after fees
+                    </p>
+                </div>
+
+                <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4">
+                    <div className="flex items-center gap-2 mb-2">
+                        <Award className="w-4 h-4 text-yc-green" />
+                        <span className="text-gray-500 text-xs uppercase font-bold">Prizes Claimed</span>
+                    </div>
+                    <p className="text-xl font-bold text-yc-text-primary dark:text-white">
+                        {isLoading ? '...' : `${formatXTZ(summary.prizes)} XTZ`}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">Tournament winnings</p>
+                </div>
+            </div>
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
                 {/* Score History Chart */}
                 <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-6">
@@ -281,10 +370,19 @@ const Analytics: React.FC = () => {
                         <div>
                             <p className="text-gray-500 text-xs uppercase font-bold">Est. Portfolio Value</p>
                             <h4 className="text-xl font-bold text-yc-text-primary dark:text-white mt-1">
-                                {formatPortfolioValue()}
+                                {summary.fairValue ? formatFairValue() : formatPortfolioValue()}
                             </h4>
+                            {fairValueRange && (
+                                <p className="text-xs text-gray-500 font-mono mt-0.5">
+                                    {fairValueRange} · floor {formatPortfolioValue()}
+                                </p>
+                            )}
                         </div>
-                        <span className="text-gray-400 font-mono text-sm">Floor prices</span>
+                        <span className="text-gray-400 font-mono text-sm text-right">
+                            {summary.fairValue
+                                ? `Fair value · ${summary.fairValue.cards}/${summary.totalCards} cards`
+                                : 'Floor prices'}
+                        </span>
                     </div>
                 </div>
             </div>
@@ -295,7 +393,7 @@ const Analytics: React.FC = () => {
 
                 {cards.length === 0 ? (
                     <p className="text-gray-500 text-center py-8">
-                        {isLoading ? 'Loading cards...' : 'No cards in your portfolio'}
+                        {isLoading ? 'Loading cards...' : viewedAddress ? 'No cards in this wallet' : 'No cards in your portfolio'}
                     </p>
                 ) : (
                     <div className="overflow-x-auto">
@@ -306,6 +404,9 @@ const Analytics: React.FC = () => {
                                     <th className="text-left py-3 px-2 text-gray-500 font-bold text-xs uppercase">Rarity</th>
                                     <th className="text-right py-3 px-2 text-gray-500 font-bold text-xs uppercase">Multiplier</th>
                                     <th className="text-right py-3 px-2 text-gray-500 font-bold text-xs uppercase">Floor Price</th>
+                                    <th className="text-right py-3 px-2 text-gray-500 font-bold text-xs uppercase">Fair Value</th>
+                                    <th className="text-right py-3 px-2 text-gray-500 font-bold text-xs uppercase">Cost</th>
+                                    <th className="text-right py-3 px-2 text-gray-500 font-bold text-xs uppercase">P&amp;L</th>
                                     <th className="text-right py-3 px-2 text-gray-500 font-bold text-xs uppercase">Today</th>
                                     <th className="text-right py-3 px-2 text-gray-500 font-bold text-xs uppercase">Total Pts</th>
                                 </tr>
@@ -342,6 +443,19 @@ const Analytics: React.FC = () => {
                                             <td className="py-3 px-2 text-right font-mono text-yc-text-primary dark:text-white">
                                                 {formatFloor(a.floorPrice)}
                                             </td>
+                                            <td className="py-3 px-2 text-right font-mono text-yc-text-primary dark:text-white">
+                                                {formatFloor(a.fairValue?.value ?? null)}
+                                                {a.fairValue && (
+                                                    <span className="block text-[10px] text-gray-400 font-sans">{a.fairValue.confidence} confidence</span>
+                                                )}
+                                            </td>
+                                            <td className="py-3 px-2 text-right font-mono text-yc-text-primary dark:text-white">
+                                                {a.costSource === 'unknown' ? '--' : formatFloor(a.costBasis)}
+                                                <span className="block text-[10px] text-gray-400 font-sans">{COST_SOURCE_LABEL[a.costSource]}</span>
+                                            </td>
+                                            <td className={`py-3 px-2 text-right font-mono ${pnlColor(a.unrealizedPnl)}`}>
+                                                {a.unrealizedPnl === null ? '--' : formatPnl(a.unrealizedPnl)}
+                                            </td>
                                             <td className="py-3 px-2 text-right font-mono">
                                                 <span className={a.todayPoints > 0 ? 'text-yc-green' : 'text-gray-500'}>
                                                     {a.todayPoints > 0 ? `+${a.todayPoints.toFixed(1)}` : '0'}
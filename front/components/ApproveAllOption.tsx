@@ -0,0 +1,35 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { useMarketplaceApproval } from '../hooks/useMarketplaceApproval';
+
+interface ApproveAllOptionProps {
+    checked: boolean;
+    onChange: (checked: boolean) => void;
+    className?: string;
+}
+
+// Sell-form opt-in for operator approval — hidden once the marketplace already has it
+const ApproveAllOption: React.FC<ApproveAllOptionProps> = ({ checked, onChange, className = 'mb-4' }) => {
+    const { isApproved } = useMarketplaceApproval();
+    if (isApproved !== false) return null;
+
+    return (
+        <label className={`flex items-start gap-3 p-3 rounded-xl bg-gray-50 dark:bg-[#0A0A0A] border border-gray-200 dark:border-[#2A2A2A] cursor-pointer ${className}`}>
+            <input
+                type="checkbox"
+                checked={checked}
+                onChange={(e) => onChange(e.target.checked)}
+                className="mt-0.5 accent-yc-orange"
+            />
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+                <span className="flex items-center gap-1 font-bold text-gray-900 dark:text-white mb-0.5">
+                    <ShieldCheck className="w-3.5 h-3.5 text-yc-green" />
+                    Approve marketplace for all my cards
+                </span>
+                One approval now, no approval prompt on future listings. You can revoke it in Portfolio → Settings.
+            </span>
+        </label>
+    );
+};
+
+export default ApproveAllOption;
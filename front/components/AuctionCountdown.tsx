@@ -0,0 +1,29 @@
+import React, { useEffect, useState } from 'react';
+import { formatTimeLeft } from '../hooks/useMarketListings';
+
+interface AuctionCountdownProps {
+    endTime: bigint;
+    children: (timeLeft: string, isEnded: boolean) => React.ReactNode;
+}
+
+// Live countdown for one auction card — only this card re-renders each second, not the grid around it
+const AuctionCountdown: React.FC<AuctionCountdownProps> = ({ endTime, children }) => {
+    const [left, setLeft] = useState(() => formatTimeLeft(endTime));
+
+    useEffect(() => {
+        const tick = () => {
+            const next = formatTimeLeft(endTime);
+            setLeft(next);
+            return next.isEnded;
+        };
+        if (tick()) return;
+        const timer = setInterval(() => {
+            if (tick()) clearInterval(timer);
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [endTime]);
+
+    return <>{children(left.text, left.isEnded)}</>;
+};
+
+export default AuctionCountdown;
@@ -1,7 +1,10 @@
 import React from 'react';
-import { X, Share2, Calendar, Star, Hash, Layers, ExternalLink, TrendingUp, Building2, Zap } from 'lucide-react';
+import { X, Share2, Calendar, Star, Hash, Layers, ExternalLink, TrendingUp, Building2, Zap, Send } from 'lucide-react';
 import { CardData, Rarity } from '../types';
 import { STARTUPS, EXPLORER_URL, CONTRACTS } from '../lib/contracts';
+import { RoutePaths, shareUrl } from '../lib/router';
+import ProvenanceTimeline from './ProvenanceTimeline';
+import PriceHistoryChart from './PriceHistoryChart';
 
 export interface CardDetailData {
     id: string;
@@ -18,6 +21,7 @@ interface CardDetailModalProps {
     data: CardDetailData | null;
     cardData?: CardData | null;
     onClose: () => void;
+    onSend?: () => void;        // Owner view only — opens the transfer flow
 }
 
 const RARITY_COLORS: Record<string, string> = {
@@ -27,7 +31,7 @@ const RARITY_COLORS: Record<string, string> = {
     Common: 'bg-gray-500/10 text-gray-400 border-gray-500/30',
 };
 
-const CardDetailModal: React.FC<CardDetailModalProps> = ({ data, cardData, onClose }) => {
+const CardDetailModal: React.FC<CardDetailModalProps> = ({ data, cardData, onClose, onSend }) => {
     if (!data && !cardData) return null;
 
     const displayData = cardData || data;
@@ -54,6 +58,22 @@ const CardDetailModal: React.FC<CardDetailModalProps> = ({ data, cardData, onClo
 
     const rarityStyle = RARITY_COLORS[rarity] || RARITY_COLORS.Common;
 
+    // Share sheet on mobile, clipboard elsewhere
+    const handleShare = async () => {
+        if (tokenId === undefined) return;
+        const url = shareUrl(RoutePaths.card(tokenId));
+        try {
+            if (navigator.share) {
+                await navigator.share({ title: displayData.name, url });
+            } else {
+                await navigator.clipboard.writeText(url);
+                alert('Link copied to clipboard');
+            }
+        } catch {
+            // Share sheet dismissed
+        }
+    };
+
     return (
         <div className="fixed inset-0 z-[60] flex items-end md:items-center justify-center bg-black/60 backdrop-blur-sm md:p-4" onClick={onClose}>
             <div
@@ -107,7 +127,11 @@ const CardDetailModal: React.FC<CardDetailModalProps> = ({ data, cardData, onClo
                         </div>
                     </div>
                     <div className="flex gap-1 shrink-0 ml-2">
-                        <button className="p-1.5 md:p-2 text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors">
+                        <button
+                            onClick={handleShare}
+                            disabled={tokenId === undefined}
+                            className="p-1.5 md:p-2 text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors disabled:opacity-40"
+                        >
                             <Share2 className="w-4 h-4 md:w-5 md:h-5" />
                         </button>
                         <button
@@ -184,6 +208,22 @@ const CardDetailModal: React.FC<CardDetailModalProps> = ({ data, cardData, onClo
                                 </span>
                             )}
                         </div>
+
+                        {/* Market price history */}
+                        {startupId !== undefined && (
+                            <div className="mt-4 md:mt-8">
+                                <h3 className="text-sm font-semibold text-gray-900 dark:text-white uppercase tracking-wider mb-2 md:mb-3">Price History</h3>
+                                <PriceHistoryChart startupId={startupId} rarity={String(rarity)} />
+                            </div>
+                        )}
+
+                        {/* Provenance */}
+                        {tokenId !== undefined && (
+                            <div className="mt-4 md:mt-8">
+                                <h3 className="text-sm font-semibold text-gray-900 dark:text-white uppercase tracking-wider mb-2 md:mb-3">Provenance</h3>
+                                <ProvenanceTimeline tokenId={tokenId} />
+                            </div>
+                        )}
                     </div>
 
                     {/* Right Column: Funding & Links */}
@@ -219,6 +259,16 @@ const CardDetailModal: React.FC<CardDetailModalProps> = ({ data, cardData, onClo
                         {/* Actions */}
                         <div className="p-4 md:p-6">
                             <div className="space-y-3">
+                                {onSend && (
+                                    <button
+                                        onClick={onSend}
+                                        disabled={isLocked}
+                                        title={isLocked ? 'Locked cards can’t be sent' : undefined}
+                                        className="w-full py-3.5 px-4 bg-yc-orange text-white rounded-lg font-bold text-sm hover:bg-orange-600 transition-colors flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed"
+                                    >
+                                        <Send className="w-4 h-4 mr-2" /> Send to Wallet
+                                    </button>
+                                )}
                                 {tokenId !== undefined && (
                                     <a
                                         href={`${EXPLORER_URL}/token/${CONTRACTS.UnicornX_NFT}/instance/${tokenId}`}
@@ -0,0 +1,109 @@
+import React from 'react';
+import { CheckCircle, Layers } from 'lucide-react';
+import type { MintStats, RaritySet } from '../lib/collection';
+import { navigate, RoutePaths } from '../lib/router';
+
+interface CollectionTrackerProps {
+    sets: RaritySet[];
+    mintStats?: MintStats;
+}
+
+const TIER_STYLE: Record<string, { text: string; bar: string }> = {
+    'Common': { text: 'text-gray-400', bar: 'bg-gray-400' },
+    'Rare': { text: 'text-green-500', bar: 'bg-green-500' },
+    'Epic': { text: 'text-violet-500', bar: 'bg-violet-500' },
+    'EpicRare': { text: 'text-purple-500', bar: 'bg-purple-500' },
+    'Legendary': { text: 'text-orange-500', bar: 'bg-orange-500' },
+};
+
+const MAX_EDITION_CHIPS = 6;
+
+// Set progress across all startups — owned editions per startup, unowned ones greyed out
+const CollectionTracker: React.FC<CollectionTrackerProps> = ({ sets, mintStats }) => {
+    const startupCount = sets.reduce((sum, s) => sum + s.startups.length, 0);
+    const startupsHeld = sets.reduce((sum, s) => sum + s.owned, 0);
+
+    return (
+        <div className="space-y-6">
+            {/* Summary */}
+            <div className="flex flex-wrap items-end justify-between gap-3">
+                <div>
+                    <h3 className="text-lg font-bold text-yc-text-primary dark:text-white flex items-center gap-2">
+                        <Layers className="w-5 h-5 text-yc-orange" />
+                        Collection
+                    </h3>
+                    <p className="text-sm text-gray-500">{startupsHeld} / {startupCount} startups collected</p>
+                </div>
+                {mintStats && (
+                    <p className="text-xs text-gray-500 font-mono">
+                        {(mintStats.maxSupply - mintStats.totalSupply).toLocaleString()} of {mintStats.maxSupply.toLocaleString()} cards left to mint
+                    </p>
+                )}
+            </div>
+
+            {sets.map(set => {
+                const style = TIER_STYLE[set.rarity] ?? TIER_STYLE['Common'];
+                return (
+                    <div key={set.rarity} className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-2xl p-4 md:p-6">
+                        {/* Tier header */}
+                        <div className="flex items-center justify-between mb-2">
+                            <h4 className={`font-black uppercase tracking-wider text-sm flex items-center gap-1.5 ${style.text}`}>
+                                {set.rarity} Set
+                                {set.complete && <CheckCircle className="w-4 h-4" />}
+                            </h4>
+                            <span className="text-sm font-mono text-gray-500">{set.owned} / {set.startups.length}</span>
+                        </div>
+                        <div className="h-1.5 rounded-full bg-gray-100 dark:bg-[#1A1A1A] overflow-hidden mb-4">
+                            <div className={`h-full ${style.bar} transition-all`} style={{ width: `${(set.owned / set.startups.length) * 100}%` }} />
+                        </div>
+
+                        {/* Startups */}
+                        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2 md:gap-3">
+                            {set.startups.map(startup => {
+                                const owned = startup.editions.length > 0;
+                                return (
+                                    <div
+                                        key={startup.startupId}
+                                        onClick={owned ? () => navigate(RoutePaths.card(startup.tokenIds[0])) : undefined}
+                                        className={`rounded-xl border p-2 transition-all ${owned
+                                            ? 'border-gray-200 dark:border-[#2A2A2A] cursor-pointer hover:border-yc-orange'
+                                            : 'border-dashed border-gray-200 dark:border-[#2A2A2A]'
+                                            }`}
+                                    >
+                                        <img
+                                            src={`/images/${startup.startupId}.png`}
+                                            alt={startup.name}
+                                            className={`w-full aspect-square object-cover rounded-lg mb-2 ${owned ? '' : 'grayscale opacity-30'}`}
+                                        />
+                                        <p className="text-xs font-bold text-gray-900 dark:text-white truncate">{startup.name}</p>
+                                        <p className="text-[10px] text-gray-500 font-mono">
+                                            {startup.minted !== null ? `${startup.minted.toLocaleString()} minted` : '…'}
+                                        </p>
+                                        {owned ? (
+                                            <div className="flex flex-wrap gap-1 mt-1.5">
+                                                {startup.editions.slice(0, MAX_EDITION_CHIPS).map((edition, i) => (
+                                                    <span key={startup.tokenIds[i]} className="px-1.5 py-0.5 rounded bg-yc-orange/10 text-yc-orange text-[10px] font-mono font-bold">
+                                                        #{edition}
+                                                    </span>
+                                                ))}
+                                                {startup.editions.length > MAX_EDITION_CHIPS && (
+                                                    <span className="px-1.5 py-0.5 text-[10px] text-gray-500 font-mono">
+                                                        +{startup.editions.length - MAX_EDITION_CHIPS}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        ) : (
+                                            <p className="text-[10px] text-gray-400 mt-1.5">Not collected</p>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default CollectionTracker;
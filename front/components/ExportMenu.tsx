@@ -0,0 +1,111 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Loader2, FileJson, FileSpreadsheet } from 'lucide-react';
+import { useWalletContext } from '../context/WalletContext';
+import { useNFT } from '../hooks/useNFT';
+import {
+    buildPortfolioExport,
+    downloadFile,
+    exportFilename,
+    toCsv,
+    EXPORT_SECTIONS,
+    type ExportSection,
+    type PortfolioExport,
+} from '../lib/export';
+
+interface ExportMenuProps {
+    className?: string;
+}
+
+const REUSE_FOR = 60 * 1000;     // Several downloads in a row share one history scan
+
+// Download button for holdings and on-chain history — JSON with everything, or one CSV per section
+const ExportMenu: React.FC<ExportMenuProps> = ({ className = '' }) => {
+    const { address, isConnected } = useWalletContext();
+    const { getCards } = useNFT();
+    const [isOpen, setIsOpen] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const built = useRef<{ data: PortfolioExport; at: number } | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+        const onClick = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', onClick);
+        return () => document.removeEventListener('mousedown', onClick);
+    }, [isOpen]);
+
+    // Another wallet, another export
+    useEffect(() => {
+        built.current = null;
+    }, [address]);
+
+    if (!isConnected || !address) return null;
+
+    const load = async (): Promise<PortfolioExport> => {
+        if (built.current && Date.now() - built.current.at < REUSE_FOR) return built.current.data;
+        const cards = await getCards(address);
+        const data = await buildPortfolioExport(address, cards);
+        built.current = { data, at: Date.now() };
+        return data;
+    };
+
+    const handleExport = async (section: ExportSection | 'all') => {
+        setIsOpen(false);
+        setIsExporting(true);
+        try {
+            const data = await load();
+            if (section === 'all') {
+                downloadFile(exportFilename(data, 'all', 'json'), JSON.stringify(data, null, 2), 'application/json');
+            } else if (data[section].length === 0) {
+                alert(`Nothing to export — no ${EXPORT_SECTIONS.find(s => s.id === section)!.label.toLowerCase()} yet.`);
+            } else {
+                downloadFile(exportFilename(data, section, 'csv'), toCsv(data[section]), 'text/csv');
+            }
+        } catch (e: any) {
+            alert(`Export failed: ${e.message || 'could not read the chain history'}`);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div ref={menuRef} className={`relative ${className}`}>
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                disabled={isExporting}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 dark:border-[#2A2A2A] bg-white dark:bg-[#121212] text-sm font-bold text-gray-600 dark:text-gray-300 hover:border-yc-orange hover:text-yc-orange transition-colors disabled:opacity-60"
+            >
+                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                {isExporting ? 'Preparing…' : 'Export'}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-56 z-40 bg-white dark:bg-[#1A1A1A] border border-gray-200 dark:border-[#2A2A2A] rounded-xl shadow-xl py-1 animate-[fadeIn_0.15s]">
+                    <button
+                        onClick={() => handleExport('all')}
+                        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-white/5"
+                    >
+                        <FileJson className="w-4 h-4 text-yc-orange" />
+                        Everything (JSON)
+                    </button>
+                    <p className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-400 border-t border-gray-100 dark:border-[#2A2A2A] mt-1">CSV</p>
+                    {EXPORT_SECTIONS.map(({ id, label }) => (
+                        <button
+                            key={id}
+                            onClick={() => handleExport(id)}
+                            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-white/5"
+                        >
+                            <FileSpreadsheet className="w-4 h-4 text-yc-green" />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { compareToFairValue, formatEstimate, FAIR_TOLERANCE, type FairValue } from '../lib/fairValue';
+
+interface FairValueBadgeProps {
+    price: bigint;
+    estimate?: FairValue;
+    className?: string;
+}
+
+// "12% below fair value" — green under the estimate, red over it, grey inside the tolerance
+const FairValueBadge: React.FC<FairValueBadgeProps> = ({ price, estimate, className = '' }) => {
+    if (!estimate) return null;
+
+    const diff = compareToFairValue(price, estimate);
+    const fair = Math.abs(diff) < FAIR_TOLERANCE;
+    const color = fair ? 'text-gray-500' : diff < 0 ? 'text-yc-green' : 'text-red-500';
+    const label = fair
+        ? 'Fair price'
+        : `${Math.abs(diff).toFixed(0)}% ${diff < 0 ? 'below' : 'above'} fair value`;
+
+    return (
+        <p
+            className={`font-bold ${color} ${className}`}
+            title={`Fair value ${formatEstimate(estimate.value)} XTZ (${formatEstimate(estimate.low)}–${formatEstimate(estimate.high)}), ${estimate.confidence} confidence`}
+        >
+            {label}
+        </p>
+    );
+};
+
+export default FairValueBadge;
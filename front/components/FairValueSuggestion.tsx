@@ -0,0 +1,43 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { formatEstimate, type FairValue } from '../lib/fairValue';
+
+interface FairValueSuggestionProps {
+    estimate?: FairValue;
+    onUse: (price: string) => void;
+}
+
+const CONFIDENCE_COLOR: Record<FairValue['confidence'], string> = {
+    high: 'text-yc-green',
+    medium: 'text-yellow-500',
+    low: 'text-gray-500',
+};
+
+// Price suggestion under a sell form — the estimate, its band, and a one-click fill
+const FairValueSuggestion: React.FC<FairValueSuggestionProps> = ({ estimate, onUse }) => {
+    if (!estimate) return null;
+
+    const suggested = formatEstimate(estimate.value);
+    return (
+        <div className="flex items-center gap-2 mt-2 p-2.5 rounded-lg bg-yc-orange/5 border border-yc-orange/20 text-xs">
+            <Sparkles className="w-3.5 h-3.5 text-yc-orange shrink-0" />
+            <div className="flex-1 min-w-0">
+                <p className="text-gray-900 dark:text-white font-bold">Suggested {suggested} XTZ</p>
+                <p className="text-gray-500">
+                    Range {formatEstimate(estimate.low)}–{formatEstimate(estimate.high)} XTZ ·{' '}
+                    <span className={CONFIDENCE_COLOR[estimate.confidence]}>{estimate.confidence} confidence</span>
+                    {' '}· {estimate.sales} recent sale{estimate.sales === 1 ? '' : 's'}
+                </p>
+            </div>
+            <button
+                type="button"
+                onClick={() => onUse(suggested)}
+                className="px-2.5 py-1 rounded-md bg-yc-orange text-white font-bold hover:bg-yc-orange/90 transition-colors"
+            >
+                Use
+            </button>
+        </div>
+    );
+};
+
+export default FairValueSuggestion;
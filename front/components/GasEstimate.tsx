@@ -0,0 +1,42 @@
+import React from 'react';
+import { Loader2, AlertTriangle, Fuel } from 'lucide-react';
+import { formatCost, type PreflightResult } from '../lib/preflight';
+
+interface GasEstimateProps {
+    result: PreflightResult | null;
+    isChecking: boolean;
+    className?: string;
+}
+
+// Pre-flight line under a confirm button: estimated fee + total, or why the call would revert
+const GasEstimate: React.FC<GasEstimateProps> = ({ result, isChecking, className = '' }) => {
+    if (isChecking) {
+        return (
+            <p className={`flex items-center gap-1.5 text-xs text-gray-400 ${className}`}>
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Simulating transaction…
+            </p>
+        );
+    }
+    if (!result) return null;
+
+    if (!result.ok) {
+        return (
+            <p className={`flex items-start gap-1.5 text-xs text-red-500 ${className}`}>
+                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+                {result.error}
+            </p>
+        );
+    }
+
+    const { gasCost, value, total } = result.quote;
+    return (
+        <p className={`flex items-center gap-1.5 text-xs text-gray-400 ${className}`}>
+            <Fuel className="w-3 h-3 shrink-0" />
+            Est. gas ≈ {formatCost(gasCost)} XTZ
+            {value > 0n && <span className="font-medium">· Total ≈ {formatCost(total)} XTZ</span>}
+        </p>
+    );
+};
+
+export default GasEstimate;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Trophy, Users, Clock, Info, GripVertical, X, CheckCircle, ArrowRight, Shield, Zap, Wallet, RefreshCw, Gift, ChevronDown, Loader2 } from 'lucide-react';
-import { CardData, sortByRarity } from '../types';
+import { Trophy, Users, Clock, Info, GripVertical, X, CheckCircle, ArrowRight, Shield, Zap, Wallet, RefreshCw, Gift, ChevronDown, Loader2, Link2 } from 'lucide-react';
+import { CardData, NavSection, sortByRarity } from '../types';
 import { useWalletContext } from '../context/WalletContext';
 import { useNFT } from '../hooks/useNFT';
 import { useTournament, Tournament } from '../hooks/useTournament';
@@ -8,9 +8,13 @@ import { useLeaderboard, usePlayerRank } from '../hooks/useLeaderboard';
 import { formatXTZ } from '../lib/contracts';
 import { generatePixelAvatar } from '../lib/pixelAvatar';
 import { blockchainCache, CacheKeys } from '../lib/cache';
+import { useRoute, navigate, updateQuery, shareUrl, RoutePaths } from '../lib/router';
 import gsap from 'gsap';
 import { useOnboarding } from '../hooks/useOnboarding';
+import { usePreflight } from '../hooks/usePreflight';
+import { useOnline } from '../hooks/useOnline';
 import OnboardingGuide, { OnboardingStep } from './OnboardingGuide';
+import GasEstimate from './GasEstimate';
 
 const LEAGUES_GUIDE: OnboardingStep[] = [
     {
@@ -98,13 +102,20 @@ const Leagues: React.FC = () => {
     const [aiOverlayOpen, setAiOverlayOpen] = useState(true);
     const containerRef = useRef<HTMLDivElement>(null);
 
+    // /tournament/:id pins a tournament, otherwise the active one; ?player= expands a leaderboard row
+    const route = useRoute();
+    const routedTournamentId = route.tournamentId;
+    const routedPlayer = route.query.get('player')?.toLowerCase() || null;
+
     // Hooks
     const { isConnected, address, getSigner, connect } = useWalletContext();
+    const online = useOnline();
     const { getCards, clearCache, isLoading: nftLoading } = useNFT();
     const { isVisible: showGuide, currentStep: guideStep, nextStep: guideNext, dismiss: guideDismiss } = useOnboarding('leagues');
     const {
         getActiveTournamentId: fetchActiveTournamentId,
         getTournament,
+        simulateEnterTournament,
         enterTournament,
         hasEntered,
         canRegister,
@@ -114,18 +125,36 @@ const Leagues: React.FC = () => {
         isLoading: tournamentLoading
     } = useTournament();
 
+    // Pre-flight the lineup once all 5 slots are filled — locked/unowned cards show before signing
+    const lineupTokenIds = deck.every(Boolean) ? deck.map(c => c!.tokenId) as [number, number, number, number, number] : null;
+    const lineupCheck = usePreflight(
+        lineupTokenIds && address && activeTournamentId > 0 && submissionState === 'idle'
+            ? () => simulateEnterTournament(activeTournamentId, lineupTokenIds, address)
+            : null,
+        [lineupTokenIds?.join(','), address, activeTournamentId, submissionState, simulateEnterTournament]
+    );
+    const lineupWouldFail = lineupCheck.result?.ok === false;
+
     // Load tournament and user cards
     useEffect(() => {
         loadTournamentData();
-    }, [isConnected, address]);
+    }, [isConnected, address, routedTournamentId]);
 
     const loadTournamentData = async () => {
-        // Get active tournament ID from PackOpener
-        const activeId = await fetchActiveTournamentId();
+        // Linked tournament, else the active tournament ID from PackOpener
+        const activeId = routedTournamentId ?? await fetchActiveTournamentId();
         setActiveTournamentId(activeId);
+        setHasUserEntered(false);
+        setUserPrize(0n);
+        setHasClaimed(false);
 
         if (activeId > 0) {
             const tournament = await getTournament(activeId);
+            if (!tournament && routedTournamentId !== undefined) {
+                alert(`Tournament #${routedTournamentId} not found`);
+                navigate(RoutePaths.section(NavSection.LEAGUES), { replace: true });
+                return;
+            }
             if (tournament) {
                 setActiveTournament(tournament);
 
@@ -289,6 +318,7 @@ const Leagues: React.FC = () => {
             }, containerRef);
         } else {
             setSubmissionState('idle');
+            if (result.error) alert(result.error);
         }
     };
 
@@ -310,6 +340,8 @@ const Leagues: React.FC = () => {
                 clearCache();
                 getCards(address, true);
             }
+        } else if (result.error) {
+            alert(result.error);
         }
         setIsClaiming(false);
     };
@@ -331,14 +363,13 @@ const Leagues: React.FC = () => {
         return `${minutes}m`;
     };
 
+    // Expanding a row puts the player in the URL — the route effect below loads the squad
+    const togglePlayerSquad = (playerAddress: string) => {
+        updateQuery({ player: expandedPlayer === playerAddress ? null : playerAddress.toLowerCase() });
+    };
+
     // Fetch a player's squad cards
-    const togglePlayerSquad = async (playerAddress: string) => {
-        if (expandedPlayer === playerAddress) {
-            setExpandedPlayer(null);
-            setSquadCards([]);
-            setSquadScores({});
-            return;
-        }
+    const loadPlayerSquad = async (playerAddress: string) => {
         setExpandedPlayer(playerAddress);
         setSquadCards([]);
         setSquadScores({});
@@ -360,6 +391,32 @@ const Leagues: React.FC = () => {
         setSquadLoading(false);
     };
 
+    // ?player= — expand that row once the leaderboard has it, and scroll it into view
+    useEffect(() => {
+        if (!routedPlayer) {
+            setExpandedPlayer(null);
+            setSquadCards([]);
+            setSquadScores({});
+            return;
+        }
+        const player = leaderboardData.find(p => p.address.toLowerCase() === routedPlayer);
+        if (!player || expandedPlayer === player.address) return;
+        loadPlayerSquad(player.address);
+        requestAnimationFrame(() => {
+            document.querySelector(`[data-player="${player.address}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        });
+    }, [routedPlayer, leaderboardData, activeTournamentId]);
+
+    const copyLeaderboardLink = async () => {
+        const url = shareUrl(RoutePaths.tournament(activeTournamentId));
+        try {
+            await navigator.clipboard.writeText(url);
+            alert('Leaderboard link copied to clipboard');
+        } catch {
+            alert(url);
+        }
+    };
+
     // Calculate time remaining based on phase
     const getTimeInfo = () => {
         if (!activeTournament) return { label: 'No Tournament', value: '-' };
@@ -491,7 +548,7 @@ const Leagues: React.FC = () => {
 
                             {/* Submit Button - desktop only (below slots) */}
                             <button
-                                disabled={deck.includes(null) || submissionState !== 'idle'}
+                                disabled={deck.includes(null) || submissionState !== 'idle' || lineupWouldFail}
                                 onClick={handleSubmit}
                                 className={`
                                     mt-3 w-full py-2.5 sm:py-3 rounded-lg font-black text-xs sm:text-sm uppercase tracking-wider transition-all hidden sm:flex items-center justify-center
@@ -511,6 +568,7 @@ const Leagues: React.FC = () => {
                                     </>
                                 )}
                             </button>
+                            <GasEstimate result={lineupCheck.result} isChecking={lineupCheck.isChecking} className="mt-2 hidden sm:flex" />
                         </div>
 
                         {/* Available Cards - full width on mobile */}
@@ -587,7 +645,7 @@ const Leagues: React.FC = () => {
 
                         {/* Submit Button - mobile only (after available cards) */}
                         <button
-                            disabled={deck.includes(null) || submissionState !== 'idle'}
+                            disabled={deck.includes(null) || submissionState !== 'idle' || lineupWouldFail}
                             onClick={handleSubmit}
                             className={`
                                 sm:hidden w-full py-3 rounded-lg font-black text-sm uppercase tracking-wider transition-all flex items-center justify-center
@@ -607,6 +665,7 @@ const Leagues: React.FC = () => {
                                 </>
                             )}
                         </button>
+                        <GasEstimate result={lineupCheck.result} isChecking={lineupCheck.isChecking} className="sm:hidden" />
 
                     {/* UnicornX AI — Overlay (open) */}
                     {aiRecommendation && aiRecommendation.source !== 'insufficient_cards' && aiOverlayOpen && (
@@ -730,6 +789,14 @@ const Leagues: React.FC = () => {
                                 <CheckCircle size={10} className="mr-1" /> Entered
                             </span>
                         )}
+                        {routedTournamentId !== undefined && (
+                            <button
+                                onClick={() => navigate(RoutePaths.section(NavSection.LEAGUES))}
+                                className="px-2 py-0.5 border border-gray-400 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:text-yc-orange hover:border-yc-orange text-[10px] font-bold uppercase rounded transition-colors"
+                            >
+                                Current tournament
+                            </button>
+                        )}
                     </div>
                     <h2 className="text-2xl sm:text-4xl font-black text-gray-900 dark:text-white mb-3 sm:mb-4 uppercase tracking-tighter">Global UnicornX League</h2>
                     <p className="text-sm sm:text-base text-gray-600 dark:text-gray-400 mb-4 sm:mb-6 leading-relaxed">
@@ -769,8 +836,8 @@ const Leagues: React.FC = () => {
                         ) : userPrize > 0n ? (
                             <button
                                 onClick={handleClaimPrize}
-                                disabled={isClaiming}
-                                className="bg-yellow-500 hover:bg-yellow-600 text-black px-5 sm:px-8 py-2.5 sm:py-3 rounded-lg font-black text-xs sm:text-sm uppercase tracking-wide transition-all flex items-center shadow-lg"
+                                disabled={isClaiming || !online}
+                                className="bg-yellow-500 hover:bg-yellow-600 text-black px-5 sm:px-8 py-2.5 sm:py-3 rounded-lg font-black text-xs sm:text-sm uppercase tracking-wide transition-all flex items-center shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 {isClaiming ? (
                                     <span className="animate-pulse">Claiming...</span>
@@ -810,6 +877,11 @@ const Leagues: React.FC = () => {
                 <h3 className="font-bold text-lg sm:text-xl text-yc-text-primary dark:text-white flex items-center">
                     Live Leaderboard
                     {leaderboardLoading && <RefreshCw className="w-4 h-4 ml-2 animate-spin text-gray-400" />}
+                    {activeTournamentId > 0 && (
+                        <button onClick={copyLeaderboardLink} title="Copy leaderboard link" className="ml-2 text-gray-400 hover:text-yc-orange transition-colors">
+                            <Link2 className="w-4 h-4" />
+                        </button>
+                    )}
                 </h3>
                 {playerRank && (
                     <div className="text-xs sm:text-sm">
@@ -837,7 +909,7 @@ const Leagues: React.FC = () => {
                             const isCurrentUser = address && player.address.toLowerCase() === address.toLowerCase();
                             const isExpanded = expandedPlayer === player.address;
                             return (
-                                <div key={player.address}>
+                                <div key={player.address} data-player={player.address}>
                                     <div
                                         onClick={() => togglePlayerSquad(player.address)}
                                         className={`flex items-center px-3 sm:px-5 py-3 hover:bg-gray-50 dark:hover:bg-[#1A1A1A] transition-colors cursor-pointer ${isCurrentUser ? 'bg-yc-orange/5' : ''} ${isExpanded ? 'bg-gray-50 dark:bg-[#1A1A1A]' : ''}`}
@@ -906,7 +978,11 @@ const Leagues: React.FC = () => {
                                                         const startupId = STARTUP_ID_BY_NAME[card.name] || 1;
                                                         const scoreData = squadScores[card.name];
                                                         return (
-                                                            <div key={card.tokenId} className="flex flex-col items-center">
+                                                            <div
+                                                                key={card.tokenId}
+                                                                onClick={() => navigate(RoutePaths.card(card.tokenId))}
+                                                                className="flex flex-col items-center cursor-pointer"
+                                                            >
                                                                 <div className="relative w-full aspect-[3/4] rounded-lg overflow-hidden border border-gray-200 dark:border-[#2A2A2A] bg-white dark:bg-[#121212]">
                                                                     <img
                                                                         src={`/images/${startupId}.png`}
@@ -928,6 +1004,12 @@ const Leagues: React.FC = () => {
                                                     })}
                                                 </div>
                                             )}
+                                            <button
+                                                onClick={() => navigate(RoutePaths.player(player.address))}
+                                                className="mt-3 w-full text-xs font-bold text-gray-500 hover:text-yc-orange transition-colors flex items-center justify-center"
+                                            >
+                                                View full profile <ArrowRight className="w-3 h-3 ml-1" />
+                                            </button>
                                         </div>
                                     )}
                                 </div>
@@ -0,0 +1,141 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+import { STARTUPS } from '../lib/contracts';
+import { LISTED_WITHIN_HOURS, countActiveFilters, type MarketFilters } from '../lib/marketFilters';
+import type { SellerLookup } from '../hooks/useMarketFilters';
+
+interface MarketFilterPanelProps {
+    filters: MarketFilters;
+    seller: SellerLookup;
+    onChange: (changes: Partial<MarketFilters>) => void;
+    onClear: () => void;
+}
+
+const STARTUP_OPTIONS = Object.entries(STARTUPS).sort(([, a], [, b]) => a.name.localeCompare(b.name));
+const MULTIPLIERS = [...new Set(Object.values(STARTUPS).map(s => s.multiplier))].sort((a, b) => a - b);
+
+const withinLabel = (hours: number) => (hours < 24 ? `${hours}h` : `${hours / 24}d`);
+
+const inputClass = 'w-full min-w-0 bg-white dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-lg px-3 py-2 text-xs md:text-sm text-gray-900 dark:text-white focus:outline-none focus:border-yc-orange placeholder-gray-400';
+const labelClass = 'text-[10px] md:text-xs font-bold text-gray-400 uppercase';
+
+const toNumber = (value: string) => (value ? Number(value) : null);
+
+// Advanced Marketplace filters — every field writes straight to the URL query
+const MarketFilterPanel: React.FC<MarketFilterPanelProps> = ({ filters, seller, onChange, onClear }) => (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-3 md:p-4 bg-gray-50 dark:bg-[#0f0f0f] border border-gray-200 dark:border-[#2A2A2A] rounded-xl">
+        {/* Card */}
+        <label className="flex flex-col gap-1">
+            <span className={labelClass}>Startup</span>
+            <select
+                value={filters.startupId ?? ''}
+                onChange={(e) => onChange({ startupId: toNumber(e.target.value) })}
+                className={inputClass}
+            >
+                <option value="">Any startup</option>
+                {STARTUP_OPTIONS.map(([id, s]) => <option key={id} value={id}>{s.name}</option>)}
+            </select>
+        </label>
+        <label className="flex flex-col gap-1">
+            <span className={labelClass}>Multiplier</span>
+            <select
+                value={filters.minMultiplier ?? ''}
+                onChange={(e) => onChange({ minMultiplier: toNumber(e.target.value) })}
+                className={inputClass}
+            >
+                <option value="">Any multiplier</option>
+                {MULTIPLIERS.map(m => <option key={m} value={m}>{m}x or more</option>)}
+            </select>
+        </label>
+        <div className="flex flex-col gap-1">
+            <span className={labelClass}>Edition</span>
+            <div className="flex items-center gap-1.5">
+                <input
+                    type="number"
+                    min="1"
+                    placeholder="From"
+                    value={filters.editionMin ?? ''}
+                    onChange={(e) => onChange({ editionMin: toNumber(e.target.value) })}
+                    className={`${inputClass} font-mono`}
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                    type="number"
+                    min="1"
+                    placeholder="To"
+                    value={filters.editionMax ?? ''}
+                    onChange={(e) => onChange({ editionMax: toNumber(e.target.value) })}
+                    className={`${inputClass} font-mono`}
+                />
+            </div>
+        </div>
+        <div className="flex flex-col gap-1">
+            <span className={labelClass}>Price (XTZ)</span>
+            <div className="flex items-center gap-1.5">
+                <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Min"
+                    value={filters.priceMin ?? ''}
+                    onChange={(e) => onChange({ priceMin: e.target.value || null })}
+                    className={`${inputClass} font-mono`}
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Max"
+                    value={filters.priceMax ?? ''}
+                    onChange={(e) => onChange({ priceMax: e.target.value || null })}
+                    className={`${inputClass} font-mono`}
+                />
+            </div>
+        </div>
+
+        {/* Seller and age */}
+        <label className="col-span-2 flex flex-col gap-1">
+            <span className={labelClass}>Seller</span>
+            <input
+                type="text"
+                placeholder="Wallet address or username"
+                value={filters.seller ?? ''}
+                onChange={(e) => onChange({ seller: e.target.value || null })}
+                className={inputClass}
+            />
+            {seller.status === 'loading' && (
+                <span className="flex items-center gap-1 text-[10px] md:text-xs text-gray-400">
+                    <Loader2 className="w-3 h-3 animate-spin" /> Looking up player...
+                </span>
+            )}
+            {seller.status === 'found' && seller.wallets.size > 1 && (
+                <span className="text-[10px] md:text-xs text-gray-400">{seller.wallets.size} players share this name — showing all of them</span>
+            )}
+            {seller.status === 'error' && <span className="text-[10px] md:text-xs text-red-400">{seller.message}</span>}
+        </label>
+        <label className="flex flex-col gap-1">
+            <span className={labelClass}>Listed within</span>
+            <select
+                value={filters.listedWithin ?? ''}
+                onChange={(e) => onChange({ listedWithin: toNumber(e.target.value) })}
+                className={inputClass}
+            >
+                <option value="">Any time</option>
+                {LISTED_WITHIN_HOURS.map(h => <option key={h} value={h}>Last {withinLabel(h)}</option>)}
+            </select>
+        </label>
+        <div className="flex items-end">
+            <button
+                onClick={onClear}
+                disabled={countActiveFilters(filters) === 0}
+                className="w-full flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-xs md:text-sm font-bold text-gray-500 hover:text-yc-orange disabled:opacity-40 disabled:hover:text-gray-500 transition-colors"
+            >
+                <X className="w-3.5 h-3.5" />
+                Clear filters
+            </button>
+        </div>
+    </div>
+);
+
+export default MarketFilterPanel;
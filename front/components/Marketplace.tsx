@@ -1,14 +1,35 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Search, ShoppingCart, Loader2, Gavel, Clock, Tag, X, User, Activity, DollarSign, History, Plus } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Search, ShoppingCart, Loader2, Gavel, Clock, Tag, X, User, Activity, DollarSign, History, Plus, ScrollText, Link2, Layers, BellRing, LayoutGrid, SlidersHorizontal, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useMarketplaceV2, Listing, Auction, Bid } from '../hooks/useMarketplaceV2';
 import { useNFT } from '../hooks/useNFT';
 import { useWalletContext } from '../context/WalletContext';
-import { usePollingData } from '../hooks/usePollingData';
-import { formatXTZ } from '../lib/contracts';
+import { formatXTZ, STARTUPS } from '../lib/contracts';
+import { describeError, decodeRevert, isUserRejection } from '../lib/errors';
+import { formatQuote } from '../lib/preflight';
+import type { SweepResult } from '../lib/sweep';
+import type { SavedSearch } from '../lib/savedSearches';
+import { filterMarket, sortMarket, countActiveFilters, filterQuery, EMPTY_FILTERS, type MarketSort } from '../lib/marketFilters';
 import { blockchainCache, CacheKeys } from '../lib/cache';
+import { useRoute, navigate, goBack, updateQuery, shareUrl, RoutePaths } from '../lib/router';
 import { CardData, Rarity, sortByRarity } from '../types';
 import { useOnboarding } from '../hooks/useOnboarding';
+import { usePreflight } from '../hooks/usePreflight';
+import { useOnline } from '../hooks/useOnline';
+import { useActiveListings, useActiveAuctions, formatTimeLeft, listingItem, auctionItem, type ListingWithMeta, type AuctionWithMeta } from '../hooks/useMarketListings';
+import { useMarketFilters } from '../hooks/useMarketFilters';
+import { usePagedList } from '../hooks/usePagedList';
+import { useFairValues } from '../hooks/useFairValue';
 import OnboardingGuide, { OnboardingStep } from './OnboardingGuide';
+import GasEstimate from './GasEstimate';
+import ApproveAllOption from './ApproveAllOption';
+import ProvenanceTimeline from './ProvenanceTimeline';
+import ExportMenu from './ExportMenu';
+import FairValueBadge from './FairValueBadge';
+import FairValueSuggestion from './FairValueSuggestion';
+import SweepModal from './SweepModal';
+import SavedSearchesModal from './SavedSearchesModal';
+import MarketFilterPanel from './MarketFilterPanel';
+import AuctionCountdown from './AuctionCountdown';
 
 // Rarity colors
 const RARITY_COLORS: Record<string, string> = {
@@ -37,41 +58,12 @@ function safeFormatDate(timestamp: any): string {
     } catch { return '—'; }
 }
 
-type MarketTab = 'listings' | 'auctions' | 'activity';
+type MarketTab = 'all' | 'listings' | 'auctions' | 'activity';
 
-interface ListingWithMeta extends Listing {
-    cardName?: string;
-    cardImage?: string;
-    rarity?: string;
-    multiplier?: number;
-    priceFormatted?: string;
-}
-
-interface AuctionWithMeta extends Auction {
-    cardName?: string;
-    cardImage?: string;
-    rarity?: string;
-    multiplier?: number;
-    timeLeft?: string;
-    isEnded?: boolean;
-}
-
-// Helper to format time remaining
-function formatTimeLeft(endTime: bigint): { text: string; isEnded: boolean } {
-    const now = BigInt(Math.floor(Date.now() / 1000));
-    if (endTime <= now) return { text: 'Ended', isEnded: true };
-
-    const diff = Number(endTime - now);
-    const hours = Math.floor(diff / 3600);
-    const minutes = Math.floor((diff % 3600) / 60);
-    const seconds = diff % 60;
-
-    if (hours > 24) {
-        const days = Math.floor(hours / 24);
-        return { text: `${days}d ${hours % 24}h`, isEnded: false };
-    }
-    return { text: `${hours}h ${minutes}m ${seconds}s`, isEnded: false };
-}
+const MARKET_TABS: MarketTab[] = ['all', 'listings', 'auctions', 'activity'];
+const MARKET_SORTS: MarketSort[] = ['price_asc', 'price_desc', 'recent'];
+const GRID_PAGE_SIZE = 40;
+const NO_ITEMS: never[] = [];      // Stable empty list, so the grid memo holds for tabs without it
 
 const MARKETPLACE_GUIDE: OnboardingStep[] = [
     {
@@ -88,9 +80,10 @@ const MARKETPLACE_GUIDE: OnboardingStep[] = [
 
 const Marketplace: React.FC = () => {
     const {
-        getActiveListings,
+        simulateBuyCard,
         buyCard,
         getActiveAuctions,
+        simulateBidOnAuction,
         bidOnAuction,
         finalizeAuction,
         placeBid,
@@ -105,20 +98,41 @@ const Marketplace: React.FC = () => {
         cancelAuction,
         getTokenStats,
         getTokenSaleHistory,
+        getListing,
+        getAuction,
         loading: isLoading,
         error
     } = useMarketplaceV2();
     const { getCardInfo, getCards, clearCache } = useNFT();
     const { address, isConnected } = useWalletContext();
+    const online = useOnline();
     const { isVisible: showGuide, currentStep: guideStep, nextStep: guideNext, dismiss: guideDismiss } = useOnboarding('marketplace');
 
+    const rarityTabs = ['All', 'Common', 'Rare', 'Epic', 'Legendary'];
+
+    // Tab and filters live in the URL query (?tab=&rarity=&sort=&q= plus the advanced filters) so a
+    // filtered view can be shared; /listing/:id and /auction/:id pin the tab and open that item's modal
+    const route = useRoute();
+    const queryTab = route.query.get('tab') as MarketTab;
+    const querySort = route.query.get('sort') as MarketSort;
+    const queryRarity = route.query.get('rarity') || '';
+    const activeTab: MarketTab = route.listingId !== undefined ? 'listings'
+        : route.auctionId !== undefined ? 'auctions'
+        : MARKET_TABS.includes(queryTab) ? queryTab : 'listings';
+    const searchQuery = route.query.get('q') || '';
+    const sortBy: MarketSort = MARKET_SORTS.includes(querySort) ? querySort : 'recent';
+    const rarityFilter = rarityTabs.includes(queryRarity) ? queryRarity : 'All';
+    const setActiveTab = (tab: MarketTab) => updateQuery({ tab: tab === 'listings' ? null : tab });
+    const setSearchQuery = (q: string) => updateQuery({ q });
+    const setSortBy = (sort: MarketSort) => updateQuery({ sort: sort === 'recent' ? null : sort });
+    const setRarityFilter = (rarity: string) => updateQuery({ rarity: rarity === 'All' ? null : rarity });
+    const { filters, sellerWallets, seller: sellerLookup, setFilters, clearFilters } = useMarketFilters();
+    const activeFilterCount = countActiveFilters(filters);
+    const [filtersOpen, setFiltersOpen] = useState(activeFilterCount > 0);
+
     // State
-    const [activeTab, setActiveTab] = useState<MarketTab>('listings');
     const [listings, setListings] = useState<ListingWithMeta[]>([]);
     const [auctions, setAuctions] = useState<AuctionWithMeta[]>([]);
-    const [searchQuery, setSearchQuery] = useState('');
-    const [sortBy, setSortBy] = useState<'price_asc' | 'price_desc' | 'recent'>('recent');
-    const [rarityFilter, setRarityFilter] = useState<string>('All');
     const [buyingId, setBuyingId] = useState<number | null>(null);
     const [biddingId, setBiddingId] = useState<number | null>(null);
     const [cancellingId, setCancellingId] = useState<number | null>(null);
@@ -129,20 +143,31 @@ const Marketplace: React.FC = () => {
     const [bidModal, setBidModal] = useState<{ auction?: AuctionWithMeta; listing?: ListingWithMeta } | null>(null);
     const [bidAmount, setBidAmount] = useState('');
 
+    // Live pre-flight for the auction bid being typed
+    const auctionBidCheck = usePreflight(
+        bidModal?.auction && bidAmount ? () => simulateBidOnAuction(bidModal.auction!.auctionId, bidAmount) : null,
+        [bidModal?.auction?.auctionId, bidAmount, simulateBidOnAuction]
+    );
+
     // Stats Modal state
     const [statsModalOpen, setStatsModalOpen] = useState(false);
     const [statsItem, setStatsItem] = useState<ListingWithMeta | AuctionWithMeta | null>(null);
-    const [statsTab, setStatsTab] = useState<'bids' | 'sales' | 'stats'>('bids');
+    const [statsTab, setStatsTab] = useState<'bids' | 'sales' | 'stats' | 'history'>('bids');
     const [cardBids, setCardBids] = useState<any[]>([]);
     const [cardSales, setCardSales] = useState<any[]>([]);
     const [cardStats, setCardStats] = useState<any | null>(null);
     const [loadingStats, setLoadingStats] = useState(false);
 
+    // Floor sweep and saved searches modals
+    const [sweepOpen, setSweepOpen] = useState(false);
+    const [savedSearchesOpen, setSavedSearchesOpen] = useState(false);
+
     // List/Sell Modal state
     const [listModalOpen, setListModalOpen] = useState(false);
     const [myNFTs, setMyNFTs] = useState<CardData[]>([]);
     const [selectedNFT, setSelectedNFT] = useState<CardData | null>(null);
     const [sellMode, setSellMode] = useState<'fixed' | 'auction'>('fixed');
+    const [approveAll, setApproveAll] = useState(false);
     const [sellPrice, setSellPrice] = useState('');
     const [auctionStartPrice, setAuctionStartPrice] = useState('');
     const [auctionReservePrice, setAuctionReservePrice] = useState('');
@@ -150,6 +175,9 @@ const Marketplace: React.FC = () => {
     const [isSelling, setIsSelling] = useState(false);
     const [loadingNFTs, setLoadingNFTs] = useState(false);
 
+    // Fair-value estimates for listing badges and the list form's price suggestion
+    const { estimates: fairValues } = useFairValues(activeTab === 'listings' || activeTab === 'all' || listModalOpen);
+
     // Activity tab state
     type ActivityFilter = 'all' | 'listings' | 'auctions' | 'bids';
     const [activityFilter, setActivityFilter] = useState<ActivityFilter>('all');
@@ -159,100 +187,18 @@ const Marketplace: React.FC = () => {
     const [loadingActivity, setLoadingActivity] = useState(false);
     const [cancellingBidId, setCancellingBidId] = useState<number | null>(null);
 
-    const rarityTabs = ['All', 'Common', 'Rare', 'Epic', 'Legendary'];
-
-    // Fetcher functions for polling
-    const fetchListings = useCallback(async (): Promise<ListingWithMeta[]> => {
-        try {
-            const rawListings = await getActiveListings();
-            const listingsWithMetadata = await Promise.all(
-                rawListings.map(async (listing) => {
-                    try {
-                        const cardInfo = await getCardInfo(Number(listing.tokenId));
-                        return {
-                            ...listing,
-                            cardName: cardInfo?.name || `Card #${listing.tokenId}`,
-                            cardImage: cardInfo?.image || '/placeholder-card.png',
-                            rarity: cardInfo?.rarity || 'Common',
-                            multiplier: cardInfo?.multiplier || 1,
-                            priceFormatted: formatXTZ(listing.price),
-                        };
-                    } catch {
-                        return {
-                            ...listing,
-                            cardName: `Card #${listing.tokenId}`,
-                            cardImage: '/placeholder-card.png',
-                            rarity: 'Common',
-                            multiplier: 1,
-                            priceFormatted: formatXTZ(listing.price),
-                        };
-                    }
-                })
-            );
-            return listingsWithMetadata;
-        } catch (e) {
-            return [];
-        }
-    }, [getActiveListings, getCardInfo]);
-
-    const fetchAuctions = useCallback(async (): Promise<AuctionWithMeta[]> => {
-        try {
-            const rawAuctions = await getActiveAuctions();
-            const auctionsWithMetadata = await Promise.all(
-                rawAuctions.map(async (auction) => {
-                    try {
-                        const cardInfo = await getCardInfo(Number(auction.tokenId));
-                        const { text, isEnded } = formatTimeLeft(auction.endTime);
-                        return {
-                            ...auction,
-                            cardName: cardInfo?.name || `Card #${auction.tokenId}`,
-                            cardImage: cardInfo?.image || '/placeholder-card.png',
-                            rarity: cardInfo?.rarity || 'Common',
-                            multiplier: cardInfo?.multiplier || 1,
-                            timeLeft: text,
-                            isEnded,
-                        };
-                    } catch {
-                        const { text, isEnded } = formatTimeLeft(auction.endTime);
-                        return {
-                            ...auction,
-                            cardName: `Card #${auction.tokenId}`,
-                            cardImage: '/placeholder-card.png',
-                            rarity: 'Common',
-                            multiplier: 1,
-                            timeLeft: text,
-                            isEnded,
-                        };
-                    }
-                })
-            );
-            return auctionsWithMetadata;
-        } catch (e) {
-            return [];
-        }
-    }, [getActiveAuctions, getCardInfo]);
-
-    // Auto-refresh listings with polling
+    // Auto-refresh listings and auctions with polling
     const {
         data: polledListings,
         isLoading: pollingListingsLoading,
         refresh: refreshListings
-    } = usePollingData<ListingWithMeta[]>(fetchListings, {
-        cacheKey: 'marketplace:active-listings',
-        interval: 30000, // 30 seconds — avoid flooding metadata API
-        enabled: true
-    });
+    } = useActiveListings();
 
-    // Auto-refresh auctions with polling
     const {
         data: polledAuctions,
         isLoading: pollingAuctionsLoading,
         refresh: refreshAuctions
-    } = usePollingData<AuctionWithMeta[]>(fetchAuctions, {
-        cacheKey: 'marketplace:active-auctions',
-        interval: 30000, // 30 seconds — avoid flooding metadata API
-        enabled: true
-    });
+    } = useActiveAuctions();
 
     // Update listings/auctions when polled data changes
     useEffect(() => {
@@ -269,18 +215,6 @@ const Marketplace: React.FC = () => {
         }
     }, [polledAuctions]);
 
-    // Update auction timers every second
-    useEffect(() => {
-        if (activeTab !== 'auctions') return;
-        const interval = setInterval(() => {
-            setAuctions(prev => prev.map(a => {
-                const { text, isEnded } = formatTimeLeft(a.endTime);
-                return { ...a, timeLeft: text, isEnded };
-            }));
-        }, 1000);
-        return () => clearInterval(interval);
-    }, [activeTab]);
-
     // Handle buy listing
     const handleBuy = async (listing: ListingWithMeta) => {
         if (!isConnected) {
@@ -294,20 +228,62 @@ const Marketplace: React.FC = () => {
 
         setBuyingId(Number(listing.listingId));
         try {
-            await buyCard(listing.listingId, listing.price);
-            await refreshListings();
-            // Force refresh NFT cache so Portfolio shows new card
-            if (address) {
-                clearCache();
-                getCards(address, true);
+            // Simulate first: either the reason it would fail, or the gas on top of the price
+            const check = await simulateBuyCard(listing.listingId, listing.price);
+            if (!check.ok) {
+                alert(check.error);
+            } else if (confirm(`Buy ${listing.cardName} for ${listing.priceFormatted} XTZ?\n\n${formatQuote(check.quote)}`)) {
+                await buyCard(listing.listingId, listing.price);
+                await refreshListings();
+                // Force refresh NFT cache so Portfolio shows new card
+                if (address) {
+                    clearCache();
+                    getCards(address, true);
+                }
+                alert('Purchase successful! The card is now in your portfolio.');
             }
-            alert('Purchase successful! The card is now in your portfolio.');
         } catch (e: any) {
-            alert(`Error: ${e.message}`);
+            alert(describeError(e));
         }
         setBuyingId(null);
     };
 
+    // Floor sweep finished — refresh whatever it bought into
+    const handleSweepComplete = async (result: SweepResult) => {
+        if (result.bought.length === 0) return;
+        await refreshListings();
+        if (address) {
+            clearCache();
+            getCards(address, true);
+        }
+    };
+
+    // Saved searches start from the current filters — a text search that names a startup exactly counts as one
+    const queryStartupId = Object.entries(STARTUPS)
+        .find(([, s]) => s.name.toLowerCase() === searchQuery.trim().toLowerCase())?.[0];
+    const currentSearch = {
+        startupId: filters.startupId ?? (queryStartupId !== undefined ? Number(queryStartupId) : null),
+        rarity: rarityFilter === 'All' ? null : rarityFilter,
+        maxPrice: filters.priceMax,
+        minMultiplier: filters.minMultiplier,
+    };
+
+    const applySavedSearch = (search: SavedSearch) => {
+        updateQuery({
+            tab: search.listings && search.auctions ? 'all' : search.auctions ? 'auctions' : null,
+            rarity: search.startupId === null ? search.rarity : null,
+            q: null,
+            sort: 'price_asc',
+            ...filterQuery({
+                ...EMPTY_FILTERS,
+                startupId: search.startupId,
+                priceMax: search.maxPrice,
+                minMultiplier: search.minMultiplier,
+            }),
+        });
+        setSavedSearchesOpen(false);
+    };
+
     // Handle listing bid (for offers on Buy Now listings)
     const handleListingBid = async () => {
         if (!bidModal?.listing || !bidAmount) return;
@@ -320,7 +296,7 @@ const Marketplace: React.FC = () => {
             setBidAmount('');
             alert('Bid placed successfully!');
         } catch (e: any) {
-            alert(`Error: ${e.message}`);
+            alert(describeError(e));
         }
         setBiddingId(null);
     };
@@ -331,10 +307,10 @@ const Marketplace: React.FC = () => {
         try {
             await acceptBid(bidId);
             await refreshListings();
-            setStatsModalOpen(false);
+            closeStatsModal();
             alert('Bid accepted successfully!');
         } catch (e: any) {
-            alert(`Error: ${e.message}`);
+            alert(describeError(e));
         }
         setLoadingStats(false);
     };
@@ -348,7 +324,7 @@ const Marketplace: React.FC = () => {
             if (activeTab === 'activity') fetchActivity(true);
             alert('Listing cancelled successfully!');
         } catch (e: any) {
-            alert(`Error: ${e.message}`);
+            alert(describeError(e));
         }
         setCancellingId(null);
     };
@@ -365,15 +341,14 @@ const Marketplace: React.FC = () => {
             setBidAmount('');
             alert('Bid placed successfully!');
         } catch (e: any) {
-            const msg = e.message || '';
-            if (msg.includes('0xa0d26eb6') || msg.includes('BidTooLow')) {
+            if (decodeRevert(e)?.name === 'BidTooLow') {
                 const hb = bidModal.auction.highestBid;
                 const min = hb === 0n ? bidModal.auction.startPrice : hb + hb / 20n;
                 alert(`Bid too low! Minimum: ${safeFormatXTZ(min)} XTZ (+5% above current bid)`);
-            } else if (msg.includes('user rejected') || msg.includes('denied')) {
+            } else if (isUserRejection(e)) {
                 // User cancelled — no alert needed
             } else {
-                alert(`Error: ${msg}`);
+                alert(describeError(e, 'Failed to bid on auction'));
             }
         }
         setBiddingId(null);
@@ -387,7 +362,7 @@ const Marketplace: React.FC = () => {
             await refreshAuctions();
             alert('Auction finalized successfully!');
         } catch (e: any) {
-            alert(`Error: ${e.message}`);
+            alert(describeError(e));
         }
         setBiddingId(null);
     };
@@ -402,12 +377,7 @@ const Marketplace: React.FC = () => {
             if (activeTab === 'activity') fetchActivity(true);
             alert('Auction cancelled!');
         } catch (e: any) {
-            const msg = e.message || '';
-            if (msg.includes('AuctionHasBids') || msg.includes('0x')) {
-                alert('Cannot cancel — auction already has bids.');
-            } else {
-                alert(`Error: ${msg}`);
-            }
+            alert(describeError(e, 'Failed to cancel auction'));
         }
         setCancellingId(null);
     };
@@ -437,6 +407,60 @@ const Marketplace: React.FC = () => {
         setLoadingStats(false);
     };
 
+    const closeStatsModal = () => goBack(route.auctionId !== undefined ? '/marketplace?tab=auctions' : '/marketplace');
+
+    // Route → modal: active items come from the polled lists, sold or ended ones from the contract
+    useEffect(() => {
+        const { listingId, auctionId } = route;
+        if (listingId === undefined && auctionId === undefined) {
+            setStatsModalOpen(false);
+            return;
+        }
+        if (listingId !== undefined ? loadingListings : loadingAuctions) return;
+        if (statsModalOpen && statsItem && (listingId !== undefined
+            ? !('auctionId' in statsItem) && Number(statsItem.listingId) === listingId
+            : 'auctionId' in statsItem && Number(statsItem.auctionId) === auctionId)) return;
+
+        let cancelled = false;
+        const open = async () => {
+            let item: ListingWithMeta | AuctionWithMeta | null = listingId !== undefined
+                ? listings.find(l => Number(l.listingId) === listingId) ?? null
+                : auctions.find(a => Number(a.auctionId) === auctionId) ?? null;
+            if (!item) {
+                const raw = listingId !== undefined ? await getListing(BigInt(listingId)) : await getAuction(BigInt(auctionId!));
+                const card = raw ? await getCardInfo(Number(raw.tokenId)) : null;
+                item = raw && {
+                    ...raw,
+                    cardName: card?.name || `Card #${raw.tokenId}`,
+                    cardImage: card?.image || '/placeholder-card.png',
+                    rarity: card?.rarity || 'Common',
+                    multiplier: card?.multiplier || 1,
+                    ...('auctionId' in raw ? formatTimeLeft(raw.endTime) : { priceFormatted: formatXTZ(raw.price) }),
+                };
+            }
+            if (cancelled) return;
+            if (!item) {
+                alert(`${listingId !== undefined ? `Listing #${listingId}` : `Auction #${auctionId}`} not found`);
+                navigate(listingId !== undefined ? '/marketplace' : '/marketplace?tab=auctions', { replace: true });
+                return;
+            }
+            openStatsModal(item);
+        };
+        open();
+        return () => { cancelled = true; };
+    }, [route.listingId, route.auctionId, loadingListings, loadingAuctions]);
+
+    const copyStatsLink = async () => {
+        if (!statsItem) return;
+        const path = 'auctionId' in statsItem ? RoutePaths.auction(statsItem.auctionId) : RoutePaths.listing(statsItem.listingId);
+        try {
+            await navigator.clipboard.writeText(shareUrl(path));
+            alert('Link copied to clipboard');
+        } catch {
+            alert(shareUrl(path));
+        }
+    };
+
     // Open List/Sell modal
     const openListModal = async () => {
         setListModalOpen(true);
@@ -467,7 +491,7 @@ const Marketplace: React.FC = () => {
                     setIsSelling(false);
                     return;
                 }
-                await listCard(BigInt(selectedNFT.tokenId), sellPrice);
+                await listCard(BigInt(selectedNFT.tokenId), sellPrice, { approveAll });
                 alert('NFT listed successfully!');
             } else {
                 if (!auctionStartPrice || parseFloat(auctionStartPrice) <= 0) {
@@ -480,7 +504,8 @@ const Marketplace: React.FC = () => {
                     BigInt(selectedNFT.tokenId),
                     auctionStartPrice,
                     auctionReservePrice || auctionStartPrice,
-                    duration
+                    duration,
+                    { approveAll }
                 );
                 alert('Auction created successfully!');
             }
@@ -489,7 +514,7 @@ const Marketplace: React.FC = () => {
             await refreshAuctions();
             if (activeTab === 'activity') fetchActivity(true);
         } catch (e: any) {
-            alert(`Error: ${e.message}`);
+            alert(describeError(e));
         }
         setIsSelling(false);
     };
@@ -566,31 +591,163 @@ const Marketplace: React.FC = () => {
             await fetchActivity();
             alert('Bid cancelled successfully!');
         } catch (e: any) {
-            alert(`Error: ${e.message}`);
+            alert(describeError(e));
         }
         setCancellingBidId(null);
     };
 
-    // Filter and sort listings
-    const filteredListings = listings
-        .filter(l => {
-            if (rarityFilter !== 'All' && l.rarity !== rarityFilter) return false;
-            if (searchQuery && !l.cardName?.toLowerCase().includes(searchQuery.toLowerCase())) return false;
-            return true;
-        })
-        .sort((a, b) => {
-            if (sortBy === 'price_asc') return Number(a.price - b.price);
-            if (sortBy === 'price_desc') return Number(b.price - a.price);
-            return Number(b.listedAt - a.listedAt);
-        });
+    // Filter and sort the grid — listings, auctions or both; recomputed only when the data or filters change
+    const tabListings = activeTab === 'listings' || activeTab === 'all' ? listings : NO_ITEMS;
+    const tabAuctions = activeTab === 'auctions' || activeTab === 'all' ? auctions : NO_ITEMS;
+    const gridTotal = tabListings.length + tabAuctions.length;
+    const gridItems = useMemo(() => sortMarket(
+        filterMarket(
+            [...tabListings.map(listingItem), ...tabAuctions.map(auctionItem)],
+            { query: searchQuery, rarity: rarityFilter === 'All' ? null : rarityFilter },
+            filters,
+            sellerWallets
+        ),
+        sortBy
+    ), [tabListings, tabAuctions, searchQuery, rarityFilter, filters, sellerWallets, sortBy]);
+    const gridLoading = activeTab === 'listings' ? loadingListings
+        : activeTab === 'auctions' ? loadingAuctions
+        : loadingListings || loadingAuctions;
+    const grid = usePagedList(gridItems, GRID_PAGE_SIZE, `${activeTab}?${route.query}`);
+    const gridRef = useRef<HTMLDivElement>(null);
+
+    const goToPage = (page: number) => {
+        grid.setPage(page);
+        gridRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    };
 
-    // Filter auctions
-    const filteredAuctions = auctions
-        .filter(a => {
-            if (rarityFilter !== 'All' && a.rarity !== rarityFilter) return false;
-            if (searchQuery && !a.cardName?.toLowerCase().includes(searchQuery.toLowerCase())) return false;
-            return true;
-        });
+    const renderListingCard = (listing: ListingWithMeta, key: string) => (
+        <div
+            key={key}
+            className="bg-white dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-xl overflow-hidden hover:border-yc-orange/50 transition-all duration-300 group"
+        >
+            <div
+                className="relative overflow-hidden cursor-pointer"
+                style={{ aspectRatio: '591/1004' }}
+                onClick={() => navigate(RoutePaths.listing(listing.listingId))}
+            >
+                <img
+                    src={listing.cardImage}
+                    alt={listing.cardName}
+                    loading="lazy"
+                    className="w-full h-full object-contain group-hover:scale-105 transition-transform duration-500"
+                />
+            </div>
+            <div className="p-1.5 md:p-4">
+                <p className="text-gray-900 dark:text-white font-bold text-[11px] md:text-lg leading-tight">{listing.priceFormatted} XTZ</p>
+                <FairValueBadge
+                    price={listing.price}
+                    estimate={listing.startupId !== undefined ? fairValues[listing.startupId] : undefined}
+                    className="text-[9px] md:text-xs mt-0.5"
+                />
+                {listing.seller.toLowerCase() === address?.toLowerCase() ? (
+                    <button
+                        onClick={() => handleCancelListing(listing)}
+                        disabled={cancellingId === Number(listing.listingId) || !online}
+                        className={`
+                            w-full mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 rounded-lg font-bold text-[10px] md:text-sm transition-all disabled:opacity-50
+                            ${cancellingId === Number(listing.listingId)
+                                ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                                : 'bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white active:scale-95'}
+                        `}
+                    >
+                        {cancellingId === Number(listing.listingId) ? (
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : (
+                            'Cancel'
+                        )}
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => handleBuy(listing)}
+                        disabled={buyingId === Number(listing.listingId) || !isConnected || !online}
+                        className={`
+                            w-full mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 rounded-lg font-bold text-[10px] md:text-sm transition-all disabled:opacity-50
+                            ${buyingId === Number(listing.listingId)
+                                ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                                : 'bg-yc-orange text-white hover:bg-yc-orange/80 active:scale-95'}
+                        `}
+                    >
+                        {buyingId === Number(listing.listingId) ? (
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                        ) : (
+                            'Buy'
+                        )}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+
+    const renderAuctionCard = (auction: AuctionWithMeta, key: string) => (
+        <AuctionCountdown key={key} endTime={auction.endTime}>
+            {(timeLeft, isEnded) => (
+                <div
+                    className="bg-white dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-xl overflow-hidden hover:border-yc-orange/50 transition-all duration-300 group"
+                >
+                    <div
+                        className="relative overflow-hidden cursor-pointer"
+                        style={{ aspectRatio: '591/1004' }}
+                        onClick={() => navigate(RoutePaths.auction(auction.auctionId))}
+                    >
+                        <img
+                            src={auction.cardImage}
+                            alt={auction.cardName}
+                            loading="lazy"
+                            className="w-full h-full object-contain group-hover:scale-105 transition-transform duration-500"
+                        />
+                        {/* Timer */}
+                        <div className={`absolute top-2 right-2 flex items-center gap-1 px-2 py-0.5 text-xs font-bold rounded ${isEnded ? 'bg-red-600 text-white' : 'bg-black/80 dark:bg-black/80 text-yc-orange'}`}>
+                            <Clock className="w-3 h-3" />
+                            {timeLeft}
+                        </div>
+                    </div>
+                    <div className="p-1.5 md:p-4">
+                        {/* Same price the sort and price filters use — the start price until the first bid */}
+                        <p className="text-gray-900 dark:text-white font-bold text-[11px] md:text-base leading-tight">
+                            {safeFormatXTZ(auction.highestBid > 0n ? auction.highestBid : auction.startPrice)} XTZ
+                            {auction.highestBid === 0n && <span className="ml-1 text-[9px] md:text-xs font-medium text-gray-400">start</span>}
+                        </p>
+                        {isEnded ? (
+                            <button
+                                onClick={() => handleFinalizeAuction(auction)}
+                                disabled={biddingId === Number(auction.auctionId) || !online}
+                                className="w-full mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 rounded-lg font-bold text-[10px] md:text-sm bg-green-600 text-white hover:bg-green-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {biddingId === Number(auction.auctionId) ? (
+                                    <Loader2 className="w-3 h-3 animate-spin mx-auto" />
+                                ) : 'Finalize'}
+                            </button>
+                        ) : auction.seller.toLowerCase() === address?.toLowerCase() ? (
+                            // Seller: show Cancel (no bids) or Yours (has bids)
+                            auction.highestBidder === '0x0000000000000000000000000000000000000000' || !auction.highestBidder ? (
+                                <button
+                                    onClick={() => handleCancelAuction(auction)}
+                                    disabled={cancellingId === Number(auction.auctionId) || !online}
+                                    className="w-full mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 rounded-lg font-bold text-[10px] md:text-sm bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {cancellingId === Number(auction.auctionId) ? <Loader2 className="w-3 h-3 animate-spin mx-auto" /> : 'Cancel'}
+                                </button>
+                            ) : (
+                                <p className="mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 text-center font-bold text-[10px] md:text-sm text-gray-400">Has bids</p>
+                            )
+                        ) : (
+                            <button
+                                onClick={() => { setBidModal({ auction }); setBidAmount(''); }}
+                                className="w-full mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 rounded-lg font-bold text-[10px] md:text-sm transition-all bg-yc-orange text-white hover:bg-yc-orange/80"
+                            >
+                                {'Bid'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </AuctionCountdown>
+    );
 
     // Sort activity items
     const sortedMyListings = [...myListings].sort((a, b) => {
@@ -626,19 +783,41 @@ const Marketplace: React.FC = () => {
                         </p>
                     </div>
                     {isConnected && (
-                        <button
-                            onClick={openListModal}
-                            className="flex items-center gap-1.5 px-3 py-2 md:px-4 md:py-2.5 bg-yc-orange hover:bg-yc-orange/80 text-white rounded-lg font-bold text-xs md:text-sm transition-all shrink-0"
-                        >
-                            <Plus className="w-4 h-4" />
-                            <span className="hidden sm:inline">List NFT</span>
-                            <span className="sm:hidden">List</span>
-                        </button>
+                        <div className="flex items-center gap-2 shrink-0">
+                            <button
+                                onClick={() => setSweepOpen(true)}
+                                disabled={!online}
+                                title="Buy several of the cheapest listings at once"
+                                className="flex items-center gap-1.5 px-3 py-2 md:px-4 md:py-2.5 bg-gray-100 dark:bg-[#1A1A1A] hover:bg-gray-200 dark:hover:bg-[#222] text-gray-900 dark:text-white rounded-lg font-bold text-xs md:text-sm transition-all disabled:opacity-50"
+                            >
+                                <Layers className="w-4 h-4" />
+                                Sweep
+                            </button>
+                            <button
+                                onClick={openListModal}
+                                className="flex items-center gap-1.5 px-3 py-2 md:px-4 md:py-2.5 bg-yc-orange hover:bg-yc-orange/80 text-white rounded-lg font-bold text-xs md:text-sm transition-all shrink-0"
+                            >
+                                <Plus className="w-4 h-4" />
+                                <span className="hidden sm:inline">List NFT</span>
+                                <span className="sm:hidden">List</span>
+                            </button>
+                        </div>
                     )}
                 </div>
 
                 {/* Tab navigation */}
                 <div className="flex items-center space-x-1 bg-gray-100 dark:bg-[#1a1a1a] p-1 rounded-lg w-full md:w-fit overflow-x-auto">
+                    <button
+                        onClick={() => setActiveTab('all')}
+                        className={`flex items-center gap-1.5 px-3 md:px-4 py-2 rounded-md text-xs md:text-sm font-bold transition-all whitespace-nowrap ${activeTab === 'all'
+                            ? 'bg-yc-orange text-white'
+                            : 'text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white'
+                            }`}
+                    >
+                        <LayoutGrid className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                        All
+                        {listings.length + auctions.length > 0 && <span className="bg-black/30 px-1.5 py-0.5 rounded text-[10px] md:text-xs">{listings.length + auctions.length}</span>}
+                    </button>
                     <button
                         onClick={() => setActiveTab('listings')}
                         className={`flex items-center gap-1.5 px-3 md:px-4 py-2 rounded-md text-xs md:text-sm font-bold transition-all whitespace-nowrap ${activeTab === 'listings'
@@ -699,7 +878,7 @@ const Marketplace: React.FC = () => {
                             <Search className="absolute left-3 md:left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 group-focus-within:text-yc-orange transition-colors" />
                             <input
                                 type="text"
-                                placeholder="Search cards..."
+                                placeholder="Search name, startup, #token or seller..."
                                 value={searchQuery}
                                 onChange={(e) => setSearchQuery(e.target.value)}
                                 className="w-full bg-white dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-full pl-9 md:pl-10 pr-3 md:pr-4 py-2 md:py-2.5 text-sm font-medium text-yc-text-primary dark:text-white focus:outline-none focus:border-yc-orange focus:ring-1 focus:ring-yc-orange transition-all placeholder-gray-400 shadow-sm"
@@ -714,175 +893,109 @@ const Marketplace: React.FC = () => {
                             <option value="price_asc">Price ↑</option>
                             <option value="price_desc">Price ↓</option>
                         </select>
+                        <button
+                            onClick={() => setFiltersOpen(!filtersOpen)}
+                            title="Filters"
+                            className={`relative p-2 md:p-2.5 bg-white dark:bg-[#121212] border rounded-full transition-all shadow-sm shrink-0 ${filtersOpen || activeFilterCount > 0
+                                ? 'border-yc-orange text-yc-orange'
+                                : 'border-gray-200 dark:border-[#2A2A2A] text-gray-500 hover:text-yc-orange hover:border-yc-orange'
+                                }`}
+                        >
+                            <SlidersHorizontal className="w-4 h-4" />
+                            {activeFilterCount > 0 && (
+                                <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-yc-orange text-white text-[10px] font-bold flex items-center justify-center">
+                                    {activeFilterCount}
+                                </span>
+                            )}
+                        </button>
+                        {isConnected && (
+                            <button
+                                onClick={() => setSavedSearchesOpen(true)}
+                                title="Saved searches & alerts"
+                                className="p-2 md:p-2.5 bg-white dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-full text-gray-500 hover:text-yc-orange hover:border-yc-orange transition-all shadow-sm shrink-0"
+                            >
+                                <BellRing className="w-4 h-4" />
+                            </button>
+                        )}
                     </div>
+
+                    {/* Advanced filters */}
+                    {filtersOpen && activeTab !== 'activity' && (
+                        <MarketFilterPanel
+                            filters={filters}
+                            seller={sellerLookup}
+                            onChange={setFilters}
+                            onClear={clearFilters}
+                        />
+                    )}
                 </div>
             </div>
 
-            {/* LISTINGS TAB */}
-            {activeTab === 'listings' && (
+            {/* BUY NOW / AUCTIONS / ALL */}
+            {activeTab !== 'activity' && (
                 <>
-                    {loadingListings && (
+                    {gridLoading && (
                         <div className="flex flex-col items-center justify-center py-20">
                             <Loader2 className="w-8 h-8 text-yc-orange animate-spin mb-4" />
-                            <p className="text-gray-400">Loading listings...</p>
+                            <p className="text-gray-400">{activeTab === 'auctions' ? 'Loading auctions...' : 'Loading listings...'}</p>
                         </div>
                     )}
 
-                    {!loadingListings && filteredListings.length === 0 && (
+                    {!gridLoading && gridItems.length === 0 && (
                         <div className="flex flex-col items-center justify-center py-20 bg-gray-50 dark:bg-[#121212] rounded-xl border border-gray-200 dark:border-[#2A2A2A]">
-                            <ShoppingCart className="w-16 h-16 text-gray-400 dark:text-gray-600 mb-4" />
-                            <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">No listings found</h3>
+                            {activeTab === 'auctions'
+                                ? <Gavel className="w-16 h-16 text-gray-400 dark:text-gray-600 mb-4" />
+                                : <ShoppingCart className="w-16 h-16 text-gray-400 dark:text-gray-600 mb-4" />}
+                            <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+                                {activeTab === 'auctions' ? 'No auctions found' : 'No listings found'}
+                            </h3>
                             <p className="text-gray-500 dark:text-gray-400 text-center max-w-md">
-                                {listings.length === 0
-                                    ? "There are no cards listed for sale yet. Be the first to list!"
-                                    : "No cards match your current filters."}
+                                {gridTotal > 0
+                                    ? "No cards match your current filters."
+                                    : activeTab === 'auctions'
+                                        ? "There are no active auctions. Create one from your Portfolio!"
+                                        : "There are no cards listed for sale yet. Be the first to list!"}
                             </p>
                         </div>
                     )}
 
-                    {!loadingListings && filteredListings.length > 0 && (
-                        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-1.5 md:gap-4">
-                            {filteredListings.map((listing) => (
-                                <div
-                                    key={listing.listingId}
-                                    className="bg-white dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-xl overflow-hidden hover:border-yc-orange/50 transition-all duration-300 group"
-                                >
-                                    <div
-                                        className="relative overflow-hidden cursor-pointer"
-                                        style={{ aspectRatio: '591/1004' }}
-                                        onClick={() => openStatsModal(listing)}
-                                    >
-                                        <img
-                                            src={listing.cardImage}
-                                            alt={listing.cardName}
-                                            className="w-full h-full object-contain group-hover:scale-105 transition-transform duration-500"
-                                        />
-                                    </div>
-                                    <div className="p-1.5 md:p-4">
-                                        <p className="text-gray-900 dark:text-white font-bold text-[11px] md:text-lg leading-tight">{listing.priceFormatted} XTZ</p>
-                                        {listing.seller.toLowerCase() === address?.toLowerCase() ? (
-                                            <button
-                                                onClick={() => handleCancelListing(listing)}
-                                                disabled={cancellingId === Number(listing.listingId)}
-                                                className={`
-                                                    w-full mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 rounded-lg font-bold text-[10px] md:text-sm transition-all
-                                                    ${cancellingId === Number(listing.listingId)
-                                                        ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
-                                                        : 'bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white active:scale-95'}
-                                                `}
-                                            >
-                                                {cancellingId === Number(listing.listingId) ? (
-                                                    <Loader2 className="w-3 h-3 animate-spin" />
-                                                ) : (
-                                                    'Cancel'
-                                                )}
-                                            </button>
-                                        ) : (
-                                            <button
-                                                onClick={() => handleBuy(listing)}
-                                                disabled={buyingId === Number(listing.listingId) || !isConnected}
-                                                className={`
-                                                    w-full mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 rounded-lg font-bold text-[10px] md:text-sm transition-all
-                                                    ${buyingId === Number(listing.listingId)
-                                                        ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
-                                                        : 'bg-yc-orange text-white hover:bg-yc-orange/80 active:scale-95'}
-                                                `}
-                                            >
-                                                {buyingId === Number(listing.listingId) ? (
-                                                    <Loader2 className="w-3 h-3 animate-spin" />
-                                                ) : (
-                                                    'Buy'
-                                                )}
-                                            </button>
-                                        )}
-                                    </div>
-                                </div>
-                            ))}
-                        </div>
-                    )}
-                </>
-            )}
-
-            {/* AUCTIONS TAB */}
-            {activeTab === 'auctions' && (
-                <>
-                    {loadingAuctions && (
-                        <div className="flex flex-col items-center justify-center py-20">
-                            <Loader2 className="w-8 h-8 text-yc-orange animate-spin mb-4" />
-                            <p className="text-gray-400">Loading auctions...</p>
-                        </div>
-                    )}
-
-                    {!loadingAuctions && filteredAuctions.length === 0 && (
-                        <div className="flex flex-col items-center justify-center py-20 bg-gray-50 dark:bg-[#121212] rounded-xl border border-gray-200 dark:border-[#2A2A2A]">
-                            <Gavel className="w-16 h-16 text-gray-400 dark:text-gray-600 mb-4" />
-                            <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2">No auctions found</h3>
-                            <p className="text-gray-500 dark:text-gray-400 text-center max-w-md">
-                                There are no active auctions. Create one from your Portfolio!
+                    {!gridLoading && gridItems.length > 0 && (
+                        <>
+                            <p ref={gridRef} className="text-xs text-gray-500 mb-2 md:mb-3 scroll-mt-4">
+                                {grid.pageCount > 1 && `${grid.start + 1}–${grid.start + grid.visible.length} of `}
+                                {gridItems.length === gridTotal
+                                    ? `${gridTotal} ${gridTotal === 1 ? 'card' : 'cards'}`
+                                    : `${gridItems.length} matching cards (${gridTotal} in total)`}
                             </p>
-                        </div>
-                    )}
+                            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-1.5 md:gap-4">
+                                {grid.visible.map(item => item.kind === 'listing'
+                                    ? renderListingCard(item.listing, item.key)
+                                    : renderAuctionCard(item.auction, item.key))}
+                            </div>
 
-                    {!loadingAuctions && filteredAuctions.length > 0 && (
-                        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-1.5 md:gap-4">
-                            {filteredAuctions.map((auction) => (
-                                <div
-                                    key={auction.auctionId}
-                                    className="bg-white dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-xl overflow-hidden hover:border-yc-orange/50 transition-all duration-300 group"
-                                >
-                                    <div
-                                        className="relative overflow-hidden cursor-pointer"
-                                        style={{ aspectRatio: '591/1004' }}
-                                        onClick={() => openStatsModal(auction)}
+                            {/* Pages */}
+                            {grid.pageCount > 1 && (
+                                <div className="flex items-center justify-center gap-3 py-6">
+                                    <button
+                                        onClick={() => goToPage(grid.page - 1)}
+                                        disabled={grid.page === 0}
+                                        className="p-2 rounded-full bg-gray-100 dark:bg-[#1A1A1A] text-gray-600 dark:text-gray-400 hover:text-yc-orange disabled:opacity-40 disabled:hover:text-gray-600 transition-colors"
                                     >
-                                        <img
-                                            src={auction.cardImage}
-                                            alt={auction.cardName}
-                                            className="w-full h-full object-contain group-hover:scale-105 transition-transform duration-500"
-                                        />
-                                        {/* Timer */}
-                                        <div className={`absolute top-2 right-2 flex items-center gap-1 px-2 py-0.5 text-xs font-bold rounded ${auction.isEnded ? 'bg-red-600 text-white' : 'bg-black/80 dark:bg-black/80 text-yc-orange'}`}>
-                                            <Clock className="w-3 h-3" />
-                                            {auction.timeLeft}
-                                        </div>
-                                    </div>
-                                    <div className="p-1.5 md:p-4">
-                                        <p className="text-gray-900 dark:text-white font-bold text-[11px] md:text-base leading-tight">{safeFormatXTZ(auction.highestBid)} XTZ</p>
-                                        {auction.isEnded ? (
-                                            <button
-                                                onClick={() => handleFinalizeAuction(auction)}
-                                                disabled={biddingId === Number(auction.auctionId)}
-                                                className="w-full mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 rounded-lg font-bold text-[10px] md:text-sm bg-green-600 text-white hover:bg-green-700 transition-all"
-                                            >
-                                                {biddingId === Number(auction.auctionId) ? (
-                                                    <Loader2 className="w-3 h-3 animate-spin mx-auto" />
-                                                ) : 'Finalize'}
-                                            </button>
-                                        ) : auction.seller.toLowerCase() === address?.toLowerCase() ? (
-                                            // Seller: show Cancel (no bids) or Yours (has bids)
-                                            auction.highestBidder === '0x0000000000000000000000000000000000000000' || !auction.highestBidder ? (
-                                                <button
-                                                    onClick={() => handleCancelAuction(auction)}
-                                                    disabled={cancellingId === Number(auction.auctionId)}
-                                                    className="w-full mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 rounded-lg font-bold text-[10px] md:text-sm bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white transition-all"
-                                                >
-                                                    {cancellingId === Number(auction.auctionId) ? <Loader2 className="w-3 h-3 animate-spin mx-auto" /> : 'Cancel'}
-                                                </button>
-                                            ) : (
-                                                <p className="mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 text-center font-bold text-[10px] md:text-sm text-gray-400">Has bids</p>
-                                            )
-                                        ) : (
-                                            <button
-                                                onClick={() => { setBidModal({ auction }); setBidAmount(''); }}
-                                                className="w-full mt-1.5 md:mt-3 px-2 py-1 md:px-4 md:py-2 rounded-lg font-bold text-[10px] md:text-sm transition-all bg-yc-orange text-white hover:bg-yc-orange/80"
-                                            >
-                                                {'Bid'}
-                                            </button>
-                                        )}
-                                    </div>
+                                        <ChevronLeft className="w-4 h-4" />
+                                    </button>
+                                    <span className="text-xs md:text-sm font-bold text-gray-600 dark:text-gray-400">
+                                        Page {grid.page + 1} of {grid.pageCount}
+                                    </span>
+                                    <button
+                                        onClick={() => goToPage(grid.page + 1)}
+                                        disabled={grid.page === grid.pageCount - 1}
+                                        className="p-2 rounded-full bg-gray-100 dark:bg-[#1A1A1A] text-gray-600 dark:text-gray-400 hover:text-yc-orange disabled:opacity-40 disabled:hover:text-gray-600 transition-colors"
+                                    >
+                                        <ChevronRight className="w-4 h-4" />
+                                    </button>
                                 </div>
-                            ))}
-                        </div>
+                            )}
+                        </>
                     )}
                 </>
             )}
@@ -934,6 +1047,7 @@ const Marketplace: React.FC = () => {
                                     <option value="price_asc">Price: Low to High</option>
                                     <option value="price_desc">Price: High to Low</option>
                                 </select>
+                                <ExportMenu className="shrink-0" />
                             </div>
 
                             {loadingActivity ? (
@@ -958,8 +1072,8 @@ const Marketplace: React.FC = () => {
                                                             <p className="text-gray-900 dark:text-white font-bold text-[11px] md:text-sm">{listing.priceFormatted} XTZ</p>
                                                             <button
                                                                 onClick={() => handleCancelListing(listing)}
-                                                                disabled={cancellingId === Number(listing.listingId)}
-                                                                className="w-full mt-1.5 px-2 py-1 md:py-1.5 rounded-lg font-bold text-[10px] md:text-xs bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white transition-all"
+                                                                disabled={cancellingId === Number(listing.listingId) || !online}
+                                                                className="w-full mt-1.5 px-2 py-1 md:py-1.5 rounded-lg font-bold text-[10px] md:text-xs bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                                                             >
                                                                 {cancellingId === Number(listing.listingId) ? <Loader2 className="w-3 h-3 animate-spin mx-auto" /> : 'Cancel Listing'}
                                                             </button>
@@ -991,16 +1105,16 @@ const Marketplace: React.FC = () => {
                                                             {auction.isEnded ? (
                                                                 <button
                                                                     onClick={() => handleFinalizeAuction(auction)}
-                                                                    disabled={biddingId === Number(auction.auctionId)}
-                                                                    className="w-full mt-1.5 px-2 py-1 md:py-1.5 rounded-lg font-bold text-[10px] md:text-xs bg-green-600 text-white hover:bg-green-700 transition-all"
+                                                                    disabled={biddingId === Number(auction.auctionId) || !online}
+                                                                    className="w-full mt-1.5 px-2 py-1 md:py-1.5 rounded-lg font-bold text-[10px] md:text-xs bg-green-600 text-white hover:bg-green-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                                                                 >
                                                                     {biddingId === Number(auction.auctionId) ? <Loader2 className="w-3 h-3 animate-spin mx-auto" /> : 'Finalize'}
                                                                 </button>
                                                             ) : auction.highestBidder === '0x0000000000000000000000000000000000000000' || !auction.highestBidder ? (
                                                                 <button
                                                                     onClick={() => handleCancelAuction(auction)}
-                                                                    disabled={cancellingId === Number(auction.auctionId)}
-                                                                    className="w-full mt-1.5 px-2 py-1 md:py-1.5 rounded-lg font-bold text-[10px] md:text-xs bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white transition-all"
+                                                                    disabled={cancellingId === Number(auction.auctionId) || !online}
+                                                                    className="w-full mt-1.5 px-2 py-1 md:py-1.5 rounded-lg font-bold text-[10px] md:text-xs bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                                                                 >
                                                                     {cancellingId === Number(auction.auctionId) ? <Loader2 className="w-3 h-3 animate-spin mx-auto" /> : 'Cancel Auction'}
                                                                 </button>
@@ -1030,8 +1144,8 @@ const Marketplace: React.FC = () => {
                                                             <p className="text-[9px] text-gray-400">Expires: {safeFormatDate(bid.expiration)}</p>
                                                             <button
                                                                 onClick={() => handleCancelBid(bid.bidId)}
-                                                                disabled={cancellingBidId === Number(bid.bidId)}
-                                                                className="w-full mt-1.5 px-2 py-1 md:py-1.5 rounded-lg font-bold text-[10px] md:text-xs bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white transition-all"
+                                                                disabled={cancellingBidId === Number(bid.bidId) || !online}
+                                                                className="w-full mt-1.5 px-2 py-1 md:py-1.5 rounded-lg font-bold text-[10px] md:text-xs bg-red-500/20 text-red-400 hover:bg-red-500 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                                                             >
                                                                 {cancellingBidId === Number(bid.bidId) ? <Loader2 className="w-3 h-3 animate-spin mx-auto" /> : 'Cancel Bid'}
                                                             </button>
@@ -1111,9 +1225,11 @@ const Marketplace: React.FC = () => {
                                     </p>
                                 </div>
 
+                                <GasEstimate result={auctionBidCheck.result} isChecking={auctionBidCheck.isChecking} className="-mt-3 mb-4" />
+
                                 <button
                                     onClick={handleAuctionBid}
-                                    disabled={!bidAmount || biddingId !== null}
+                                    disabled={!bidAmount || biddingId !== null || auctionBidCheck.result?.ok === false || !online}
                                     className="w-full bg-yc-orange text-white font-bold py-3 rounded-lg hover:bg-yc-orange/80 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-all"
                                 >
                                     {biddingId !== null ? (
@@ -1152,7 +1268,7 @@ const Marketplace: React.FC = () => {
 
                                 <button
                                     onClick={handleListingBid}
-                                    disabled={!bidAmount || biddingId !== null}
+                                    disabled={!bidAmount || biddingId !== null || !online}
                                     className="w-full bg-purple-600 text-white font-bold py-3 rounded-lg hover:bg-purple-700 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed transition-all"
                                 >
                                     {biddingId !== null ? (
@@ -1171,9 +1287,14 @@ const Marketplace: React.FC = () => {
                     <div className="bg-white dark:bg-[#1A1A1A] rounded-2xl border border-gray-200 dark:border-[#2A2A2A] max-w-lg w-full max-h-[80vh] overflow-hidden">
                         <div className="p-4 border-b border-gray-200 dark:border-[#2A2A2A] flex justify-between items-center">
                             <h3 className="text-gray-900 dark:text-white font-bold text-lg">NFT Statistics</h3>
-                            <button onClick={() => setStatsModalOpen(false)} className="text-gray-400 hover:text-gray-900 dark:hover:text-white">
-                                <X className="w-5 h-5" />
-                            </button>
+                            <div className="flex items-center gap-3">
+                                <button onClick={copyStatsLink} title="Copy link" className="text-gray-400 hover:text-yc-orange">
+                                    <Link2 className="w-5 h-5" />
+                                </button>
+                                <button onClick={closeStatsModal} className="text-gray-400 hover:text-gray-900 dark:hover:text-white">
+                                    <X className="w-5 h-5" />
+                                </button>
+                            </div>
                         </div>
 
                         {/* Card preview */}
@@ -1188,7 +1309,7 @@ const Marketplace: React.FC = () => {
 
                         {/* Tabs */}
                         <div className="flex border-b border-gray-200 dark:border-[#2A2A2A]">
-                            {['bids', 'sales', 'stats'].map(tab => (
+                            {['bids', 'sales', 'stats', 'history'].map(tab => (
                                 <button
                                     key={tab}
                                     onClick={() => setStatsTab(tab as any)}
@@ -1197,6 +1318,7 @@ const Marketplace: React.FC = () => {
                                     {tab === 'bids' && <><Activity className="w-4 h-4 inline mr-1" />Bids</>}
                                     {tab === 'sales' && <><History className="w-4 h-4 inline mr-1" />Sales</>}
                                     {tab === 'stats' && <><DollarSign className="w-4 h-4 inline mr-1" />Stats</>}
+                                    {tab === 'history' && <><ScrollText className="w-4 h-4 inline mr-1" />History</>}
                                 </button>
                             ))}
                         </div>
@@ -1241,7 +1363,8 @@ const Marketplace: React.FC = () => {
                                                         {statsItem && 'seller' in statsItem && statsItem.seller?.toLowerCase() === address?.toLowerCase() && (
                                                             <button
                                                                 onClick={() => handleAcceptBid(bid.bidId)}
-                                                                className="ml-3 px-3 py-1.5 bg-yc-orange text-white rounded-lg text-xs font-bold hover:bg-yc-orange/80 transition-all"
+                                                                disabled={!online}
+                                                                className="ml-3 px-3 py-1.5 bg-yc-orange text-white rounded-lg text-xs font-bold hover:bg-yc-orange/80 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                                                             >
                                                                 Accept
                                                             </button>
@@ -1263,6 +1386,7 @@ const Marketplace: React.FC = () => {
                                                 </div>
                                             ))
                                     )}
+                                    {statsTab === 'history' && <ProvenanceTimeline tokenId={Number(statsItem.tokenId)} />}
                                     {statsTab === 'stats' && cardStats && (
                                         <div className="space-y-3">
                                             <div className="flex justify-between"><span className="text-gray-500 dark:text-gray-400">Total Sales</span><span className="text-gray-900 dark:text-white font-bold">{String(cardStats.totalSales || 0)}</span></div>
@@ -1334,6 +1458,7 @@ const Marketplace: React.FC = () => {
                                         <div>
                                             <label className="text-gray-500 dark:text-gray-400 text-sm mb-2 block">Price (XTZ)</label>
                                             <input type="number" step="0.01" value={sellPrice} onChange={e => setSellPrice(e.target.value)} placeholder="0.00" className="w-full bg-gray-50 dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-lg px-4 py-3 text-gray-900 dark:text-white font-bold focus:border-yc-orange focus:outline-none" />
+                                            <FairValueSuggestion estimate={fairValues[selectedNFT.startupId]} onUse={setSellPrice} />
                                         </div>
                                     ) : (
                                         <div className="space-y-3">
@@ -1357,9 +1482,11 @@ const Marketplace: React.FC = () => {
                                         </div>
                                     )}
 
+                                    <ApproveAllOption checked={approveAll} onChange={setApproveAll} className="mt-4" />
+
                                     <button
                                         onClick={handleListNFT}
-                                        disabled={isSelling || (sellMode === 'fixed' ? !sellPrice : !auctionStartPrice)}
+                                        disabled={isSelling || (sellMode === 'fixed' ? !sellPrice : !auctionStartPrice) || !online}
                                         className="w-full mt-4 bg-yc-orange text-white font-bold py-3 rounded-lg hover:bg-yc-orange/80 disabled:bg-gray-700 disabled:text-gray-400 transition-all"
                                     >
                                         {isSelling ? <Loader2 className="w-5 h-5 animate-spin mx-auto" /> : sellMode === 'fixed' ? 'List for Sale' : 'Create Auction'}
@@ -1371,6 +1498,20 @@ const Marketplace: React.FC = () => {
                 </div>
             )}
 
+            {/* Floor Sweep Modal */}
+            {sweepOpen && (
+                <SweepModal onClose={() => setSweepOpen(false)} onComplete={handleSweepComplete} />
+            )}
+
+            {/* Saved Searches Modal */}
+            {savedSearchesOpen && (
+                <SavedSearchesModal
+                    initial={currentSearch}
+                    onApply={applySavedSearch}
+                    onClose={() => setSavedSearchesOpen(false)}
+                />
+            )}
+
             {/* Onboarding Guide */}
             {showGuide && (
                 <OnboardingGuide
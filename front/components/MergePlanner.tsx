@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { WandSparkles, Shield, Copy, Crown, Zap, Check } from 'lucide-react';
+import { CardData } from '../types';
+import { planMerges, type MergeGoal, type MergeProposal } from '../lib/mergePlanner';
+
+interface MergePlannerProps {
+    cards: CardData[];
+    excludedTokenIds: ReadonlySet<number>;      // Listed / in auction
+    onQueue: (triples: [number, number, number][]) => void;
+}
+
+const GOALS: { id: MergeGoal; label: string; hint: string; icon: React.ElementType }[] = [
+    { id: 'squad', label: 'Keep Squad', hint: 'Your 5 strongest cards are never merged', icon: Shield },
+    { id: 'duplicates', label: 'Free Duplicates', hint: 'Only spare copies — one of each startup stays', icon: Copy },
+    { id: 'legendary', label: 'Climb to Legendary', hint: 'Highest rarities first, every eligible card', icon: Crown },
+];
+
+const MergePlanner: React.FC<MergePlannerProps> = ({ cards, excludedTokenIds, onQueue }) => {
+    const [goal, setGoal] = useState<MergeGoal>('squad');
+    const plan = useMemo(() => planMerges(cards, goal, excludedTokenIds), [cards, goal, excludedTokenIds]);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    // Fresh plan → everything proposed is selected
+    useEffect(() => {
+        setSelected(new Set(plan.proposals.map(p => p.id)));
+    }, [plan]);
+
+    const toggle = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const queued: MergeProposal[] = plan.proposals.filter(p => selected.has(p.id));
+    const activeGoal = GOALS.find(g => g.id === goal)!;
+
+    return (
+        <div className="mb-6 bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4 animate-[fadeIn_0.3s]">
+            {/* Goal selector */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3">
+                <h4 className="flex items-center gap-2 font-bold text-sm text-yc-text-primary dark:text-white">
+                    <WandSparkles className="w-4 h-4 text-yc-orange" />
+                    Auto-Plan
+                </h4>
+                <div className="inline-flex bg-gray-100 dark:bg-[#0A0A0A] rounded-lg p-1">
+                    {GOALS.map(({ id, label, icon: Icon }) => (
+                        <button
+                            key={id}
+                            onClick={() => setGoal(id)}
+                            className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all flex items-center gap-1.5 ${goal === id
+                                ? 'bg-white dark:bg-[#1A1A1A] text-yc-text-primary dark:text-white shadow-sm'
+                                : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                                }`}
+                        >
+                            <Icon className="w-3.5 h-3.5" />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+                {activeGoal.hint}.
+                {plan.protectedCount > 0 && ` ${plan.protectedCount} mergeable card${plan.protectedCount === 1 ? '' : 's'} held back.`}
+                {goal === 'legendary' && ` Enough cards for ${plan.legendaryReach} Legendary by chaining merges.`}
+            </p>
+
+            {/* Proposals */}
+            {plan.proposals.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center py-6">No valid triples for this goal — you need 3 unlocked, unlisted cards of the same rarity.</p>
+            ) : (
+                <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+                    {plan.proposals.map(p => {
+                        const isSelected = selected.has(p.id);
+                        return (
+                            <button
+                                key={p.id}
+                                onClick={() => toggle(p.id)}
+                                className={`w-full flex items-center gap-3 p-2 rounded-lg border text-left transition-colors ${isSelected
+                                    ? 'border-yc-orange bg-yc-orange/5'
+                                    : 'border-gray-200 dark:border-[#2A2A2A] hover:border-gray-300 dark:hover:border-[#333]'
+                                    }`}
+                            >
+                                <div className={`w-5 h-5 shrink-0 rounded border flex items-center justify-center ${isSelected ? 'bg-yc-orange border-yc-orange' : 'border-gray-300 dark:border-[#444]'}`}>
+                                    {isSelected && <Check className="w-3.5 h-3.5 text-white" />}
+                                </div>
+                                <div className="flex -space-x-3 shrink-0">
+                                    {p.cards.map(card => (
+                                        <img
+                                            key={card.tokenId}
+                                            src={card.image}
+                                            alt={card.name}
+                                            className="w-9 h-12 object-contain rounded bg-gray-100 dark:bg-black border border-white dark:border-[#121212]"
+                                        />
+                                    ))}
+                                </div>
+                                <div className="min-w-0">
+                                    <p className="text-sm font-bold text-yc-text-primary dark:text-white">
+                                        3× {p.from} → {p.to}
+                                    </p>
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {p.cards.map(c => `#${c.tokenId}`).join(' · ')} — {p.reason}
+                                    </p>
+                                </div>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Queue */}
+            {plan.proposals.length > 0 && (
+                <div className="flex items-center justify-between mt-3">
+                    <button
+                        onClick={() => setSelected(selected.size === plan.proposals.length ? new Set() : new Set(plan.proposals.map(p => p.id)))}
+                        className="text-xs font-bold text-gray-500 hover:text-yc-orange transition-colors"
+                    >
+                        {selected.size === plan.proposals.length ? 'Clear selection' : 'Select all'}
+                    </button>
+                    <button
+                        onClick={() => onQueue(queued.map(p => p.cards.map(c => c.tokenId) as [number, number, number]))}
+                        disabled={queued.length === 0}
+                        className="px-4 py-2 rounded-lg bg-yc-orange text-white text-sm font-bold hover:bg-orange-600 transition-colors flex items-center gap-2 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+                    >
+                        <Zap className="w-4 h-4 fill-current" />
+                        Forge {queued.length} {queued.length === 1 ? 'merge' : 'merges'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MergePlanner;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import { useOnline } from '../hooks/useOnline';
+import { OFFLINE_MESSAGE } from '../lib/connectivity';
+
+// Shown at the top of the page while the device is offline — cached data stays browsable
+const OfflineBanner: React.FC = () => {
+    const online = useOnline();
+    if (online) return null;
+
+    return (
+        <div className="flex items-center gap-3 mb-4 px-4 py-3 rounded-xl bg-yellow-500/10 border border-yellow-500/30 text-sm animate-[slideUp_0.3s_ease-out]">
+            <WifiOff className="w-4 h-4 shrink-0 text-yellow-500" />
+            <p className="text-gray-700 dark:text-gray-300">
+                <span className="font-bold text-yellow-600 dark:text-yellow-400">{OFFLINE_MESSAGE}</span>{' '}
+                Scores and cards shown are from your last visit.
+            </p>
+        </div>
+    );
+};
+
+export default OfflineBanner;
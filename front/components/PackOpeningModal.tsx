@@ -4,6 +4,9 @@ import { Layers, Package, Minus, Plus, ChevronDown } from 'lucide-react';
 import { usePacks } from '../hooks/usePacks';
 import { useWalletContext } from '../context/WalletContext';
 import { formatXTZ } from '../lib/contracts';
+import { describeError } from '../lib/errors';
+import { usePreflight } from '../hooks/usePreflight';
+import GasEstimate from './GasEstimate';
 import gsap from 'gsap';
 
 interface PackOpeningModalProps {
@@ -34,8 +37,17 @@ const PackOpeningModal: React.FC<PackOpeningModalProps> = ({ isOpen, onClose, on
     const isMultiPack = packCount > 1;
 
     // Hooks
-    const { isConnected, getSigner, connect, isCorrectChain, switchChain, refreshBalance } = useWalletContext();
-    const { buyAndOpenPack, buyAndOpenMultiplePacks, getPackPrice, isLoading } = usePacks();
+    const { isConnected, address, getSigner, connect, isCorrectChain, switchChain, refreshBalance } = useWalletContext();
+    const { buyAndOpenPack, buyAndOpenMultiplePacks, simulatePackPurchase, getPackPrice, isLoading } = usePacks();
+
+    // Re-simulate the purchase whenever the pack count changes (only while choosing)
+    const purchaseCheck = usePreflight(
+        isOpen && stage === 'select' && address
+            ? () => simulatePackPurchase(packCount, address)
+            : null,
+        [isOpen, stage, packCount, address, simulatePackPurchase]
+    );
+    const purchaseWouldFail = purchaseCheck.result?.ok === false;
 
     // Helper: Generate jagged tear path
     const generateTearPath = (seed: number) => {
@@ -187,7 +199,7 @@ const PackOpeningModal: React.FC<PackOpeningModalProps> = ({ isOpen, onClose, on
                 setStage('select');
             }
         } catch (e: any) {
-            setTxError(e.message);
+            setTxError(describeError(e, 'Failed to buy pack'));
             setStage('select');
         }
     };
@@ -317,11 +329,17 @@ const PackOpeningModal: React.FC<PackOpeningModalProps> = ({ isOpen, onClose, on
                     {/* Buy button */}
                     <button
                         onClick={handleBuyAndOpen}
-                        className="bg-yc-orange hover:bg-orange-600 text-white px-8 sm:px-10 py-3 sm:py-3.5 rounded-xl font-black text-sm sm:text-base uppercase tracking-wider transition-all shadow-lg shadow-orange-500/20 active:scale-95 mb-3 shrink-0"
+                        disabled={purchaseWouldFail}
+                        className="bg-yc-orange hover:bg-orange-600 text-white px-8 sm:px-10 py-3 sm:py-3.5 rounded-xl font-black text-sm sm:text-base uppercase tracking-wider transition-all shadow-lg shadow-orange-500/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed mb-3 shrink-0"
                     >
                         <Package className="w-4 h-4 sm:w-5 sm:h-5 inline-block mr-2 -mt-0.5" />
                         {packCount === 1 ? 'Buy & Open Pack' : `Buy & Open ${packCount} Packs`}
                     </button>
+                    <GasEstimate
+                        result={purchaseCheck.result}
+                        isChecking={purchaseCheck.isChecking}
+                        className="max-w-xs text-center justify-center -mt-1 mb-3 shrink-0"
+                    />
 
                     <button onClick={onClose} className="text-gray-500 hover:text-white text-sm font-medium transition-colors shrink-0">
                         Cancel
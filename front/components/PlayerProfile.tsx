@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, Link2, ExternalLink, Wallet, Trophy, Users, Layers, TrendingUp, Loader2, RefreshCw, Gift, Award } from 'lucide-react';
+import { CardData, NavSection, sortByRarity } from '../types';
+import { useWalletContext } from '../context/WalletContext';
+import { useNFT } from '../hooks/useNFT';
+import { useTournament } from '../hooks/useTournament';
+import { usePollingData } from '../hooks/usePollingData';
+import { usePlayerProfile } from '../hooks/usePlayerProfile';
+import { useCollection } from '../hooks/useCollection';
+import { EXPLORER_URL, formatXTZ } from '../lib/contracts';
+import { generatePixelAvatar } from '../lib/pixelAvatar';
+import { navigate, shareUrl, RoutePaths } from '../lib/router';
+import Analytics from './Analytics';
+import CollectionTracker from './CollectionTracker';
+import Achievements from './Achievements';
+
+interface PlayerProfileProps {
+    address: string;            // Lowercase
+}
+
+type ProfileTab = 'cards' | 'collection' | 'tournaments' | 'performance';
+
+const RARITY_BADGE: Record<string, string> = {
+    'Common': 'bg-gray-700 text-gray-300',
+    'Rare': 'bg-green-600 text-white',
+    'Epic': 'bg-violet-600 text-white',
+    'EpicRare': 'bg-purple-600 text-white',
+    'Legendary': 'bg-orange-500 text-white',
+};
+
+// Read-only view of any wallet — no signer involved, so nothing here can write
+const PlayerProfile: React.FC<PlayerProfileProps> = ({ address }) => {
+    const { address: myAddress } = useWalletContext();
+    const { getCards } = useNFT();
+    const { getActiveTournamentId } = useTournament();
+    const { info, tournaments, tournamentsLoading, tournamentsError } = usePlayerProfile(address);
+    const [activeTab, setActiveTab] = useState<ProfileTab>('cards');
+    const [activeTournamentId, setActiveTournamentId] = useState(0);
+
+    const isMe = !!myAddress && myAddress.toLowerCase() === address;
+    const shortAddress = `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+    const { data: polledCards, isLoading: cardsLoading, refresh: refreshCards } = usePollingData<CardData[]>(
+        () => getCards(address),
+        {
+            cacheKey: `portfolio:cards:${address}`,
+            interval: 30000,
+        }
+    );
+    const cards = polledCards ? sortByRarity(polledCards) : [];
+    const { sets, mintStats, achievements } = useCollection(address, polledCards);
+    const uniqueStartups = new Set(cards.map(card => card.startupId)).size;
+
+    useEffect(() => {
+        getActiveTournamentId().then(setActiveTournamentId).catch(() => {});
+    }, [getActiveTournamentId]);
+
+    const currentEntry = tournaments?.find(t => t.tournamentId === activeTournamentId && !t.cancelled);
+    const totalPrizes = tournaments?.reduce((sum, t) => sum + t.prize, 0n) ?? 0n;
+    const cardById = new Map(cards.map(card => [card.tokenId, card]));
+
+    const copyLink = async () => {
+        const url = shareUrl(RoutePaths.player(address));
+        try {
+            await navigator.clipboard.writeText(url);
+            alert('Profile link copied to clipboard');
+        } catch {
+            alert(url);
+        }
+    };
+
+    return (
+        <div className="overflow-x-hidden">
+
+            {/* Header */}
+            <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-2xl p-4 md:p-6 mb-6 flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div className="w-14 h-14 md:w-16 md:h-16 rounded-xl overflow-hidden shrink-0 border border-gray-200 dark:border-gray-700">
+                        <img
+                            src={info?.avatar || generatePixelAvatar(address, 64)}
+                            alt=""
+                            className="w-full h-full object-cover"
+                            style={{ imageRendering: info?.avatar ? 'auto' : 'pixelated' }}
+                        />
+                    </div>
+                    <div className="min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                            <h2 className="text-xl md:text-2xl font-black text-yc-text-primary dark:text-white truncate">
+                                {info?.username || shortAddress}
+                            </h2>
+                            <span className="px-2 py-0.5 bg-gray-100 dark:bg-[#1A1A1A] text-gray-500 text-[10px] font-bold uppercase rounded flex items-center">
+                                <Eye size={10} className="mr-1" /> Read-only
+                            </span>
+                        </div>
+                        <p className="text-xs font-mono text-gray-400 break-all mt-1">{address}</p>
+                        {info?.referrer && (
+                            <p className="text-xs text-gray-500 mt-1">
+                                Referred by{' '}
+                                <button onClick={() => navigate(RoutePaths.player(info.referrer!))} className="font-mono hover:text-yc-orange">
+                                    {info.referrer.slice(0, 6)}...{info.referrer.slice(-4)}
+                                </button>
+                            </p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-2 shrink-0">
+                    {isMe && (
+                        <button
+                            onClick={() => navigate(RoutePaths.section(NavSection.PORTFOLIO))}
+                            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-yc-orange hover:bg-orange-600 text-white text-xs font-bold transition-colors"
+                        >
+                            <Wallet className="w-4 h-4" /> My Portfolio
+                        </button>
+                    )}
+                    <button
+                        onClick={copyLink}
+                        title="Copy profile link"
+                        className="p-2 rounded-lg border border-gray-200 dark:border-[#2A2A2A] text-gray-500 hover:text-yc-orange hover:border-yc-orange transition-colors"
+                    >
+                        <Link2 className="w-4 h-4" />
+                    </button>
+                    {EXPLORER_URL && (
+                        <a
+                            href={`${EXPLORER_URL}/address/${address}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            title="View on explorer"
+                            className="p-2 rounded-lg border border-gray-200 dark:border-[#2A2A2A] text-gray-500 hover:text-yc-orange hover:border-yc-orange transition-colors"
+                        >
+                            <ExternalLink className="w-4 h-4" />
+                        </a>
+                    )}
+                </div>
+            </div>
+
+            {/* Stats */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4 mb-6">
+                <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4">
+                    <p className="text-[10px] uppercase font-bold text-gray-400 tracking-wider flex items-center gap-1"><Layers className="w-3 h-3" /> Cards</p>
+                    <p className="text-2xl font-black font-mono text-yc-text-primary dark:text-white mt-1">{polledCards ? cards.length : '--'}</p>
+                    <p className="text-xs text-gray-500">{uniqueStartups} / 19 startups</p>
+                </div>
+                <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4">
+                    <p className="text-[10px] uppercase font-bold text-gray-400 tracking-wider flex items-center gap-1"><Trophy className="w-3 h-3" /> Current Rank</p>
+                    <p className="text-2xl font-black font-mono text-yc-orange mt-1">{currentEntry?.rank ? `#${currentEntry.rank}` : '--'}</p>
+                    <p className="text-xs text-gray-500">
+                        {currentEntry ? `${currentEntry.score?.toFixed(1) ?? 0} pts` : activeTournamentId > 0 ? 'Not entered' : 'No active tournament'}
+                    </p>
+                </div>
+                <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4">
+                    <p className="text-[10px] uppercase font-bold text-gray-400 tracking-wider flex items-center gap-1"><Gift className="w-3 h-3" /> Prizes</p>
+                    <p className="text-2xl font-black font-mono text-yc-green mt-1">{formatXTZ(totalPrizes)}</p>
+                    <p className="text-xs text-gray-500">XTZ · {tournaments?.filter(t => !t.cancelled).length ?? 0} tournaments</p>
+                </div>
+                <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4">
+                    <p className="text-[10px] uppercase font-bold text-gray-400 tracking-wider flex items-center gap-1"><Users className="w-3 h-3" /> Referrals</p>
+                    <p className="text-2xl font-black font-mono text-yc-text-primary dark:text-white mt-1">{info ? info.referralCount : '--'}</p>
+                    <p className="text-xs text-gray-500">{info ? formatXTZ(info.referralEarned) : '0'} XTZ earned</p>
+                </div>
+            </div>
+
+            {/* Unlocked achievements */}
+            {achievements?.some(a => a.unlocked) && (
+                <div className="mb-6">
+                    <Achievements achievements={achievements} compact />
+                </div>
+            )}
+
+            {/* Tab Switcher */}
+            <div className="mb-6 inline-flex bg-gray-100 dark:bg-[#0A0A0A] rounded-xl p-1">
+                {([
+                    ['cards', 'Cards', Layers],
+                    ['collection', 'Collection', Award],
+                    ['tournaments', 'Tournaments', Trophy],
+                    ['performance', 'Performance', TrendingUp],
+                ] as const).map(([id, label, Icon]) => (
+                    <button
+                        key={id}
+                        onClick={() => setActiveTab(id)}
+                        className={`px-4 md:px-5 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-1.5 ${activeTab === id
+                            ? 'bg-white dark:bg-[#1A1A1A] text-yc-text-primary dark:text-white shadow-sm'
+                            : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                            }`}
+                    >
+                        <Icon className="w-4 h-4" />
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {/* Cards Tab */}
+            {activeTab === 'cards' && (
+                <>
+                    <div className="flex items-center mb-4">
+                        <h3 className="text-lg font-bold text-yc-text-primary dark:text-white">Holdings ({cards.length})</h3>
+                        <button
+                            onClick={() => refreshCards()}
+                            disabled={cardsLoading}
+                            className="ml-3 p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                        >
+                            <RefreshCw className={`w-4 h-4 text-gray-500 ${cardsLoading ? 'animate-spin' : ''}`} />
+                        </button>
+                    </div>
+                    {!polledCards ? (
+                        <div className="flex justify-center py-20">
+                            <Loader2 className="w-8 h-8 text-yc-orange animate-spin" />
+                        </div>
+                    ) : cards.length === 0 ? (
+                        <p className="text-center text-gray-500 py-20">This wallet holds no cards</p>
+                    ) : (
+                        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-1.5 md:gap-4">
+                            {cards.map(card => (
+                                <div
+                                    key={card.tokenId}
+                                    onClick={() => navigate(RoutePaths.card(card.tokenId))}
+                                    className={`bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl overflow-hidden relative cursor-pointer hover:border-yc-orange transition-all ${card.isLocked ? 'ring-1 ring-red-500/50' : ''}`}
+                                >
+                                    {card.isLocked && (
+                                        <div className="absolute top-3 left-3 z-20 bg-red-500 text-white text-[10px] font-bold px-2 py-1 rounded">
+                                            LOCKED
+                                        </div>
+                                    )}
+                                    <div className="relative" style={{ aspectRatio: '591/1004' }}>
+                                        <img src={card.image} alt={card.name} className="w-full h-full object-contain" />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </>
+            )}
+
+            {/* Collection Tab */}
+            {activeTab === 'collection' && (
+                <div className="space-y-6">
+                    <Achievements achievements={achievements} />
+                    <CollectionTracker sets={sets} mintStats={mintStats} />
+                </div>
+            )}
+
+            {/* Tournaments Tab */}
+            {activeTab === 'tournaments' && (
+                <div className="space-y-4">
+                    {/* Current lineup */}
+                    {currentEntry && (
+                        <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl p-4 md:p-6">
+                            <h3 className="font-bold text-yc-text-primary dark:text-white mb-4">
+                                Lineup in Tournament #{currentEntry.tournamentId}
+                            </h3>
+                            <div className="grid grid-cols-5 gap-1.5 sm:gap-3">
+                                {currentEntry.cardIds.map(tokenId => {
+                                    const card = cardById.get(tokenId);
+                                    return (
+                                        <div
+                                            key={tokenId}
+                                            onClick={() => navigate(RoutePaths.card(tokenId))}
+                                            className="flex flex-col items-center cursor-pointer"
+                                        >
+                                            <div className="relative w-full aspect-[3/4] rounded-lg overflow-hidden border border-gray-200 dark:border-[#2A2A2A] bg-gray-50 dark:bg-[#0A0A0A] flex items-center justify-center">
+                                                {card
+                                                    ? <img src={card.image} alt={card.name} className="w-full h-full object-contain" />
+                                                    : <span className="text-xs font-mono text-gray-400">#{tokenId}</span>}
+                                            </div>
+                                            <p className="text-[10px] sm:text-xs font-bold text-gray-700 dark:text-gray-300 mt-1 text-center truncate w-full">
+                                                {card?.name || `Card #${tokenId}`}
+                                            </p>
+                                            {card && (
+                                                <span className={`text-[9px] sm:text-[10px] font-bold px-1.5 py-0.5 rounded mt-0.5 ${RARITY_BADGE[card.rarity] || RARITY_BADGE.Common}`}>
+                                                    {card.rarity} {card.multiplier}x
+                                                </span>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* History */}
+                    <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-xl overflow-hidden">
+                        <h3 className="font-bold text-yc-text-primary dark:text-white p-4 border-b border-gray-200 dark:border-[#2A2A2A]">Tournament History</h3>
+                        {!tournaments ? (
+                            <div className="flex justify-center py-10">
+                                {tournamentsError && !tournamentsLoading
+                                    ? <p className="text-sm text-gray-500">Could not load history — {tournamentsError}</p>
+                                    : <Loader2 className="w-6 h-6 text-yc-orange animate-spin" />}
+                            </div>
+                        ) : tournaments.length === 0 ? (
+                            <p className="text-center text-gray-500 py-10">No tournaments entered yet</p>
+                        ) : (
+                            <div className="divide-y divide-gray-200 dark:divide-[#2A2A2A]">
+                                {tournaments.map(entry => (
+                                    <button
+                                        key={entry.tournamentId}
+                                        onClick={() => navigate(`${RoutePaths.tournament(entry.tournamentId)}?player=${address}`)}
+                                        className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-[#1A1A1A] transition-colors"
+                                    >
+                                        <div>
+                                            <p className="text-sm font-bold text-yc-text-primary dark:text-white">Tournament #{entry.tournamentId}</p>
+                                            <p className="text-xs text-gray-500">
+                                                {entry.cancelled ? 'Lineup cancelled' : entry.enteredAt ? `Entered ${new Date(entry.enteredAt * 1000).toLocaleDateString()}` : 'Entered'}
+                                            </p>
+                                        </div>
+                                        <div className="text-right">
+                                            <p className="text-sm font-mono font-bold text-yc-text-primary dark:text-white">
+                                                {entry.rank ? `#${entry.rank}` : '--'}
+                                                {entry.score !== null && <span className="text-gray-500 font-normal ml-2">{entry.score.toFixed(1)} pts</span>}
+                                            </p>
+                                            {entry.prize > 0n && (
+                                                <p className="text-xs font-mono text-yc-green">+{formatXTZ(entry.prize)} XTZ</p>
+                                            )}
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Performance Tab */}
+            {activeTab === 'performance' && <Analytics address={address} />}
+        </div>
+    );
+};
+
+export default PlayerProfile;
@@ -2,14 +2,29 @@ import React, { useState, useEffect, useRef, useLayoutEffect } from 'react';
 import { CardData, Rarity, sortByRarity } from '../types';
 import CardDetailModal, { CardDetailData } from './CardDetailModal';
 import Analytics from './Analytics';
-import { Wallet, ArrowUpRight, TrendingUp, Plus, ShoppingCart, Layers, Zap, X, Check, RefreshCw, Tag, Loader2, Gavel, Clock, Activity, DollarSign, History } from 'lucide-react';
+import { Wallet, ArrowUpRight, TrendingUp, Plus, ShoppingCart, Layers, Zap, X, Check, RefreshCw, Tag, Loader2, Gavel, Clock, Activity, DollarSign, History, Settings, ShieldCheck, ShieldOff, WandSparkles, Send, Award } from 'lucide-react';
 import { useWalletContext } from '../context/WalletContext';
 import { useNFT } from '../hooks/useNFT';
 import { useMarketplaceV2 } from '../hooks/useMarketplaceV2';
 import { usePollingData } from '../hooks/usePollingData';
-import { formatXTZ } from '../lib/contracts';
+import { useCollection } from '../hooks/useCollection';
+import { useFairValues } from '../hooks/useFairValue';
+import { formatXTZ, CONTRACTS } from '../lib/contracts';
+import { describeError } from '../lib/errors';
 import gsap from 'gsap';
 import { useOnboarding } from '../hooks/useOnboarding';
+import { usePreflight } from '../hooks/usePreflight';
+import { useOnline } from '../hooks/useOnline';
+import GasEstimate from './GasEstimate';
+import ApproveAllOption from './ApproveAllOption';
+import MergePlanner from './MergePlanner';
+import ExportMenu from './ExportMenu';
+import TransferModal from './TransferModal';
+import StorageSettings from './StorageSettings';
+import CollectionTracker from './CollectionTracker';
+import Achievements from './Achievements';
+import FairValueSuggestion from './FairValueSuggestion';
+import { useMarketplaceApproval } from '../hooks/useMarketplaceApproval';
 import OnboardingGuide, { OnboardingStep } from './OnboardingGuide';
 
 const PORTFOLIO_GUIDE: OnboardingStep[] = [
@@ -35,19 +50,26 @@ interface PortfolioProps {
 }
 
 const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
-    const [activeTab, setActiveTab] = useState<'cards' | 'performance'>('cards');
+    const [activeTab, setActiveTab] = useState<'cards' | 'collection' | 'performance' | 'settings'>('cards');
     const [myCards, setMyCards] = useState<CardData[]>([]);
     const [isMergeMode, setIsMergeMode] = useState(false);
     const [selectedCardIds, setSelectedCardIds] = useState<number[]>([]);
     const [mergeStatus, setMergeStatus] = useState<'idle' | 'confirming' | 'processing' | 'success'>('idle');
+    const [showPlanner, setShowPlanner] = useState(false);
+    const [mergeQueue, setMergeQueue] = useState<[number, number, number][]>([]); // Planned merges after the current one
+    const [marketTokenIds, setMarketTokenIds] = useState<ReadonlySet<number>>(new Set()); // Listed / in auction
     const [newlyForgedCard, setNewlyForgedCard] = useState<CardData | null>(null);
     const [viewingCard, setViewingCard] = useState<CardDetailData | null>(null);
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [mergeError, setMergeError] = useState<string | null>(null);
     const [pendingNewTokenId, setPendingNewTokenId] = useState<number | null>(null);
+    const [isSendMode, setIsSendMode] = useState(false);
+    const [sendSelection, setSendSelection] = useState<number[]>([]);
+    const [cardsToSend, setCardsToSend] = useState<CardData[] | null>(null);
 
     // Sell modal state
     const [sellModalOpen, setSellModalOpen] = useState(false);
+    const [approveAll, setApproveAll] = useState(false);
     const [cardToSell, setCardToSell] = useState<CardData | null>(null);
     const [sellMode, setSellMode] = useState<'fixed' | 'auction'>('fixed');
     const [sellPrice, setSellPrice] = useState('');
@@ -55,6 +77,7 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
     const [auctionReservePrice, setAuctionReservePrice] = useState('');
     const [auctionDuration, setAuctionDuration] = useState('24'); // hours
     const [isSelling, setIsSelling] = useState(false);
+    const { estimates: fairValues } = useFairValues(sellModalOpen);
 
     // NFT Stats Modal state
     const [statsModalOpen, setStatsModalOpen] = useState(false);
@@ -75,8 +98,10 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
 
     // Hooks
     const { isConnected, address, getSigner, connect } = useWalletContext();
-    const { getCards, getCardInfo, getCardInfoWithRetry, mergeCards, isLoading, clearCache, updateServerCache } = useNFT();
-    const { listCard, createAuction, getBidsForToken, getTokenStats, getTokenSaleHistory, loading: marketplaceLoading } = useMarketplaceV2();
+    const online = useOnline();
+    const { getCards, getCardInfo, getCardInfoWithRetry, mergeCards, simulateMerge, isLoading, clearCache, updateServerCache } = useNFT();
+    const { listCard, createAuction, getUserListings, getActiveAuctions, getBidsForToken, getTokenStats, getTokenSaleHistory, loading: marketplaceLoading } = useMarketplaceV2();
+    const marketplaceApproval = useMarketplaceApproval();
     const { isVisible: showGuide, currentStep: guideStep, nextStep: guideNext, dismiss: guideDismiss } = useOnboarding('portfolio');
 
     // Auto-refresh cards with polling (disabled when not connected)
@@ -96,6 +121,38 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
         }
     );
 
+    // Only fetched while the Collection tab is open
+    const { sets: collectionSets, mintStats, achievements } = useCollection(
+        activeTab === 'collection' && address ? address : null,
+        polledCards
+    );
+
+    // Simulate the merge as soon as three cards are picked — the Forge button waits for it
+    const mergeCheck = usePreflight(
+        selectedCardIds.length === 3 && address
+            ? () => simulateMerge(selectedCardIds as [number, number, number], address)
+            : null,
+        [selectedCardIds.join(','), address, simulateMerge]
+    );
+    const mergeWouldFail = mergeCheck.result?.ok === false;
+
+    // Cards on the marketplace are off-limits for the planner
+    useEffect(() => {
+        if (!showPlanner || !address) return;
+        let cancelled = false;
+        Promise.all([getUserListings(address), getActiveAuctions()])
+            .then(([listings, auctions]) => {
+                if (cancelled) return;
+                const me = address.toLowerCase();
+                setMarketTokenIds(new Set([
+                    ...listings.filter(l => l.active).map(l => Number(l.tokenId)),
+                    ...auctions.filter(a => a.seller.toLowerCase() === me).map(a => Number(a.tokenId)),
+                ]));
+            })
+            .catch(() => { /* escrowed cards aren't in myCards anyway */ });
+        return () => { cancelled = true; };
+    }, [showPlanner, address, getUserListings, getActiveAuctions]);
+
     // Update myCards when polled data changes (sorted by rarity, rarest first)
     useEffect(() => {
         if (polledCards) {
@@ -159,6 +216,14 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
         }
     };
 
+    // Any number of unlocked cards can go in one send
+    const toggleSendSelection = (card: CardData) => {
+        if (card.isLocked) return;
+        setSendSelection(prev => prev.includes(card.tokenId)
+            ? prev.filter(id => id !== card.tokenId)
+            : [...prev, card.tokenId]);
+    };
+
     // Store full card data for detail modal
     const [viewingCardData, setViewingCardData] = useState<CardData | null>(null);
 
@@ -166,6 +231,8 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
     const handleCardClick = (card: CardData) => {
         if (isMergeMode) {
             toggleCardSelection(card.tokenId);
+        } else if (isSendMode) {
+            toggleSendSelection(card);
         } else {
             setViewingCardData(card); // Store full card data
             setViewingCard({
@@ -182,8 +249,8 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
     };
 
     // Execute Merge - transaction first, animation after success
-    const handleForge = async () => {
-        if (selectedCardIds.length !== 3) return;
+    const handleForge = async (tokenIds: number[] = selectedCardIds) => {
+        if (tokenIds.length !== 3) return;
 
         setMergeStatus('confirming'); // Waiting for wallet signature
         setMergeError(null);
@@ -193,11 +260,12 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
         if (!signer) {
             setMergeStatus('idle');
             setMergeError('Could not get wallet signer');
+            setMergeQueue([]);
             return;
         }
 
         // Execute transaction and WAIT for it to complete
-        const result = await mergeCards(signer, selectedCardIds as [number, number, number]);
+        const result = await mergeCards(signer, tokenIds as [number, number, number]);
 
         if (result.success && result.newTokenId) {
             // Start fetching card metadata IMMEDIATELY (parallel with animation)
@@ -205,29 +273,35 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
             setPendingNewTokenId(result.newTokenId);
             setMergeStatus('processing'); // This triggers the animation
         } else {
-            // Decode common errors
-            let errorMsg = result.error || 'Merge failed';
-            if (errorMsg.includes('reinitializeStartups')) {
-                // Pass through the detailed message from pre-merge verification
-                errorMsg = result.error!;
-            } else if (errorMsg.includes('On-chain rarity mismatch')) {
-                // Pass through the detailed message from pre-merge verification
-                errorMsg = result.error!;
-            } else if (errorMsg.includes('0x7c0aec15')) {
-                errorMsg = 'Cards have different rarities on-chain. Try refreshing your cards — cached data may be stale.';
-            } else if (errorMsg.includes('NotCardOwner')) {
-                errorMsg = 'You do not own all selected cards';
-            } else if (errorMsg.includes('CannotMergeLegendary')) {
-                errorMsg = 'Cannot merge Legendary cards';
-            } else if (errorMsg.includes('CardIsLocked')) {
-                errorMsg = 'One or more cards are locked in tournament';
-            }
-            setMergeError(errorMsg);
+            // Hook already returns a decoded, user-facing message
+            setMergeError(result.error || 'Merge failed');
             setMergeStatus('idle');
             setSelectedCardIds([]);
+            setMergeQueue([]);
         }
     };
 
+    // Planned merges run one after another through the same forge flow
+    const forgeTriple = (triple: [number, number, number]) => {
+        setNewlyForgedCard(null);
+        setSelectedCardIds(triple);
+        handleForge(triple);
+    };
+
+    const startMergeQueue = (triples: [number, number, number][]) => {
+        if (triples.length === 0) return;
+        setShowPlanner(false);
+        setMergeQueue(triples.slice(1));
+        forgeTriple(triples[0]);
+    };
+
+    const forgeNextInQueue = () => {
+        const [next, ...rest] = mergeQueue;
+        if (!next) return;
+        setMergeQueue(rest);
+        forgeTriple(next);
+    };
+
     // GSAP Animation Effect - only runs ONCE when processing (after transaction success)
     useLayoutEffect(() => {
         if (mergeStatus === 'processing' && fusionContainerRef.current && pendingNewTokenId && !animationRanRef.current) {
@@ -335,10 +409,20 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
         }
     };
 
+    // Sent cards leave the grid right away — useNFT has already patched the caches
+    const handleTransferred = (tokenIds: number[]) => {
+        const sent = new Set(tokenIds);
+        setMyCards(prev => prev.filter(c => !sent.has(c.tokenId)));
+        const remaining = sendSelection.filter(id => !sent.has(id));
+        setSendSelection(remaining);
+        if (remaining.length === 0) setIsSendMode(false);
+    };
+
     const closeSuccessModal = () => {
         setMergeStatus('idle');
         setNewlyForgedCard(null);
         setIsMergeMode(false);
+        setMergeQueue([]);
     };
 
     const selectedCardsData = myCards.filter(c => selectedCardIds.includes(c.tokenId));
@@ -383,7 +467,7 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                 return;
             }
 
-            await listCard(BigInt(cardToSell.tokenId), sellPrice);
+            await listCard(BigInt(cardToSell.tokenId), sellPrice, { approveAll });
 
             alert(`Card listed for ${sellPrice} XTZ!`);
             setSellModalOpen(false);
@@ -391,7 +475,7 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
             setSellPrice('');
             await loadCards(true);
         } catch (e: any) {
-            alert(`Failed to list: ${e.message}`);
+            alert(describeError(e, 'Failed to list card'));
         }
         setIsSelling(false);
     };
@@ -421,7 +505,8 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                 BigInt(cardToSell.tokenId),
                 auctionStartPrice,
                 reservePrice,
-                durationDays
+                durationDays,
+                { approveAll }
             );
 
             alert(`Auction created! Starting at ${auctionStartPrice} XTZ for ${auctionDuration} hours.`);
@@ -429,7 +514,7 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
             setCardToSell(null);
             await loadCards(true);
         } catch (e: any) {
-            alert(`Failed to create auction: ${e.message}`);
+            alert(describeError(e, 'Failed to create auction'));
         }
         setIsSelling(false);
     };
@@ -515,10 +600,10 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                     </div>
 
                     {/* Tab Switcher */}
-                    <div className="mb-6">
+                    <div className="mb-6 flex items-center justify-between gap-3">
                         <div className="inline-flex bg-gray-100 dark:bg-[#0A0A0A] rounded-xl p-1">
                             <button
-                                onClick={() => { setActiveTab('cards'); setIsMergeMode(false); setSelectedCardIds([]); }}
+                                onClick={() => { setActiveTab('cards'); setIsMergeMode(false); setSelectedCardIds([]); setIsSendMode(false); setSendSelection([]); }}
                                 className={`px-5 py-2 rounded-lg text-sm font-bold transition-all ${
                                     activeTab === 'cards'
                                         ? 'bg-white dark:bg-[#1A1A1A] text-yc-text-primary dark:text-white shadow-sm'
@@ -528,7 +613,18 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                                 My Cards
                             </button>
                             <button
-                                onClick={() => { setActiveTab('performance'); setIsMergeMode(false); setSelectedCardIds([]); }}
+                                onClick={() => { setActiveTab('collection'); setIsMergeMode(false); setSelectedCardIds([]); setIsSendMode(false); setSendSelection([]); }}
+                                className={`px-5 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-1.5 ${
+                                    activeTab === 'collection'
+                                        ? 'bg-white dark:bg-[#1A1A1A] text-yc-text-primary dark:text-white shadow-sm'
+                                        : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                                }`}
+                            >
+                                <Award className="w-4 h-4" />
+                                Collection
+                            </button>
+                            <button
+                                onClick={() => { setActiveTab('performance'); setIsMergeMode(false); setSelectedCardIds([]); setIsSendMode(false); setSendSelection([]); }}
                                 className={`px-5 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-1.5 ${
                                     activeTab === 'performance'
                                         ? 'bg-white dark:bg-[#1A1A1A] text-yc-text-primary dark:text-white shadow-sm'
@@ -538,12 +634,83 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                                 <TrendingUp className="w-4 h-4" />
                                 Performance
                             </button>
+                            <button
+                                onClick={() => { setActiveTab('settings'); setIsMergeMode(false); setSelectedCardIds([]); setIsSendMode(false); setSendSelection([]); }}
+                                className={`px-5 py-2 rounded-lg text-sm font-bold transition-all flex items-center gap-1.5 ${
+                                    activeTab === 'settings'
+                                        ? 'bg-white dark:bg-[#1A1A1A] text-yc-text-primary dark:text-white shadow-sm'
+                                        : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                                }`}
+                            >
+                                <Settings className="w-4 h-4" />
+                                Settings
+                            </button>
                         </div>
+                        <ExportMenu />
                     </div>
 
+                    {/* Collection Tab: set progress and achievements */}
+                    {activeTab === 'collection' && (
+                        <div className="space-y-6">
+                            <Achievements achievements={achievements} />
+                            <CollectionTracker sets={collectionSets} mintStats={mintStats} />
+                        </div>
+                    )}
+
                     {/* Performance Tab: Analytics */}
                     {activeTab === 'performance' && <Analytics />}
 
+                    {/* Settings Tab: Marketplace operator approval, offline cache */}
+                    {activeTab === 'settings' && (
+                        <div className="space-y-4 max-w-2xl">
+                        <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-2xl p-6">
+                            <div className="flex items-start justify-between gap-4">
+                                <div className="flex items-start gap-3">
+                                    <div className={`p-2 rounded-lg ${marketplaceApproval.isApproved ? 'bg-yc-green/10 text-yc-green' : 'bg-gray-100 dark:bg-[#1A1A1A] text-gray-500'}`}>
+                                        {marketplaceApproval.isApproved ? <ShieldCheck className="w-5 h-5" /> : <ShieldOff className="w-5 h-5" />}
+                                    </div>
+                                    <div>
+                                        <h3 className="font-bold text-yc-text-primary dark:text-white">Marketplace Access</h3>
+                                        <p className="text-sm text-gray-500 mt-1">
+                                            {marketplaceApproval.isApproved === undefined
+                                                ? 'Checking approval…'
+                                                : marketplaceApproval.isApproved
+                                                    ? 'New listings, new auctions and accepting bids need a single wallet prompt — the marketplace can take the card without a per-card approval.'
+                                                    : 'Each listing or auction asks you to approve that one card first (two wallet prompts per sale).'}
+                                        </p>
+                                        <p className="text-xs text-gray-400 mt-2 font-mono break-all">Operator: {CONTRACTS.MarketplaceV2}</p>
+                                    </div>
+                                </div>
+                                {marketplaceApproval.isApproved !== undefined && (
+                                    <button
+                                        onClick={async () => {
+                                            try {
+                                                await marketplaceApproval.setApproval(!marketplaceApproval.isApproved);
+                                            } catch (e: any) {
+                                                alert(describeError(e, 'Failed to update approval'));
+                                            }
+                                        }}
+                                        disabled={marketplaceApproval.isUpdating}
+                                        className={`shrink-0 px-4 py-2 rounded-xl text-sm font-bold transition-colors flex items-center gap-2 disabled:opacity-50 ${marketplaceApproval.isApproved
+                                            ? 'bg-red-500/10 text-red-500 hover:bg-red-500/20'
+                                            : 'bg-yc-orange text-white hover:bg-orange-600'
+                                            }`}
+                                    >
+                                        {marketplaceApproval.isUpdating && <Loader2 className="w-4 h-4 animate-spin" />}
+                                        {marketplaceApproval.isApproved ? 'Revoke' : 'Approve'}
+                                    </button>
+                                )}
+                            </div>
+                            {marketplaceApproval.isApproved && (
+                                <p className="text-xs text-gray-500 mt-4">
+                                    Revoking only affects new listings, new auctions and accepting bids. Cards already listed or auctioned are held by the marketplace and still sell as usual.
+                                </p>
+                            )}
+                        </div>
+                        <StorageSettings />
+                        </div>
+                    )}
+
                     {/* Cards Tab Content */}
                     {activeTab === 'cards' && (<>
                     {/* Assets Header & Controls */}
@@ -560,10 +727,32 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                             </button>
                         </h3>
 
+                        <div className="flex items-center gap-2">
+                        {!isMergeMode && (
+                            <button
+                                onClick={() => {
+                                    setIsSendMode(!isSendMode);
+                                    setSendSelection([]);
+                                    setViewingCard(null);
+                                    setViewingCardData(null);
+                                }}
+                                className={`
+                            flex items-center px-4 py-2 rounded-xl text-sm font-bold transition-all border
+                            ${isSendMode
+                                        ? 'bg-yc-orange text-white border-yc-orange shadow-[0_0_15px_rgba(242,101,34,0.4)]'
+                                        : 'bg-white dark:bg-[#121212] text-gray-500 hover:text-yc-text-primary dark:hover:text-white border-gray-200 dark:border-[#2A2A2A]'}
+                        `}
+                            >
+                                {isSendMode ? <X className="w-4 h-4 mr-2" /> : <Send className="w-4 h-4 mr-2" />}
+                                {isSendMode ? 'Cancel Send' : 'Send Cards'}
+                            </button>
+                        )}
+                        {!isSendMode && (
                         <button
                             onClick={() => {
                                 setIsMergeMode(!isMergeMode);
                                 setSelectedCardIds([]);
+                                setShowPlanner(false);
                                 setViewingCard(null);
                                 setViewingCardData(null);
                             }}
@@ -577,8 +766,23 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                             {isMergeMode ? <X className="w-4 h-4 mr-2" /> : <Layers className="w-4 h-4 mr-2" />}
                             {isMergeMode ? 'Cancel Merge' : 'Merge Cards'}
                         </button>
+                        )}
+                        </div>
                     </div>
 
+                    {/* Send Instructions */}
+                    {isSendMode && (
+                        <div className="mb-6 p-4 bg-yc-orange/10 border border-yc-orange/30 rounded-xl flex items-center animate-[fadeIn_0.3s]">
+                            <div className="bg-yc-orange text-white p-2 rounded-lg mr-3">
+                                <Send className="w-5 h-5" />
+                            </div>
+                            <div>
+                                <h4 className="text-yc-text-primary dark:text-white font-bold text-sm">Send to Another Wallet</h4>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">Select the cards to send. Locked and listed cards can’t be transferred.</p>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Merge Instructions */}
                     {isMergeMode && (
                         <div className="mb-6 p-4 bg-yc-orange/10 border border-yc-orange/30 rounded-xl flex items-center animate-[fadeIn_0.3s]">
@@ -589,9 +793,28 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                                 <h4 className="text-yc-text-primary dark:text-white font-bold text-sm">Fusion Reactor Online</h4>
                                 <p className="text-xs text-gray-500 dark:text-gray-400">Select <span className="text-yc-orange font-bold">3 cards of same rarity</span> to burn and forge 1 higher rarity card.</p>
                             </div>
+                            <button
+                                onClick={() => setShowPlanner(!showPlanner)}
+                                className={`ml-auto shrink-0 px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-1.5 transition-colors ${showPlanner
+                                    ? 'bg-yc-orange text-white'
+                                    : 'bg-white dark:bg-[#121212] text-yc-orange border border-yc-orange/30 hover:bg-yc-orange/10'
+                                    }`}
+                            >
+                                <WandSparkles className="w-4 h-4" />
+                                Auto-Plan
+                            </button>
                         </div>
                     )}
 
+                    {/* Merge Planner */}
+                    {isMergeMode && showPlanner && (
+                        <MergePlanner
+                            cards={myCards}
+                            excludedTokenIds={marketTokenIds}
+                            onQueue={startMergeQueue}
+                        />
+                    )}
+
                     {/* Loading State */}
                     {isLoading && myCards.length === 0 && (
                         <div className="text-center py-20">
@@ -620,7 +843,9 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                         <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-1.5 md:gap-4 pb-24">
                             {myCards.map((card) => {
                                 const isSelected = selectedCardIds.includes(card.tokenId);
-                                const isDimmed = isMergeMode && !isSelected && (selectedCardIds.length >= 3 || !getAvailableForMerge(card));
+                                const isSendSelected = isSendMode && sendSelection.includes(card.tokenId);
+                                const isDimmed = (isMergeMode && !isSelected && (selectedCardIds.length >= 3 || !getAvailableForMerge(card)))
+                                    || (isSendMode && card.isLocked);
 
                                 return (
                                     <div
@@ -628,7 +853,7 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                                         onClick={() => handleCardClick(card)}
                                         className={`
                                   bg-white dark:bg-[#121212] border rounded-xl overflow-hidden transition-all duration-300 relative cursor-pointer
-                                  ${isSelected
+                                  ${isSelected || isSendSelected
                                                 ? 'border-yc-orange ring-2 ring-yc-orange/50 shadow-[0_0_20px_rgba(242,101,34,0.2)] scale-[1.02] z-10'
                                                 : 'border-yc-light-border dark:border-[#2A2A2A] hover:border-yc-orange hover:-translate-y-1 hover:shadow-xl'}
                                   ${isDimmed ? 'opacity-40 grayscale' : 'opacity-100'}
@@ -642,6 +867,12 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                                             </div>
                                         )}
 
+                                        {isSendMode && !card.isLocked && (
+                                            <div className={`absolute top-3 right-3 z-20 w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all ${isSendSelected ? 'bg-yc-orange border-yc-orange' : 'bg-black/50 border-white/50'}`}>
+                                                {isSendSelected && <Check className="w-4 h-4 text-white" />}
+                                            </div>
+                                        )}
+
                                         {/* Locked Badge */}
                                         {card.isLocked && (
                                             <div className="absolute top-3 left-3 z-20 bg-red-500 text-white text-[10px] font-bold px-2 py-1 rounded">
@@ -657,7 +888,7 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                             })}
 
                             {/* Add New Asset Placeholder */}
-                            {!isMergeMode && (
+                            {!isMergeMode && !isSendMode && (
                                 <button
                                     onClick={onBuyPack}
                                     className="border-2 border-dashed border-gray-300 dark:border-[#2A2A2A] rounded-xl flex flex-col items-center justify-center p-4 md:p-6 text-gray-400 hover:text-yc-orange hover:border-yc-orange transition-colors min-h-[120px] md:min-h-[280px]"
@@ -678,11 +909,11 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                                     <span className="text-gray-900 dark:text-white font-mono font-bold">{selectedCardIds.length} / 3 Selected</span>
                                 </div>
                                 <button
-                                    disabled={selectedCardIds.length !== 3}
-                                    onClick={handleForge}
+                                    disabled={selectedCardIds.length !== 3 || mergeWouldFail}
+                                    onClick={() => handleForge()}
                                     className={`
                                 px-8 py-3 rounded-xl font-bold uppercase tracking-wider flex items-center transition-all
-                                ${selectedCardIds.length === 3
+                                ${selectedCardIds.length === 3 && !mergeWouldFail
                                             ? 'bg-yc-orange hover:bg-orange-600 text-white shadow-[0_0_20px_rgba(242,101,34,0.5)] animate-pulse'
                                             : 'bg-gray-800 text-gray-500 cursor-not-allowed'}
                             `}
@@ -691,6 +922,38 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                                     Forge
                                 </button>
                             </div>
+                            {selectedCardIds.length === 3 && (
+                                <GasEstimate
+                                    result={mergeCheck.result}
+                                    isChecking={mergeCheck.isChecking}
+                                    className="mt-2 justify-center bg-white dark:bg-[#1A1A1A] border border-gray-300 dark:border-[#333] rounded-xl px-3 py-2 shadow-lg"
+                                />
+                            )}
+                        </div>
+                    )}
+
+                    {/* Floating Action Bar for Send */}
+                    {isSendMode && (
+                        <div className="fixed bottom-24 md:bottom-8 left-1/2 transform -translate-x-1/2 z-40 animate-[slideUp_0.3s_cubic-bezier(0.2,0.8,0.2,1)]">
+                            <div className="bg-white dark:bg-[#1A1A1A] border border-gray-300 dark:border-[#333] p-2 pl-6 pr-2 rounded-2xl shadow-2xl flex items-center gap-6">
+                                <div className="flex flex-col">
+                                    <span className="text-[10px] text-gray-400 uppercase font-bold tracking-wider">Transfer</span>
+                                    <span className="text-gray-900 dark:text-white font-mono font-bold">{sendSelection.length} Selected</span>
+                                </div>
+                                <button
+                                    disabled={sendSelection.length === 0}
+                                    onClick={() => setCardsToSend(myCards.filter(c => sendSelection.includes(c.tokenId)))}
+                                    className={`
+                                px-8 py-3 rounded-xl font-bold uppercase tracking-wider flex items-center transition-all
+                                ${sendSelection.length > 0
+                                            ? 'bg-yc-orange hover:bg-orange-600 text-white'
+                                            : 'bg-gray-800 text-gray-500 cursor-not-allowed'}
+                            `}
+                                >
+                                    <Send className="w-4 h-4 mr-2" />
+                                    Send
+                                </button>
+                            </div>
                         </div>
                     )}
                 </>)}
@@ -705,8 +968,22 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                     setViewingCard(null);
                     setViewingCardData(null);
                 }}
+                onSend={viewingCardData ? () => {
+                    setCardsToSend([viewingCardData]);
+                    setViewingCard(null);
+                    setViewingCardData(null);
+                } : undefined}
             />
 
+            {/* Transfer Modal */}
+            {cardsToSend && (
+                <TransferModal
+                    cards={cardsToSend}
+                    onClose={() => setCardsToSend(null)}
+                    onTransferred={handleTransferred}
+                />
+            )}
+
             {/* Forge Processing / Success Overlay */}
             {(mergeStatus !== 'idle' || mergeError) && (
                 <div ref={fusionContainerRef} className="fixed inset-0 z-50 flex items-center justify-center bg-black/95 backdrop-blur-xl overflow-hidden">
@@ -802,12 +1079,30 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                                 </div>
                             )}
 
-                            <button
-                                onClick={closeSuccessModal}
-                                className="bg-white text-black hover:bg-gray-200 px-10 py-3 rounded-lg font-bold uppercase tracking-wide transition-all shadow-lg"
-                            >
-                                Collect Asset
-                            </button>
+                            {mergeQueue.length > 0 ? (
+                                <div className="flex gap-3">
+                                    <button
+                                        onClick={closeSuccessModal}
+                                        className="bg-white/10 text-white hover:bg-white/20 px-6 py-3 rounded-lg font-bold uppercase tracking-wide transition-all"
+                                    >
+                                        Stop Here
+                                    </button>
+                                    <button
+                                        onClick={forgeNextInQueue}
+                                        className="bg-yc-orange text-white hover:bg-orange-600 px-8 py-3 rounded-lg font-bold uppercase tracking-wide transition-all shadow-lg flex items-center gap-2"
+                                    >
+                                        <Zap className="w-4 h-4 fill-current" />
+                                        Forge Next ({mergeQueue.length} left)
+                                    </button>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={closeSuccessModal}
+                                    className="bg-white text-black hover:bg-gray-200 px-10 py-3 rounded-lg font-bold uppercase tracking-wide transition-all shadow-lg"
+                                >
+                                    Collect Asset
+                                </button>
+                            )}
                         </div>
                     )}
                 </div>
@@ -893,6 +1188,7 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                                 <p className="text-xs text-gray-500 mt-2">
                                     2% royalty will be deducted on sale
                                 </p>
+                                <FairValueSuggestion estimate={fairValues[cardToSell.startupId]} onUse={setSellPrice} />
                             </div>
                         )}
 
@@ -965,6 +1261,8 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                             </div>
                         )}
 
+                        <ApproveAllOption checked={approveAll} onChange={setApproveAll} />
+
                         {/* Actions */}
                         <div className="flex gap-3">
                             <button
@@ -979,8 +1277,8 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                             {sellMode === 'fixed' ? (
                                 <button
                                     onClick={handleSellCard}
-                                    disabled={isSelling || !sellPrice || parseFloat(sellPrice) <= 0}
-                                    className={`flex-1 py-3 rounded-xl font-bold transition-all flex items-center justify-center gap-2 ${isSelling || !sellPrice || parseFloat(sellPrice) <= 0
+                                    disabled={isSelling || !sellPrice || parseFloat(sellPrice) <= 0 || !online}
+                                    className={`flex-1 py-3 rounded-xl font-bold transition-all flex items-center justify-center gap-2 ${isSelling || !sellPrice || parseFloat(sellPrice) <= 0 || !online
                                         ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
                                         : 'bg-yc-orange text-white hover:bg-orange-600'
                                         }`}
@@ -1000,8 +1298,8 @@ const Portfolio: React.FC<PortfolioProps> = ({ onBuyPack }) => {
                             ) : (
                                 <button
                                     onClick={handleCreateAuction}
-                                    disabled={isSelling || !auctionStartPrice || parseFloat(auctionStartPrice) <= 0}
-                                    className={`flex-1 py-3 rounded-xl font-bold transition-all flex items-center justify-center gap-2 ${isSelling || !auctionStartPrice || parseFloat(auctionStartPrice) <= 0
+                                    disabled={isSelling || !auctionStartPrice || parseFloat(auctionStartPrice) <= 0 || !online}
+                                    className={`flex-1 py-3 rounded-xl font-bold transition-all flex items-center justify-center gap-2 ${isSelling || !auctionStartPrice || parseFloat(auctionStartPrice) <= 0 || !online
                                         ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
                                         : 'bg-purple-500 text-white hover:bg-purple-600'
                                         }`}
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { ComposedChart, BarChart, Bar, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { CandlestickChart, LineChart, Loader2 } from 'lucide-react';
+import { usePriceHistory } from '../hooks/usePriceHistory';
+import { PRICE_RANGES, type Candle, type PriceRange } from '../lib/priceHistory';
+import { STARTUPS } from '../lib/contracts';
+
+interface PriceHistoryChartProps {
+    startupId: number;
+    rarity: string;
+}
+
+type Scope = 'startup' | 'rarity';
+type Mode = 'line' | 'candles';
+
+const UP = '#10B981';
+const DOWN = '#EF4444';
+
+const formatPrice = (value: number) => value >= 100 ? value.toFixed(0) : value >= 1 ? value.toFixed(2) : value.toPrecision(2);
+
+function formatTick(time: number, range: PriceRange): string {
+    const d = new Date(time * 1000);
+    return range === '24h'
+        ? `${d.getHours().toString().padStart(2, '0')}:00`
+        : `${d.getMonth() + 1}/${d.getDate()}`;
+}
+
+// Props recharts injects into a custom Bar shape and Tooltip content (optional at the JSX site)
+interface CandleShapeProps {
+    x?: number;
+    y?: number;
+    width?: number;
+    height?: number;
+    payload?: Candle;
+}
+
+interface CandleTooltipProps {
+    active?: boolean;
+    payload?: { payload: Candle }[];
+}
+
+// Wick from low to high, body from open to close — drawn over the [low, high] range bar
+const CandleShape: React.FC<CandleShapeProps> = ({ x = 0, y = 0, width = 0, height = 0, payload }) => {
+    if (!payload) return null;
+    const { open, close, high, low } = payload;
+    const color = close >= open ? UP : DOWN;
+    const top = Math.min(y, y + height);
+    const span = Math.abs(height);
+    const yOf = (value: number) => high === low ? top : top + ((high - value) / (high - low)) * span;
+    const bodyTop = yOf(Math.max(open, close));
+    const bodyHeight = Math.max(1, yOf(Math.min(open, close)) - bodyTop);
+    const cx = x + width / 2;
+
+    return (
+        <g>
+            <line x1={cx} x2={cx} y1={top} y2={top + span} stroke={color} strokeWidth={1} />
+            <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+        </g>
+    );
+};
+
+const CandleTooltip: React.FC<CandleTooltipProps> = ({ active, payload }) => {
+    if (!active || !payload?.length) return null;
+    const c = payload[0].payload;
+    return (
+        <div className="bg-[#1A1A1A] border border-[#333] rounded-lg px-3 py-2 text-xs text-white font-mono space-y-0.5">
+            <p className="text-gray-400 font-sans">{new Date(c.time * 1000).toLocaleString()}</p>
+            <p>O {formatPrice(c.open)} · H {formatPrice(c.high)} · L {formatPrice(c.low)} · C {formatPrice(c.close)}</p>
+            <p className="text-gray-400">{c.count} sale{c.count > 1 ? 's' : ''} · {formatPrice(c.volume)} XTZ volume</p>
+        </div>
+    );
+};
+
+// Market price history of a startup, or of every startup of its rarity
+const PriceHistoryChart: React.FC<PriceHistoryChartProps> = ({ startupId, rarity }) => {
+    const [scope, setScope] = useState<Scope>('startup');
+    const [range, setRange] = useState<PriceRange>('30d');
+    const [mode, setMode] = useState<Mode>('line');
+
+    const filter = scope === 'startup' ? { startupId } : { rarity };
+    const { candles, summary, isLoading, error, loaded } = usePriceHistory(filter, range);
+
+    const toggleClass = (active: boolean) => `px-2.5 py-1 rounded-md text-xs font-bold transition-all ${active
+        ? 'bg-white dark:bg-[#1A1A1A] text-gray-900 dark:text-white shadow-sm'
+        : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+        }`;
+
+    return (
+        <div>
+            {/* Controls */}
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+                <div className="inline-flex bg-gray-100 dark:bg-[#0A0A0A] rounded-lg p-0.5">
+                    <button onClick={() => setScope('startup')} className={toggleClass(scope === 'startup')}>
+                        {STARTUPS[startupId]?.name ?? `Startup #${startupId}`}
+                    </button>
+                    <button onClick={() => setScope('rarity')} className={toggleClass(scope === 'rarity')}>
+                        All {rarity}
+                    </button>
+                </div>
+                <div className="inline-flex bg-gray-100 dark:bg-[#0A0A0A] rounded-lg p-0.5">
+                    {(Object.keys(PRICE_RANGES) as PriceRange[]).map(r => (
+                        <button key={r} onClick={() => setRange(r)} className={toggleClass(range === r)}>
+                            {PRICE_RANGES[r].label}
+                        </button>
+                    ))}
+                </div>
+                <div className="inline-flex bg-gray-100 dark:bg-[#0A0A0A] rounded-lg p-0.5 ml-auto">
+                    <button onClick={() => setMode('line')} title="Line" className={toggleClass(mode === 'line')}>
+                        <LineChart className="w-3.5 h-3.5" />
+                    </button>
+                    <button onClick={() => setMode('candles')} title="Candles" className={toggleClass(mode === 'candles')}>
+                        <CandlestickChart className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </div>
+
+            {/* Summary */}
+            <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 mb-3 font-mono">
+                <span className="text-lg font-bold text-gray-900 dark:text-white">
+                    {summary.last !== null ? `${formatPrice(summary.last)} XTZ` : '--'}
+                </span>
+                {summary.change !== null && (
+                    <span className={`text-xs font-bold ${summary.change >= 0 ? 'text-yc-green' : 'text-red-500'}`}>
+                        {summary.change >= 0 ? '+' : ''}{summary.change.toFixed(1)}%
+                    </span>
+                )}
+                <span className="text-xs text-gray-500">{summary.count} sales · {formatPrice(summary.volume)} XTZ volume</span>
+            </div>
+
+            {/* Charts */}
+            {!loaded ? (
+                <div className="h-56 flex items-center justify-center text-gray-500 text-sm gap-2">
+                    {isLoading ? <><Loader2 className="w-4 h-4 animate-spin" /> Loading market history…</> : error || 'No data'}
+                </div>
+            ) : candles.length === 0 ? (
+                <div className="h-56 flex items-center justify-center text-gray-500 text-sm">
+                    No sales in this range
+                </div>
+            ) : (
+                <>
+                    <div className="h-44 w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <ComposedChart data={candles} syncId="price-history" margin={{ top: 5, right: 5, bottom: 0, left: 0 }}>
+                                <XAxis dataKey="time" hide />
+                                <YAxis
+                                    domain={['auto', 'auto']}
+                                    axisLine={false}
+                                    tickLine={false}
+                                    width={40}
+                                    tick={{ fill: '#888', fontSize: 10 }}
+                                    tickFormatter={formatPrice}
+                                />
+                                <Tooltip content={<CandleTooltip />} cursor={{ stroke: '#555', strokeDasharray: '3 3' }} />
+                                {mode === 'line' ? (
+                                    <Line type="monotone" dataKey="close" stroke="#F26522" strokeWidth={2} dot={candles.length < 30} isAnimationActive={false} />
+                                ) : (
+                                    <Bar dataKey={(c: Candle) => [c.low, c.high]} shape={<CandleShape />} isAnimationActive={false} />
+                                )}
+                            </ComposedChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <div className="h-14 w-full">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={candles} syncId="price-history" margin={{ top: 0, right: 5, bottom: 0, left: 0 }}>
+                                <XAxis
+                                    dataKey="time"
+                                    axisLine={false}
+                                    tickLine={false}
+                                    tick={{ fill: '#888', fontSize: 10 }}
+                                    tickFormatter={(t: number) => formatTick(t, range)}
+                                />
+                                <YAxis axisLine={false} tickLine={false} tick={false} width={40} />
+                                <Bar dataKey="volume" fill="#52525b" isAnimationActive={false} />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default PriceHistoryChart;
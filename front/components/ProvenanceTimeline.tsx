@@ -0,0 +1,135 @@
+import React from 'react';
+import { Loader2, Package, Zap, ArrowRightLeft, Tag, Gavel, Undo2, ShoppingCart, Trophy, Flame, ExternalLink } from 'lucide-react';
+import { useProvenance } from '../hooks/useProvenance';
+import { useWalletContext } from '../context/WalletContext';
+import { EXPLORER_URL, formatXTZ } from '../lib/contracts';
+import type { ProvenanceEntry, ProvenanceKind } from '../lib/provenance';
+
+interface ProvenanceTimelineProps {
+    tokenId: number;
+    className?: string;
+}
+
+const KIND_STYLE: Record<ProvenanceKind, { icon: React.ElementType; color: string }> = {
+    minted: { icon: Package, color: 'bg-yc-orange' },
+    forged: { icon: Zap, color: 'bg-purple-500' },
+    transfer: { icon: ArrowRightLeft, color: 'bg-gray-400 dark:bg-gray-600' },
+    listed: { icon: Tag, color: 'bg-blue-500' },
+    auctioned: { icon: Gavel, color: 'bg-blue-500' },
+    delisted: { icon: Undo2, color: 'bg-gray-400 dark:bg-gray-600' },
+    sale: { icon: ShoppingCart, color: 'bg-yc-green' },
+    tournament: { icon: Trophy, color: 'bg-amber-500' },
+    burned: { icon: Flame, color: 'bg-red-500' },
+};
+
+const SALE_LABEL = { listing: 'Bought', offer: 'Offer accepted', auction: 'Won at auction' };
+
+function describe(entry: ProvenanceEntry, name: (address?: string) => string): { title: string; detail: string } {
+    switch (entry.kind) {
+        case 'minted':
+            return { title: entry.packId !== undefined ? `Opened from pack #${entry.packId}` : 'Minted', detail: `to ${name(entry.to)}` };
+        case 'forged':
+            return { title: 'Forged by merge', detail: `from ${entry.tokenIds?.map(id => `#${id}`).join(', ')}` };
+        case 'transfer':
+            return { title: 'Transferred', detail: `${name(entry.from)} → ${name(entry.to)}` };
+        case 'listed':
+            return { title: 'Listed for sale', detail: `by ${name(entry.from)}` };
+        case 'auctioned':
+            return { title: 'Put up for auction', detail: `by ${name(entry.from)}, starting price` };
+        case 'delisted':
+            return { title: 'Back with owner', detail: 'Listing cancelled or auction unsold' };
+        case 'sale':
+            return { title: SALE_LABEL[entry.saleType || 'listing'], detail: `${name(entry.from)} → ${name(entry.to)}` };
+        case 'tournament':
+            return {
+                title: `Played Tournament #${entry.tournamentId}`,
+                detail: `by ${name(entry.to)}${entry.points !== undefined ? ` · ${entry.points.toFixed(1)} pts` : ''}`,
+            };
+        case 'burned':
+            return { title: 'Burned in merge', detail: entry.tokenIds ? `into #${entry.tokenIds[0]}` : '' };
+    }
+}
+
+// Everything that happened to one token: mint, owners and prices, merges, tournaments
+const ProvenanceTimeline: React.FC<ProvenanceTimelineProps> = ({ tokenId, className = '' }) => {
+    const { address } = useWalletContext();
+    const { provenance, isLoading, error } = useProvenance(tokenId);
+
+    const name = (account?: string) => {
+        if (!account) return 'unknown';
+        if (address && account === address.toLowerCase()) return 'you';
+        return `${account.slice(0, 6)}...${account.slice(-4)}`;
+    };
+
+    if (!provenance) {
+        return (
+            <div className={`flex justify-center py-6 ${className}`}>
+                {error && !isLoading
+                    ? <p className="text-sm text-gray-500">Could not load history — {error}</p>
+                    : <Loader2 className="w-5 h-5 text-yc-orange animate-spin" />}
+            </div>
+        );
+    }
+
+    if (provenance.entries.length === 0) {
+        return <p className={`text-sm text-gray-500 text-center py-6 ${className}`}>No on-chain history found for this card</p>;
+    }
+
+    const sales = provenance.entries.filter(e => e.kind === 'sale');
+    const entries = [...provenance.entries].reverse();
+
+    return (
+        <div className={className}>
+            {/* Summary */}
+            <p className="text-xs text-gray-500 mb-4">
+                {provenance.owners.length} {provenance.owners.length === 1 ? 'owner' : 'owners'} · {sales.length} {sales.length === 1 ? 'sale' : 'sales'}
+                {sales.length > 0 && ` · last sold for ${formatXTZ(sales[sales.length - 1].price ?? 0n)} XTZ`}
+            </p>
+
+            {/* Timeline — newest first */}
+            <div className="relative pl-2">
+                <div className="absolute left-[13px] top-2 bottom-2 w-px bg-gray-200 dark:bg-[#27272a]"></div>
+                <div className="space-y-4">
+                    {entries.map(entry => {
+                        const { icon: Icon, color } = KIND_STYLE[entry.kind];
+                        const { title, detail } = describe(entry, name);
+                        const when = entry.timestamp ? new Date(entry.timestamp * 1000).toLocaleDateString() : `Block ${entry.blockNumber}`;
+                        return (
+                            <div key={`${entry.txHash}-${entry.logIndex}`} className="relative pl-8">
+                                <div className={`absolute left-0 top-0.5 w-6 h-6 rounded-full flex items-center justify-center z-10 ${color}`}>
+                                    <Icon className="w-3 h-3 text-white" />
+                                </div>
+                                <div className="flex justify-between items-start gap-2">
+                                    <span className="font-bold text-sm text-gray-900 dark:text-white">{title}</span>
+                                    {entry.price !== undefined && (
+                                        <span className="font-mono text-xs font-semibold text-gray-900 dark:text-white shrink-0">
+                                            {formatXTZ(entry.price)} XTZ
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="flex justify-between items-center gap-2 text-xs text-gray-500">
+                                    <span className="truncate">{detail}</span>
+                                    {EXPLORER_URL ? (
+                                        <a
+                                            href={`${EXPLORER_URL}/tx/${entry.txHash}`}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="flex items-center gap-1 shrink-0 hover:text-yc-orange transition-colors"
+                                        >
+                                            {when}
+                                            <ExternalLink className="w-3 h-3" />
+                                        </a>
+                                    ) : (
+                                        <span className="shrink-0">{when}</span>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProvenanceTimeline;
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { X, BellRing, Bell, Trash2, Search, Tag, Gavel } from 'lucide-react';
+import { useSavedSearches } from '../hooks/useSavedSearches';
+import { savedSearches, describeSearch, type SavedSearch, type SavedSearchInput } from '../lib/savedSearches';
+import { alertCenter, type NotificationPermissionState } from '../lib/alerts';
+import { STARTUPS } from '../lib/contracts';
+import { RARITY_ORDER } from '../types';
+
+interface SavedSearchesModalProps {
+    initial: Partial<SavedSearchInput>;         // Prefilled from the Marketplace's current filters
+    onApply: (search: SavedSearch) => void;
+    onClose: () => void;
+}
+
+const RARITIES = [...new Set(Object.values(STARTUPS).map(s => s.rarity))]
+    .sort((a, b) => (RARITY_ORDER[b] ?? 0) - (RARITY_ORDER[a] ?? 0));
+const MULTIPLIERS = [...new Set(Object.values(STARTUPS).map(s => s.multiplier))].sort((a, b) => a - b);
+
+const inputClass = 'w-full bg-gray-50 dark:bg-black border border-gray-300 dark:border-[#2A2A2A] rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-yc-orange';
+
+// Manage saved searches — each one alerts on new matching listings and/or auctions about to end
+const SavedSearchesModal: React.FC<SavedSearchesModalProps> = ({ initial, onApply, onClose }) => {
+    const searches = useSavedSearches();
+    const [permission, setPermission] = useState<NotificationPermissionState>(() => alertCenter.permission());
+
+    const [name, setName] = useState('');
+    const [startupId, setStartupId] = useState<number | null>(initial.startupId ?? null);
+    const [rarity, setRarity] = useState<string | null>(initial.rarity ?? null);
+    const [maxPrice, setMaxPrice] = useState(initial.maxPrice ?? '');
+    const [minMultiplier, setMinMultiplier] = useState<number | null>(initial.minMultiplier ?? null);
+    const [listings, setListings] = useState(true);
+    const [auctions, setAuctions] = useState(true);
+
+    const draft = {
+        startupId,
+        rarity: startupId !== null ? STARTUPS[startupId]?.rarity ?? rarity : rarity,
+        maxPrice: maxPrice.trim() && parseFloat(maxPrice) > 0 ? maxPrice.trim() : null,
+        minMultiplier,
+        listings,
+        auctions,
+    };
+
+    const handleSave = async () => {
+        savedSearches.add({ ...draft, name });
+        setName('');
+        // The first saved search is the natural moment to ask for browser notifications
+        if (permission === 'default') setPermission(await alertCenter.requestPermission());
+    };
+
+    const startupOptions = Object.entries(STARTUPS)
+        .filter(([, s]) => rarity === null || s.rarity === rarity)
+        .sort(([, a], [, b]) => a.name.localeCompare(b.name));
+
+    return (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-[fadeIn_0.2s_ease-out]">
+            <div className="bg-white dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-2xl p-6 w-full max-w-md mx-4 shadow-2xl max-h-[90vh] flex flex-col animate-[scaleIn_0.3s_cubic-bezier(0.34,1.56,0.64,1)]">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                        <BellRing className="w-5 h-5 text-yc-orange" />
+                        Saved Searches
+                    </h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto min-h-0 space-y-4">
+                    {/* Saved */}
+                    {searches.length > 0 && (
+                        <div className="space-y-2">
+                            {searches.map(search => (
+                                <div key={search.id} className="flex items-center gap-2 p-2.5 rounded-xl bg-gray-100 dark:bg-black/50">
+                                    <div className="min-w-0 flex-1">
+                                        <p className="text-sm font-bold text-gray-900 dark:text-white truncate">{search.name}</p>
+                                        <p className="text-xs text-gray-500 truncate">{describeSearch(search)}</p>
+                                    </div>
+                                    <button
+                                        onClick={() => savedSearches.update(search.id, { listings: !search.listings })}
+                                        title={search.listings ? 'Alerting on new listings' : 'Not alerting on new listings'}
+                                        className={`p-1.5 rounded-lg transition-colors ${search.listings ? 'text-yc-orange bg-yc-orange/10' : 'text-gray-400'}`}
+                                    >
+                                        <Tag className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                        onClick={() => savedSearches.update(search.id, { auctions: !search.auctions })}
+                                        title={search.auctions ? 'Alerting on auctions ending soon' : 'Not alerting on auctions'}
+                                        className={`p-1.5 rounded-lg transition-colors ${search.auctions ? 'text-yc-orange bg-yc-orange/10' : 'text-gray-400'}`}
+                                    >
+                                        <Gavel className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                        onClick={() => onApply(search)}
+                                        title="Show matching listings"
+                                        className="p-1.5 rounded-lg text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                                    >
+                                        <Search className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                        onClick={() => savedSearches.remove(search.id)}
+                                        title="Delete"
+                                        className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 transition-colors"
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* New search */}
+                    <div className="space-y-3">
+                        <p className="text-xs font-bold text-gray-400 uppercase">New search</p>
+                        <div className="grid grid-cols-2 gap-3">
+                            <select
+                                value={rarity ?? ''}
+                                onChange={(e) => {
+                                    const next = e.target.value || null;
+                                    setRarity(next);
+                                    if (next && startupId !== null && STARTUPS[startupId]?.rarity !== next) setStartupId(null);
+                                }}
+                                className={inputClass}
+                            >
+                                <option value="">Any rarity</option>
+                                {RARITIES.map(r => <option key={r} value={r}>{r}</option>)}
+                            </select>
+                            <select
+                                value={startupId ?? ''}
+                                onChange={(e) => setStartupId(e.target.value ? Number(e.target.value) : null)}
+                                className={inputClass}
+                            >
+                                <option value="">Any startup</option>
+                                {startupOptions.map(([id, s]) => <option key={id} value={id}>{s.name}</option>)}
+                            </select>
+                            <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                placeholder="Max price (XTZ)"
+                                value={maxPrice}
+                                onChange={(e) => setMaxPrice(e.target.value)}
+                                className={`${inputClass} font-mono`}
+                            />
+                            <select
+                                value={minMultiplier ?? ''}
+                                onChange={(e) => setMinMultiplier(e.target.value ? Number(e.target.value) : null)}
+                                className={inputClass}
+                            >
+                                <option value="">Any multiplier</option>
+                                {MULTIPLIERS.map(m => <option key={m} value={m}>{m}x or more</option>)}
+                            </select>
+                        </div>
+                        <input
+                            type="text"
+                            placeholder={describeSearch(draft)}
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className={inputClass}
+                        />
+                        <div className="flex items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+                            <label className="flex items-center gap-1.5 cursor-pointer">
+                                <input type="checkbox" checked={listings} onChange={(e) => setListings(e.target.checked)} className="accent-yc-orange" />
+                                New listings
+                            </label>
+                            <label className="flex items-center gap-1.5 cursor-pointer">
+                                <input type="checkbox" checked={auctions} onChange={(e) => setAuctions(e.target.checked)} className="accent-yc-orange" />
+                                Auctions ending soon
+                            </label>
+                        </div>
+                        <button
+                            onClick={handleSave}
+                            disabled={!listings && !auctions}
+                            className="w-full py-2.5 rounded-xl font-bold bg-yc-orange text-white hover:bg-orange-600 transition-colors disabled:bg-gray-700 disabled:text-gray-400"
+                        >
+                            Save search
+                        </button>
+                    </div>
+
+                    {/* Browser notifications */}
+                    <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <Bell className="w-3.5 h-3.5 shrink-0" />
+                        {permission === 'granted' && <span>Browser notifications are on while this tab is in the background.</span>}
+                        {permission === 'denied' && <span>Browser notifications are blocked — alerts show in the app only.</span>}
+                        {permission === 'unsupported' && <span>This browser can’t show notifications — alerts show in the app only.</span>}
+                        {permission === 'default' && (
+                            <button
+                                onClick={async () => setPermission(await alertCenter.requestPermission())}
+                                className="font-bold text-yc-orange hover:underline"
+                            >
+                                Enable browser notifications
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SavedSearchesModal;
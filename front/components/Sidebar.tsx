@@ -4,6 +4,13 @@ import { Flame, Store, Wallet, Swords, Newspaper, Settings, Sun, Moon, ShieldChe
 import { useTheme } from '../context/ThemeContext';
 import { isAdmin } from '../hooks/useAdmin';
 import { useWalletContext } from '../context/WalletContext';
+import { useRpcHealth } from '../hooks/useRpcHealth';
+
+const RPC_STATUS_STYLE = {
+  healthy: { dot: 'bg-yc-green', text: 'text-yc-green', label: 'Healthy' },
+  degraded: { dot: 'bg-yellow-400', text: 'text-yellow-500', label: 'Degraded' },
+  down: { dot: 'bg-red-500', text: 'text-red-500', label: 'Down' },
+};
 
 interface SidebarProps {
   activeSection: NavSection;
@@ -16,7 +23,9 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ activeSection, setActiveSection, user, isOpen = false, onClose, onSettingsClick }) => {
   const { theme, toggleTheme } = useTheme();
-  const { disconnect, isConnected } = useWalletContext();
+  const { disconnect, isConnected, network, networks, switchNetwork } = useWalletContext();
+  const rpcHealth = useRpcHealth();
+  const rpcStyle = RPC_STATUS_STYLE[rpcHealth.status];
   const userIsAdmin = isAdmin(user.address || null);
 
   const navItems = [
@@ -109,6 +118,37 @@ const Sidebar: React.FC<SidebarProps> = ({ activeSection, setActiveSection, user
           </div>
         </div>
 
+        {/* RPC Health */}
+        <div
+          className="flex items-center justify-between px-2"
+          title={rpcHealth.endpoints.map(e => `${e.url} — ${e.lastError || (e.latency !== null ? `${Math.round(e.latency)}ms` : 'not used yet')}`).join('\n')}
+        >
+          <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">RPC</span>
+          <span className={`flex items-center gap-2 text-xs font-bold ${rpcStyle.text}`}>
+            <span className={`w-2 h-2 rounded-full ${rpcStyle.dot}`} />
+            {rpcStyle.label}
+            {rpcHealth.latency !== null && rpcHealth.status !== 'down' && (
+              <span className="text-gray-400 font-mono font-medium">{Math.round(rpcHealth.latency)}ms</span>
+            )}
+          </span>
+        </div>
+
+        {/* Network Switcher - only when more than one deployment is available */}
+        {networks.length > 1 && (
+          <div className="flex items-center justify-between px-2">
+            <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Network</span>
+            <select
+              value={network.key}
+              onChange={(e) => switchNetwork(e.target.value)}
+              className="bg-gray-200 dark:bg-[#1A1A1A] text-yc-text-primary dark:text-white text-xs font-bold rounded-full px-3 py-2 outline-none cursor-pointer"
+            >
+              {networks.map(n => (
+                <option key={n.key} value={n.key}>{n.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Disconnect Button */}
         {isConnected && (
           <button
@@ -0,0 +1,96 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { HardDrive, Loader2, Trash2 } from 'lucide-react';
+import { blockchainCache } from '../lib/cache';
+import type { StorageUsage } from '../lib/persistentStore';
+
+const PREFIX_LABELS: Record<string, string> = {
+    'nft:': 'Cards & metadata',
+    'marketplace:': 'Marketplace',
+    'tournament:': 'Tournaments',
+};
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Settings card: what the offline cache holds on this device, with a way to wipe it
+const StorageSettings: React.FC = () => {
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [isClearing, setIsClearing] = useState(false);
+
+    const load = useCallback(() => {
+        blockchainCache.storageUsage().then(setUsage).catch(() => setUsage(null));
+    }, []);
+
+    useEffect(() => { load(); }, [load]);
+
+    const handleClear = async () => {
+        setIsClearing(true);
+        try {
+            await blockchainCache.clearPersisted();
+        } finally {
+            setIsClearing(false);
+            load();
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-[#121212] border border-yc-light-border dark:border-[#2A2A2A] rounded-2xl p-6">
+            <div className="flex items-start justify-between gap-4">
+                <div className="flex items-start gap-3">
+                    <div className="p-2 rounded-lg bg-gray-100 dark:bg-[#1A1A1A] text-gray-500">
+                        <HardDrive className="w-5 h-5" />
+                    </div>
+                    <div>
+                        <h3 className="font-bold text-yc-text-primary dark:text-white">Offline Cache</h3>
+                        <p className="text-sm text-gray-500 mt-1">
+                            Cards, listings and tournaments are kept on this device so pages open instantly. Fresh data replaces them as it loads.
+                        </p>
+                    </div>
+                </div>
+                <button
+                    onClick={handleClear}
+                    disabled={isClearing || !usage || usage.entries === 0}
+                    className="shrink-0 px-4 py-2 rounded-xl text-sm font-bold transition-colors flex items-center gap-2 disabled:opacity-50 bg-red-500/10 text-red-500 hover:bg-red-500/20"
+                >
+                    {isClearing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    Clear
+                </button>
+            </div>
+
+            {!usage ? (
+                <p className="flex items-center gap-1.5 text-xs text-gray-400 mt-4">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    Measuring…
+                </p>
+            ) : (
+                <div className="mt-4 space-y-2">
+                    {Object.entries(PREFIX_LABELS).map(([prefix, label]) => {
+                        const bucket = usage.byPrefix[prefix];
+                        return (
+                            <div key={prefix} className="flex items-center justify-between text-sm">
+                                <span className="text-gray-500">{label}</span>
+                                <span className="font-mono text-gray-900 dark:text-white">
+                                    {bucket ? `${formatBytes(bucket.bytes)} · ${bucket.entries} entries` : '—'}
+                                </span>
+                            </div>
+                        );
+                    })}
+                    <div className="flex items-center justify-between text-sm font-bold pt-2 border-t border-gray-100 dark:border-[#2A2A2A]">
+                        <span className="text-yc-text-primary dark:text-white">Total</span>
+                        <span className="font-mono text-yc-text-primary dark:text-white">{formatBytes(usage.bytes)}</span>
+                    </div>
+                    {usage.originQuota !== undefined && usage.originUsage !== undefined && (
+                        <p className="text-xs text-gray-400">
+                            This site uses {formatBytes(usage.originUsage)} of {formatBytes(usage.originQuota)} available browser storage.
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StorageSettings;
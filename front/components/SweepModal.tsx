@@ -0,0 +1,283 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, Layers, Loader2, Check, AlertTriangle, Circle, StopCircle } from 'lucide-react';
+import { useWalletContext } from '../context/WalletContext';
+import { useMarketplaceV2 } from '../hooks/useMarketplaceV2';
+import { useOnline } from '../hooks/useOnline';
+import { STARTUPS, formatXTZ, parseXTZ } from '../lib/contracts';
+import { getStartupIds } from '../lib/priceHistory';
+import { sweepCandidates, planSweep, sweepTotal, type SweepItem, type SweepResult, type SweepStatus } from '../lib/sweep';
+import { RARITY_ORDER } from '../types';
+import type { Listing } from '../hooks/useMarketplaceV2';
+
+interface SweepModalProps {
+    onClose: () => void;
+    onComplete: (result: SweepResult) => void;
+}
+
+const MAX_QUANTITY = 20;
+
+const RARITIES = [...new Set(Object.values(STARTUPS).map(s => s.rarity))]
+    .sort((a, b) => (RARITY_ORDER[b] ?? 0) - (RARITY_ORDER[a] ?? 0));
+
+const parseBudget = (value: string): bigint | null => {
+    try {
+        const wei = parseXTZ(value);
+        return wei > 0n ? wei : null;
+    } catch {
+        return null;
+    }
+};
+
+const STATUS_ICON: Record<SweepStatus, React.ReactNode> = {
+    pending: <Circle className="w-4 h-4 text-gray-400" />,
+    checking: <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />,
+    buying: <Loader2 className="w-4 h-4 text-yc-orange animate-spin" />,
+    bought: <Check className="w-4 h-4 text-yc-green" />,
+    stopped: <AlertTriangle className="w-4 h-4 text-red-500" />,
+};
+
+// Buy the cheapest listings of a startup and/or rarity in one run, capped by count and total spend
+const SweepModal: React.FC<SweepModalProps> = ({ onClose, onComplete }) => {
+    const { address } = useWalletContext();
+    const { getActiveListings, sweepListings } = useMarketplaceV2();
+    const online = useOnline();
+
+    const [listings, setListings] = useState<Listing[] | null>(null);
+    const [startupOf, setStartupOf] = useState<Map<number, number>>(new Map());
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    const [startupId, setStartupId] = useState<number | null>(null);
+    const [rarity, setRarity] = useState<string | null>(null);
+    const [quantity, setQuantity] = useState('5');
+    const [budgetInput, setBudgetInput] = useState('');
+
+    const [isSweeping, setIsSweeping] = useState(false);
+    const [run, setRun] = useState<{ plan: SweepItem[]; statuses: SweepStatus[] } | null>(null);
+    const [result, setResult] = useState<SweepResult | null>(null);
+    const stopRequested = useRef(false);
+
+    // Listings and their startups, once per opening — each buy re-checks its listing anyway
+    useEffect(() => {
+        let cancelled = false;
+        getActiveListings()
+            .then(async active => {
+                const startups = await getStartupIds(active.map(l => Number(l.tokenId)));
+                if (cancelled) return;
+                setStartupOf(startups);
+                setListings(active);
+            })
+            .catch(e => { if (!cancelled) setLoadError(e.message || 'Failed to load listings'); });
+        return () => { cancelled = true; };
+    }, [getActiveListings]);
+
+    const startupOptions = Object.entries(STARTUPS)
+        .filter(([, s]) => rarity === null || s.rarity === rarity)
+        .sort(([, a], [, b]) => a.name.localeCompare(b.name));
+
+    const count = Math.min(Math.max(parseInt(quantity) || 0, 0), MAX_QUANTITY);
+    const budget = parseBudget(budgetInput);
+
+    const candidates = useMemo(
+        () => (listings && address ? sweepCandidates(listings, startupOf, { startupId, rarity }, address) : []),
+        [listings, startupOf, startupId, rarity, address]
+    );
+    const plan = useMemo(
+        () => (budget !== null && count > 0 ? planSweep(candidates, count, budget) : []),
+        [candidates, count, budget]
+    );
+    const total = sweepTotal(plan);
+
+    const selectRarity = (value: string) => {
+        const next = value || null;
+        setRarity(next);
+        if (next && startupId !== null && STARTUPS[startupId]?.rarity !== next) setStartupId(null);
+    };
+
+    const handleSweep = async () => {
+        if (plan.length === 0 || budget === null) return;
+        if (!confirm(`Buy ${plan.length} card${plan.length > 1 ? 's' : ''} for ${formatXTZ(total)} XTZ (budget ${formatXTZ(budget)} XTZ)?\n\nEach card is a separate transaction; the sweep stops if a listing is gone when its turn comes.`)) return;
+
+        stopRequested.current = false;
+        setRun({ plan, statuses: plan.map(() => 'pending') });
+        setIsSweeping(true);
+        const outcome = await sweepListings(plan, budget, {
+            onStatus: (index, status) => setRun(prev => prev && {
+                ...prev,
+                statuses: prev.statuses.map((s, i) => (i === index ? status : s)),
+            }),
+            shouldStop: () => stopRequested.current,
+        });
+        setIsSweeping(false);
+        setResult(outcome);
+        onComplete(outcome);
+    };
+
+    const rows = run?.plan ?? plan;
+    const sweepDisabled = isSweeping || plan.length === 0 || !online;
+
+    return (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-[fadeIn_0.2s_ease-out]">
+            <div className="bg-white dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-2xl p-6 w-full max-w-md mx-4 shadow-2xl max-h-[90vh] flex flex-col animate-[scaleIn_0.3s_cubic-bezier(0.34,1.56,0.64,1)]">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                        <Layers className="w-5 h-5 text-yc-orange" />
+                        Sweep the Floor
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        disabled={isSweeping}
+                        className="text-gray-400 hover:text-white transition-colors disabled:opacity-40"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Criteria */}
+                {!run && (
+                    <div className="grid grid-cols-2 gap-3 mb-4">
+                        <div>
+                            <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Rarity</label>
+                            <select
+                                value={rarity ?? ''}
+                                onChange={(e) => selectRarity(e.target.value)}
+                                className="w-full bg-gray-50 dark:bg-black border border-gray-300 dark:border-[#2A2A2A] rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-yc-orange"
+                            >
+                                <option value="">Any rarity</option>
+                                {RARITIES.map(r => <option key={r} value={r}>{r}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Startup</label>
+                            <select
+                                value={startupId ?? ''}
+                                onChange={(e) => setStartupId(e.target.value ? Number(e.target.value) : null)}
+                                className="w-full bg-gray-50 dark:bg-black border border-gray-300 dark:border-[#2A2A2A] rounded-lg px-3 py-2 text-sm text-gray-900 dark:text-white focus:outline-none focus:border-yc-orange"
+                            >
+                                <option value="">Any startup</option>
+                                {startupOptions.map(([id, s]) => <option key={id} value={id}>{s.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Quantity</label>
+                            <input
+                                type="number"
+                                min="1"
+                                max={MAX_QUANTITY}
+                                value={quantity}
+                                onChange={(e) => setQuantity(e.target.value)}
+                                className="w-full bg-gray-50 dark:bg-black border border-gray-300 dark:border-[#2A2A2A] rounded-lg px-3 py-2 text-sm font-mono text-gray-900 dark:text-white focus:outline-none focus:border-yc-orange"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-gray-400 uppercase mb-1">Max total (XTZ)</label>
+                            <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                placeholder="0.00"
+                                value={budgetInput}
+                                onChange={(e) => setBudgetInput(e.target.value)}
+                                className="w-full bg-gray-50 dark:bg-black border border-gray-300 dark:border-[#2A2A2A] rounded-lg px-3 py-2 text-sm font-mono text-gray-900 dark:text-white focus:outline-none focus:border-yc-orange"
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {/* Selection / progress */}
+                <div className="space-y-1.5 mb-4 overflow-y-auto min-h-0">
+                    {listings === null && !loadError && (
+                        <p className="flex items-center gap-1.5 text-xs text-gray-400">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            Loading listings…
+                        </p>
+                    )}
+                    {loadError && <p className="text-xs text-red-500">{loadError}</p>}
+                    {listings !== null && !run && (
+                        <p className="text-xs text-gray-500">
+                            {candidates.length} matching listing{candidates.length === 1 ? '' : 's'}
+                            {budget === null ? ' — set a budget to pick from them' : plan.length < Math.min(count, candidates.length) ? ` — ${plan.length} fit the budget` : ''}
+                        </p>
+                    )}
+                    {rows.map((item, i) => {
+                        const status = run?.statuses[i];
+                        return (
+                            <div key={String(item.listingId)} className="flex items-center gap-3 p-2 rounded-xl bg-gray-100 dark:bg-black/50">
+                                <img src={`/images/${item.startupId}.png`} alt="" className="w-8 h-8 rounded-lg object-cover" />
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm font-bold text-gray-900 dark:text-white truncate">
+                                        {STARTUPS[item.startupId]?.name ?? `Startup #${item.startupId}`}{' '}
+                                        <span className="text-gray-500 font-mono font-normal">#{String(item.tokenId)}</span>
+                                    </p>
+                                    {status === 'stopped' && result?.stopped && (
+                                        <p className="text-xs text-red-500">{result.stopped.message}</p>
+                                    )}
+                                </div>
+                                <span className="text-sm font-mono text-gray-900 dark:text-white">{formatXTZ(item.price)} XTZ</span>
+                                {status && STATUS_ICON[status]}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Totals / summary */}
+                {result ? (
+                    <div className={`p-3 rounded-xl text-sm mb-4 ${result.stopped && result.stopped.reason !== 'cancelled' ? 'bg-red-500/10 border border-red-500/20' : 'bg-yc-green/10 border border-yc-green/20'}`}>
+                        <p className="font-bold text-gray-900 dark:text-white">
+                            Bought {result.bought.length} of {rows.length} card{rows.length === 1 ? '' : 's'} for {formatXTZ(result.spent)} XTZ
+                        </p>
+                        {result.stopped && (
+                            <p className="text-xs text-gray-500 mt-0.5">
+                                Stopped at #{String(result.stopped.item.tokenId)}: {result.stopped.message}
+                            </p>
+                        )}
+                    </div>
+                ) : plan.length > 0 && (
+                    <div className="flex items-center justify-between text-sm mb-4">
+                        <span className="text-gray-500">{plan.length} card{plan.length === 1 ? '' : 's'}</span>
+                        <span className="font-bold font-mono text-gray-900 dark:text-white">{formatXTZ(total)} XTZ</span>
+                    </div>
+                )}
+
+                {/* Actions */}
+                {result ? (
+                    <button
+                        onClick={onClose}
+                        className="w-full py-3 rounded-xl font-bold bg-yc-orange text-white hover:bg-orange-600 transition-colors"
+                    >
+                        Done
+                    </button>
+                ) : isSweeping ? (
+                    <button
+                        onClick={() => { stopRequested.current = true; }}
+                        className="w-full py-3 rounded-xl font-bold bg-gray-100 dark:bg-[#1A1A1A] text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-[#222] transition-colors flex items-center justify-center gap-2"
+                    >
+                        <StopCircle className="w-4 h-4" />
+                        Stop after this card
+                    </button>
+                ) : (
+                    <div className="flex gap-3">
+                        <button
+                            onClick={onClose}
+                            className="flex-1 py-3 rounded-xl font-bold bg-gray-100 dark:bg-[#1A1A1A] text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-[#222] transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSweep}
+                            disabled={sweepDisabled}
+                            className={`flex-1 py-3 rounded-xl font-bold transition-all ${sweepDisabled
+                                ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                                : 'bg-yc-orange text-white hover:bg-orange-600'
+                                }`}
+                        >
+                            Sweep {plan.length > 0 ? plan.length : ''}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SweepModal;
@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from 'react';
+import { X, Send, Loader2, AlertTriangle, Check, Lock } from 'lucide-react';
+import { CardData } from '../types';
+import { useWalletContext } from '../context/WalletContext';
+import { useNFT } from '../hooks/useNFT';
+import { usePreflight } from '../hooks/usePreflight';
+import { resolveRecipient, type Recipient } from '../lib/recipient';
+import { generatePixelAvatar } from '../lib/pixelAvatar';
+import GasEstimate from './GasEstimate';
+
+interface TransferModalProps {
+    cards: CardData[];
+    onClose: () => void;
+    onTransferred: (tokenIds: number[]) => void;
+}
+
+const LOOKUP_DEBOUNCE = 400;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// Send one or more cards to another wallet — by address or username
+const TransferModal: React.FC<TransferModalProps> = ({ cards, onClose, onTransferred }) => {
+    const { address, getSigner } = useWalletContext();
+    const { getTransferBlockers, simulateTransfer, transferCards } = useNFT();
+
+    const [batch, setBatch] = useState<CardData[]>(cards);
+    const [blockers, setBlockers] = useState<Map<number, string> | null>(null);
+    const [query, setQuery] = useState('');
+    const [matches, setMatches] = useState<Recipient[]>([]);
+    const [recipient, setRecipient] = useState<Recipient | null>(null);
+    const [lookupError, setLookupError] = useState<string | null>(null);
+    const [isResolving, setIsResolving] = useState(false);
+    const [isSending, setIsSending] = useState(false);
+    const [sentCount, setSentCount] = useState(0);
+
+    const tokenIds = batch.map(c => c.tokenId);
+    const blockedCount = blockers ? tokenIds.filter(id => blockers.has(id)).length : 0;
+
+    // Live lock / escrow check — the card list on screen may be a poll behind
+    useEffect(() => {
+        if (!address) return;
+        let cancelled = false;
+        getTransferBlockers(address, cards.map(c => c.tokenId))
+            .then(result => { if (!cancelled) setBlockers(result); })
+            .catch(() => { if (!cancelled) setBlockers(new Map()); });
+        return () => { cancelled = true; };
+    }, [address, cards, getTransferBlockers]);
+
+    // Resolve the recipient as the user types
+    useEffect(() => {
+        setRecipient(null);
+        setMatches([]);
+        setLookupError(null);
+        if (!address || !query.trim()) {
+            setIsResolving(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsResolving(true);
+        const timer = setTimeout(() => {
+            resolveRecipient(query, address)
+                .then(found => {
+                    if (cancelled) return;
+                    setMatches(found);
+                    if (found.length === 1) setRecipient(found[0]);
+                })
+                .catch(e => { if (!cancelled) setLookupError(e.message); })
+                .finally(() => { if (!cancelled) setIsResolving(false); });
+        }, LOOKUP_DEBOUNCE);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query, address]);
+
+    const canSimulate = !!recipient && !!address && batch.length > 0 && blockers !== null && blockedCount === 0;
+    const check = usePreflight(
+        canSimulate ? () => simulateTransfer(address!, recipient!.address, tokenIds) : null,
+        [canSimulate, address, recipient?.address, tokenIds.join(','), simulateTransfer]
+    );
+
+    const removeCard = (tokenId: number) => {
+        setBatch(prev => prev.filter(c => c.tokenId !== tokenId));
+    };
+
+    const removeBlocked = () => {
+        if (!blockers) return;
+        setBatch(prev => prev.filter(c => !blockers.has(c.tokenId)));
+    };
+
+    const handleSend = async () => {
+        if (!recipient || !address || batch.length === 0) return;
+
+        const label = recipient.username ? `${recipient.username} (${shortAddress(recipient.address)})` : recipient.address;
+        if (!confirm(`Send ${batch.length} card${batch.length > 1 ? 's' : ''} to ${label}?\n\nTransfers are final — only the recipient can send them back.`)) return;
+
+        const signer = await getSigner();
+        if (!signer) {
+            alert('Please connect your wallet');
+            return;
+        }
+
+        setIsSending(true);
+        setSentCount(0);
+        const result = await transferCards(signer, address, recipient.address, batch, setSentCount);
+        setIsSending(false);
+
+        if (result.transferred.length > 0) onTransferred(result.transferred);
+        if (result.success) {
+            alert(`Sent ${result.transferred.length} card${result.transferred.length > 1 ? 's' : ''} to ${label}`);
+            onClose();
+        } else {
+            const sent = new Set(result.transferred);
+            setBatch(prev => prev.filter(c => !sent.has(c.tokenId)));
+            alert(result.transferred.length > 0
+                ? `Sent ${result.transferred.length} of ${batch.length} cards, then stopped: ${result.error}`
+                : result.error);
+        }
+    };
+
+    const sendDisabled = isSending || !recipient || batch.length === 0 || blockers === null || blockedCount > 0 || check.result?.ok === false;
+
+    return (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-[fadeIn_0.2s_ease-out]">
+            <div className="bg-white dark:bg-[#121212] border border-gray-200 dark:border-[#2A2A2A] rounded-2xl p-6 w-full max-w-md mx-4 shadow-2xl max-h-[90vh] flex flex-col animate-[scaleIn_0.3s_cubic-bezier(0.34,1.56,0.64,1)]">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+                        <Send className="w-5 h-5 text-yc-orange" />
+                        Send {batch.length === 1 ? 'Card' : `${batch.length} Cards`}
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        disabled={isSending}
+                        className="text-gray-400 hover:text-white transition-colors disabled:opacity-40"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Cards */}
+                <div className="space-y-2 mb-4 overflow-y-auto min-h-0">
+                    {batch.map(card => {
+                        const blocker = blockers?.get(card.tokenId);
+                        return (
+                            <div
+                                key={card.tokenId}
+                                className={`flex items-center gap-3 p-2 rounded-xl ${blocker ? 'bg-red-500/10 border border-red-500/20' : 'bg-gray-100 dark:bg-black/50'}`}
+                            >
+                                <img src={card.image} alt={card.name} className="w-10 h-10 rounded-lg object-cover" />
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm font-bold text-gray-900 dark:text-white truncate">{card.name} <span className="text-gray-500 font-mono font-normal">#{card.tokenId}</span></p>
+                                    {blocker ? (
+                                        <p className="text-xs text-red-500 flex items-center gap-1"><Lock className="w-3 h-3 shrink-0" />{blocker}</p>
+                                    ) : (
+                                        <p className="text-xs text-gray-500">{card.rarity} · {card.multiplier}x</p>
+                                    )}
+                                </div>
+                                {batch.length > 1 && !isSending && (
+                                    <button
+                                        onClick={() => removeCard(card.tokenId)}
+                                        className="p-1 text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors"
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {blockers === null && (
+                        <p className="flex items-center gap-1.5 text-xs text-gray-400">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            Checking locks and listings…
+                        </p>
+                    )}
+                    {blockedCount > 0 && blockedCount < batch.length && (
+                        <button onClick={removeBlocked} className="text-xs font-bold text-yc-orange hover:underline">
+                            Remove {blockedCount} card{blockedCount > 1 ? 's' : ''} that can’t be sent
+                        </button>
+                    )}
+                </div>
+
+                {/* Recipient */}
+                <label className="block text-sm font-bold text-gray-400 uppercase mb-2">Recipient</label>
+                <div className="relative">
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        disabled={isSending}
+                        placeholder="0x… address or username"
+                        spellCheck={false}
+                        autoFocus
+                        className="w-full bg-gray-50 dark:bg-black border border-gray-300 dark:border-[#2A2A2A] rounded-xl px-4 py-3 pr-10 text-gray-900 dark:text-white font-mono text-sm focus:outline-none focus:border-yc-orange transition-colors"
+                    />
+                    {isResolving && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 animate-spin" />}
+                </div>
+
+                {lookupError && (
+                    <p className="flex items-start gap-1.5 text-xs text-red-500 mt-2">
+                        <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+                        {lookupError}
+                    </p>
+                )}
+
+                {/* Several players share the name — pick one */}
+                {matches.length > 1 && (
+                    <div className="mt-2 space-y-1">
+                        <p className="text-xs text-gray-500">{matches.length} players use this name — pick one:</p>
+                        {matches.map(match => (
+                            <button
+                                key={match.address}
+                                onClick={() => setRecipient(match)}
+                                className={`w-full flex items-center gap-2 p-2 rounded-lg text-left text-sm transition-colors ${recipient?.address === match.address
+                                    ? 'bg-yc-orange/10 border border-yc-orange/40'
+                                    : 'bg-gray-100 dark:bg-[#1A1A1A] border border-transparent hover:border-gray-300 dark:hover:border-[#333]'
+                                    }`}
+                            >
+                                <img src={match.avatar || generatePixelAvatar(match.address, 32)} alt="" className="w-6 h-6 rounded-full" />
+                                <span className="font-mono text-gray-600 dark:text-gray-300">{shortAddress(match.address)}</span>
+                                {recipient?.address === match.address && <Check className="w-4 h-4 text-yc-orange ml-auto" />}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {recipient && matches.length === 1 && (
+                    <div className="mt-2 flex items-center gap-2 p-2 rounded-lg bg-gray-100 dark:bg-[#1A1A1A] text-sm">
+                        <img src={recipient.avatar || generatePixelAvatar(recipient.address, 32)} alt="" className="w-6 h-6 rounded-full" />
+                        <span className="font-bold text-gray-900 dark:text-white">{recipient.username || 'Unregistered wallet'}</span>
+                        <span className="font-mono text-xs text-gray-500 ml-auto">{shortAddress(recipient.address)}</span>
+                    </div>
+                )}
+
+                {recipient && (
+                    <GasEstimate result={check.result} isChecking={check.isChecking} className="mt-3" />
+                )}
+
+                <p className="text-xs text-gray-500 mt-3">
+                    Each card is a separate transaction. Transfers are final — double-check the recipient.
+                </p>
+
+                {/* Actions */}
+                <div className="flex gap-3 mt-4">
+                    <button
+                        onClick={onClose}
+                        disabled={isSending}
+                        className="flex-1 py-3 rounded-xl font-bold bg-gray-100 dark:bg-[#1A1A1A] text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-[#222] transition-colors disabled:opacity-50"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSend}
+                        disabled={sendDisabled}
+                        className={`flex-1 py-3 rounded-xl font-bold transition-all flex items-center justify-center gap-2 ${sendDisabled
+                            ? 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                            : 'bg-yc-orange text-white hover:bg-orange-600'
+                            }`}
+                    >
+                        {isSending ? (
+                            <>
+                                <Loader2 className="w-4 h-4 animate-spin" />
+                                Sending {Math.min(sentCount + 1, batch.length)} / {batch.length}…
+                            </>
+                        ) : (
+                            <>
+                                <Send className="w-4 h-4" />
+                                Send
+                            </>
+                        )}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TransferModal;
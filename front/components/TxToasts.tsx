@@ -0,0 +1,60 @@
+import React from 'react';
+import { Loader2, CheckCircle, XCircle, ExternalLink, X } from 'lucide-react';
+import { useTransactions } from '../hooks/useTransactions';
+import { txManager, txExplorerUrl, type TxStatus } from '../lib/txManager';
+
+const STATUS_STYLE: Record<TxStatus, { icon: React.ElementType; iconClass: string; text: string }> = {
+    pending: { icon: Loader2, iconClass: 'text-yc-orange animate-spin', text: 'Waiting for confirmation…' },
+    confirmed: { icon: CheckCircle, iconClass: 'text-yc-green', text: 'Confirmed' },
+    failed: { icon: XCircle, iconClass: 'text-red-500', text: 'Failed' },
+};
+
+// Global stack of transaction toasts — sits above the mobile bottom nav
+const TxToasts: React.FC = () => {
+    const txs = useTransactions().filter(tx => !tx.hidden);
+    if (txs.length === 0) return null;
+
+    return (
+        <div className="fixed right-4 bottom-24 md:bottom-6 z-[70] flex flex-col gap-3 w-[calc(100%-2rem)] max-w-sm">
+            {txs.map(tx => {
+                const style = STATUS_STYLE[tx.status];
+                const Icon = style.icon;
+                const explorerUrl = txExplorerUrl(tx.hash);
+
+                return (
+                    <div
+                        key={tx.hash}
+                        className="flex items-start gap-3 p-4 rounded-xl bg-white dark:bg-[#1A1A1A] border border-gray-200 dark:border-[#2A2A2A] shadow-lg animate-[slideUp_0.3s_ease-out]"
+                    >
+                        <Icon className={`w-5 h-5 shrink-0 mt-0.5 ${style.iconClass}`} />
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-bold text-yc-text-primary dark:text-white truncate">{tx.label}</p>
+                            <p className={`text-xs mt-0.5 ${tx.status === 'failed' ? 'text-red-500' : 'text-gray-400'} line-clamp-2`}>
+                                {tx.status === 'failed' && tx.error ? tx.error : style.text}
+                            </p>
+                            {explorerUrl && (
+                                <a
+                                    href={explorerUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="inline-flex items-center gap-1 mt-1 text-xs font-mono text-gray-400 hover:text-yc-orange transition-colors"
+                                >
+                                    {tx.hash.slice(0, 10)}…{tx.hash.slice(-6)}
+                                    <ExternalLink size={12} />
+                                </a>
+                            )}
+                        </div>
+                        <button
+                            onClick={() => txManager.dismiss(tx.hash)}
+                            className="p-1 rounded-lg text-gray-400 hover:text-yc-text-primary dark:hover:text-white transition-colors shrink-0"
+                        >
+                            <X size={14} />
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default TxToasts;
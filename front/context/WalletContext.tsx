@@ -1,7 +1,10 @@
 // Wallet context with EIP-6963 discovery + WalletConnect for mobile
 import React, { createContext, useContext, ReactNode, useEffect, useState, useCallback, useRef } from 'react';
 import { BrowserProvider, ethers, Eip1193Provider } from 'ethers';
-import { CHAIN_ID, CHAIN_NAME, RPC_URL, EXPLORER_URL, getProvider } from '../lib/contracts';
+import { CHAIN_ID, RPC_URL, NETWORK, getProvider } from '../lib/contracts';
+import { NETWORKS, getNetwork, selectNetwork, type NetworkConfig } from '../lib/networks';
+import { describeError, isUserRejection } from '../lib/errors';
+import { signInWithEthereum, isSessionValid, loadSession, saveSession, type AuthSession } from '../lib/auth';
 import EthereumProvider from '@walletconnect/ethereum-provider';
 import WalletModal, { DetectedWallet } from '../components/WalletModal';
 
@@ -17,12 +20,18 @@ interface WalletContextType {
     error: string | null;
     connect: () => void;
     disconnect: () => void;
-    switchChain: () => Promise<void>;
+    switchChain: (network?: NetworkConfig) => Promise<void>;
+    network: NetworkConfig;
+    networks: NetworkConfig[];
+    switchNetwork: (key: string) => Promise<void>;
     getSigner: () => Promise<ethers.Signer | null>;
     refreshBalance: () => void;
     formatAddress: (address: string) => string;
     formatBalance: (wei: bigint, decimals?: number) => string;
     walletProvider: Eip1193Provider | null;
+    session: AuthSession | null;
+    signIn: () => Promise<AuthSession | null>;
+    authFetch: (url: string, init?: RequestInit) => Promise<Response>;
 }
 
 const WalletContext = createContext<WalletContextType | null>(null);
@@ -53,6 +62,9 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     const activeProviderRef = useRef<any>(null);
     const wcProviderRef = useRef<InstanceType<typeof EthereumProvider> | null>(null);
     const listenersRef = useRef<{ onAccounts: (a: string[]) => void; onChain: (h: string) => void; onDisconnect: () => void } | null>(null);
+    const [session, setSession] = useState<AuthSession | null>(() => loadSession());
+    const sessionRef = useRef<AuthSession | null>(session);
+    const signInRef = useRef<Promise<AuthSession | null> | null>(null);
 
     const isConnected = !!address;
     const isCorrectChain = chainId === CHAIN_ID;
@@ -91,6 +103,13 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         } catch { /* ignore */ }
     }, []);
 
+    // SIWE session — one signature covers every authenticated API call until it expires
+    const updateSession = useCallback((next: AuthSession | null) => {
+        sessionRef.current = next;
+        setSession(next);
+        saveSession(next);
+    }, []);
+
     // Handle accounts
     const handleAccounts = useCallback((accounts: string[]) => {
         if (accounts.length > 0) {
@@ -99,10 +118,11 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         } else {
             setAddress(null);
             setBalance(0n);
+            updateSession(null);
             localStorage.removeItem(STORAGE_KEY);
             localStorage.removeItem(WALLET_TYPE_KEY);
         }
-    }, []);
+    }, [updateSession]);
 
     // Clean up old listeners
     const cleanupListeners = useCallback(() => {
@@ -124,6 +144,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             setAddress(null);
             setBalance(0n);
             setChainId(null);
+            updateSession(null);
             localStorage.removeItem(STORAGE_KEY);
             localStorage.removeItem(WALLET_TYPE_KEY);
         };
@@ -134,7 +155,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
 
         listenersRef.current = { onAccounts, onChain, onDisconnect };
         activeProviderRef.current = provider;
-    }, [handleAccounts, cleanupListeners]);
+    }, [handleAccounts, cleanupListeners, updateSession]);
 
     // Open connect modal
     const connect = useCallback(() => {
@@ -154,10 +175,10 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             await readChainId(provider);
             setShowModal(false);
         } catch (e: any) {
-            if (e.code === 4001) {
+            if (isUserRejection(e)) {
                 setError('Connection rejected');
             } else {
-                setError(e.message || 'Failed to connect');
+                setError(describeError(e, 'Failed to connect'));
             }
         } finally {
             setIsConnecting(false);
@@ -197,10 +218,10 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             setChainId(wcProvider.chainId);
             setShowModal(false);
         } catch (e: any) {
-            if (e.message?.includes('User rejected') || e.code === 4001) {
+            if (isUserRejection(e)) {
                 setError('Connection rejected');
             } else {
-                setError(e.message || 'Failed to connect');
+                setError(describeError(e, 'Failed to connect'));
             }
         } finally {
             setIsConnecting(false);
@@ -220,15 +241,16 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         setBalance(0n);
         setChainId(null);
         setError(null);
+        updateSession(null);
         localStorage.removeItem(STORAGE_KEY);
         localStorage.removeItem(WALLET_TYPE_KEY);
-    }, [cleanupListeners]);
+    }, [cleanupListeners, updateSession]);
 
-    // Switch chain
-    const switchChain = useCallback(async () => {
+    // Switch the wallet to a network (defaults to the one the app runs against)
+    const switchChain = useCallback(async (network: NetworkConfig = NETWORK) => {
         const provider = activeProviderRef.current || (window as any)?.ethereum;
         if (!provider) return;
-        const hexChainId = '0x' + CHAIN_ID.toString(16);
+        const hexChainId = '0x' + network.chainId.toString(16);
         try {
             await provider.request({
                 method: 'wallet_switchEthereumChain',
@@ -241,10 +263,10 @@ export function WalletProvider({ children }: { children: ReactNode }) {
                         method: 'wallet_addEthereumChain',
                         params: [{
                             chainId: hexChainId,
-                            chainName: CHAIN_NAME,
-                            nativeCurrency: { name: 'XTZ', symbol: 'XTZ', decimals: 18 },
-                            rpcUrls: [RPC_URL],
-                            blockExplorerUrls: [EXPLORER_URL],
+                            chainName: network.name,
+                            nativeCurrency: { name: network.currency, symbol: network.currency, decimals: 18 },
+                            rpcUrls: [network.rpcUrl],
+                            blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
                         }],
                     });
                 } catch (addError: any) {
@@ -254,6 +276,18 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         }
     }, []);
 
+    // Run the app against another network — the wallet follows, then the page reloads
+    // so contracts, providers and the cache are rebuilt for the new chain
+    const switchNetwork = useCallback(async (key: string) => {
+        const target = getNetwork(key);
+        if (!target || target.key === NETWORK.key) return;
+        selectNetwork(target.key);
+        if (isConnected) {
+            await switchChain(target);
+        }
+        window.location.reload();
+    }, [isConnected, switchChain]);
+
     // Get signer
     const getSigner = useCallback(async (): Promise<ethers.Signer | null> => {
         const provider = activeProviderRef.current || (window as any)?.ethereum;
@@ -266,6 +300,39 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         }
     }, [isConnected]);
 
+    // Reuse the session for this address, or sign a SIWE message for a new one.
+    // Concurrent callers share a single wallet prompt
+    const signIn = useCallback(async (): Promise<AuthSession | null> => {
+        if (isSessionValid(sessionRef.current, address)) return sessionRef.current;
+        if (!signInRef.current) {
+            signInRef.current = (async () => {
+                const signer = await getSigner();
+                if (!signer || !address) return null;
+                const next = await signInWithEthereum(signer, address);
+                updateSession(next);
+                return next;
+            })().finally(() => { signInRef.current = null; });
+        }
+        return signInRef.current;
+    }, [address, getSigner, updateSession]);
+
+    // fetch() with the session token — signs in first if needed, and once more if the server
+    // no longer accepts the token (expired, or the server restarted without SESSION_SECRET)
+    const authFetch = useCallback(async (url: string, init: RequestInit = {}): Promise<Response> => {
+        const send = async () => {
+            const current = await signIn();
+            if (!current) throw new Error('Connect your wallet first');
+            const headers = new Headers(init.headers);
+            headers.set('Authorization', `Bearer ${current.token}`);
+            return fetch(url, { ...init, headers });
+        };
+
+        const res = await send();
+        if (res.status !== 401) return res;
+        updateSession(null);
+        return send();
+    }, [signIn, updateSession]);
+
     const refreshBalance = useCallback(() => {
         if (address) updateBalance(address);
     }, [address, updateBalance]);
@@ -339,6 +406,13 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         return () => clearTimeout(timer);
     }, [detectedWallets, handleAccounts, readChainId, setupListeners]);
 
+    // A session belongs to one account — switching accounts in the wallet ends it
+    useEffect(() => {
+        if (address && session && session.address !== address.toLowerCase()) {
+            updateSession(null);
+        }
+    }, [address, session, updateSession]);
+
     // Balance polling
     useEffect(() => {
         if (address) {
@@ -361,11 +435,17 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         connect,
         disconnect,
         switchChain,
+        network: NETWORK,
+        networks: NETWORKS,
+        switchNetwork,
         getSigner,
         refreshBalance,
         formatAddress,
         formatBalance,
         walletProvider: (activeProviderRef.current || null) as Eip1193Provider | null,
+        session: isSessionValid(session, address) ? session : null,
+        signIn,
+        authFetch,
     };
 
     return (
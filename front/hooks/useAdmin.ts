@@ -7,8 +7,11 @@ import {
     getTournamentContract,
     formatXTZ,
     CONTRACTS,
-    RPC_URL
+    getReadProvider
 } from '../lib/contracts';
+import { decodeTournament } from '../lib/abi/TournamentManager';
+import { txManager } from '../lib/txManager';
+import { describeError } from '../lib/errors';
 
 // Admin addresses (multi-admin support)
 export const ADMIN_ADDRESSES = [
@@ -54,8 +57,7 @@ export function useAdmin() {
     // Get contract balances using CONTRACTS addresses directly
     const getContractBalances = useCallback(async (): Promise<ContractBalances> => {
         try {
-            const provider = new ethers.JsonRpcProvider(RPC_URL);
-
+            const provider = getReadProvider();
 
             const [nft, packOpener, tournament] = await Promise.all([
                 provider.getBalance(CONTRACTS.UnicornX_NFT),
@@ -96,29 +98,30 @@ export function useAdmin() {
         }
     }, []);
 
-    // Get all tournaments
+    // Get all tournaments - all getTournament calls fired together so they share one batch
     const getTournaments = useCallback(async (): Promise<TournamentData[]> => {
         try {
             const contract = getTournamentContract();
             const nextId = await contract.nextTournamentId();
             const count = Number(nextId);
 
+            const results = await Promise.all(
+                Array.from({ length: count }, (_, i) => contract.getTournament(i).catch(() => null))
+            );
 
             const tournaments: TournamentData[] = [];
-            for (let i = 0; i < count; i++) {
-                try {
-                    const t = await contract.getTournament(i);
-                    tournaments.push({
-                        id: Number(t.id),
-                        registrationStart: Number(t.registrationStart),
-                        startTime: Number(t.startTime),
-                        endTime: Number(t.endTime),
-                        prizePool: t.prizePool,
-                        entryCount: Number(t.entryCount),
-                        status: Number(t.status),
-                    });
-                } catch (e) {
-                }
+            for (const raw of results) {
+                if (!raw) continue;
+                const t = decodeTournament(raw);
+                tournaments.push({
+                    id: Number(t.id),
+                    registrationStart: Number(t.registrationStart),
+                    startTime: Number(t.startTime),
+                    endTime: Number(t.endTime),
+                    prizePool: t.prizePool,
+                    entryCount: Number(t.entryCount),
+                    status: t.status,
+                });
             }
 
             return tournaments;
@@ -138,11 +141,11 @@ export function useAdmin() {
             const contract = getPackOpenerContract(signer);
 
             const tx = await contract.withdraw();
-            await tx.wait();
+            await txManager.track(tx, 'Withdraw pack revenue');
 
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Withdrawal failed';
+            const msg = describeError(e, 'Withdrawal failed');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -163,11 +166,11 @@ export function useAdmin() {
             const priceWei = ethers.parseEther(priceInXTZ.toString());
 
             const tx = await contract.setPackPrice(priceWei);
-            await tx.wait();
+            await txManager.track(tx, `Set pack price to ${priceInXTZ} XTZ`);
 
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to set price';
+            const msg = describeError(e, 'Failed to set price');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -187,11 +190,11 @@ export function useAdmin() {
             const contract = getPackOpenerContract(signer);
 
             const tx = await contract.setActiveTournament(tournamentId);
-            await tx.wait();
+            await txManager.track(tx, `Set active tournament #${tournamentId}`);
 
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to set tournament';
+            const msg = describeError(e, 'Failed to set tournament');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -219,7 +222,7 @@ export function useAdmin() {
                 startTime,
                 endTime
             );
-            const receipt = await tx.wait();
+            const receipt = await txManager.track(tx, 'Create tournament');
 
             // Parse event to get tournament ID
             let tournamentId: number | undefined;
@@ -235,7 +238,7 @@ export function useAdmin() {
 
             return { success: true, tournamentId };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to create tournament';
+            const msg = describeError(e, 'Failed to create tournament');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -261,11 +264,11 @@ export function useAdmin() {
                 winners,
                 amounts
             );
-            await tx.wait();
+            await txManager.track(tx, `Finalize tournament #${tournamentId}`);
 
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to finalize';
+            const msg = describeError(e, 'Failed to finalize');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -293,11 +296,11 @@ export function useAdmin() {
                 tournamentId,
                 points
             );
-            await tx.wait();
+            await txManager.track(tx, `Finalize tournament #${tournamentId}`);
 
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to finalize with points';
+            const msg = describeError(e, 'Failed to finalize with points');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -317,11 +320,11 @@ export function useAdmin() {
             const contract = getTournamentContract(signer);
 
             const tx = await contract.cancelTournament(tournamentId);
-            await tx.wait();
+            await txManager.track(tx, `Cancel tournament #${tournamentId}`);
 
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to cancel';
+            const msg = describeError(e, 'Failed to cancel');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -347,11 +350,11 @@ export function useAdmin() {
                 amount,
                 to
             );
-            await tx.wait();
+            await txManager.track(tx, `Withdraw from prize pool #${tournamentId}`);
 
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Withdrawal failed';
+            const msg = describeError(e, 'Withdrawal failed');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -372,11 +375,11 @@ export function useAdmin() {
             const contract = getTournamentContract(signer);
 
             const tx = await contract.emergencyWithdraw(amount, to);
-            await tx.wait();
+            await txManager.track(tx, 'Emergency withdraw');
 
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Withdrawal failed';
+            const msg = describeError(e, 'Withdrawal failed');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -389,25 +392,25 @@ export function useAdmin() {
     const pausePackOpener = useCallback(async (signer: ethers.Signer) => {
         const contract = getPackOpenerContract(signer);
         const tx = await contract.pause();
-        await tx.wait();
+        await txManager.track(tx, 'Pause PackOpener');
     }, []);
 
     const unpausePackOpener = useCallback(async (signer: ethers.Signer) => {
         const contract = getPackOpenerContract(signer);
         const tx = await contract.unpause();
-        await tx.wait();
+        await txManager.track(tx, 'Unpause PackOpener');
     }, []);
 
     const pauseTournament = useCallback(async (signer: ethers.Signer) => {
         const contract = getTournamentContract(signer);
         const tx = await contract.pause();
-        await tx.wait();
+        await txManager.track(tx, 'Pause TournamentManager');
     }, []);
 
     const unpauseTournament = useCallback(async (signer: ethers.Signer) => {
         const contract = getTournamentContract(signer);
         const tx = await contract.unpause();
-        await tx.wait();
+        await txManager.track(tx, 'Unpause TournamentManager');
     }, []);
 
     return {
@@ -0,0 +1,73 @@
+// Collection sets and achievements of any wallet — `cards` is whatever card list the page already polls;
+// a null address pauses every fetch
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { usePollingData } from './usePollingData';
+import { useTournament } from './useTournament';
+import { CacheKeys, POLLING_INTERVALS } from '../lib/cache';
+import { buildCollection, getMintStats, type MintStats } from '../lib/collection';
+import { computeAchievements, getForgeHistory, type Forge } from '../lib/achievements';
+import { getTournamentHistory, type TournamentEntry } from '../lib/tournamentHistory';
+import type { CardData } from '../types';
+
+export function useCollection(address: string | null, cards: CardData[] | undefined) {
+    const { getTournament } = useTournament();
+
+    const { data: mintStats } = usePollingData<MintStats>(getMintStats, {
+        cacheKey: CacheKeys.mintStats(),
+        interval: POLLING_INTERVALS.SLOW,
+        enabled: !!address,
+    });
+
+    const forgeFetcher = useCallback(() => getForgeHistory(address!), [address]);
+    const { data: forges, isLoading: forgesLoading } = usePollingData<Forge[]>(forgeFetcher, {
+        cacheKey: CacheKeys.forgeHistory(address ?? ''),
+        interval: POLLING_INTERVALS.RARE,
+        enabled: !!address,
+    });
+
+    // Same key as the profile's tournament tab, so both share one fetch
+    const tournamentFetcher = useCallback(() => getTournamentHistory(address!), [address]);
+    const { data: tournaments, isLoading: tournamentsLoading } = usePollingData<TournamentEntry[]>(tournamentFetcher, {
+        cacheKey: CacheKeys.tournamentHistory(address ?? ''),
+        interval: POLLING_INTERVALS.RARE,
+        enabled: !!address,
+    });
+
+    // A rank only counts as a finish once the tournament is finalized
+    const [finishedIds, setFinishedIds] = useState<Set<number>>(new Set());
+    const rankedIds = (tournaments ?? []).filter(t => !t.cancelled && t.rank !== null).map(t => t.tournamentId).join(',');
+    useEffect(() => {
+        if (!rankedIds) {
+            setFinishedIds(new Set());
+            return;
+        }
+        let cancelled = false;
+        const ids = rankedIds.split(',').map(Number);
+        Promise.all(ids.map(id => getTournament(id).catch(() => null)))
+            .then(list => {
+                if (cancelled) return;
+                setFinishedIds(new Set(list.filter(t => t?.status === 'Finalized').map(t => t!.id)));
+            });
+        return () => { cancelled = true; };
+    }, [rankedIds, getTournament]);
+
+    const sets = useMemo(() => buildCollection(cards ?? [], mintStats), [cards, mintStats]);
+
+    const achievements = useMemo(() => computeAchievements({
+        sets,
+        forges: forges ?? [],
+        tournaments: tournaments ?? [],
+        finishedTournamentIds: finishedIds,
+    }), [sets, forges, tournaments, finishedIds]);
+
+    // Achievements stay hidden until every source has answered once — a half-loaded list would flash locked badges
+    const achievementsReady = !!cards && forges !== undefined && tournaments !== undefined;
+
+    return {
+        sets,
+        mintStats,
+        achievements: achievementsReady ? achievements : null,
+        isLoading: !cards || forgesLoading || tournamentsLoading,
+    };
+}
@@ -0,0 +1,55 @@
+// Fair-value estimates for every startup — shared trades, floors and tournament points in, one map out
+
+import { useCallback, useMemo } from 'react';
+import { usePollingData } from './usePollingData';
+import { useMarketTrades } from './usePriceHistory';
+import { useMarketplaceV2 } from './useMarketplaceV2';
+import { useTournament } from './useTournament';
+import { CacheKeys, POLLING_INTERVALS } from '../lib/cache';
+import { getStartupIds } from '../lib/priceHistory';
+import { estimateFairValues, getStartupPoints, type FairValue } from '../lib/fairValue';
+
+export function useFairValues(enabled = true) {
+    const { getActiveListings } = useMarketplaceV2();
+    const { getActiveTournamentId } = useTournament();
+
+    const trades = useMarketTrades(enabled);
+
+    // Cheapest active listing per startup
+    const fetchFloors = useCallback(async (): Promise<Record<number, bigint>> => {
+        const listings = await getActiveListings();
+        const startups = await getStartupIds(listings.map(l => Number(l.tokenId)));
+        const floors: Record<number, bigint> = {};
+        for (const listing of listings) {
+            const startupId = startups.get(Number(listing.tokenId));
+            if (startupId === undefined) continue;
+            if (floors[startupId] === undefined || listing.price < floors[startupId]) floors[startupId] = listing.price;
+        }
+        return floors;
+    }, [getActiveListings]);
+
+    const floors = usePollingData(fetchFloors, {
+        cacheKey: CacheKeys.startupFloors(),
+        interval: POLLING_INTERVALS.NORMAL,
+        enabled,
+    });
+
+    const fetchPoints = useCallback(async () => getStartupPoints(await getActiveTournamentId()), [getActiveTournamentId]);
+
+    const points = usePollingData(fetchPoints, {
+        cacheKey: CacheKeys.startupPoints(),
+        interval: POLLING_INTERVALS.RARE,
+        enabled,
+    });
+
+    // Points only nudge the estimate, so a missing scoring backend doesn't hold it back
+    const loaded = trades.data !== undefined && floors.data !== undefined;
+    const estimates = useMemo<Record<number, FairValue>>(
+        () => loaded
+            ? estimateFairValues({ trades: trades.data!.trades, floors: floors.data!, points: points.data ?? {} })
+            : {},
+        [loaded, trades.data, floors.data, points.data]
+    );
+
+    return { estimates, loaded, isLoading: !loaded && (trades.isLoading || floors.isLoading) };
+}
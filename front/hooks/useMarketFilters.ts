@@ -0,0 +1,57 @@
+// Marketplace advanced filters — read from and written to the URL query, with the seller username
+// resolved to wallets (debounced, one lookup per typed name)
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRoute, updateQuery } from '../lib/router';
+import { findPlayers } from '../lib/recipient';
+import { EMPTY_FILTERS, filterQuery, isAddressFilter, parseMarketFilters, type MarketFilters } from '../lib/marketFilters';
+
+const LOOKUP_DELAY = 400;
+
+export type SellerLookup =
+    | { status: 'idle' }
+    | { status: 'loading' }
+    | { status: 'found'; wallets: Set<string> }
+    | { status: 'error'; message: string };
+
+export function useMarketFilters() {
+    const route = useRoute();
+    const search = route.query.toString();
+    const filters = useMemo(() => parseMarketFilters(new URLSearchParams(search)), [search]);
+
+    const [seller, setSeller] = useState<SellerLookup>({ status: 'idle' });
+    const username = filters.seller !== null && !isAddressFilter(filters.seller) ? filters.seller : null;
+
+    useEffect(() => {
+        if (username === null) {
+            setSeller({ status: 'idle' });
+            return;
+        }
+        setSeller({ status: 'loading' });
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const players = await findPlayers(username);
+                if (!cancelled) setSeller({ status: 'found', wallets: new Set(players.map(p => p.address)) });
+            } catch (e: any) {
+                if (!cancelled) setSeller({ status: 'error', message: e?.message || 'Username lookup failed.' });
+            }
+        }, LOOKUP_DELAY);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [username]);
+
+    const setFilters = (changes: Partial<MarketFilters>) => updateQuery(filterQuery(changes));
+    const clearFilters = () => updateQuery(filterQuery(EMPTY_FILTERS));
+
+    return {
+        filters,
+        // Wallets a username filter resolved to — null while looking up or when no player matched
+        sellerWallets: seller.status === 'found' ? seller.wallets : null,
+        seller,
+        setFilters,
+        clearFilters,
+    };
+}
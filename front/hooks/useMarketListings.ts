@@ -0,0 +1,183 @@
+// Active listings and auctions with card metadata — the polled streams behind the Marketplace grid
+// and the saved-search alerts. One cache key each, so every consumer shares a single fetch
+
+import { useCallback } from 'react';
+import { usePollingData } from './usePollingData';
+import { useMarketplaceV2, Listing, Auction } from './useMarketplaceV2';
+import { useNFT } from './useNFT';
+import { formatXTZ } from '../lib/contracts';
+import type { MarketEntry } from '../lib/marketFilters';
+
+export interface ListingWithMeta extends Listing {
+    startupId?: number;
+    cardName?: string;
+    cardImage?: string;
+    rarity?: string;
+    multiplier?: number;
+    edition?: number;
+    priceFormatted?: string;
+}
+
+export interface AuctionWithMeta extends Auction {
+    startupId?: number;
+    cardName?: string;
+    cardImage?: string;
+    rarity?: string;
+    multiplier?: number;
+    edition?: number;
+    timeLeft?: string;
+    isEnded?: boolean;
+}
+
+// Polling keys — chainEvents refreshes them on marketplace logs
+export const LISTINGS_KEY = 'marketplace:active-listings';
+export const AUCTIONS_KEY = 'marketplace:active-auctions';
+const POLL_INTERVAL = 30000; // 30 seconds — avoid flooding metadata API
+
+// Helper to format time remaining
+export function formatTimeLeft(endTime: bigint): { text: string; isEnded: boolean } {
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (endTime <= now) return { text: 'Ended', isEnded: true };
+
+    const diff = Number(endTime - now);
+    const hours = Math.floor(diff / 3600);
+    const minutes = Math.floor((diff % 3600) / 60);
+    const seconds = diff % 60;
+
+    if (hours > 24) {
+        const days = Math.floor(hours / 24);
+        return { text: `${days}d ${hours % 24}h`, isEnded: false };
+    }
+    return { text: `${hours}h ${minutes}m ${seconds}s`, isEnded: false };
+}
+
+export function useActiveListings(enabled = true) {
+    const { getActiveListings } = useMarketplaceV2();
+    const { getCardInfo } = useNFT();
+
+    const fetchListings = useCallback(async (): Promise<ListingWithMeta[]> => {
+        try {
+            const rawListings = await getActiveListings();
+            const listingsWithMetadata = await Promise.all(
+                rawListings.map(async (listing) => {
+                    try {
+                        const cardInfo = await getCardInfo(Number(listing.tokenId));
+                        return {
+                            ...listing,
+                            startupId: cardInfo?.startupId,
+                            cardName: cardInfo?.name || `Card #${listing.tokenId}`,
+                            cardImage: cardInfo?.image || '/placeholder-card.png',
+                            rarity: cardInfo?.rarity || 'Common',
+                            multiplier: cardInfo?.multiplier || 1,
+                            edition: cardInfo?.edition,
+                            priceFormatted: formatXTZ(listing.price),
+                        };
+                    } catch {
+                        return {
+                            ...listing,
+                            cardName: `Card #${listing.tokenId}`,
+                            cardImage: '/placeholder-card.png',
+                            rarity: 'Common',
+                            multiplier: 1,
+                            priceFormatted: formatXTZ(listing.price),
+                        };
+                    }
+                })
+            );
+            return listingsWithMetadata;
+        } catch (e) {
+            return [];
+        }
+    }, [getActiveListings, getCardInfo]);
+
+    return usePollingData<ListingWithMeta[]>(fetchListings, {
+        cacheKey: LISTINGS_KEY,
+        interval: POLL_INTERVAL,
+        enabled,
+    });
+}
+
+export function useActiveAuctions(enabled = true) {
+    const { getActiveAuctions } = useMarketplaceV2();
+    const { getCardInfo } = useNFT();
+
+    const fetchAuctions = useCallback(async (): Promise<AuctionWithMeta[]> => {
+        try {
+            const rawAuctions = await getActiveAuctions();
+            const auctionsWithMetadata = await Promise.all(
+                rawAuctions.map(async (auction) => {
+                    try {
+                        const cardInfo = await getCardInfo(Number(auction.tokenId));
+                        const { text, isEnded } = formatTimeLeft(auction.endTime);
+                        return {
+                            ...auction,
+                            startupId: cardInfo?.startupId,
+                            cardName: cardInfo?.name || `Card #${auction.tokenId}`,
+                            cardImage: cardInfo?.image || '/placeholder-card.png',
+                            rarity: cardInfo?.rarity || 'Common',
+                            multiplier: cardInfo?.multiplier || 1,
+                            edition: cardInfo?.edition,
+                            timeLeft: text,
+                            isEnded,
+                        };
+                    } catch {
+                        const { text, isEnded } = formatTimeLeft(auction.endTime);
+                        return {
+                            ...auction,
+                            cardName: `Card #${auction.tokenId}`,
+                            cardImage: '/placeholder-card.png',
+                            rarity: 'Common',
+                            multiplier: 1,
+                            timeLeft: text,
+                            isEnded,
+                        };
+                    }
+                })
+            );
+            return auctionsWithMetadata;
+        } catch (e) {
+            return [];
+        }
+    }, [getActiveAuctions, getCardInfo]);
+
+    return usePollingData<AuctionWithMeta[]>(fetchAuctions, {
+        cacheKey: AUCTIONS_KEY,
+        interval: POLL_INTERVAL,
+        enabled,
+    });
+}
+
+// Listings and auctions as one filterable / sortable shape — the Marketplace grid renders by kind
+export type MarketItem =
+    | (MarketEntry & { kind: 'listing'; key: string; listing: ListingWithMeta })
+    | (MarketEntry & { kind: 'auction'; key: string; auction: AuctionWithMeta });
+
+export const listingItem = (listing: ListingWithMeta): MarketItem => ({
+    kind: 'listing',
+    key: `listing-${listing.listingId}`,
+    tokenId: listing.tokenId,
+    startupId: listing.startupId,
+    cardName: listing.cardName,
+    rarity: listing.rarity,
+    multiplier: listing.multiplier,
+    edition: listing.edition,
+    seller: listing.seller,
+    price: listing.price,
+    listedAt: listing.listedAt,
+    listing,
+});
+
+export const auctionItem = (auction: AuctionWithMeta): MarketItem => ({
+    kind: 'auction',
+    key: `auction-${auction.auctionId}`,
+    tokenId: auction.tokenId,
+    startupId: auction.startupId,
+    cardName: auction.cardName,
+    rarity: auction.rarity,
+    multiplier: auction.multiplier,
+    edition: auction.edition,
+    seller: auction.seller,
+    price: auction.highestBid > 0n ? auction.highestBid : auction.startPrice,
+    listedAt: auction.startTime,
+    auction,
+});
@@ -0,0 +1,33 @@
+// Marketplace operator approval for the connected wallet — kept fresh by ApprovalForAll events
+
+import { useCallback } from 'react';
+import { useWalletContext } from '../context/WalletContext';
+import { useMarketplaceV2 } from './useMarketplaceV2';
+import { usePollingData } from './usePollingData';
+import { CacheKeys, POLLING_INTERVALS } from '../lib/cache';
+
+export function useMarketplaceApproval() {
+    const { address, isConnected } = useWalletContext();
+    const { isMarketplaceApproved, setMarketplaceApproval, loading } = useMarketplaceV2();
+
+    const { data, isLoading, refresh } = usePollingData<boolean>(
+        async () => (address ? isMarketplaceApproved(address) : false),
+        {
+            cacheKey: CacheKeys.marketplaceApproval(address || 'none'),
+            interval: POLLING_INTERVALS.SLOW,
+            enabled: isConnected && !!address,
+        }
+    );
+
+    const setApproval = useCallback(async (approved: boolean) => {
+        await setMarketplaceApproval(approved);
+        await refresh();
+    }, [setMarketplaceApproval, refresh]);
+
+    return {
+        isApproved: data,           // undefined until the first read
+        isLoading,
+        isUpdating: loading,
+        setApproval,
+    };
+}
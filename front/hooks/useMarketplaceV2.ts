@@ -2,42 +2,28 @@ import { useState, useCallback } from 'react';
 import { BrowserProvider, ethers } from 'ethers';
 import { getMarketplaceV2Contract, getNFTContract, CONTRACTS, formatXTZ } from '@/lib/contracts';
 import { blockchainCache, CacheKeys, CacheTTL } from '../lib/cache';
+import { txManager } from '../lib/txManager';
+import { describeError } from '../lib/errors';
+import { simulate, assertPreflight, type PreflightResult } from '../lib/preflight';
 import { useWalletContext } from '../context/WalletContext';
+import type { SweepItem, SweepResult, SweepStatus, SweepStopReason } from '../lib/sweep';
+import {
+    decodeListing,
+    decodeBid,
+    decodeAuction,
+    decodeSale,
+    type Listing,
+    type Bid,
+    type Auction,
+    type Sale,
+} from '../lib/abi/MarketplaceV2';
 
 // ============ Constants ============
 // Gas limits removed - letting ethers.js auto-estimate for better reliability
 
 // ============ Types ============
-export interface Bid {
-    bidId: bigint;
-    bidder: string;
-    tokenId: bigint;
-    amount: bigint;
-    expiration: bigint;
-    active: boolean;
-}
-
-export interface Auction {
-    auctionId: bigint;
-    seller: string;
-    tokenId: bigint;
-    startPrice: bigint;
-    reservePrice: bigint;
-    highestBid: bigint;
-    highestBidder: string;
-    startTime: bigint;
-    endTime: bigint;
-    status: number; // 0=Active, 1=Ended, 2=Cancelled
-}
-
-export interface Sale {
-    tokenId: bigint;
-    seller: string;
-    buyer: string;
-    price: bigint;
-    timestamp: bigint;
-    saleType: number; // 0=Listing, 1=Bid, 2=Auction
-}
+// Contract structs come straight from the generated bindings
+export type { Listing, Bid, Auction, Sale } from '../lib/abi/MarketplaceV2';
 
 export interface TokenStats {
     totalSales: bigint;
@@ -48,6 +34,11 @@ export interface TokenStats {
     lastSaleTime: bigint;
 }
 
+// Listing / auction creation
+export interface ApprovalOptions {
+    approveAll?: boolean;   // Grant operator approval for every card instead of approving just this one
+}
+
 export interface MarketplaceStats {
     totalListings: bigint;
     activeBids: bigint;
@@ -56,15 +47,6 @@ export interface MarketplaceStats {
     totalSales: bigint;
 }
 
-export interface Listing {
-    listingId: bigint;
-    seller: string;
-    tokenId: bigint;
-    price: bigint;
-    listedAt: bigint;
-    active: boolean;
-}
-
 // ============ Hook ============
 export function useMarketplaceV2() {
     const { address, isConnected, walletProvider } = useWalletContext();
@@ -79,7 +61,54 @@ export function useMarketplaceV2() {
         return provider.getSigner();
     }, [walletProvider]);
 
-    // ============ Listings ============
+    // ============ Operator approval ============
+    // Whether the marketplace may move any of the owner's cards (setApprovalForAll)
+    // Straight from the chain — useMarketplaceApproval polls this under CacheKeys.marketplaceApproval,
+    // so reading through that key would hand a refresh back the value it is replacing
+    const isMarketplaceApproved = useCallback(async (owner: string): Promise<boolean> => {
+        return getNFTContract().isApprovedForAll(owner, CONTRACTS.MarketplaceV2);
+    }, []);
+
+    const setMarketplaceApproval = useCallback(async (approved: boolean) => {
+        setLoading(true);
+        setError(null);
+        try {
+            const signer = await getSigner();
+            const tx = await getNFTContract(signer).setApprovalForAll(CONTRACTS.MarketplaceV2, approved);
+            await txManager.track(tx, approved ? 'Approve marketplace' : 'Revoke marketplace approval');
+            return true;
+        } catch (err: any) {
+            setError(describeError(err, approved ? 'Failed to approve marketplace' : 'Failed to revoke approval'));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [getSigner]);
+
+    // Prompt for approval only when the marketplace can't already move the token.
+    // Read fresh rather than from cache — a stale "approved" would make the listing revert
+    const ensureApproval = useCallback(async (signer: ethers.Signer, tokenId: bigint, approveAll: boolean) => {
+        const owner = await signer.getAddress();
+        const nftRead = getNFTContract();
+        const marketplace = CONTRACTS.MarketplaceV2.toLowerCase();
+
+        const [approvedForAll, approvedForToken] = await Promise.all([
+            nftRead.isApprovedForAll(owner, CONTRACTS.MarketplaceV2),
+            nftRead.getApproved(tokenId),
+        ]);
+        blockchainCache.set(CacheKeys.marketplaceApproval(owner), approvedForAll);
+        if (approvedForAll || approvedForToken.toLowerCase() === marketplace) return;
+
+        const nftContract = getNFTContract(signer);
+        if (approveAll) {
+            const tx = await nftContract.setApprovalForAll(CONTRACTS.MarketplaceV2, true);
+            await txManager.track(tx, 'Approve marketplace');
+        } else {
+            const tx = await nftContract.approve(CONTRACTS.MarketplaceV2, tokenId);
+            await txManager.track(tx, `Approve card #${tokenId}`);
+        }
+    }, []);
+
     // ============ Listings ============
     // Cache-first polling for active listings
     const getActiveListings = useCallback(async (): Promise<Listing[]> => {
@@ -94,14 +123,7 @@ export function useMarketplaceV2() {
                 blockchainCache.fetchInBackground(key, async () => {
                     const contract = getMarketplaceV2Contract();
                     const listings = await contract.getActiveListings();
-                    return listings.map((l: any) => ({
-                        listingId: l.listingId,
-                        seller: l.seller,
-                        tokenId: l.tokenId,
-                        price: l.price,
-                        listedAt: l.listedAt,
-                        active: l.active,
-                    }));
+                    return listings.map(decodeListing);
                 });
             }
             return cached;
@@ -110,14 +132,7 @@ export function useMarketplaceV2() {
         return blockchainCache.getOrFetch(key, async () => {
             const contract = getMarketplaceV2Contract();
             const listings = await contract.getActiveListings();
-            return listings.map((l: any) => ({
-                listingId: l.listingId,
-                seller: l.seller,
-                tokenId: l.tokenId,
-                price: l.price,
-                listedAt: l.listedAt,
-                active: l.active,
-            }));
+            return listings.map(decodeListing);
         }, CacheTTL.DEFAULT);
     }, []);
 
@@ -130,14 +145,7 @@ export function useMarketplaceV2() {
                 blockchainCache.fetchInBackground(key, async () => {
                     const contract = getMarketplaceV2Contract();
                     const listings = await contract.getListingsBySeller(userAddress);
-                    return listings.map((l: any) => ({
-                        listingId: l.listingId,
-                        seller: l.seller,
-                        tokenId: l.tokenId,
-                        price: l.price,
-                        listedAt: l.listedAt,
-                        active: l.active,
-                    }));
+                    return listings.map(decodeListing);
                 });
             }
             return cached;
@@ -146,42 +154,38 @@ export function useMarketplaceV2() {
         return blockchainCache.getOrFetch(key, async () => {
             const contract = getMarketplaceV2Contract();
             const listings = await contract.getListingsBySeller(userAddress);
-            return listings.map((l: any) => ({
-                listingId: l.listingId,
-                seller: l.seller,
-                tokenId: l.tokenId,
-                price: l.price,
-                listedAt: l.listedAt,
-                active: l.active,
-            }));
+            return listings.map(decodeListing);
         }, CacheTTL.DEFAULT);
     }, []);
 
-    const listCard = useCallback(async (tokenId: bigint, priceInXTZ: string) => {
+    const listCard = useCallback(async (tokenId: bigint, priceInXTZ: string, options: ApprovalOptions = {}) => {
         setLoading(true);
         setError(null);
         try {
             const signer = await getSigner();
-            const nftContract = getNFTContract(signer);
             const marketplaceContract = getMarketplaceV2Contract(signer);
 
-            // Approve marketplace
-            const approveTx = await nftContract.approve(CONTRACTS.MarketplaceV2, tokenId);
-            await approveTx.wait();
+            await ensureApproval(signer, tokenId, !!options.approveAll);
 
             // List card
             const priceWei = ethers.parseEther(priceInXTZ);
             const listTx = await marketplaceContract.listCard(tokenId, priceWei);
-            await listTx.wait();
+            await txManager.track(listTx, `List card #${tokenId}`);
 
             return true;
         } catch (err: any) {
-            setError(err.message || 'Failed to list card');
+            setError(describeError(err, 'Failed to list card'));
             throw err;
         } finally {
             setLoading(false);
         }
-    }, [getSigner]);
+    }, [getSigner, ensureApproval]);
+
+    // Pre-flight: would buying succeed for this wallet, and what does gas add on top of the price
+    const simulateBuyCard = useCallback(async (listingId: bigint, price: bigint): Promise<PreflightResult> => {
+        if (!address) return { ok: false, error: 'Connect your wallet first' };
+        return simulate(getMarketplaceV2Contract().buyCard, [listingId], { from: address, value: price }, 'Failed to buy card');
+    }, [address]);
 
     const buyCard = useCallback(async (listingId: bigint, price: bigint) => {
         setLoading(true);
@@ -189,20 +193,69 @@ export function useMarketplaceV2() {
         try {
             const signer = await getSigner();
             const contract = getMarketplaceV2Contract(signer);
+            assertPreflight(await simulateBuyCard(listingId, price));
 
             const tx = await contract.buyCard(listingId, {
                 value: price
             });
-            await tx.wait();
+            await txManager.track(tx, `Buy listing #${listingId}`);
 
             return true;
         } catch (err: any) {
-            setError(err.message || 'Failed to buy card');
+            setError(describeError(err, 'Failed to buy card'));
             throw err;
         } finally {
             setLoading(false);
         }
-    }, [getSigner]);
+    }, [getSigner, simulateBuyCard]);
+
+    // Buys a planned sweep one listing after another. Each listing is re-read right before its purchase,
+    // and the first one that is gone, over the budget left, or fails ends the run with what was bought so far
+    const sweepListings = useCallback(async (
+        plan: SweepItem[],
+        budget: bigint,
+        { onStatus, shouldStop }: { onStatus?: (index: number, status: SweepStatus) => void; shouldStop?: () => boolean } = {}
+    ): Promise<SweepResult> => {
+        setLoading(true);
+        setError(null);
+        const bought: SweepItem[] = [];
+        let spent = 0n;
+        let index = 0;
+
+        const stop = (reason: SweepStopReason, message: string): SweepResult => {
+            onStatus?.(index, 'stopped');
+            return { bought, spent, stopped: { reason, item: plan[index], message } };
+        };
+
+        try {
+            const contract = getMarketplaceV2Contract(await getSigner());
+            for (; index < plan.length; index++) {
+                const item = plan[index];
+                if (shouldStop?.()) return stop('cancelled', 'Stopped before this card');
+
+                onStatus?.(index, 'checking');
+                const current = decodeListing(await getMarketplaceV2Contract().getListing(item.listingId));
+                if (!current.active || current.seller === ethers.ZeroAddress) return stop('gone', 'Listing was sold or cancelled');
+                if (spent + current.price > budget) return stop('budget', `Over budget — ${formatXTZ(budget - spent)} XTZ left`);
+
+                onStatus?.(index, 'buying');
+                assertPreflight(await simulateBuyCard(item.listingId, current.price));
+                const tx = await contract.buyCard(item.listingId, { value: current.price });
+                await txManager.track(tx, `Sweep: buy listing #${item.listingId}`);
+
+                bought.push(item);
+                spent += current.price;
+                onStatus?.(index, 'bought');
+            }
+            return { bought, spent, stopped: null };
+        } catch (err: any) {
+            const msg = describeError(err, 'Failed to buy card');
+            setError(msg);
+            return stop('error', msg);
+        } finally {
+            setLoading(false);
+        }
+    }, [getSigner, simulateBuyCard]);
 
     const cancelListing = useCallback(async (listingId: bigint) => {
         setLoading(true);
@@ -212,13 +265,14 @@ export function useMarketplaceV2() {
             const contract = getMarketplaceV2Contract(signer);
 
             const tx = await contract.cancelListing(listingId);
-            await tx.wait();
+            await txManager.track(tx, `Cancel listing #${listingId}`);
 
             return true;
         } catch (err: any) {
-            setError(err.message || 'Failed to cancel listing');
+            setError(describeError(err, 'Failed to cancel listing'));
             throw err;
         } finally {
+            setLoading(false);
         }
     }, [getSigner]);
 
@@ -232,14 +286,7 @@ export function useMarketplaceV2() {
                 blockchainCache.fetchInBackground(key, async () => {
                     const contract = getMarketplaceV2Contract();
                     const bids = await contract.getUserBids(userAddress);
-                    return bids.map((b: any) => ({
-                        bidId: b.bidId,
-                        bidder: b.bidder,
-                        tokenId: b.tokenId,
-                        amount: b.amount,
-                        expiration: b.expiration,
-                        active: b.active,
-                    }));
+                    return bids.map(decodeBid);
                 });
             }
             return cached;
@@ -248,14 +295,7 @@ export function useMarketplaceV2() {
         return blockchainCache.getOrFetch(key, async () => {
             const contract = getMarketplaceV2Contract();
             const bids = await contract.getUserBids(userAddress);
-            return bids.map((b: any) => ({
-                bidId: b.bidId,
-                bidder: b.bidder,
-                tokenId: b.tokenId,
-                amount: b.amount,
-                expiration: b.expiration,
-                active: b.active,
-            }));
+            return bids.map(decodeBid);
         }, CacheTTL.DEFAULT);
     }, []);
 
@@ -272,11 +312,11 @@ export function useMarketplaceV2() {
             const tx = await contract.placeBid(tokenId, expiration, {
                 value: amountWei
             });
-            await tx.wait();
+            await txManager.track(tx, `Bid on card #${tokenId}`);
 
             return true;
         } catch (err: any) {
-            setError(err.message || 'Failed to place bid');
+            setError(describeError(err, 'Failed to place bid'));
             throw err;
         } finally {
             setLoading(false);
@@ -291,11 +331,11 @@ export function useMarketplaceV2() {
             const contract = getMarketplaceV2Contract(signer);
 
             const tx = await contract.cancelBid(bidId);
-            await tx.wait();
+            await txManager.track(tx, `Cancel bid #${bidId}`);
 
             return true;
         } catch (err: any) {
-            setError(err.message || 'Failed to cancel bid');
+            setError(describeError(err, 'Failed to cancel bid'));
             throw err;
         } finally {
             setLoading(false);
@@ -310,11 +350,11 @@ export function useMarketplaceV2() {
             const contract = getMarketplaceV2Contract(signer);
 
             const tx = await contract.acceptBid(bidId);
-            await tx.wait();
+            await txManager.track(tx, `Accept bid #${bidId}`);
 
             return true;
         } catch (err: any) {
-            setError(err.message || 'Failed to accept bid');
+            setError(describeError(err, 'Failed to accept bid'));
             throw err;
         } finally {
             setLoading(false);
@@ -325,14 +365,7 @@ export function useMarketplaceV2() {
         try {
             const contract = getMarketplaceV2Contract();
             const bids = await contract.getActiveBidsForToken(tokenId);
-            return bids.map((b: any) => ({
-                bidId: b.bidId,
-                bidder: b.bidder,
-                tokenId: b.tokenId,
-                amount: b.amount,
-                expiration: b.expiration,
-                active: b.active,
-            }));
+            return bids.map(decodeBid);
         } catch (err: any) {
             return [];
         }
@@ -348,14 +381,7 @@ export function useMarketplaceV2() {
                 blockchainCache.fetchInBackground(key, async () => {
                     const contract = getMarketplaceV2Contract();
                     const bids = await contract.getUserBids(address);
-                    return bids.map((b: any) => ({
-                        bidId: b.bidId,
-                        bidder: b.bidder,
-                        tokenId: b.tokenId,
-                        amount: b.amount,
-                        expiration: b.expiration,
-                        active: b.active,
-                    }));
+                    return bids.map(decodeBid);
                 });
             }
             return cached;
@@ -364,14 +390,7 @@ export function useMarketplaceV2() {
         return blockchainCache.getOrFetch(key, async () => {
             const contract = getMarketplaceV2Contract();
             const bids = await contract.getUserBids(address);
-            return bids.map((b: any) => ({
-                bidId: b.bidId,
-                bidder: b.bidder,
-                tokenId: b.tokenId,
-                amount: b.amount,
-                expiration: b.expiration,
-                active: b.active,
-            }));
+            return bids.map(decodeBid);
         }, CacheTTL.DEFAULT);
     }, [address]);
 
@@ -380,34 +399,43 @@ export function useMarketplaceV2() {
         tokenId: bigint,
         startPriceXTZ: string,
         reservePriceXTZ: string,
-        durationDays: number
+        durationDays: number,
+        options: ApprovalOptions = {}
     ) => {
         setLoading(true);
         setError(null);
         try {
             const signer = await getSigner();
-            const nftContract = getNFTContract(signer);
             const contract = getMarketplaceV2Contract(signer);
 
-            // Approve marketplace
-            const approveTx = await nftContract.approve(CONTRACTS.MarketplaceV2, tokenId);
-            await approveTx.wait();
+            await ensureApproval(signer, tokenId, !!options.approveAll);
 
             const startPrice = ethers.parseEther(startPriceXTZ);
             const reservePrice = ethers.parseEther(reservePriceXTZ);
             const duration = BigInt(durationDays * 24 * 60 * 60);
 
             const tx = await contract.createAuction(tokenId, startPrice, reservePrice, duration);
-            await tx.wait();
+            await txManager.track(tx, `Auction card #${tokenId}`);
 
             return true;
         } catch (err: any) {
-            setError(err.message || 'Failed to create auction');
+            setError(describeError(err, 'Failed to create auction'));
             throw err;
         } finally {
             setLoading(false);
         }
-    }, [getSigner]);
+    }, [getSigner, ensureApproval]);
+
+    const simulateBidOnAuction = useCallback(async (auctionId: bigint, amountInXTZ: string): Promise<PreflightResult> => {
+        if (!address) return { ok: false, error: 'Connect your wallet first' };
+        let amountWei: bigint;
+        try {
+            amountWei = ethers.parseEther(amountInXTZ);
+        } catch {
+            return { ok: false, error: 'Enter a valid amount' };
+        }
+        return simulate(getMarketplaceV2Contract().bidOnAuction, [auctionId], { from: address, value: amountWei }, 'Failed to bid on auction');
+    }, [address]);
 
     const bidOnAuction = useCallback(async (auctionId: bigint, amountInXTZ: string) => {
         setLoading(true);
@@ -415,22 +443,23 @@ export function useMarketplaceV2() {
         try {
             const signer = await getSigner();
             const contract = getMarketplaceV2Contract(signer);
+            assertPreflight(await simulateBidOnAuction(auctionId, amountInXTZ));
 
             const amountWei = ethers.parseEther(amountInXTZ);
 
             const tx = await contract.bidOnAuction(auctionId, {
                 value: amountWei
             });
-            await tx.wait();
+            await txManager.track(tx, `Bid on auction #${auctionId}`);
 
             return true;
         } catch (err: any) {
-            setError(err.message || 'Failed to bid on auction');
+            setError(describeError(err, 'Failed to bid on auction'));
             throw err;
         } finally {
             setLoading(false);
         }
-    }, [getSigner]);
+    }, [getSigner, simulateBidOnAuction]);
 
     const finalizeAuction = useCallback(async (auctionId: bigint) => {
         setLoading(true);
@@ -440,11 +469,11 @@ export function useMarketplaceV2() {
             const contract = getMarketplaceV2Contract(signer);
 
             const tx = await contract.finalizeAuction(auctionId);
-            await tx.wait();
+            await txManager.track(tx, `Finalize auction #${auctionId}`);
 
             return true;
         } catch (err: any) {
-            setError(err.message || 'Failed to finalize auction');
+            setError(describeError(err, 'Failed to finalize auction'));
             throw err;
         } finally {
             setLoading(false);
@@ -459,11 +488,11 @@ export function useMarketplaceV2() {
             const contract = getMarketplaceV2Contract(signer);
 
             const tx = await contract.cancelAuction(auctionId);
-            await tx.wait();
+            await txManager.track(tx, `Cancel auction #${auctionId}`);
 
             return true;
         } catch (err: any) {
-            setError(err.message || 'Failed to cancel auction');
+            setError(describeError(err, 'Failed to cancel auction'));
             throw err;
         } finally {
             setLoading(false);
@@ -479,18 +508,7 @@ export function useMarketplaceV2() {
                 blockchainCache.fetchInBackground(key, async () => {
                     const contract = getMarketplaceV2Contract();
                     const auctions = await contract.getActiveAuctions();
-                    return auctions.map((a: any) => ({
-                        auctionId: a.auctionId,
-                        seller: a.seller,
-                        tokenId: a.tokenId,
-                        startPrice: a.startPrice,
-                        reservePrice: a.reservePrice,
-                        highestBid: a.highestBid,
-                        highestBidder: a.highestBidder,
-                        startTime: a.startTime,
-                        endTime: a.endTime,
-                        status: a.status,
-                    }));
+                    return auctions.map(decodeAuction);
                 });
             }
             return cached;
@@ -499,34 +517,35 @@ export function useMarketplaceV2() {
         return blockchainCache.getOrFetch(key, async () => {
             const contract = getMarketplaceV2Contract();
             const auctions = await contract.getActiveAuctions();
-            return auctions.map((a: any) => ({
-                auctionId: a.auctionId,
-                seller: a.seller,
-                tokenId: a.tokenId,
-                startPrice: a.startPrice,
-                reservePrice: a.reservePrice,
-                highestBid: a.highestBid,
-                highestBidder: a.highestBidder,
-                startTime: a.startTime,
-                endTime: a.endTime,
-                status: a.status,
-            }));
+            return auctions.map(decodeAuction);
         }, CacheTTL.DEFAULT);
     }, []);
 
+    // Single listing/auction by id, active or not — null when the id was never used
+    const getListing = useCallback(async (listingId: bigint): Promise<Listing | null> => {
+        try {
+            const listing = decodeListing(await getMarketplaceV2Contract().getListing(listingId));
+            return listing.seller === ethers.ZeroAddress ? null : listing;
+        } catch (err: any) {
+            return null;
+        }
+    }, []);
+
+    const getAuction = useCallback(async (auctionId: bigint): Promise<Auction | null> => {
+        try {
+            const auction = decodeAuction(await getMarketplaceV2Contract().getAuction(auctionId));
+            return auction.seller === ethers.ZeroAddress ? null : auction;
+        } catch (err: any) {
+            return null;
+        }
+    }, []);
+
     // ============ History & Stats ============
     const getTokenSaleHistory = useCallback(async (tokenId: bigint): Promise<Sale[]> => {
         try {
             const contract = getMarketplaceV2Contract();
             const history = await contract.getTokenSaleHistory(tokenId);
-            return history.map((s: any) => ({
-                tokenId: s.tokenId,
-                seller: s.seller,
-                buyer: s.buyer,
-                price: s.price,
-                timestamp: s.timestamp,
-                saleType: s.saleType,
-            }));
+            return history.map(decodeSale);
         } catch (err: any) {
             return [];
         }
@@ -572,11 +591,18 @@ export function useMarketplaceV2() {
         isConnected,
         address,
 
+        // Operator approval
+        isMarketplaceApproved,
+        setMarketplaceApproval,
+
         // Listings
         getActiveListings,
         getUserListings,
+        getListing,
         listCard,
+        simulateBuyCard,
         buyCard,
+        sweepListings,
         cancelListing,
 
         // Bids
@@ -589,10 +615,12 @@ export function useMarketplaceV2() {
 
         // Auctions
         createAuction,
+        simulateBidOnAuction,
         bidOnAuction,
         finalizeAuction,
         cancelAuction,
         getActiveAuctions,
+        getAuction,
 
         // History & Stats
         getTokenSaleHistory,
@@ -1,9 +1,13 @@
 // NFT contract hook with metadata fetching
 import { useState, useCallback } from 'react';
 import { ethers } from 'ethers';
-import { getNFTContract, METADATA_API, STARTUPS } from '../lib/contracts';
+import { getNFTContract, CONTRACTS, METADATA_API, STARTUPS } from '../lib/contracts';
 import { CardData, Rarity } from '../types';
 import { blockchainCache, CacheKeys, CacheTTL } from '../lib/cache';
+import { decodeCardInfo } from '../lib/abi/UnicornX_NFT';
+import { txManager } from '../lib/txManager';
+import { describeError } from '../lib/errors';
+import { simulate, assertPreflight, type PreflightResult } from '../lib/preflight';
 
 // Map rarity strings to enum
 const RARITY_STRING_MAP: Record<string, Rarity> = {
@@ -15,6 +19,9 @@ const RARITY_STRING_MAP: Record<string, Rarity> = {
     'Legendary': Rarity.LEGENDARY,
 };
 
+// Contract fallback reads per round — one JSON-RPC batch (READ_BATCH_MAX_COUNT in lib/contracts)
+const CONTRACT_FALLBACK_BATCH = 50;
+
 // Fetch items in batches (used as fallback when batch endpoint fails)
 async function fetchInBatches<T>(
     items: number[],
@@ -186,7 +193,7 @@ export function useNFT() {
                 blockchainCache.fetchInBackground(key, async () => {
                     const contract = getNFTContract();
                     const tokens = await contract.getOwnedTokens(address);
-                    return tokens.map((t: bigint) => Number(t));
+                    return tokens.map(Number);
                 });
             }
             return cached;
@@ -195,7 +202,7 @@ export function useNFT() {
         return blockchainCache.getOrFetch(key, async () => {
             const contract = getNFTContract();
             const tokens = await contract.getOwnedTokens(address);
-            return tokens.map((t: bigint) => Number(t));
+            return tokens.map(Number);
         }, CacheTTL.DEFAULT);
     }, []);
 
@@ -203,13 +210,12 @@ export function useNFT() {
     const fetchCardFromContract = useCallback(async (tokenId: number): Promise<CardData | null> => {
         try {
             const contract = getNFTContract();
-            const info = await contract.getCardInfo(tokenId);
+            const info = decodeCardInfo(await contract.getCardInfo(tokenId));
             const startupId = Number(info.startupId);
             const startup = STARTUPS[startupId];
             if (!startup) return null;
 
-            const rarityEnum = Number(info.rarity);
-            const rarity = [Rarity.COMMON, Rarity.RARE, Rarity.EPIC, Rarity.EPIC_RARE, Rarity.LEGENDARY][rarityEnum] || Rarity.COMMON;
+            const rarity = [Rarity.COMMON, Rarity.RARE, Rarity.EPIC, Rarity.EPIC_RARE, Rarity.LEGENDARY][info.rarity] || Rarity.COMMON;
 
             return {
                 tokenId,
@@ -327,9 +333,10 @@ export function useNFT() {
 
         const nullIndices = cards.map((c, i) => c === null ? i : -1).filter(i => i >= 0);
         if (nullIndices.length > 0) {
+            // Contract reads are coalesced into JSON-RPC batches — one batch's worth of reads at a time
             const fallbacks = await fetchInBatches(
                 nullIndices.map(i => tokenIds[i]),
-                fetchCardFromContract, 5, 100
+                fetchCardFromContract, CONTRACT_FALLBACK_BATCH, 0
             );
             fallbacks.forEach((card, fi) => {
                 if (card) cards[nullIndices[fi]] = card;
@@ -340,7 +347,6 @@ export function useNFT() {
 
         const cardsKey = CacheKeys.userCards(address);
         blockchainCache.set(cardsKey, validCards);
-        blockchainCache.persistKeys('nft:');
 
         // Push to server DB cache in background
         pushCardsToServer(address, validCards);
@@ -372,7 +378,6 @@ export function useNFT() {
                     if (serverCards && serverCards.length > 0) {
                         const cardsKey = CacheKeys.userCards(address);
                         blockchainCache.set(cardsKey, serverCards);
-                        blockchainCache.persistKeys('nft:');
                         return serverCards;
                     }
                 }
@@ -385,7 +390,7 @@ export function useNFT() {
                 if (cached && cached.length > 0) {
                     return cached;
                 }
-                setError(e.message);
+                setError(describeError(e, 'Failed to load cards'));
                 return [];
             } finally {
                 setIsLoading(false);
@@ -398,8 +403,14 @@ export function useNFT() {
         return promise;
     }, [fetchCardsFromBlockchain, fetchCardsFromServer]);
 
-    // Rarity names for logging
-    const RARITY_NAMES = ['Common', 'Rare', 'Epic', 'EpicRare', 'Legendary'];
+    // Pre-flight for a merge — the contract's own checks (RarityMismatch, CardIsLocked,
+    // CannotMergeLegendary, ownership) run as a simulation, so stale cached rarities can't cost gas
+    const simulateMerge = useCallback(async (
+        tokenIds: [number, number, number],
+        address: string
+    ): Promise<PreflightResult> => {
+        return simulate(getNFTContract().mergeCards, [tokenIds], { from: address }, 'Merge failed');
+    }, []);
 
     // Merge 3 cards into 1 higher rarity
     const mergeCards = useCallback(async (
@@ -411,29 +422,15 @@ export function useNFT() {
 
         try {
             const contract = getNFTContract(signer);
+            assertPreflight(await simulateMerge(tokenIds, await signer.getAddress()));
 
-            // Pre-merge on-chain rarity verification to prevent RarityMismatch errors
-            // The cached/metadata rarity might not match on-chain state after upgrades
+            // Uninitialised startup data doesn't revert — it would mint a card with no multiplier
             try {
                 const readContract = getNFTContract(); // read-only provider
                 const cardInfos = await Promise.all(
-                    tokenIds.map(id => readContract.getCardInfo(id))
+                    tokenIds.map(async id => decodeCardInfo(await readContract.getCardInfo(id)))
                 );
-                const onChainRarities = cardInfos.map(info => Number(info.rarity));
-
-                // Check all cards have the same on-chain rarity
-                if (onChainRarities[0] !== onChainRarities[1] || onChainRarities[0] !== onChainRarities[2]) {
-                    const details = tokenIds.map((id, i) =>
-                        `Token #${id}: ${RARITY_NAMES[onChainRarities[i]] || 'Unknown'}`
-                    ).join(', ');
-                    const errorMsg = `On-chain rarity mismatch! ${details}. The contract startups data may need re-initialization.`;
-                    setError(errorMsg);
-                    return { success: false, error: errorMsg };
-                }
-
-                // Also check that multipliers are not all 0 (indicates startups mapping is uninitialized)
-                const allMultipliersZero = cardInfos.every(info => Number(info.multiplier) === 0);
-                if (allMultipliersZero) {
+                if (cardInfos.every(info => info.multiplier === 0n)) {
                     const errorMsg = 'Contract startup data appears uninitialized (all multipliers are 0). Admin must call reinitializeStartups().';
                     setError(errorMsg);
                     return { success: false, error: errorMsg };
@@ -442,7 +439,7 @@ export function useNFT() {
             }
 
             const tx = await contract.mergeCards(tokenIds);
-            const receipt = await tx.wait();
+            const receipt = await txManager.track(tx, `Merge cards #${tokenIds.join(', #')}`);
 
             // Parse CardsMerged event to get new token ID
             let newTokenId: number | undefined;
@@ -456,28 +453,120 @@ export function useNFT() {
                 } catch { }
             }
 
-            // Clear cache for merged (burned) cards and invalidate user's card list
-            tokenIds.forEach(id => blockchainCache.invalidate(CacheKeys.cardMetadata(id)));
-            // Also invalidate the new card's cache to force fresh fetch
-            if (newTokenId) {
-                blockchainCache.invalidate(CacheKeys.cardMetadata(newTokenId));
-            }
-            const signerAddress = await signer.getAddress();
-            blockchainCache.invalidatePrefix(`nft:owned:${signerAddress}`);
-            blockchainCache.invalidatePrefix(`nft:cards:${signerAddress}`);
-            blockchainCache.invalidatePrefix(`nft:prevTokenIds:${signerAddress}`);
-            blockchainCache.persistKeys('nft:');
-
             return { success: true, newTokenId };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Merge failed';
+            const msg = describeError(e, 'Merge failed');
             setError(msg);
             return { success: false, error: msg };
         } finally {
             setIsLoading(false);
         }
+    }, [simulateMerge]);
+
+    // Why each card can't be sent right now — locks and marketplace escrow are read live,
+    // the cached card list lags behind both
+    const getTransferBlockers = useCallback(async (from: string, tokenIds: number[]): Promise<Map<number, string>> => {
+        const contract = getNFTContract();
+        const me = from.toLowerCase();
+        const marketplace = CONTRACTS.MarketplaceV2.toLowerCase();
+        const blockers = new Map<number, string>();
+
+        await Promise.all(tokenIds.map(async tokenId => {
+            try {
+                const [owner, locked] = await Promise.all([contract.ownerOf(tokenId), contract.isLocked(tokenId)]);
+                if (owner.toLowerCase() === marketplace) blockers.set(tokenId, 'On the marketplace — cancel the listing or auction first');
+                else if (owner.toLowerCase() !== me) blockers.set(tokenId, 'No longer in this wallet');
+                else if (locked) blockers.set(tokenId, 'Locked in a tournament lineup');
+            } catch (e) {
+                blockers.set(tokenId, describeError(e, 'Card not found'));
+            }
+        }));
+        return blockers;
+    }, []);
+
+    // Pre-flight for a send — every transfer is simulated, the quote adds up their fees
+    const simulateTransfer = useCallback(async (
+        from: string,
+        to: string,
+        tokenIds: number[]
+    ): Promise<PreflightResult> => {
+        const transfer = getNFTContract()['safeTransferFrom(address,address,uint256)'];
+        const results = await Promise.all(
+            tokenIds.map(tokenId => simulate(transfer, [from, to, tokenId], { from }, 'Transfer failed'))
+        );
+
+        const failed = results.findIndex(r => !r.ok);
+        if (failed >= 0) {
+            const error = results[failed].error;
+            return { ok: false, error: tokenIds.length > 1 ? `Card #${tokenIds[failed]}: ${error}` : error };
+        }
+
+        const gasLimit = results.reduce((sum, r) => sum + r.quote!.gasLimit, 0n);
+        const gasCost = results.reduce((sum, r) => sum + r.quote!.gasCost, 0n);
+        return { ok: true, quote: { gasLimit, gasCost, value: 0n, total: gasCost } };
     }, []);
 
+    // Mirror a transfer in the nft: caches and the server DB cache. The recipient's lists are only
+    // patched where they already exist — a partial list would hide the rest of their cards
+    const applyTransfer = useCallback(async (from: string, to: string, cards: CardData[]): Promise<void> => {
+        const sent = new Set(cards.map(c => c.tokenId));
+
+        const fromCards = blockchainCache.get<CardData[]>(CacheKeys.userCards(from));
+        if (fromCards) blockchainCache.set(CacheKeys.userCards(from), fromCards.filter(c => !sent.has(c.tokenId)));
+        const fromTokens = blockchainCache.get<number[]>(CacheKeys.ownedTokens(from));
+        if (fromTokens) blockchainCache.set(CacheKeys.ownedTokens(from), fromTokens.filter(id => !sent.has(id)));
+
+        const toCards = blockchainCache.get<CardData[]>(CacheKeys.userCards(to));
+        if (toCards) blockchainCache.set(CacheKeys.userCards(to), [...toCards.filter(c => !sent.has(c.tokenId)), ...cards]);
+        const toTokens = blockchainCache.get<number[]>(CacheKeys.ownedTokens(to));
+        if (toTokens) blockchainCache.set(CacheKeys.ownedTokens(to), [...toTokens.filter(id => !sent.has(id)), ...sent]);
+
+        const recipientServerCards = await fetchCardsFromServer(to);
+        await Promise.all([
+            updateServerCache(from, undefined, [...sent]),
+            recipientServerCards && recipientServerCards.length > 0 ? updateServerCache(to, cards) : undefined,
+        ]);
+    }, [fetchCardsFromServer, updateServerCache]);
+
+    // Send cards to another wallet, one transaction per card. Stops at the first failure —
+    // `transferred` lists the cards that did go through
+    const transferCards = useCallback(async (
+        signer: ethers.Signer,
+        from: string,
+        to: string,
+        cards: CardData[],
+        onProgress?: (sent: number) => void
+    ): Promise<{ success: boolean; transferred: number[]; error?: string }> => {
+        setIsLoading(true);
+        setError(null);
+        const transferred: CardData[] = [];
+
+        try {
+            const tokenIds = cards.map(c => c.tokenId);
+            const blockers = await getTransferBlockers(from, tokenIds);
+            const blocked = tokenIds.find(id => blockers.has(id));
+            if (blocked !== undefined) throw new Error(`Card #${blocked}: ${blockers.get(blocked)}`);
+            assertPreflight(await simulateTransfer(from, to, tokenIds));
+
+            const contract = getNFTContract(signer);
+            for (const card of cards) {
+                const tx = await contract['safeTransferFrom(address,address,uint256)'](from, to, card.tokenId);
+                await txManager.track(tx, `Send card #${card.tokenId} to ${to.slice(0, 6)}…${to.slice(-4)}`);
+                transferred.push(card);
+                onProgress?.(transferred.length);
+            }
+
+            return { success: true, transferred: tokenIds };
+        } catch (e: any) {
+            const msg = describeError(e, 'Transfer failed');
+            setError(msg);
+            return { success: false, transferred: transferred.map(c => c.tokenId), error: msg };
+        } finally {
+            if (transferred.length > 0) await applyTransfer(from, to, transferred);
+            setIsLoading(false);
+        }
+    }, [getTransferBlockers, simulateTransfer, applyTransfer]);
+
     // Check if token is locked
     const isLocked = useCallback(async (tokenId: number): Promise<boolean> => {
         try {
@@ -500,7 +589,11 @@ export function useNFT() {
         getCardInfo,
         getCardInfoWithRetry,
         getCards,
+        simulateMerge,
         mergeCards,
+        getTransferBlockers,
+        simulateTransfer,
+        transferCards,
         isLocked,
         clearCache,
         pushCardsToServer,
@@ -0,0 +1,8 @@
+// Hook for browser connectivity — re-renders when the device goes on- or offline
+
+import { useSyncExternalStore } from 'react';
+import { isOnline, subscribeConnectivity } from '../lib/connectivity';
+
+export function useOnline(): boolean {
+    return useSyncExternalStore(subscribeConnectivity, isOnline);
+}
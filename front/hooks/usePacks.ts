@@ -4,6 +4,9 @@ import { ethers } from 'ethers';
 import { getPackOpenerContract, getNFTContract, METADATA_API } from '../lib/contracts';
 import { CardData, Rarity } from '../types';
 import { blockchainCache, CacheKeys, CacheTTL } from '../lib/cache';
+import { txManager } from '../lib/txManager';
+import { describeError } from '../lib/errors';
+import { simulate, assertPreflight, type PreflightResult } from '../lib/preflight';
 
 // Map rarity strings to enum
 const RARITY_STRING_MAP: Record<string, Rarity> = {
@@ -48,6 +51,31 @@ async function fetchCardMetadata(tokenId: number): Promise<CardData | null> {
     }
 }
 
+// Explicit gas limits — batchMint of 5 ERC721Enumerable NFTs + fund distribution uses ~3.1M gas,
+// more than wallets reliably estimate; multi-pack scales with pack count
+const PACK_GAS_LIMIT = 10_000_000n;
+const GAS_PER_PACK = 4_000_000n;
+
+function multiPackGasLimit(count: number): bigint {
+    return GAS_PER_PACK * BigInt(count) + 1_000_000n;
+}
+
+// Referrer from localStorage or the ?ref= URL param — never the buyer themself
+function resolveReferrer(buyer: string): string {
+    let referrer = localStorage.getItem('fantasyyc_referrer');
+    if (!referrer) {
+        const params = new URLSearchParams(window.location.search);
+        const ref = params.get('ref');
+        if (ref && ref.startsWith('0x') && ref.length === 42) {
+            referrer = ref.toLowerCase();
+        }
+    }
+    if (referrer && referrer.toLowerCase() === buyer.toLowerCase()) {
+        referrer = null;
+    }
+    return referrer || ethers.ZeroAddress;
+}
+
 export function usePacks() {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -100,6 +128,21 @@ export function usePacks() {
         }, CacheTTL.SHORT);
     }, []);
 
+    // Pre-flight for buying `count` packs (1 → buyAndOpenPack) at the current price
+    const simulatePackPurchase = useCallback(async (count: number, address: string): Promise<PreflightResult> => {
+        const contract = getPackOpenerContract();
+        let price: bigint;
+        try {
+            price = await contract.currentPackPrice();
+        } catch (e) {
+            return { ok: false, error: describeError(e, 'Could not read the pack price') };
+        }
+        const referrer = resolveReferrer(address);
+        return count > 1
+            ? simulate(contract.buyAndOpenMultiplePacks, [referrer, count], { from: address, value: price * BigInt(count), gasLimit: multiPackGasLimit(count) }, 'Failed to buy packs')
+            : simulate(contract.buyAndOpenPack, [referrer], { from: address, value: price, gasLimit: PACK_GAS_LIMIT }, 'Failed to buy pack');
+    }, []);
+
     // Buy AND Open pack in one transaction - returns 5 cards with metadata
     const buyAndOpenPack = useCallback(async (
         signer: ethers.Signer
@@ -112,32 +155,17 @@ export function usePacks() {
             const nftContract = getNFTContract(signer);
             const signerAddress = await signer.getAddress();
 
-            // Get referrer from localStorage or URL params
-            let referrer = localStorage.getItem('fantasyyc_referrer');
-            if (!referrer) {
-                const params = new URLSearchParams(window.location.search);
-                const ref = params.get('ref');
-                if (ref && ref.startsWith('0x') && ref.length === 42) {
-                    referrer = ref.toLowerCase();
-                }
-            }
-            // Don't refer yourself
-            if (referrer && referrer.toLowerCase() === signerAddress.toLowerCase()) {
-                referrer = null;
-            }
-
-            const referrerAddress = referrer || ethers.ZeroAddress;
+            const referrerAddress = resolveReferrer(signerAddress);
             const price = await packContract.currentPackPrice();
-
+            assertPreflight(await simulatePackPurchase(1, signerAddress));
 
             // Single transaction: buy, set referrer, and open pack
-            // Explicit gas limit — batchMint of 5 ERC721Enumerable NFTs + fund distribution uses ~3.1M gas
             const tx = await packContract.buyAndOpenPack(referrerAddress, {
                 value: BigInt(price.toString()),
-                gasLimit: 10_000_000n
+                gasLimit: PACK_GAS_LIMIT
             });
 
-            const receipt = await tx.wait();
+            const receipt = await txManager.track(tx, 'Buy pack');
 
             // Parse CardMinted events to get token IDs
             const tokenIds: number[] = [];
@@ -150,13 +178,6 @@ export function usePacks() {
                 } catch { }
             }
 
-
-            // Invalidate cache after purchase
-            blockchainCache.invalidate(CacheKeys.packsSold());
-            blockchainCache.invalidatePrefix(`nft:owned:${signerAddress}`);
-            blockchainCache.invalidatePrefix(`nft:cards:${signerAddress}`);
-            blockchainCache.invalidatePrefix(`pack:user:${signerAddress}`);
-
             // Fetch metadata for each card from the API
             const cards: CardData[] = [];
             for (const tokenId of tokenIds) {
@@ -170,13 +191,13 @@ export function usePacks() {
 
             return { success: true, cards };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to buy pack';
+            const msg = describeError(e, 'Failed to buy pack');
             setError(msg);
             return { success: false, error: msg };
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [simulatePackPurchase]);
 
     // Buy AND Open multiple packs (up to 10) in one transaction
     const buyAndOpenMultiplePacks = useCallback(async (
@@ -191,32 +212,17 @@ export function usePacks() {
             const nftContract = getNFTContract(signer);
             const signerAddress = await signer.getAddress();
 
-            // Get referrer
-            let referrer = localStorage.getItem('fantasyyc_referrer');
-            if (!referrer) {
-                const params = new URLSearchParams(window.location.search);
-                const ref = params.get('ref');
-                if (ref && ref.startsWith('0x') && ref.length === 42) {
-                    referrer = ref.toLowerCase();
-                }
-            }
-            if (referrer && referrer.toLowerCase() === signerAddress.toLowerCase()) {
-                referrer = null;
-            }
-
-            const referrerAddress = referrer || ethers.ZeroAddress;
+            const referrerAddress = resolveReferrer(signerAddress);
             const price = await packContract.currentPackPrice();
             const totalPrice = BigInt(price.toString()) * BigInt(count);
+            assertPreflight(await simulatePackPurchase(count, signerAddress));
 
-
-            // Explicit gas limit — scales with pack count (each pack mints 5 NFTs)
-            const gasPerPack = 4_000_000n;
             const tx = await packContract.buyAndOpenMultiplePacks(referrerAddress, count, {
                 value: totalPrice,
-                gasLimit: gasPerPack * BigInt(count) + 1_000_000n
+                gasLimit: multiPackGasLimit(count)
             });
 
-            const receipt = await tx.wait();
+            const receipt = await txManager.track(tx, `Buy ${count} packs`);
 
             // Parse CardMinted events to get all token IDs
             const tokenIds: number[] = [];
@@ -229,13 +235,6 @@ export function usePacks() {
                 } catch { }
             }
 
-
-            // Invalidate cache
-            blockchainCache.invalidate(CacheKeys.packsSold());
-            blockchainCache.invalidatePrefix(`nft:owned:${signerAddress}`);
-            blockchainCache.invalidatePrefix(`nft:cards:${signerAddress}`);
-            blockchainCache.invalidatePrefix(`pack:user:${signerAddress}`);
-
             // Fetch metadata for all cards
             const cards: CardData[] = [];
             for (const tokenId of tokenIds) {
@@ -248,13 +247,13 @@ export function usePacks() {
 
             return { success: true, cards };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to buy packs';
+            const msg = describeError(e, 'Failed to buy packs');
             setError(msg);
             return { success: false, error: msg };
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [simulatePackPurchase]);
 
     // Get user's unopened packs count
     const getUnopenedPackCount = useCallback(async (address: string): Promise<number> => {
@@ -282,6 +281,7 @@ export function usePacks() {
         error,
         getPackPrice,
         getPacksSold,
+        simulatePackPurchase,
         buyAndOpenPack,
         buyAndOpenMultiplePacks,
         getUnopenedPackCount,
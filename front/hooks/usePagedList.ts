@@ -0,0 +1,24 @@
+// Page-at-a-time rendering for long grids — only the current page is mounted, so the DOM stays the
+// same size however many items match. `resetKey` changes (new filters, tab) go back to page one
+
+import { useEffect, useState } from 'react';
+
+export function usePagedList<T>(items: T[], pageSize: number, resetKey: string) {
+    const [page, setPage] = useState(0);
+
+    useEffect(() => {
+        setPage(0);
+    }, [resetKey]);
+
+    const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+    const current = Math.min(page, pageCount - 1);      // A refresh can shrink the list under a later page
+    const start = current * pageSize;
+
+    return {
+        visible: items.slice(start, start + pageSize),
+        start,
+        page: current,
+        pageCount,
+        setPage,
+    };
+}
@@ -0,0 +1,71 @@
+// Public data of any wallet — profile, referral stats and tournament history, no signer needed
+
+import { useCallback, useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { usePollingData } from './usePollingData';
+import { CacheKeys, POLLING_INTERVALS } from '../lib/cache';
+import { getPackOpenerContract } from '../lib/contracts';
+import { getTournamentHistory, type TournamentEntry } from '../lib/tournamentHistory';
+
+const API_BASE = '/api';
+
+export interface PlayerInfo {
+    username: string | null;
+    avatar: string | null;
+    referralCount: number;
+    referralEarned: bigint;
+    referrer: string | null;
+}
+
+export function usePlayerProfile(address: string) {
+    const [info, setInfo] = useState<PlayerInfo | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setInfo(null);
+
+        (async () => {
+            let username: string | null = null;
+            let avatar: string | null = null;
+            try {
+                const res = await fetch(`${API_BASE}/users/${address}`);
+                const data = await res.json();
+                if (data.success) {
+                    username = data.data.username || null;
+                    avatar = data.data.avatar || null;
+                }
+            } catch {
+                // No profile registered
+            }
+
+            let referralCount = 0;
+            let referralEarned = 0n;
+            let referrer: string | null = null;
+            try {
+                const packOpener = getPackOpenerContract();
+                const [[count, earned], ref] = await Promise.all([
+                    packOpener.getReferralStats(address),
+                    packOpener.getReferrer(address),
+                ]);
+                referralCount = Number(count);
+                referralEarned = earned;
+                referrer = ref !== ethers.ZeroAddress ? ref.toLowerCase() : null;
+            } catch {
+                // Stats stay at zero
+            }
+
+            if (!cancelled) setInfo({ username, avatar, referralCount, referralEarned, referrer });
+        })();
+
+        return () => { cancelled = true; };
+    }, [address]);
+
+    const fetcher = useCallback(() => getTournamentHistory(address), [address]);
+    const { data: tournaments, isLoading: tournamentsLoading, error: tournamentsError } = usePollingData<TournamentEntry[]>(fetcher, {
+        cacheKey: CacheKeys.tournamentHistory(address),
+        interval: POLLING_INTERVALS.RARE,
+        enabled: !!address,
+    });
+
+    return { info, tournaments, tournamentsLoading, tournamentsError };
+}
@@ -1,20 +1,29 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { CardData } from '../types';
 import { useMarketplaceV2, Listing } from './useMarketplaceV2';
 import { useNFT } from './useNFT';
 import { useTournament } from './useTournament';
+import { useFairValues } from './useFairValue';
 import { formatXTZ } from '../lib/contracts';
+import { blockchainCache, CacheKeys, CacheTTL } from '../lib/cache';
+import { buildCostLedger, type CostLedger, type CostSource } from '../lib/costBasis';
+import type { FairValue } from '../lib/fairValue';
 
 const API_BASE_URL = '/api';
 
 // Per-card analytics data
 export interface CardAnalytics {
     tokenId: number;
+    startupId: number;
     name: string;
     floorPrice: bigint | null; // null = no listings for this startup
+    fairValue: FairValue | null; // null = no price evidence for this startup yet
     totalPoints: number;
     todayPoints: number;
     multiplier: number;
+    costBasis: bigint;
+    costSource: CostSource;
+    unrealizedPnl: bigint | null; // floor - cost basis; null = no floor to value it at
 }
 
 // Overall portfolio summary
@@ -26,8 +35,46 @@ export interface PortfolioSummary {
     totalScore: number;
     todayPoints: number;
     bestPerformer: string | null; // startup name with highest totalPoints
+    costBasis: bigint;            // what the held cards cost (wei)
+    unrealizedPnl: bigint;        // over cards with a floor price only
+    pricedCards: number;
+    realizedPnl: bigint;          // net sale proceeds - cost basis of cards sold
+    cardsSold: number;
+    prizes: bigint;               // tournament prizes claimed
+    netPnl: bigint;               // realized + unrealized + prizes
+    totalInvested: bigint;        // packs bought + marketplace buys
+    packsUnopened: number;        // bought, not opened yet — their cost isn't in any card
+    fairValue: PortfolioFairValue | null; // null until estimates load or when no card has one
 }
 
+// Sum of the cards' fair-value estimates and their bands
+export interface PortfolioFairValue {
+    value: bigint;
+    low: bigint;
+    high: bigint;
+    cards: number;                // cards with an estimate
+}
+
+const EMPTY_SUMMARY: PortfolioSummary = {
+    portfolioValue: 0n,
+    totalCards: 0,
+    totalMultiplier: 0,
+    rank: null,
+    totalScore: 0,
+    todayPoints: 0,
+    bestPerformer: null,
+    costBasis: 0n,
+    unrealizedPnl: 0n,
+    pricedCards: 0,
+    realizedPnl: 0n,
+    cardsSold: 0,
+    prizes: 0n,
+    netPnl: 0n,
+    totalInvested: 0n,
+    packsUnopened: 0,
+    fairValue: null,
+};
+
 interface StartupScores {
     [startupName: string]: {
         totalPoints: number;
@@ -37,16 +84,8 @@ interface StartupScores {
 }
 
 export function usePortfolioAnalytics(cards: CardData[], address: string | undefined) {
-    const [cardAnalytics, setCardAnalytics] = useState<CardAnalytics[]>([]);
-    const [summary, setSummary] = useState<PortfolioSummary>({
-        portfolioValue: 0n,
-        totalCards: 0,
-        totalMultiplier: 0,
-        rank: null,
-        totalScore: 0,
-        todayPoints: 0,
-        bestPerformer: null,
-    });
+    const [baseAnalytics, setCardAnalytics] = useState<CardAnalytics[]>([]);
+    const [baseSummary, setSummary] = useState<PortfolioSummary>(EMPTY_SUMMARY);
     const [loading, setLoading] = useState(false);
 
     const { getActiveListings } = useMarketplaceV2();
@@ -56,15 +95,7 @@ export function usePortfolioAnalytics(cards: CardData[], address: string | undef
     const computeAnalytics = useCallback(async () => {
         if (!cards.length || !address) {
             setCardAnalytics([]);
-            setSummary({
-                portfolioValue: 0n,
-                totalCards: 0,
-                totalMultiplier: 0,
-                rank: null,
-                totalScore: 0,
-                todayPoints: 0,
-                bestPerformer: null,
-            });
+            setSummary(EMPTY_SUMMARY);
             return;
         }
 
@@ -99,7 +130,17 @@ export function usePortfolioAnalytics(cards: CardData[], address: string | undef
             } catch (e) {
             }
 
-            // 3. Fetch tournament scoring data
+            // 3. Cost basis of every card + sales and prizes — dropped by chainEvents on collection changes
+            let ledger: CostLedger | null = null;
+            try {
+                ledger = await blockchainCache.getOrFetch(
+                    CacheKeys.costLedger(address),
+                    () => buildCostLedger(address, cards.map(c => c.tokenId)),
+                    CacheTTL.LONG
+                );
+            } catch { }
+
+            // 4. Fetch tournament scoring data
             let startupScores: StartupScores = {};
             let playerRank: number | null = null;
             let playerTotalScore = 0;
@@ -125,30 +166,45 @@ export function usePortfolioAnalytics(cards: CardData[], address: string | undef
                 } catch { }
             }
 
-            // 4. Build per-card analytics
+            // 5. Build per-card analytics
             // card-scores API already returns multiplied points
             // (breakdown stores baseScore × multiplier), so do NOT multiply again
             const analytics: CardAnalytics[] = cards.map(card => {
                 const floor = floorPrices.get(card.name) ?? null;
                 const scores = startupScores[card.name];
+                const cost = ledger?.basisByToken[card.tokenId];
+                const costBasis = cost?.basis ?? 0n;
                 return {
                     tokenId: card.tokenId,
+                    startupId: card.startupId,
                     name: card.name,
                     floorPrice: floor,
+                    fairValue: null,
                     totalPoints: scores ? scores.totalPoints : 0,
                     todayPoints: scores ? scores.todayPoints : 0,
                     multiplier: card.multiplier,
+                    costBasis,
+                    costSource: cost?.source ?? 'unknown',
+                    unrealizedPnl: floor !== null ? floor - costBasis : null,
                 };
             });
 
-            // 5. Build summary
+            // 6. Build summary
             let portfolioValue = 0n;
+            let costBasis = 0n;
+            let unrealizedPnl = 0n;
+            let pricedCards = 0;
             let todayPts = 0;
             let bestName: string | null = null;
             let bestPts = 0;
 
             for (const a of analytics) {
                 if (a.floorPrice) portfolioValue += a.floorPrice;
+                costBasis += a.costBasis;
+                if (a.unrealizedPnl !== null) {
+                    unrealizedPnl += a.unrealizedPnl;
+                    pricedCards++;
+                }
                 todayPts += a.todayPoints;
                 if (a.totalPoints > bestPts) {
                     bestPts = a.totalPoints;
@@ -156,6 +212,8 @@ export function usePortfolioAnalytics(cards: CardData[], address: string | undef
                 }
             }
 
+            const realizedPnl = ledger?.realized.reduce((sum, r) => sum + r.proceeds - r.basis, 0n) ?? 0n;
+
             setCardAnalytics(analytics);
             setSummary({
                 portfolioValue,
@@ -165,6 +223,16 @@ export function usePortfolioAnalytics(cards: CardData[], address: string | undef
                 totalScore: playerTotalScore,
                 todayPoints: todayPts,
                 bestPerformer: bestName,
+                costBasis,
+                unrealizedPnl,
+                pricedCards,
+                realizedPnl,
+                cardsSold: ledger?.realized.length ?? 0,
+                prizes: ledger?.prizes ?? 0n,
+                netPnl: realizedPnl + unrealizedPnl + (ledger?.prizes ?? 0n),
+                totalInvested: ledger ? ledger.packSpend + ledger.marketSpend : 0n,
+                packsUnopened: ledger?.packsUnopened ?? 0,
+                fairValue: null,
             });
         } catch (e) {
         } finally {
@@ -172,6 +240,28 @@ export function usePortfolioAnalytics(cards: CardData[], address: string | undef
         }
     }, [cards, address, getActiveListings, getCardInfo, getActiveTournamentId]);
 
+    // Fair values poll on their own schedule, so they're layered on top instead of recomputing everything
+    const { estimates, loaded: fairValuesLoaded } = useFairValues(cards.length > 0 && !!address);
+
+    const cardAnalytics = useMemo(
+        () => baseAnalytics.map(a => ({ ...a, fairValue: estimates[a.startupId] ?? null })),
+        [baseAnalytics, estimates]
+    );
+
+    const summary = useMemo<PortfolioSummary>(() => {
+        if (!fairValuesLoaded) return baseSummary;
+        let fairValue: PortfolioFairValue | null = null;
+        for (const { fairValue: fv } of cardAnalytics) {
+            if (!fv) continue;
+            fairValue ??= { value: 0n, low: 0n, high: 0n, cards: 0 };
+            fairValue.value += fv.value;
+            fairValue.low += fv.low;
+            fairValue.high += fv.high;
+            fairValue.cards++;
+        }
+        return { ...baseSummary, fairValue };
+    }, [baseSummary, cardAnalytics, fairValuesLoaded]);
+
     // Recompute when cards or address changes
     useEffect(() => {
         computeAnalytics();
@@ -0,0 +1,40 @@
+// Hook that re-runs a pre-flight simulation whenever its inputs change (debounced for typed amounts)
+
+import { useState, useEffect, type DependencyList } from 'react';
+import type { PreflightResult } from '../lib/preflight';
+import { useOnline } from './useOnline';
+
+const DEBOUNCE = 400;
+
+export function usePreflight(
+    run: (() => Promise<PreflightResult>) | null,
+    deps: DependencyList
+): { result: PreflightResult | null; isChecking: boolean } {
+    const [result, setResult] = useState<PreflightResult | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    // Going offline (or back) changes the answer without any input changing
+    const online = useOnline();
+
+    useEffect(() => {
+        setResult(null);
+        if (!run) {
+            setIsChecking(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsChecking(true);
+        const timer = setTimeout(() => {
+            run()
+                .then(r => { if (!cancelled) setResult(r); })
+                .finally(() => { if (!cancelled) setIsChecking(false); });
+        }, DEBOUNCE);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [...deps, online]);
+
+    return { result, isChecking };
+}
@@ -0,0 +1,40 @@
+// Market price history — one shared, incrementally extended trade list, filtered and bucketed per chart
+
+import { useMemo } from 'react';
+import { usePollingData } from './usePollingData';
+import { blockchainCache, CacheKeys, POLLING_INTERVALS } from '../lib/cache';
+import {
+    getMarketTrades,
+    filterTrades,
+    buildCandles,
+    summarize,
+    type TradeHistory,
+    type TradeFilter,
+    type PriceRange,
+} from '../lib/priceHistory';
+
+// Extends the cached history (restored from IndexedDB on startup) instead of rescanning from deployment
+const fetchTrades = () => getMarketTrades(blockchainCache.get<TradeHistory>(CacheKeys.marketTrades()));
+
+/** Every market sale so far — one subscription shared by all charts and estimates */
+export function useMarketTrades(enabled = true) {
+    return usePollingData<TradeHistory>(fetchTrades, {
+        cacheKey: CacheKeys.marketTrades(),
+        interval: POLLING_INTERVALS.SLOW,
+        enabled,
+    });
+}
+
+export function usePriceHistory(filter: TradeFilter | null, range: PriceRange) {
+    const { data, isLoading, error } = useMarketTrades(filter !== null);
+
+    const filterKey = filter ? JSON.stringify(filter) : '';
+    const trades = useMemo(
+        () => (data && filter ? filterTrades(data.trades, filter) : []),
+        [data, filterKey]
+    );
+    const candles = useMemo(() => buildCandles(trades, range), [trades, range]);
+    const summary = useMemo(() => summarize(candles), [candles]);
+
+    return { candles, summary, trades, isLoading: isLoading && !data, error, loaded: data !== undefined };
+}
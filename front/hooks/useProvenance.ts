@@ -0,0 +1,23 @@
+// Provenance timeline of one card — rebuilt on Transfer / lineup events for the token
+
+import { useCallback } from 'react';
+import { usePollingData } from './usePollingData';
+import { CacheKeys, POLLING_INTERVALS } from '../lib/cache';
+import { getCardProvenance, type Provenance } from '../lib/provenance';
+
+export function useProvenance(tokenId: number | null | undefined) {
+    const fetcher = useCallback(() => getCardProvenance(tokenId!), [tokenId]);
+
+    const { data, isLoading, error, refresh } = usePollingData<Provenance>(fetcher, {
+        cacheKey: CacheKeys.cardProvenance(tokenId ?? -1),
+        interval: POLLING_INTERVALS.RARE,
+        enabled: tokenId !== null && tokenId !== undefined,
+    });
+
+    return {
+        provenance: data?.tokenId === tokenId ? data : undefined,
+        isLoading,
+        error,
+        refresh,
+    };
+}
@@ -0,0 +1,32 @@
+// Hook for the read RPC pool's health (status, active endpoint, latency)
+// Updates on pool events, plus a slow re-check so benched endpoints show up again once they cool down
+
+import { useState, useEffect } from 'react';
+import { getRpcPool } from '../lib/contracts';
+import type { RpcHealth } from '../lib/rpcPool';
+
+const RECHECK_INTERVAL = 5000;
+
+// Skip re-renders when nothing visible changed
+function sameHealth(a: RpcHealth, b: RpcHealth): boolean {
+    return a.status === b.status
+        && a.activeUrl === b.activeUrl
+        && Math.round((a.latency ?? -1) / 50) === Math.round((b.latency ?? -1) / 50);
+}
+
+export function useRpcHealth(): RpcHealth {
+    const [health, setHealth] = useState<RpcHealth>(() => getRpcPool().getHealth());
+
+    useEffect(() => {
+        const pool = getRpcPool();
+        const update = (next: RpcHealth) => setHealth(prev => sameHealth(prev, next) ? prev : next);
+        const unsubscribe = pool.subscribe(update);
+        const interval = setInterval(() => update(pool.getHealth()), RECHECK_INTERVAL);
+        return () => {
+            unsubscribe();
+            clearInterval(interval);
+        };
+    }, []);
+
+    return health;
+}
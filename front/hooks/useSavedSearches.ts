@@ -0,0 +1,19 @@
+// Hooks for the saved-search rules of the connected wallet and the alerts they raise
+
+import { useSyncExternalStore } from 'react';
+import { savedSearches, type SavedSearch } from '../lib/savedSearches';
+import { alertCenter, type MarketAlert } from '../lib/alerts';
+
+export function useSavedSearches(): SavedSearch[] {
+    return useSyncExternalStore(
+        listener => savedSearches.subscribe(listener),
+        () => savedSearches.getSearches()
+    );
+}
+
+export function useMarketAlerts(): MarketAlert[] {
+    return useSyncExternalStore(
+        listener => alertCenter.subscribe(listener),
+        () => alertCenter.getAlerts()
+    );
+}
@@ -0,0 +1,158 @@
+// Watches the marketplace streams for the connected wallet's saved searches — mounted once by the app shell
+//
+// - New listings: any listing id missing from the baseline, a direct contract read taken when the
+//   watch starts (retried until it succeeds), so only cards listed from then on alert. Polled
+//   batches fetched before the baseline are skipped — the polling cache can hand back a snapshot
+//   restored from IndexedDB, and a failed fetch comes back as an empty list
+// - Auctions: alert once when an auction matching any rule enters its last ENDING_SOON seconds,
+//   judged on batches fetched since the watch started
+// - A listing matching several rules alerts once; more than GROUP_ABOVE new matches for one rule
+//   collapse into a single summary alert
+
+import { useEffect, useRef, useState } from 'react';
+import { useActiveListings, useActiveAuctions, LISTINGS_KEY, AUCTIONS_KEY, type ListingWithMeta } from './useMarketListings';
+import { useSavedSearches } from './useSavedSearches';
+import { savedSearches, matchesSearch, type SavedSearch } from '../lib/savedSearches';
+import { alertCenter } from '../lib/alerts';
+import { filterQuery } from '../lib/marketFilters';
+import { blockchainCache } from '../lib/cache';
+import { formatXTZ, getMarketplaceV2Contract } from '../lib/contracts';
+import { decodeListing } from '../lib/abi/MarketplaceV2';
+import { RoutePaths } from '../lib/router';
+import { NavSection } from '../types';
+
+const ENDING_SOON = 15 * 60;        // Seconds left when an auction counts as ending soon
+const AUCTION_TICK = 30000;         // Re-check countdowns between polls
+const GROUP_ABOVE = 3;
+const BASELINE_RETRY = 30000;
+const CLOCK_SLACK = 10 * 60;        // Seconds a new listing's listedAt may trail the local clock
+
+function announceListings(search: SavedSearch, matches: ListingWithMeta[]) {
+    if (matches.length > GROUP_ABOVE) {
+        const cheapest = matches.reduce((min, l) => (l.price < min.price ? l : min));
+        const query = new URLSearchParams({ tab: 'listings', sort: 'price_asc' });
+        if (search.rarity && search.startupId === null) query.set('rarity', search.rarity);
+        const filters = filterQuery({ startupId: search.startupId, priceMax: search.maxPrice, minMultiplier: search.minMultiplier });
+        Object.entries(filters).forEach(([key, value]) => { if (value !== null) query.set(key, value); });
+        alertCenter.push({
+            title: `${matches.length} new listings match “${search.name}”`,
+            body: `From ${formatXTZ(cheapest.price)} XTZ`,
+            href: `${RoutePaths.section(NavSection.MARKETPLACE)}?${query}`,
+        });
+        return;
+    }
+    for (const listing of matches) {
+        alertCenter.push({
+            title: `New listing: ${listing.cardName}`,
+            body: `${listing.priceFormatted} XTZ · ${listing.rarity} ${listing.multiplier}x — matches “${search.name}”`,
+            href: RoutePaths.listing(listing.listingId),
+            image: listing.cardImage,
+        });
+    }
+}
+
+export function useSearchAlerts(address: string | null) {
+    useEffect(() => {
+        savedSearches.setWallet(address);
+    }, [address]);
+
+    const searches = useSavedSearches();
+    const watchListings = !!address && searches.some(s => s.listings);
+    const watchAuctions = !!address && searches.some(s => s.auctions);
+
+    const { data: listings } = useActiveListings(watchListings);
+    const { data: auctions } = useActiveAuctions(watchAuctions);
+
+    const seenListings = useRef<Set<string> | null>(null);     // null until the baseline read succeeds
+    const baselineAt = useRef(0);
+    const auctionsWatchedAt = useRef(0);
+    const alertedAuctions = useRef(new Set<string>());
+    const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+    // A new wallet starts over
+    useEffect(() => {
+        alertedAuctions.current.clear();
+    }, [address]);
+
+    // Baseline — every listing active when the watch starts, read from the contract and kept here
+    // rather than in the shared cache, which holds the enriched list the Marketplace renders
+    useEffect(() => {
+        if (!watchListings || !address) return;
+        let cancelled = false;
+        let retry: ReturnType<typeof setTimeout> | undefined;
+
+        const takeBaseline = async () => {
+            try {
+                const active = (await getMarketplaceV2Contract().getActiveListings()).map(decodeListing);
+                if (cancelled) return;
+                baselineAt.current = Date.now();
+                seenListings.current = new Set(active.map(l => String(l.listingId)));
+            } catch {
+                if (!cancelled) retry = setTimeout(takeBaseline, BASELINE_RETRY);
+            }
+        };
+        takeBaseline();
+
+        return () => {
+            cancelled = true;
+            clearTimeout(retry);
+            seenListings.current = null;
+        };
+    }, [watchListings, address]);
+
+    useEffect(() => {
+        if (watchAuctions) auctionsWatchedAt.current = Date.now();
+    }, [watchAuctions, address]);
+
+    // New listings
+    useEffect(() => {
+        if (!watchListings || !listings || !address || seenListings.current === null) return;
+        if ((blockchainCache.fetchedAt(LISTINGS_KEY) ?? 0) < baselineAt.current) return;
+
+        const seen = seenListings.current;
+        const fresh = listings.filter(l => !seen.has(String(l.listingId)));
+        fresh.forEach(l => seen.add(String(l.listingId)));
+
+        const me = address.toLowerCase();
+        const listedSince = Math.floor(baselineAt.current / 1000) - CLOCK_SLACK;
+        const bySearch = new Map<SavedSearch, ListingWithMeta[]>();
+        for (const listing of fresh) {
+            // Older than the baseline — a batch built from a cached list that predates it
+            if (listing.seller.toLowerCase() === me || Number(listing.listedAt) < listedSince) continue;
+            const search = searches.find(s => s.listings && matchesSearch(s, listing));
+            if (search) bySearch.set(search, [...(bySearch.get(search) ?? []), listing]);
+        }
+        bySearch.forEach((matches, search) => announceListings(search, matches));
+    }, [listings, searches, watchListings, address]);
+
+    // Auction countdowns move between polls
+    useEffect(() => {
+        if (!watchAuctions) return;
+        const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), AUCTION_TICK);
+        return () => clearInterval(timer);
+    }, [watchAuctions]);
+
+    // Auctions ending soon
+    useEffect(() => {
+        if (!watchAuctions || !auctions || !address) return;
+        if ((blockchainCache.fetchedAt(AUCTIONS_KEY) ?? 0) < auctionsWatchedAt.current) return;
+        const me = address.toLowerCase();
+        for (const auction of auctions) {
+            const id = String(auction.auctionId);
+            const left = Number(auction.endTime) - now;
+            if (left <= 0 || left > ENDING_SOON || auction.seller.toLowerCase() === me || alertedAuctions.current.has(id)) continue;
+
+            const price = auction.highestBid > 0n ? auction.highestBid : auction.startPrice;
+            const search = searches.find(s => s.auctions && matchesSearch(s, { ...auction, price }));
+            if (!search) continue;
+
+            alertedAuctions.current.add(id);
+            alertCenter.push({
+                title: `Auction ending soon: ${auction.cardName}`,
+                body: `${Math.ceil(left / 60)} min left at ${formatXTZ(price)} XTZ — matches “${search.name}”`,
+                href: RoutePaths.auction(auction.auctionId),
+                image: auction.cardImage,
+            });
+        }
+    }, [auctions, searches, watchAuctions, address, now]);
+}
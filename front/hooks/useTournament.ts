@@ -3,6 +3,10 @@ import { useState, useCallback } from 'react';
 import { ethers } from 'ethers';
 import { getTournamentContract, getPackOpenerContract } from '../lib/contracts';
 import { blockchainCache, CacheKeys, CacheTTL } from '../lib/cache';
+import { txManager } from '../lib/txManager';
+import { describeError } from '../lib/errors';
+import { simulate, assertPreflight, type PreflightResult } from '../lib/preflight';
+import { decodeTournament, type TournamentOutput, type GetUserLineupResult } from '../lib/abi/TournamentManager';
 
 export interface Tournament {
     id: number;
@@ -29,6 +33,30 @@ const STATUS_MAP: Record<number, Tournament['status']> = {
     3: 'Cancelled',
 };
 
+// Contract struct -> UI shape (timestamps and counts comfortably fit in a number)
+function toTournament(raw: TournamentOutput): Tournament {
+    const t = decodeTournament(raw);
+    return {
+        id: Number(t.id),
+        registrationStart: Number(t.registrationStart),
+        startTime: Number(t.startTime),
+        endTime: Number(t.endTime),
+        prizePool: t.prizePool,
+        entryCount: Number(t.entryCount),
+        status: STATUS_MAP[t.status] || 'Created',
+    };
+}
+
+function toLineup(l: GetUserLineupResult): Lineup {
+    return {
+        cardIds: Array.from(l.cardIds, Number),
+        owner: l.lineupOwner,
+        timestamp: Number(l.timestamp),
+        cancelled: l.cancelled,
+        claimed: l.claimed,
+    };
+}
+
 export function useTournament() {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -63,16 +91,7 @@ export function useTournament() {
             if (blockchainCache.isStale(key, CacheTTL.DEFAULT)) {
                 blockchainCache.fetchInBackground(key, async () => {
                     const contract = getTournamentContract();
-                    const t = await contract.getTournament(tournamentId);
-                    return {
-                        id: Number(t.id),
-                        registrationStart: Number(t.registrationStart),
-                        startTime: Number(t.startTime),
-                        endTime: Number(t.endTime),
-                        prizePool: t.prizePool,
-                        entryCount: Number(t.entryCount),
-                        status: STATUS_MAP[Number(t.status)] || 'Created',
-                    };
+                    return toTournament(await contract.getTournament(tournamentId));
                 });
             }
             return cached;
@@ -80,29 +99,20 @@ export function useTournament() {
 
         return blockchainCache.getOrFetch(key, async () => {
             const contract = getTournamentContract();
-            const t = await contract.getTournament(tournamentId);
-            return {
-                id: Number(t.id),
-                registrationStart: Number(t.registrationStart),
-                startTime: Number(t.startTime),
-                endTime: Number(t.endTime),
-                prizePool: t.prizePool,
-                entryCount: Number(t.entryCount),
-                status: STATUS_MAP[Number(t.status)] || 'Created',
-            };
+            return toTournament(await contract.getTournament(tournamentId));
         }, CacheTTL.DEFAULT);
     }, []);
 
-    // Check if can register - cache with short TTL
-    const canRegister = useCallback(async (tournamentId: number): Promise<boolean> => {
-        const key = CacheKeys.canRegister(tournamentId);
+    // Check if user can register - cache with short TTL
+    const canRegister = useCallback(async (tournamentId: number, address: string): Promise<boolean> => {
+        const key = CacheKeys.canRegister(tournamentId, address);
 
         const cached = blockchainCache.get<boolean>(key);
         if (cached !== undefined) {
             if (blockchainCache.isStale(key, CacheTTL.SHORT)) {
                 blockchainCache.fetchInBackground(key, async () => {
                     const contract = getTournamentContract();
-                    return await contract.canRegister(tournamentId);
+                    return await contract.canRegister(tournamentId, address);
                 });
             }
             return cached;
@@ -110,7 +120,7 @@ export function useTournament() {
 
         return blockchainCache.getOrFetch(key, async () => {
             const contract = getTournamentContract();
-            return await contract.canRegister(tournamentId);
+            return await contract.canRegister(tournamentId, address);
         }, CacheTTL.SHORT);
     }, []);
 
@@ -144,14 +154,7 @@ export function useTournament() {
             if (blockchainCache.isStale(key, CacheTTL.DEFAULT)) {
                 blockchainCache.fetchInBackground(key, async () => {
                     const contract = getTournamentContract();
-                    const lineup = await contract.getUserLineup(tournamentId, address);
-                    return {
-                        cardIds: lineup.cardIds.map((id: bigint) => Number(id)),
-                        owner: lineup.owner,
-                        timestamp: Number(lineup.timestamp),
-                        cancelled: lineup.cancelled,
-                        claimed: lineup.claimed,
-                    };
+                    return toLineup(await contract.getUserLineup(tournamentId, address));
                 });
             }
             return cached;
@@ -159,17 +162,19 @@ export function useTournament() {
 
         return blockchainCache.getOrFetch(key, async () => {
             const contract = getTournamentContract();
-            const lineup = await contract.getUserLineup(tournamentId, address);
-            return {
-                cardIds: lineup.cardIds.map((id: bigint) => Number(id)),
-                owner: lineup.owner,
-                timestamp: Number(lineup.timestamp),
-                cancelled: lineup.cancelled,
-                claimed: lineup.claimed,
-            };
+            return toLineup(await contract.getUserLineup(tournamentId, address));
         }, CacheTTL.DEFAULT);
     }, []);
 
+    // Pre-flight for a lineup: catches locked/unowned cards and closed registration before signing
+    const simulateEnterTournament = useCallback(async (
+        tournamentId: number,
+        cardIds: [number, number, number, number, number],
+        address: string
+    ): Promise<PreflightResult> => {
+        return simulate(getTournamentContract().enterTournament, [tournamentId, cardIds], { from: address }, 'Failed to enter tournament');
+    }, []);
+
     // Enter tournament with 5 cards
     const enterTournament = useCallback(async (
         signer: ethers.Signer,
@@ -181,17 +186,18 @@ export function useTournament() {
 
         try {
             const contract = getTournamentContract(signer);
+            assertPreflight(await simulateEnterTournament(tournamentId, cardIds, await signer.getAddress()));
             const tx = await contract.enterTournament(tournamentId, cardIds);
-            await tx.wait();
+            await txManager.track(tx, `Enter tournament #${tournamentId}`);
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to enter tournament';
+            const msg = describeError(e, 'Failed to enter tournament');
             setError(msg);
             return { success: false, error: msg };
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [simulateEnterTournament]);
 
     // Cancel tournament entry
     const cancelEntry = useCallback(async (
@@ -204,10 +210,10 @@ export function useTournament() {
         try {
             const contract = getTournamentContract(signer);
             const tx = await contract.cancelEntry(tournamentId);
-            await tx.wait();
+            await txManager.track(tx, `Cancel entry in tournament #${tournamentId}`);
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to cancel entry';
+            const msg = describeError(e, 'Failed to cancel entry');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -251,10 +257,10 @@ export function useTournament() {
         try {
             const contract = getTournamentContract(signer);
             const tx = await contract.claimPrize(tournamentId);
-            await tx.wait();
+            await txManager.track(tx, `Claim prize from tournament #${tournamentId}`);
             return { success: true };
         } catch (e: any) {
-            const msg = e.reason || e.message || 'Failed to claim prize';
+            const msg = describeError(e, 'Failed to claim prize');
             setError(msg);
             return { success: false, error: msg };
         } finally {
@@ -270,6 +276,7 @@ export function useTournament() {
         canRegister,
         hasEntered,
         getUserLineup,
+        simulateEnterTournament,
         enterTournament,
         cancelEntry,
         getPhase,
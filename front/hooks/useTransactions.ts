@@ -0,0 +1,16 @@
+// Hook for the transaction manager's queue (pending + recently finished transactions)
+
+import { useState, useEffect } from 'react';
+import { txManager, type TrackedTx } from '../lib/txManager';
+
+export function useTransactions(): TrackedTx[] {
+    const [txs, setTxs] = useState<TrackedTx[]>(() => txManager.getTransactions());
+
+    useEffect(() => {
+        // Catch anything submitted between the first render and subscribing
+        setTxs(txManager.getTransactions());
+        return txManager.subscribe(setTxs);
+    }, []);
+
+    return txs;
+}
@@ -1,7 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useWalletContext } from '../context/WalletContext';
 import { generatePixelAvatar } from '../lib/pixelAvatar';
-import { createSignedAuth } from '../lib/auth';
 
 const API_BASE = '/api';
 const PROFILE_CACHE_KEY = 'fantasyyc_profile';
@@ -33,7 +32,7 @@ function clearProfileCache() {
 }
 
 export function useUser() {
-    const { address, isConnected, getSigner } = useWalletContext();
+    const { address, isConnected, authFetch } = useWalletContext();
     const [profile, setProfile] = useState<UserProfileData | null>(null);
     const [needsRegistration, setNeedsRegistration] = useState(false);
     const [loading, setLoading] = useState(false);
@@ -100,11 +99,6 @@ export function useUser() {
         try {
             setLoading(true);
 
-            // Sign message to prove wallet ownership
-            const signer = await getSigner();
-            if (!signer) return false;
-            const { message, signature } = await createSignedAuth(signer, address);
-
             // Check for stored referrer to send with registration
             let referrer = localStorage.getItem('fantasyyc_referrer');
             if (!referrer) {
@@ -115,7 +109,8 @@ export function useUser() {
                 }
             }
 
-            const res = await fetch(`${API_BASE}/users/register`, {
+            // Session token proves wallet ownership (signs in on first use)
+            const res = await authFetch(`${API_BASE}/users/register`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
@@ -123,8 +118,6 @@ export function useUser() {
                     username,
                     avatar: avatarDataUrl || null,
                     referrer: referrer || null,
-                    message,
-                    signature,
                 }),
             });
             const data = await res.json();
@@ -147,7 +140,7 @@ export function useUser() {
         } finally {
             setLoading(false);
         }
-    }, [address, getSigner]);
+    }, [address, authFetch]);
 
     // Update existing profile
     const updateProfile = useCallback(async (username: string, avatarDataUrl?: string) => {
@@ -156,20 +149,13 @@ export function useUser() {
         try {
             setLoading(true);
 
-            // Sign message to prove wallet ownership
-            const signer = await getSigner();
-            if (!signer) return false;
-            const { message, signature } = await createSignedAuth(signer, address);
-
-            const res = await fetch(`${API_BASE}/users/${address.toLowerCase()}`, {
+            const res = await authFetch(`${API_BASE}/users/${address.toLowerCase()}`, {
                 method: 'PUT',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     address: address.toLowerCase(),
                     username,
                     avatar: avatarDataUrl || null,
-                    message,
-                    signature,
                 }),
             });
             const data = await res.json();
@@ -190,7 +176,7 @@ export function useUser() {
         } finally {
             setLoading(false);
         }
-    }, [address, getSigner]);
+    }, [address, authFetch]);
 
     // Get generated pixel avatar for address
     const getPixelAvatar = useCallback((addr?: string) => {
@@ -4,14 +4,13 @@ import './lib/preload';
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { cacheRestored } from './lib/cache';
 
-// Unregister old service worker and clear its caches
-if ('serviceWorker' in navigator) {
-  navigator.serviceWorker.getRegistrations().then((registrations) => {
-    registrations.forEach((r) => r.unregister());
-  });
-  caches.keys().then((keys) => {
-    keys.forEach((key) => caches.delete(key));
+// Service worker is emitted by the production build only (see vite.config.ts)
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    // Without it the app still works, just not offline
+    navigator.serviceWorker.register('/sw.js').catch(() => { });
   });
 }
 
@@ -20,9 +19,12 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// First render waits for the IndexedDB cache so cards and listings show without a spinner
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+cacheRestored.then(() => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
\ No newline at end of file
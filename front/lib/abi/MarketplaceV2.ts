@@ -0,0 +1,362 @@
+// Generated by scripts/generate-abis.js from contracts/MarketplaceV2.sol - do not edit
+// Source hash: 6ac57d886b3e95e92753256fd6217ada72caf9ac27bd79f7652269acfab3295c
+import type {
+    AddressLike,
+    BaseContract,
+    BaseContractMethod,
+    BigNumberish,
+    BytesLike,
+    ContractTransactionResponse,
+} from 'ethers';
+
+// ============ ABI ============
+export const MARKETPLACE_V2_ABI = [
+    {"inputs":[{"internalType":"address","name":"target","type":"address"}],"name":"AddressEmptyCode","type":"error"},
+    {"inputs":[],"name":"AuctionEnded","type":"error"},
+    {"inputs":[],"name":"AuctionHasBids","type":"error"},
+    {"inputs":[],"name":"AuctionNotActive","type":"error"},
+    {"inputs":[],"name":"AuctionNotEnded","type":"error"},
+    {"inputs":[],"name":"BidExpired","type":"error"},
+    {"inputs":[],"name":"BidNotActive","type":"error"},
+    {"inputs":[],"name":"BidNotExpired","type":"error"},
+    {"inputs":[],"name":"BidTooLow","type":"error"},
+    {"inputs":[{"internalType":"address","name":"implementation","type":"address"}],"name":"ERC1967InvalidImplementation","type":"error"},
+    {"inputs":[],"name":"ERC1967NonPayable","type":"error"},
+    {"inputs":[],"name":"EnforcedPause","type":"error"},
+    {"inputs":[],"name":"ExpectedPause","type":"error"},
+    {"inputs":[],"name":"FailedCall","type":"error"},
+    {"inputs":[],"name":"InsufficientPayment","type":"error"},
+    {"inputs":[],"name":"InvalidDuration","type":"error"},
+    {"inputs":[],"name":"InvalidFee","type":"error"},
+    {"inputs":[],"name":"InvalidInitialization","type":"error"},
+    {"inputs":[],"name":"ListingNotActive","type":"error"},
+    {"inputs":[],"name":"NotAdmin","type":"error"},
+    {"inputs":[],"name":"NotAuctionSeller","type":"error"},
+    {"inputs":[],"name":"NotBidder","type":"error"},
+    {"inputs":[],"name":"NotInitializing","type":"error"},
+    {"inputs":[],"name":"NotListingSeller","type":"error"},
+    {"inputs":[],"name":"NotTokenOwner","type":"error"},
+    {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+    {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+    {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+    {"inputs":[],"name":"TokenAlreadyListed","type":"error"},
+    {"inputs":[],"name":"TokenInAuction","type":"error"},
+    {"inputs":[],"name":"TokenIsLocked","type":"error"},
+    {"inputs":[],"name":"TransferFailed","type":"error"},
+    {"inputs":[],"name":"UUPSUnauthorizedCallContext","type":"error"},
+    {"inputs":[{"internalType":"bytes32","name":"slot","type":"bytes32"}],"name":"UUPSUnsupportedProxiableUUID","type":"error"},
+    {"inputs":[],"name":"ZeroPrice","type":"error"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"auctionId","type":"uint256"},{"indexed":true,"internalType":"address","name":"bidder","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"AuctionBid","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"auctionId","type":"uint256"},{"indexed":true,"internalType":"address","name":"seller","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"AuctionCancelled","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"auctionId","type":"uint256"},{"indexed":true,"internalType":"address","name":"seller","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"startPrice","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"reservePrice","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"endTime","type":"uint256"}],"name":"AuctionCreated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"auctionId","type":"uint256"},{"indexed":true,"internalType":"address","name":"winner","type":"address"},{"indexed":false,"internalType":"uint256","name":"finalPrice","type":"uint256"}],"name":"AuctionFinalized","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"bidId","type":"uint256"},{"indexed":true,"internalType":"address","name":"seller","type":"address"},{"indexed":true,"internalType":"address","name":"bidder","type":"address"},{"indexed":false,"internalType":"uint256","name":"tokenId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"BidAccepted","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"bidId","type":"uint256"},{"indexed":true,"internalType":"address","name":"bidder","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"BidCancelled","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"bidId","type":"uint256"},{"indexed":true,"internalType":"address","name":"bidder","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"expiration","type":"uint256"}],"name":"BidPlaced","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"listingId","type":"uint256"},{"indexed":true,"internalType":"address","name":"seller","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"price","type":"uint256"}],"name":"CardListed","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"listingId","type":"uint256"},{"indexed":true,"internalType":"address","name":"seller","type":"address"},{"indexed":true,"internalType":"address","name":"buyer","type":"address"},{"indexed":false,"internalType":"uint256","name":"tokenId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"price","type":"uint256"}],"name":"CardSold","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"oldRecipient","type":"address"},{"indexed":false,"internalType":"address","name":"newRecipient","type":"address"}],"name":"FeeRecipientUpdated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint64","name":"version","type":"uint64"}],"name":"Initialized","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"listingId","type":"uint256"},{"indexed":true,"internalType":"address","name":"seller","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"ListingCancelled","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldFee","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newFee","type":"uint256"}],"name":"MarketplaceFeeUpdated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferStarted","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"implementation","type":"address"}],"name":"Upgraded","type":"event"},
+    {"inputs":[],"name":"SECOND_ADMIN","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"UPGRADE_INTERFACE_VERSION","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"bidId","type":"uint256"}],"name":"acceptBid","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"acceptOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"auctions","outputs":[{"internalType":"uint256","name":"auctionId","type":"uint256"},{"internalType":"address","name":"seller","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"startPrice","type":"uint256"},{"internalType":"uint256","name":"reservePrice","type":"uint256"},{"internalType":"uint256","name":"highestBid","type":"uint256"},{"internalType":"address","name":"highestBidder","type":"address"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"enum MarketplaceV2.AuctionStatus","name":"status","type":"uint8"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"auctionId","type":"uint256"}],"name":"bidOnAuction","outputs":[],"stateMutability":"payable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"bids","outputs":[{"internalType":"uint256","name":"bidId","type":"uint256"},{"internalType":"address","name":"bidder","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"expiration","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"listingId","type":"uint256"}],"name":"buyCard","outputs":[],"stateMutability":"payable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"auctionId","type":"uint256"}],"name":"cancelAuction","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"bidId","type":"uint256"}],"name":"cancelBid","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"listingId","type":"uint256"}],"name":"cancelListing","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"startPrice","type":"uint256"},{"internalType":"uint256","name":"reservePrice","type":"uint256"},{"internalType":"uint256","name":"duration","type":"uint256"}],"name":"createAuction","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"feeRecipient","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"auctionId","type":"uint256"}],"name":"finalizeAuction","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"getActiveAuctionCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"getActiveAuctions","outputs":[{"components":[{"internalType":"uint256","name":"auctionId","type":"uint256"},{"internalType":"address","name":"seller","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"startPrice","type":"uint256"},{"internalType":"uint256","name":"reservePrice","type":"uint256"},{"internalType":"uint256","name":"highestBid","type":"uint256"},{"internalType":"address","name":"highestBidder","type":"address"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"enum MarketplaceV2.AuctionStatus","name":"status","type":"uint8"}],"internalType":"struct MarketplaceV2.Auction[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"getActiveBidsForToken","outputs":[{"components":[{"internalType":"uint256","name":"bidId","type":"uint256"},{"internalType":"address","name":"bidder","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"expiration","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"}],"internalType":"struct MarketplaceV2.Bid[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"getActiveListingCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"getActiveListings","outputs":[{"components":[{"internalType":"uint256","name":"listingId","type":"uint256"},{"internalType":"address","name":"seller","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"price","type":"uint256"},{"internalType":"uint256","name":"listedAt","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"}],"internalType":"struct MarketplaceV2.Listing[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"auctionId","type":"uint256"}],"name":"getAuction","outputs":[{"components":[{"internalType":"uint256","name":"auctionId","type":"uint256"},{"internalType":"address","name":"seller","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"startPrice","type":"uint256"},{"internalType":"uint256","name":"reservePrice","type":"uint256"},{"internalType":"uint256","name":"highestBid","type":"uint256"},{"internalType":"address","name":"highestBidder","type":"address"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"enum MarketplaceV2.AuctionStatus","name":"status","type":"uint8"}],"internalType":"struct MarketplaceV2.Auction","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"getBidsOnToken","outputs":[{"components":[{"internalType":"uint256","name":"bidId","type":"uint256"},{"internalType":"address","name":"bidder","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"expiration","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"}],"internalType":"struct MarketplaceV2.Bid[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"getGlobalStats","outputs":[{"internalType":"uint256","name":"_totalVolume","type":"uint256"},{"internalType":"uint256","name":"_totalSales","type":"uint256"},{"internalType":"uint256","name":"_activeListings","type":"uint256"},{"internalType":"uint256","name":"_activeAuctions","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"listingId","type":"uint256"}],"name":"getListing","outputs":[{"components":[{"internalType":"uint256","name":"listingId","type":"uint256"},{"internalType":"address","name":"seller","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"price","type":"uint256"},{"internalType":"uint256","name":"listedAt","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"}],"internalType":"struct MarketplaceV2.Listing","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"seller","type":"address"}],"name":"getListingsBySeller","outputs":[{"components":[{"internalType":"uint256","name":"listingId","type":"uint256"},{"internalType":"address","name":"seller","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"price","type":"uint256"},{"internalType":"uint256","name":"listedAt","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"}],"internalType":"struct MarketplaceV2.Listing[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"getTokenSaleHistory","outputs":[{"components":[{"internalType":"uint256","name":"saleId","type":"uint256"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"address","name":"seller","type":"address"},{"internalType":"address","name":"buyer","type":"address"},{"internalType":"uint256","name":"price","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"enum MarketplaceV2.SaleType","name":"saleType","type":"uint8"}],"internalType":"struct MarketplaceV2.Sale[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"getTokenStats","outputs":[{"components":[{"internalType":"uint256","name":"lastSalePrice","type":"uint256"},{"internalType":"uint256","name":"totalVolume","type":"uint256"},{"internalType":"uint256","name":"salesCount","type":"uint256"},{"internalType":"uint256","name":"highestSale","type":"uint256"},{"internalType":"uint256","name":"lowestSale","type":"uint256"}],"internalType":"struct MarketplaceV2.TokenStats","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUserBids","outputs":[{"components":[{"internalType":"uint256","name":"bidId","type":"uint256"},{"internalType":"address","name":"bidder","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"expiration","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"}],"internalType":"struct MarketplaceV2.Bid[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"_nftContract","type":"address"},{"internalType":"address","name":"initialOwner","type":"address"}],"name":"initialize","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"isTokenListed","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"price","type":"uint256"}],"name":"listCard","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"listings","outputs":[{"internalType":"uint256","name":"listingId","type":"uint256"},{"internalType":"address","name":"seller","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"price","type":"uint256"},{"internalType":"uint256","name":"listedAt","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"marketplaceFee","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"nftContract","outputs":[{"internalType":"contract IERC721","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"pause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"pendingOwner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"expiration","type":"uint256"}],"name":"placeBid","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"payable","type":"function"},
+    {"inputs":[],"name":"proxiableUUID","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"sales","outputs":[{"internalType":"uint256","name":"saleId","type":"uint256"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"address","name":"seller","type":"address"},{"internalType":"address","name":"buyer","type":"address"},{"internalType":"uint256","name":"price","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"enum MarketplaceV2.SaleType","name":"saleType","type":"uint8"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newRecipient","type":"address"}],"name":"setFeeRecipient","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"newFee","type":"uint256"}],"name":"setMarketplaceFee","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"tokenStats","outputs":[{"internalType":"uint256","name":"lastSalePrice","type":"uint256"},{"internalType":"uint256","name":"totalVolume","type":"uint256"},{"internalType":"uint256","name":"salesCount","type":"uint256"},{"internalType":"uint256","name":"highestSale","type":"uint256"},{"internalType":"uint256","name":"lowestSale","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"tokenToAuction","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"tokenToListing","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"totalSalesCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"totalVolume","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"unicornXNFT","outputs":[{"internalType":"contract IUnicornX_NFT","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"unpause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newImplementation","type":"address"},{"internalType":"bytes","name":"data","type":"bytes"}],"name":"upgradeToAndCall","outputs":[],"stateMutability":"payable","type":"function"},
+];
+
+// ============ Structs ============
+export interface Auction {
+    auctionId: bigint;
+    seller: string;
+    tokenId: bigint;
+    startPrice: bigint;
+    reservePrice: bigint;
+    highestBid: bigint;
+    highestBidder: string;
+    startTime: bigint;
+    endTime: bigint;
+    status: number;
+}
+
+export interface AuctionOutput {
+    auctionId: bigint;
+    seller: string;
+    tokenId: bigint;
+    startPrice: bigint;
+    reservePrice: bigint;
+    highestBid: bigint;
+    highestBidder: string;
+    startTime: bigint;
+    endTime: bigint;
+    status: bigint;
+}
+
+export function decodeAuction(raw: AuctionOutput): Auction {
+    return {
+        auctionId: raw.auctionId,
+        seller: raw.seller,
+        tokenId: raw.tokenId,
+        startPrice: raw.startPrice,
+        reservePrice: raw.reservePrice,
+        highestBid: raw.highestBid,
+        highestBidder: raw.highestBidder,
+        startTime: raw.startTime,
+        endTime: raw.endTime,
+        status: Number(raw.status),
+    };
+}
+
+export interface Bid {
+    bidId: bigint;
+    bidder: string;
+    tokenId: bigint;
+    amount: bigint;
+    expiration: bigint;
+    active: boolean;
+}
+
+export interface BidOutput {
+    bidId: bigint;
+    bidder: string;
+    tokenId: bigint;
+    amount: bigint;
+    expiration: bigint;
+    active: boolean;
+}
+
+export function decodeBid(raw: BidOutput): Bid {
+    return {
+        bidId: raw.bidId,
+        bidder: raw.bidder,
+        tokenId: raw.tokenId,
+        amount: raw.amount,
+        expiration: raw.expiration,
+        active: raw.active,
+    };
+}
+
+export interface Listing {
+    listingId: bigint;
+    seller: string;
+    tokenId: bigint;
+    price: bigint;
+    listedAt: bigint;
+    active: boolean;
+}
+
+export interface ListingOutput {
+    listingId: bigint;
+    seller: string;
+    tokenId: bigint;
+    price: bigint;
+    listedAt: bigint;
+    active: boolean;
+}
+
+export function decodeListing(raw: ListingOutput): Listing {
+    return {
+        listingId: raw.listingId,
+        seller: raw.seller,
+        tokenId: raw.tokenId,
+        price: raw.price,
+        listedAt: raw.listedAt,
+        active: raw.active,
+    };
+}
+
+export interface Sale {
+    saleId: bigint;
+    tokenId: bigint;
+    seller: string;
+    buyer: string;
+    price: bigint;
+    timestamp: bigint;
+    saleType: number;
+}
+
+export interface SaleOutput {
+    saleId: bigint;
+    tokenId: bigint;
+    seller: string;
+    buyer: string;
+    price: bigint;
+    timestamp: bigint;
+    saleType: bigint;
+}
+
+export function decodeSale(raw: SaleOutput): Sale {
+    return {
+        saleId: raw.saleId,
+        tokenId: raw.tokenId,
+        seller: raw.seller,
+        buyer: raw.buyer,
+        price: raw.price,
+        timestamp: raw.timestamp,
+        saleType: Number(raw.saleType),
+    };
+}
+
+export interface TokenStats {
+    lastSalePrice: bigint;
+    totalVolume: bigint;
+    salesCount: bigint;
+    highestSale: bigint;
+    lowestSale: bigint;
+}
+
+export interface TokenStatsOutput {
+    lastSalePrice: bigint;
+    totalVolume: bigint;
+    salesCount: bigint;
+    highestSale: bigint;
+    lowestSale: bigint;
+}
+
+export function decodeTokenStats(raw: TokenStatsOutput): TokenStats {
+    return {
+        lastSalePrice: raw.lastSalePrice,
+        totalVolume: raw.totalVolume,
+        salesCount: raw.salesCount,
+        highestSale: raw.highestSale,
+        lowestSale: raw.lowestSale,
+    };
+}
+
+// ============ Multi-value Results ============
+export type AuctionsResult = [bigint, string, bigint, bigint, bigint, bigint, string, bigint, bigint, bigint] & { auctionId: bigint; seller: string; tokenId: bigint; startPrice: bigint; reservePrice: bigint; highestBid: bigint; highestBidder: string; startTime: bigint; endTime: bigint; status: bigint };
+export type BidsResult = [bigint, string, bigint, bigint, bigint, boolean] & { bidId: bigint; bidder: string; tokenId: bigint; amount: bigint; expiration: bigint; active: boolean };
+export type GetGlobalStatsResult = [bigint, bigint, bigint, bigint] & { _totalVolume: bigint; _totalSales: bigint; _activeListings: bigint; _activeAuctions: bigint };
+export type ListingsResult = [bigint, string, bigint, bigint, bigint, boolean] & { listingId: bigint; seller: string; tokenId: bigint; price: bigint; listedAt: bigint; active: boolean };
+export type SalesResult = [bigint, bigint, string, string, bigint, bigint, bigint] & { saleId: bigint; tokenId: bigint; seller: string; buyer: string; price: bigint; timestamp: bigint; saleType: bigint };
+export type TokenStatsResult = [bigint, bigint, bigint, bigint, bigint] & { lastSalePrice: bigint; totalVolume: bigint; salesCount: bigint; highestSale: bigint; lowestSale: bigint };
+
+// ============ Events ============
+export type MarketplaceV2Event =
+    | { name: 'AuctionBid'; args: { auctionId: bigint; bidder: string; amount: bigint } }
+    | { name: 'AuctionCancelled'; args: { auctionId: bigint; seller: string; tokenId: bigint } }
+    | { name: 'AuctionCreated'; args: { auctionId: bigint; seller: string; tokenId: bigint; startPrice: bigint; reservePrice: bigint; endTime: bigint } }
+    | { name: 'AuctionFinalized'; args: { auctionId: bigint; winner: string; finalPrice: bigint } }
+    | { name: 'BidAccepted'; args: { bidId: bigint; seller: string; bidder: string; tokenId: bigint; amount: bigint } }
+    | { name: 'BidCancelled'; args: { bidId: bigint; bidder: string; tokenId: bigint } }
+    | { name: 'BidPlaced'; args: { bidId: bigint; bidder: string; tokenId: bigint; amount: bigint; expiration: bigint } }
+    | { name: 'CardListed'; args: { listingId: bigint; seller: string; tokenId: bigint; price: bigint } }
+    | { name: 'CardSold'; args: { listingId: bigint; seller: string; buyer: string; tokenId: bigint; price: bigint } }
+    | { name: 'FeeRecipientUpdated'; args: { oldRecipient: string; newRecipient: string } }
+    | { name: 'Initialized'; args: { version: bigint } }
+    | { name: 'ListingCancelled'; args: { listingId: bigint; seller: string; tokenId: bigint } }
+    | { name: 'MarketplaceFeeUpdated'; args: { oldFee: bigint; newFee: bigint } }
+    | { name: 'OwnershipTransferStarted'; args: { previousOwner: string; newOwner: string } }
+    | { name: 'OwnershipTransferred'; args: { previousOwner: string; newOwner: string } }
+    | { name: 'Paused'; args: { account: string } }
+    | { name: 'Unpaused'; args: { account: string } }
+    | { name: 'Upgraded'; args: { implementation: string } };
+
+// ============ Contract ============
+export interface MarketplaceV2Contract extends BaseContract {
+    SECOND_ADMIN: BaseContractMethod<[], string, string>;
+    UPGRADE_INTERFACE_VERSION: BaseContractMethod<[], string, string>;
+    acceptBid: BaseContractMethod<[bidId: BigNumberish], void, ContractTransactionResponse>;
+    acceptOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+    auctions: BaseContractMethod<[arg0: BigNumberish], AuctionsResult, AuctionsResult>;
+    bidOnAuction: BaseContractMethod<[auctionId: BigNumberish], void, ContractTransactionResponse>;
+    bids: BaseContractMethod<[arg0: BigNumberish], BidsResult, BidsResult>;
+    buyCard: BaseContractMethod<[listingId: BigNumberish], void, ContractTransactionResponse>;
+    cancelAuction: BaseContractMethod<[auctionId: BigNumberish], void, ContractTransactionResponse>;
+    cancelBid: BaseContractMethod<[bidId: BigNumberish], void, ContractTransactionResponse>;
+    cancelListing: BaseContractMethod<[listingId: BigNumberish], void, ContractTransactionResponse>;
+    createAuction: BaseContractMethod<[tokenId: BigNumberish, startPrice: BigNumberish, reservePrice: BigNumberish, duration: BigNumberish], bigint, ContractTransactionResponse>;
+    feeRecipient: BaseContractMethod<[], string, string>;
+    finalizeAuction: BaseContractMethod<[auctionId: BigNumberish], void, ContractTransactionResponse>;
+    getActiveAuctionCount: BaseContractMethod<[], bigint, bigint>;
+    getActiveAuctions: BaseContractMethod<[], AuctionOutput[], AuctionOutput[]>;
+    getActiveBidsForToken: BaseContractMethod<[tokenId: BigNumberish], BidOutput[], BidOutput[]>;
+    getActiveListingCount: BaseContractMethod<[], bigint, bigint>;
+    getActiveListings: BaseContractMethod<[], ListingOutput[], ListingOutput[]>;
+    getAuction: BaseContractMethod<[auctionId: BigNumberish], AuctionOutput, AuctionOutput>;
+    getBidsOnToken: BaseContractMethod<[tokenId: BigNumberish], BidOutput[], BidOutput[]>;
+    getGlobalStats: BaseContractMethod<[], GetGlobalStatsResult, GetGlobalStatsResult>;
+    getListing: BaseContractMethod<[listingId: BigNumberish], ListingOutput, ListingOutput>;
+    getListingsBySeller: BaseContractMethod<[seller: AddressLike], ListingOutput[], ListingOutput[]>;
+    getTokenSaleHistory: BaseContractMethod<[tokenId: BigNumberish], SaleOutput[], SaleOutput[]>;
+    getTokenStats: BaseContractMethod<[tokenId: BigNumberish], TokenStatsOutput, TokenStatsOutput>;
+    getUserBids: BaseContractMethod<[user: AddressLike], BidOutput[], BidOutput[]>;
+    initialize: BaseContractMethod<[_nftContract: AddressLike, initialOwner: AddressLike], void, ContractTransactionResponse>;
+    isTokenListed: BaseContractMethod<[tokenId: BigNumberish], boolean, boolean>;
+    listCard: BaseContractMethod<[tokenId: BigNumberish, price: BigNumberish], bigint, ContractTransactionResponse>;
+    listings: BaseContractMethod<[arg0: BigNumberish], ListingsResult, ListingsResult>;
+    marketplaceFee: BaseContractMethod<[], bigint, bigint>;
+    nftContract: BaseContractMethod<[], string, string>;
+    owner: BaseContractMethod<[], string, string>;
+    pause: BaseContractMethod<[], void, ContractTransactionResponse>;
+    paused: BaseContractMethod<[], boolean, boolean>;
+    pendingOwner: BaseContractMethod<[], string, string>;
+    placeBid: BaseContractMethod<[tokenId: BigNumberish, expiration: BigNumberish], bigint, ContractTransactionResponse>;
+    proxiableUUID: BaseContractMethod<[], string, string>;
+    renounceOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+    sales: BaseContractMethod<[arg0: BigNumberish], SalesResult, SalesResult>;
+    setFeeRecipient: BaseContractMethod<[newRecipient: AddressLike], void, ContractTransactionResponse>;
+    setMarketplaceFee: BaseContractMethod<[newFee: BigNumberish], void, ContractTransactionResponse>;
+    tokenStats: BaseContractMethod<[arg0: BigNumberish], TokenStatsResult, TokenStatsResult>;
+    tokenToAuction: BaseContractMethod<[arg0: BigNumberish], bigint, bigint>;
+    tokenToListing: BaseContractMethod<[arg0: BigNumberish], bigint, bigint>;
+    totalSalesCount: BaseContractMethod<[], bigint, bigint>;
+    totalVolume: BaseContractMethod<[], bigint, bigint>;
+    transferOwnership: BaseContractMethod<[newOwner: AddressLike], void, ContractTransactionResponse>;
+    unicornXNFT: BaseContractMethod<[], string, string>;
+    unpause: BaseContractMethod<[], void, ContractTransactionResponse>;
+    upgradeToAndCall: BaseContractMethod<[newImplementation: AddressLike, data: BytesLike], void, ContractTransactionResponse>;
+}
@@ -0,0 +1,185 @@
+// Generated by scripts/generate-abis.js from contracts/PackOpener.sol - do not edit
+// Source hash: 8250efbe6bf811aa17b52ab33e2e20679233701da739bdff6e43afc8a0d133f5
+import type {
+    AddressLike,
+    BaseContract,
+    BaseContractMethod,
+    BigNumberish,
+    BytesLike,
+    ContractTransactionResponse,
+} from 'ethers';
+
+// ============ ABI ============
+export const PACK_OPENER_ABI = [
+    {"inputs":[{"internalType":"address","name":"target","type":"address"}],"name":"AddressEmptyCode","type":"error"},
+    {"inputs":[],"name":"CannotReferSelf","type":"error"},
+    {"inputs":[{"internalType":"address","name":"implementation","type":"address"}],"name":"ERC1967InvalidImplementation","type":"error"},
+    {"inputs":[],"name":"ERC1967NonPayable","type":"error"},
+    {"inputs":[],"name":"EnforcedPause","type":"error"},
+    {"inputs":[],"name":"ExpectedPause","type":"error"},
+    {"inputs":[],"name":"FailedCall","type":"error"},
+    {"inputs":[],"name":"InsufficientPayment","type":"error"},
+    {"inputs":[],"name":"InvalidInitialization","type":"error"},
+    {"inputs":[],"name":"InvalidPackCount","type":"error"},
+    {"inputs":[],"name":"InvalidPrice","type":"error"},
+    {"inputs":[],"name":"MaxPacksReached","type":"error"},
+    {"inputs":[],"name":"NotAdmin","type":"error"},
+    {"inputs":[],"name":"NotInitializing","type":"error"},
+    {"inputs":[],"name":"NotPackOwner","type":"error"},
+    {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+    {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+    {"inputs":[],"name":"PackAlreadyOpened","type":"error"},
+    {"inputs":[],"name":"PackDoesNotExist","type":"error"},
+    {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+    {"inputs":[],"name":"UUPSUnauthorizedCallContext","type":"error"},
+    {"inputs":[{"internalType":"bytes32","name":"slot","type":"bytes32"}],"name":"UUPSUnsupportedProxiableUUID","type":"error"},
+    {"inputs":[],"name":"WithdrawFailed","type":"error"},
+    {"inputs":[],"name":"ZeroAddress","type":"error"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newId","type":"uint256"}],"name":"ActiveTournamentUpdated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"prizePoolAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"platformAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"referralAmount","type":"uint256"}],"name":"FundsDistributed","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"FundsWithdrawn","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint64","name":"version","type":"uint64"}],"name":"Initialized","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"buyer","type":"address"},{"indexed":false,"internalType":"uint256","name":"packCount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"totalCards","type":"uint256"}],"name":"MultiplePacksOpened","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferStarted","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"uint256","name":"packId","type":"uint256"},{"indexed":false,"internalType":"uint256[5]","name":"cardIds","type":"uint256[5]"},{"indexed":false,"internalType":"uint256[5]","name":"startupIds","type":"uint256[5]"}],"name":"PackOpened","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"oldPrice","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newPrice","type":"uint256"}],"name":"PackPriceUpdated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"buyer","type":"address"},{"indexed":true,"internalType":"uint256","name":"packId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"price","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"timestamp","type":"uint256"}],"name":"PackPurchased","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"tournamentId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"PendingFundsForwarded","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":true,"internalType":"address","name":"referrer","type":"address"}],"name":"ReferralRegistered","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"referrer","type":"address"},{"indexed":true,"internalType":"address","name":"buyer","type":"address"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"}],"name":"ReferralRewardPaid","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"oldTM","type":"address"},{"indexed":true,"internalType":"address","name":"newTM","type":"address"}],"name":"TournamentManagerUpdated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"oldTreasury","type":"address"},{"indexed":true,"internalType":"address","name":"newTreasury","type":"address"}],"name":"TreasuryUpdated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"implementation","type":"address"}],"name":"Upgraded","type":"event"},
+    {"inputs":[],"name":"CARDS_PER_PACK","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"MAX_MULTI_PACKS","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"MAX_PACKS","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"PACK_PRICE","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"PLATFORM_PERCENT","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"REFERRAL_PERCENT","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"SECOND_ADMIN","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"UPGRADE_INTERFACE_VERSION","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"acceptOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"activeTournamentId","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"referrer","type":"address"},{"internalType":"uint256","name":"count","type":"uint256"}],"name":"buyAndOpenMultiplePacks","outputs":[{"internalType":"uint256[]","name":"allCardIds","type":"uint256[]"},{"internalType":"uint256[]","name":"allStartupIds","type":"uint256[]"}],"stateMutability":"payable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"referrer","type":"address"}],"name":"buyAndOpenPack","outputs":[{"internalType":"uint256[5]","name":"cardIds","type":"uint256[5]"},{"internalType":"uint256[5]","name":"startupIds","type":"uint256[5]"}],"stateMutability":"payable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"referrer","type":"address"}],"name":"buyPack","outputs":[{"internalType":"uint256","name":"packId","type":"uint256"}],"stateMutability":"payable","type":"function"},
+    {"inputs":[],"name":"currentPackPrice","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"forwardPendingFunds","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"packId","type":"uint256"}],"name":"getPackInfo","outputs":[{"internalType":"address","name":"buyer","type":"address"},{"internalType":"uint256","name":"purchaseTime","type":"uint256"},{"internalType":"bool","name":"opened","type":"bool"},{"internalType":"uint256[5]","name":"cardIds","type":"uint256[5]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"getPacksRemaining","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"referrer","type":"address"}],"name":"getReferralStats","outputs":[{"internalType":"uint256","name":"count","type":"uint256"},{"internalType":"uint256","name":"totalEarned","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getReferrer","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUnopenedPackCount","outputs":[{"internalType":"uint256","name":"count","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUserPacks","outputs":[{"internalType":"uint256[]","name":"","type":"uint256[]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"_nftContract","type":"address"},{"internalType":"address","name":"_treasury","type":"address"},{"internalType":"address","name":"initialOwner","type":"address"}],"name":"initialize","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"nftContract","outputs":[{"internalType":"contract IUnicornX_NFT","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"packId","type":"uint256"}],"name":"openPack","outputs":[{"internalType":"uint256[5]","name":"cardIds","type":"uint256[5]"},{"internalType":"uint256[5]","name":"startupIds","type":"uint256[5]"}],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"packs","outputs":[{"internalType":"address","name":"buyer","type":"address"},{"internalType":"uint256","name":"purchaseTime","type":"uint256"},{"internalType":"bool","name":"opened","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"packsSold","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"pause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"pendingOwner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"pendingPrizePool","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"proxiableUUID","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"referralCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"referralEarnings","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"referrers","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"setActiveTournament","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newNftContract","type":"address"}],"name":"setNftContract","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"newPrice","type":"uint256"}],"name":"setPackPrice","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newTournamentManager","type":"address"}],"name":"setTournamentManager","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newTreasury","type":"address"}],"name":"setTreasury","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"tournamentManager","outputs":[{"internalType":"contract ITournamentManager","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"treasury","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"unpause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newImplementation","type":"address"},{"internalType":"bytes","name":"data","type":"bytes"}],"name":"upgradeToAndCall","outputs":[],"stateMutability":"payable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"userPacks","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"withdraw","outputs":[],"stateMutability":"nonpayable","type":"function"},
+];
+
+// ============ Multi-value Results ============
+export type BuyAndOpenMultiplePacksResult = [bigint[], bigint[]] & { allCardIds: bigint[]; allStartupIds: bigint[] };
+export type BuyAndOpenPackResult = [bigint[], bigint[]] & { cardIds: bigint[]; startupIds: bigint[] };
+export type GetPackInfoResult = [string, bigint, boolean, bigint[]] & { buyer: string; purchaseTime: bigint; opened: boolean; cardIds: bigint[] };
+export type GetReferralStatsResult = [bigint, bigint] & { count: bigint; totalEarned: bigint };
+export type OpenPackResult = [bigint[], bigint[]] & { cardIds: bigint[]; startupIds: bigint[] };
+export type PacksResult = [string, bigint, boolean] & { buyer: string; purchaseTime: bigint; opened: boolean };
+
+// ============ Events ============
+export type PackOpenerEvent =
+    | { name: 'ActiveTournamentUpdated'; args: { oldId: bigint; newId: bigint } }
+    | { name: 'FundsDistributed'; args: { prizePoolAmount: bigint; platformAmount: bigint; referralAmount: bigint } }
+    | { name: 'FundsWithdrawn'; args: { to: string; amount: bigint } }
+    | { name: 'Initialized'; args: { version: bigint } }
+    | { name: 'MultiplePacksOpened'; args: { buyer: string; packCount: bigint; totalCards: bigint } }
+    | { name: 'OwnershipTransferStarted'; args: { previousOwner: string; newOwner: string } }
+    | { name: 'OwnershipTransferred'; args: { previousOwner: string; newOwner: string } }
+    | { name: 'PackOpened'; args: { owner: string; packId: bigint; cardIds: bigint[]; startupIds: bigint[] } }
+    | { name: 'PackPriceUpdated'; args: { oldPrice: bigint; newPrice: bigint } }
+    | { name: 'PackPurchased'; args: { buyer: string; packId: bigint; price: bigint; timestamp: bigint } }
+    | { name: 'Paused'; args: { account: string } }
+    | { name: 'PendingFundsForwarded'; args: { tournamentId: bigint; amount: bigint } }
+    | { name: 'ReferralRegistered'; args: { user: string; referrer: string } }
+    | { name: 'ReferralRewardPaid'; args: { referrer: string; buyer: string; amount: bigint } }
+    | { name: 'TournamentManagerUpdated'; args: { oldTM: string; newTM: string } }
+    | { name: 'TreasuryUpdated'; args: { oldTreasury: string; newTreasury: string } }
+    | { name: 'Unpaused'; args: { account: string } }
+    | { name: 'Upgraded'; args: { implementation: string } };
+
+// ============ Contract ============
+export interface PackOpenerContract extends BaseContract {
+    CARDS_PER_PACK: BaseContractMethod<[], bigint, bigint>;
+    MAX_MULTI_PACKS: BaseContractMethod<[], bigint, bigint>;
+    MAX_PACKS: BaseContractMethod<[], bigint, bigint>;
+    PACK_PRICE: BaseContractMethod<[], bigint, bigint>;
+    PLATFORM_PERCENT: BaseContractMethod<[], bigint, bigint>;
+    REFERRAL_PERCENT: BaseContractMethod<[], bigint, bigint>;
+    SECOND_ADMIN: BaseContractMethod<[], string, string>;
+    UPGRADE_INTERFACE_VERSION: BaseContractMethod<[], string, string>;
+    acceptOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+    activeTournamentId: BaseContractMethod<[], bigint, bigint>;
+    buyAndOpenMultiplePacks: BaseContractMethod<[referrer: AddressLike, count: BigNumberish], BuyAndOpenMultiplePacksResult, ContractTransactionResponse>;
+    buyAndOpenPack: BaseContractMethod<[referrer: AddressLike], BuyAndOpenPackResult, ContractTransactionResponse>;
+    buyPack: BaseContractMethod<[referrer: AddressLike], bigint, ContractTransactionResponse>;
+    currentPackPrice: BaseContractMethod<[], bigint, bigint>;
+    forwardPendingFunds: BaseContractMethod<[], void, ContractTransactionResponse>;
+    getPackInfo: BaseContractMethod<[packId: BigNumberish], GetPackInfoResult, GetPackInfoResult>;
+    getPacksRemaining: BaseContractMethod<[], bigint, bigint>;
+    getReferralStats: BaseContractMethod<[referrer: AddressLike], GetReferralStatsResult, GetReferralStatsResult>;
+    getReferrer: BaseContractMethod<[user: AddressLike], string, string>;
+    getUnopenedPackCount: BaseContractMethod<[user: AddressLike], bigint, bigint>;
+    getUserPacks: BaseContractMethod<[user: AddressLike], bigint[], bigint[]>;
+    initialize: BaseContractMethod<[_nftContract: AddressLike, _treasury: AddressLike, initialOwner: AddressLike], void, ContractTransactionResponse>;
+    nftContract: BaseContractMethod<[], string, string>;
+    openPack: BaseContractMethod<[packId: BigNumberish], OpenPackResult, ContractTransactionResponse>;
+    owner: BaseContractMethod<[], string, string>;
+    packs: BaseContractMethod<[arg0: BigNumberish], PacksResult, PacksResult>;
+    packsSold: BaseContractMethod<[], bigint, bigint>;
+    pause: BaseContractMethod<[], void, ContractTransactionResponse>;
+    paused: BaseContractMethod<[], boolean, boolean>;
+    pendingOwner: BaseContractMethod<[], string, string>;
+    pendingPrizePool: BaseContractMethod<[], bigint, bigint>;
+    proxiableUUID: BaseContractMethod<[], string, string>;
+    referralCount: BaseContractMethod<[arg0: AddressLike], bigint, bigint>;
+    referralEarnings: BaseContractMethod<[arg0: AddressLike], bigint, bigint>;
+    referrers: BaseContractMethod<[arg0: AddressLike], string, string>;
+    renounceOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+    setActiveTournament: BaseContractMethod<[tournamentId: BigNumberish], void, ContractTransactionResponse>;
+    setNftContract: BaseContractMethod<[newNftContract: AddressLike], void, ContractTransactionResponse>;
+    setPackPrice: BaseContractMethod<[newPrice: BigNumberish], void, ContractTransactionResponse>;
+    setTournamentManager: BaseContractMethod<[newTournamentManager: AddressLike], void, ContractTransactionResponse>;
+    setTreasury: BaseContractMethod<[newTreasury: AddressLike], void, ContractTransactionResponse>;
+    tournamentManager: BaseContractMethod<[], string, string>;
+    transferOwnership: BaseContractMethod<[newOwner: AddressLike], void, ContractTransactionResponse>;
+    treasury: BaseContractMethod<[], string, string>;
+    unpause: BaseContractMethod<[], void, ContractTransactionResponse>;
+    upgradeToAndCall: BaseContractMethod<[newImplementation: AddressLike, data: BytesLike], void, ContractTransactionResponse>;
+    userPacks: BaseContractMethod<[arg0: AddressLike, arg1: BigNumberish], bigint, bigint>;
+    withdraw: BaseContractMethod<[], void, ContractTransactionResponse>;
+}
@@ -0,0 +1,225 @@
+// Generated by scripts/generate-abis.js from contracts/TournamentManager.sol - do not edit
+// Source hash: a77bf1655105abdb1cf740e570d0a93a4b7a84b703c5bd2cc2be298fa1abafbc
+import type {
+    AddressLike,
+    BaseContract,
+    BaseContractMethod,
+    BigNumberish,
+    BytesLike,
+    ContractTransactionResponse,
+} from 'ethers';
+
+// ============ ABI ============
+export const TOURNAMENT_ABI = [
+    {"inputs":[{"internalType":"address","name":"target","type":"address"}],"name":"AddressEmptyCode","type":"error"},
+    {"inputs":[],"name":"AlreadyClaimed","type":"error"},
+    {"inputs":[],"name":"AlreadyEntered","type":"error"},
+    {"inputs":[],"name":"ArrayLengthMismatch","type":"error"},
+    {"inputs":[],"name":"CannotCancelAfterStart","type":"error"},
+    {"inputs":[],"name":"CardAlreadyLocked","type":"error"},
+    {"inputs":[{"internalType":"address","name":"implementation","type":"address"}],"name":"ERC1967InvalidImplementation","type":"error"},
+    {"inputs":[],"name":"ERC1967NonPayable","type":"error"},
+    {"inputs":[],"name":"EnforcedPause","type":"error"},
+    {"inputs":[],"name":"ExpectedPause","type":"error"},
+    {"inputs":[],"name":"FailedCall","type":"error"},
+    {"inputs":[],"name":"InsufficientPrizePool","type":"error"},
+    {"inputs":[],"name":"InvalidInitialization","type":"error"},
+    {"inputs":[],"name":"InvalidTimeRange","type":"error"},
+    {"inputs":[],"name":"LineupAlreadyCancelled","type":"error"},
+    {"inputs":[],"name":"NotAdmin","type":"error"},
+    {"inputs":[],"name":"NotCardOwner","type":"error"},
+    {"inputs":[],"name":"NotEntered","type":"error"},
+    {"inputs":[],"name":"NotInitializing","type":"error"},
+    {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+    {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+    {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+    {"inputs":[],"name":"RegistrationNotOpen","type":"error"},
+    {"inputs":[],"name":"TournamentAlreadyFinalized","type":"error"},
+    {"inputs":[],"name":"TournamentAlreadyStarted","type":"error"},
+    {"inputs":[],"name":"TournamentCancelledError","type":"error"},
+    {"inputs":[],"name":"TournamentDoesNotExist","type":"error"},
+    {"inputs":[],"name":"TournamentNotActive","type":"error"},
+    {"inputs":[],"name":"TournamentNotFinalized","type":"error"},
+    {"inputs":[],"name":"TournamentNotInRegistration","type":"error"},
+    {"inputs":[],"name":"UUPSUnauthorizedCallContext","type":"error"},
+    {"inputs":[{"internalType":"bytes32","name":"slot","type":"bytes32"}],"name":"UUPSUnsupportedProxiableUUID","type":"error"},
+    {"inputs":[],"name":"UnauthorizedCaller","type":"error"},
+    {"inputs":[],"name":"WithdrawFailed","type":"error"},
+    {"inputs":[],"name":"ZeroAddress","type":"error"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint64","name":"version","type":"uint64"}],"name":"Initialized","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tournamentId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"}],"name":"LineupCancelled","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tournamentId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256[5]","name":"cardIds","type":"uint256[5]"}],"name":"LineupRegistered","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tournamentId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256[5]","name":"cardIds","type":"uint256[5]"}],"name":"NFTsUnfrozen","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferStarted","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"oldPackOpener","type":"address"},{"indexed":true,"internalType":"address","name":"newPackOpener","type":"address"}],"name":"PackOpenerUpdated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tournamentId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"prizeAmount","type":"uint256"}],"name":"PrizeClaimed","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tournamentId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newTotal","type":"uint256"}],"name":"PrizePoolIncreased","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"TournamentCancelled","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tournamentId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"registrationStart","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"startTime","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"endTime","type":"uint256"}],"name":"TournamentCreated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tournamentId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"prizePool","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"winnersCount","type":"uint256"}],"name":"TournamentFinalized","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"TournamentStarted","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tournamentId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newStartTime","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"newEndTime","type":"uint256"}],"name":"TournamentUpdated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"implementation","type":"address"}],"name":"Upgraded","type":"event"},
+    {"inputs":[],"name":"LINEUP_SIZE","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"SECOND_ADMIN","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"TOTAL_STARTUPS","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"UPGRADE_INTERFACE_VERSION","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"acceptOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"addToPrizePool","outputs":[],"stateMutability":"payable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"},{"internalType":"address","name":"user","type":"address"}],"name":"canCancelEntry","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"},{"internalType":"address","name":"user","type":"address"}],"name":"canRegister","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"cancelEntry","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"cancelTournament","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"claimPrize","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"registrationStart","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"}],"name":"createTournament","outputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"address","name":"to","type":"address"}],"name":"emergencyWithdraw","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"},{"internalType":"uint256[5]","name":"cardIds","type":"uint256[5]"}],"name":"enterTournament","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"},{"internalType":"address[]","name":"winners","type":"address[]"},{"internalType":"uint256[]","name":"amounts","type":"uint256[]"}],"name":"finalizeTournament","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"},{"internalType":"uint256[19]","name":"points","type":"uint256[19]"}],"name":"finalizeWithPoints","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"getActiveEntryCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"getTournament","outputs":[{"components":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"uint256","name":"registrationStart","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"uint256","name":"prizePool","type":"uint256"},{"internalType":"uint256","name":"entryCount","type":"uint256"},{"internalType":"enum TournamentManager.TournamentStatus","name":"status","type":"uint8"}],"internalType":"struct TournamentManager.Tournament","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"getTournamentParticipants","outputs":[{"internalType":"address[]","name":"","type":"address[]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"getTournamentPhase","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"}],"name":"getTournamentPoints","outputs":[{"internalType":"uint256[19]","name":"points","type":"uint256[19]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"},{"internalType":"address","name":"user","type":"address"}],"name":"getUserLineup","outputs":[{"internalType":"uint256[5]","name":"cardIds","type":"uint256[5]"},{"internalType":"address","name":"lineupOwner","type":"address"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bool","name":"cancelled","type":"bool"},{"internalType":"bool","name":"claimed","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"},{"internalType":"address","name":"user","type":"address"}],"name":"getUserPrize","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"},{"internalType":"address","name":"user","type":"address"}],"name":"getUserScoreInfo","outputs":[{"internalType":"uint256","name":"score","type":"uint256"},{"internalType":"uint256","name":"prize","type":"uint256"},{"internalType":"uint256","name":"totalScore","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"address","name":"","type":"address"}],"name":"hasEntered","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"_nftContract","type":"address"}],"name":"initialize","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"address","name":"","type":"address"}],"name":"lineups","outputs":[{"internalType":"address","name":"owner","type":"address"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bool","name":"cancelled","type":"bool"},{"internalType":"bool","name":"claimed","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"nextTournamentId","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"nftContract","outputs":[{"internalType":"contract IUnicornX_NFT","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"packOpener","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"pause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"pendingOwner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"address","name":"","type":"address"}],"name":"prizes","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"proxiableUUID","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newPackOpener","type":"address"}],"name":"setPackOpener","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"totalTournamentScore","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"tournamentParticipants","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"tournamentPoints","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"tournaments","outputs":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"uint256","name":"registrationStart","type":"uint256"},{"internalType":"uint256","name":"startTime","type":"uint256"},{"internalType":"uint256","name":"endTime","type":"uint256"},{"internalType":"uint256","name":"prizePool","type":"uint256"},{"internalType":"uint256","name":"entryCount","type":"uint256"},{"internalType":"enum TournamentManager.TournamentStatus","name":"status","type":"uint8"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"unpause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"},{"internalType":"uint256","name":"newStartTime","type":"uint256"},{"internalType":"uint256","name":"newEndTime","type":"uint256"}],"name":"updateTournament","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newImplementation","type":"address"},{"internalType":"bytes","name":"data","type":"bytes"}],"name":"upgradeToAndCall","outputs":[],"stateMutability":"payable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"address","name":"","type":"address"}],"name":"userScores","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tournamentId","type":"uint256"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"address","name":"to","type":"address"}],"name":"withdrawFromPrizePool","outputs":[],"stateMutability":"nonpayable","type":"function"},
+];
+
+// ============ Structs ============
+export interface Tournament {
+    id: bigint;
+    registrationStart: bigint;
+    startTime: bigint;
+    endTime: bigint;
+    prizePool: bigint;
+    entryCount: bigint;
+    status: number;
+}
+
+export interface TournamentOutput {
+    id: bigint;
+    registrationStart: bigint;
+    startTime: bigint;
+    endTime: bigint;
+    prizePool: bigint;
+    entryCount: bigint;
+    status: bigint;
+}
+
+export function decodeTournament(raw: TournamentOutput): Tournament {
+    return {
+        id: raw.id,
+        registrationStart: raw.registrationStart,
+        startTime: raw.startTime,
+        endTime: raw.endTime,
+        prizePool: raw.prizePool,
+        entryCount: raw.entryCount,
+        status: Number(raw.status),
+    };
+}
+
+// ============ Multi-value Results ============
+export type GetUserLineupResult = [bigint[], string, bigint, boolean, boolean] & { cardIds: bigint[]; lineupOwner: string; timestamp: bigint; cancelled: boolean; claimed: boolean };
+export type GetUserScoreInfoResult = [bigint, bigint, bigint] & { score: bigint; prize: bigint; totalScore: bigint };
+export type LineupsResult = [string, bigint, boolean, boolean] & { owner: string; timestamp: bigint; cancelled: boolean; claimed: boolean };
+export type TournamentsResult = [bigint, bigint, bigint, bigint, bigint, bigint, bigint] & { id: bigint; registrationStart: bigint; startTime: bigint; endTime: bigint; prizePool: bigint; entryCount: bigint; status: bigint };
+
+// ============ Events ============
+export type TournamentManagerEvent =
+    | { name: 'Initialized'; args: { version: bigint } }
+    | { name: 'LineupCancelled'; args: { tournamentId: bigint; user: string } }
+    | { name: 'LineupRegistered'; args: { tournamentId: bigint; user: string; cardIds: bigint[] } }
+    | { name: 'NFTsUnfrozen'; args: { tournamentId: bigint; user: string; cardIds: bigint[] } }
+    | { name: 'OwnershipTransferStarted'; args: { previousOwner: string; newOwner: string } }
+    | { name: 'OwnershipTransferred'; args: { previousOwner: string; newOwner: string } }
+    | { name: 'PackOpenerUpdated'; args: { oldPackOpener: string; newPackOpener: string } }
+    | { name: 'Paused'; args: { account: string } }
+    | { name: 'PrizeClaimed'; args: { tournamentId: bigint; user: string; prizeAmount: bigint } }
+    | { name: 'PrizePoolIncreased'; args: { tournamentId: bigint; amount: bigint; newTotal: bigint } }
+    | { name: 'TournamentCancelled'; args: { tournamentId: bigint } }
+    | { name: 'TournamentCreated'; args: { tournamentId: bigint; registrationStart: bigint; startTime: bigint; endTime: bigint } }
+    | { name: 'TournamentFinalized'; args: { tournamentId: bigint; prizePool: bigint; winnersCount: bigint } }
+    | { name: 'TournamentStarted'; args: { tournamentId: bigint } }
+    | { name: 'TournamentUpdated'; args: { tournamentId: bigint; newStartTime: bigint; newEndTime: bigint } }
+    | { name: 'Unpaused'; args: { account: string } }
+    | { name: 'Upgraded'; args: { implementation: string } };
+
+// ============ Contract ============
+export interface TournamentManagerContract extends BaseContract {
+    LINEUP_SIZE: BaseContractMethod<[], bigint, bigint>;
+    SECOND_ADMIN: BaseContractMethod<[], string, string>;
+    TOTAL_STARTUPS: BaseContractMethod<[], bigint, bigint>;
+    UPGRADE_INTERFACE_VERSION: BaseContractMethod<[], string, string>;
+    acceptOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+    addToPrizePool: BaseContractMethod<[tournamentId: BigNumberish], void, ContractTransactionResponse>;
+    canCancelEntry: BaseContractMethod<[tournamentId: BigNumberish, user: AddressLike], boolean, boolean>;
+    canRegister: BaseContractMethod<[tournamentId: BigNumberish, user: AddressLike], boolean, boolean>;
+    cancelEntry: BaseContractMethod<[tournamentId: BigNumberish], void, ContractTransactionResponse>;
+    cancelTournament: BaseContractMethod<[tournamentId: BigNumberish], void, ContractTransactionResponse>;
+    claimPrize: BaseContractMethod<[tournamentId: BigNumberish], void, ContractTransactionResponse>;
+    createTournament: BaseContractMethod<[registrationStart: BigNumberish, startTime: BigNumberish, endTime: BigNumberish], bigint, ContractTransactionResponse>;
+    emergencyWithdraw: BaseContractMethod<[amount: BigNumberish, to: AddressLike], void, ContractTransactionResponse>;
+    enterTournament: BaseContractMethod<[tournamentId: BigNumberish, cardIds: BigNumberish[]], void, ContractTransactionResponse>;
+    finalizeTournament: BaseContractMethod<[tournamentId: BigNumberish, winners: AddressLike[], amounts: BigNumberish[]], void, ContractTransactionResponse>;
+    finalizeWithPoints: BaseContractMethod<[tournamentId: BigNumberish, points: BigNumberish[]], void, ContractTransactionResponse>;
+    getActiveEntryCount: BaseContractMethod<[tournamentId: BigNumberish], bigint, bigint>;
+    getTournament: BaseContractMethod<[tournamentId: BigNumberish], TournamentOutput, TournamentOutput>;
+    getTournamentParticipants: BaseContractMethod<[tournamentId: BigNumberish], string[], string[]>;
+    getTournamentPhase: BaseContractMethod<[tournamentId: BigNumberish], string, string>;
+    getTournamentPoints: BaseContractMethod<[tournamentId: BigNumberish], bigint[], bigint[]>;
+    getUserLineup: BaseContractMethod<[tournamentId: BigNumberish, user: AddressLike], GetUserLineupResult, GetUserLineupResult>;
+    getUserPrize: BaseContractMethod<[tournamentId: BigNumberish, user: AddressLike], bigint, bigint>;
+    getUserScoreInfo: BaseContractMethod<[tournamentId: BigNumberish, user: AddressLike], GetUserScoreInfoResult, GetUserScoreInfoResult>;
+    hasEntered: BaseContractMethod<[arg0: BigNumberish, arg1: AddressLike], boolean, boolean>;
+    initialize: BaseContractMethod<[_nftContract: AddressLike], void, ContractTransactionResponse>;
+    lineups: BaseContractMethod<[arg0: BigNumberish, arg1: AddressLike], LineupsResult, LineupsResult>;
+    nextTournamentId: BaseContractMethod<[], bigint, bigint>;
+    nftContract: BaseContractMethod<[], string, string>;
+    owner: BaseContractMethod<[], string, string>;
+    packOpener: BaseContractMethod<[], string, string>;
+    pause: BaseContractMethod<[], void, ContractTransactionResponse>;
+    paused: BaseContractMethod<[], boolean, boolean>;
+    pendingOwner: BaseContractMethod<[], string, string>;
+    prizes: BaseContractMethod<[arg0: BigNumberish, arg1: AddressLike], bigint, bigint>;
+    proxiableUUID: BaseContractMethod<[], string, string>;
+    renounceOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+    setPackOpener: BaseContractMethod<[newPackOpener: AddressLike], void, ContractTransactionResponse>;
+    totalTournamentScore: BaseContractMethod<[arg0: BigNumberish], bigint, bigint>;
+    tournamentParticipants: BaseContractMethod<[arg0: BigNumberish, arg1: BigNumberish], string, string>;
+    tournamentPoints: BaseContractMethod<[arg0: BigNumberish, arg1: BigNumberish], bigint, bigint>;
+    tournaments: BaseContractMethod<[arg0: BigNumberish], TournamentsResult, TournamentsResult>;
+    transferOwnership: BaseContractMethod<[newOwner: AddressLike], void, ContractTransactionResponse>;
+    unpause: BaseContractMethod<[], void, ContractTransactionResponse>;
+    updateTournament: BaseContractMethod<[tournamentId: BigNumberish, newStartTime: BigNumberish, newEndTime: BigNumberish], void, ContractTransactionResponse>;
+    upgradeToAndCall: BaseContractMethod<[newImplementation: AddressLike, data: BytesLike], void, ContractTransactionResponse>;
+    userScores: BaseContractMethod<[arg0: BigNumberish, arg1: AddressLike], bigint, bigint>;
+    withdrawFromPrizePool: BaseContractMethod<[tournamentId: BigNumberish, amount: BigNumberish, to: AddressLike], void, ContractTransactionResponse>;
+}
@@ -0,0 +1,264 @@
+// Generated by scripts/generate-abis.js from contracts/UnicornX_NFT.sol - do not edit
+// Source hash: 4a833cb27cef64f60cdfc515367df0cb8f57f70a1f20f76d7943d456bca137b6
+import type {
+    AddressLike,
+    BaseContract,
+    BaseContractMethod,
+    BigNumberish,
+    BytesLike,
+    ContractTransactionResponse,
+} from 'ethers';
+
+// ============ ABI ============
+export const NFT_ABI = [
+    {"inputs":[{"internalType":"address","name":"target","type":"address"}],"name":"AddressEmptyCode","type":"error"},
+    {"inputs":[],"name":"ArrayLengthMismatch","type":"error"},
+    {"inputs":[],"name":"CannotMergeLegendary","type":"error"},
+    {"inputs":[],"name":"CardIsLocked","type":"error"},
+    {"inputs":[],"name":"CardNotLocked","type":"error"},
+    {"inputs":[{"internalType":"address","name":"implementation","type":"address"}],"name":"ERC1967InvalidImplementation","type":"error"},
+    {"inputs":[],"name":"ERC1967NonPayable","type":"error"},
+    {"inputs":[{"internalType":"uint256","name":"numerator","type":"uint256"},{"internalType":"uint256","name":"denominator","type":"uint256"}],"name":"ERC2981InvalidDefaultRoyalty","type":"error"},
+    {"inputs":[{"internalType":"address","name":"receiver","type":"address"}],"name":"ERC2981InvalidDefaultRoyaltyReceiver","type":"error"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"numerator","type":"uint256"},{"internalType":"uint256","name":"denominator","type":"uint256"}],"name":"ERC2981InvalidTokenRoyalty","type":"error"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"address","name":"receiver","type":"address"}],"name":"ERC2981InvalidTokenRoyaltyReceiver","type":"error"},
+    {"inputs":[],"name":"ERC721EnumerableForbiddenBatchMint","type":"error"},
+    {"inputs":[{"internalType":"address","name":"sender","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"address","name":"owner","type":"address"}],"name":"ERC721IncorrectOwner","type":"error"},
+    {"inputs":[{"internalType":"address","name":"operator","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"ERC721InsufficientApproval","type":"error"},
+    {"inputs":[{"internalType":"address","name":"approver","type":"address"}],"name":"ERC721InvalidApprover","type":"error"},
+    {"inputs":[{"internalType":"address","name":"operator","type":"address"}],"name":"ERC721InvalidOperator","type":"error"},
+    {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"ERC721InvalidOwner","type":"error"},
+    {"inputs":[{"internalType":"address","name":"receiver","type":"address"}],"name":"ERC721InvalidReceiver","type":"error"},
+    {"inputs":[{"internalType":"address","name":"sender","type":"address"}],"name":"ERC721InvalidSender","type":"error"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"ERC721NonexistentToken","type":"error"},
+    {"inputs":[{"internalType":"address","name":"owner","type":"address"},{"internalType":"uint256","name":"index","type":"uint256"}],"name":"ERC721OutOfBoundsIndex","type":"error"},
+    {"inputs":[],"name":"EnforcedPause","type":"error"},
+    {"inputs":[],"name":"ExpectedPause","type":"error"},
+    {"inputs":[],"name":"FailedCall","type":"error"},
+    {"inputs":[],"name":"InvalidInitialization","type":"error"},
+    {"inputs":[],"name":"InvalidStartupId","type":"error"},
+    {"inputs":[],"name":"MaxSupplyReached","type":"error"},
+    {"inputs":[],"name":"NotAdmin","type":"error"},
+    {"inputs":[],"name":"NotAuthorizedLocker","type":"error"},
+    {"inputs":[],"name":"NotAuthorizedMinter","type":"error"},
+    {"inputs":[],"name":"NotCardOwner","type":"error"},
+    {"inputs":[],"name":"NotInitializing","type":"error"},
+    {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+    {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+    {"inputs":[],"name":"RarityMismatch","type":"error"},
+    {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+    {"inputs":[],"name":"UUPSUnauthorizedCallContext","type":"error"},
+    {"inputs":[{"internalType":"bytes32","name":"slot","type":"bytes32"}],"name":"UUPSUnsupportedProxiableUUID","type":"error"},
+    {"inputs":[],"name":"ZeroAddress","type":"error"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"address","name":"approved","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"Approval","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"address","name":"operator","type":"address"},{"indexed":false,"internalType":"bool","name":"approved","type":"bool"}],"name":"ApprovalForAll","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"locker","type":"address"},{"indexed":false,"internalType":"bool","name":"authorized","type":"bool"}],"name":"AuthorizedLockerSet","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"minter","type":"address"},{"indexed":false,"internalType":"bool","name":"authorized","type":"bool"}],"name":"AuthorizedMinterSet","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"string","name":"newBaseURI","type":"string"}],"name":"BaseURIUpdated","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"},{"indexed":true,"internalType":"address","name":"locker","type":"address"}],"name":"CardLocked","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"},{"indexed":true,"internalType":"uint256","name":"startupId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"edition","type":"uint256"}],"name":"CardMinted","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"},{"indexed":true,"internalType":"address","name":"unlocker","type":"address"}],"name":"CardUnlocked","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256[]","name":"tokenIds","type":"uint256[]"},{"indexed":true,"internalType":"address","name":"locker","type":"address"}],"name":"CardsLockedBatch","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":false,"internalType":"uint256[3]","name":"burnedTokenIds","type":"uint256[3]"},{"indexed":true,"internalType":"uint256","name":"newTokenId","type":"uint256"},{"indexed":false,"internalType":"enum UnicornX_NFT.Rarity","name":"fromRarity","type":"uint8"},{"indexed":false,"internalType":"enum UnicornX_NFT.Rarity","name":"toRarity","type":"uint8"}],"name":"CardsMerged","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256[]","name":"tokenIds","type":"uint256[]"},{"indexed":true,"internalType":"address","name":"unlocker","type":"address"}],"name":"CardsUnlockedBatch","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint64","name":"version","type":"uint64"}],"name":"Initialized","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferStarted","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Paused","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":true,"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"Transfer","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":false,"internalType":"address","name":"account","type":"address"}],"name":"Unpaused","type":"event"},
+    {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"implementation","type":"address"}],"name":"Upgraded","type":"event"},
+    {"inputs":[],"name":"MAX_SUPPLY","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"ROYALTY_FEE","outputs":[{"internalType":"uint96","name":"","type":"uint96"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"ROYALTY_RECEIVER","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"SECOND_ADMIN","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"TOTAL_STARTUPS","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"UPGRADE_INTERFACE_VERSION","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"acceptOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"approve","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"authorizedLockers","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"authorizedMinters","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"balanceOf","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"baseURI","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256[]","name":"tokenIds","type":"uint256[]"}],"name":"batchLock","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256[5]","name":"startupIds","type":"uint256[5]"}],"name":"batchMint","outputs":[{"internalType":"uint256[5]","name":"tokenIds","type":"uint256[5]"}],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256[]","name":"tokenIds","type":"uint256[]"}],"name":"batchUnlock","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"getApproved","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"getCardInfo","outputs":[{"components":[{"internalType":"uint256","name":"startupId","type":"uint256"},{"internalType":"uint256","name":"edition","type":"uint256"},{"internalType":"enum UnicornX_NFT.Rarity","name":"rarity","type":"uint8"},{"internalType":"uint256","name":"multiplier","type":"uint256"},{"internalType":"bool","name":"isLocked","type":"bool"},{"internalType":"string","name":"name","type":"string"}],"internalType":"struct UnicornX_NFT.CardInfo","name":"info","type":"tuple"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"tokenOwner","type":"address"}],"name":"getOwnedTokens","outputs":[{"internalType":"uint256[]","name":"","type":"uint256[]"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"startupId","type":"uint256"}],"name":"getStartupInfo","outputs":[{"components":[{"internalType":"string","name":"name","type":"string"},{"internalType":"enum UnicornX_NFT.Rarity","name":"rarity","type":"uint8"},{"internalType":"uint256","name":"multiplier","type":"uint256"}],"internalType":"struct UnicornX_NFT.StartupInfo","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"initialOwner","type":"address"}],"name":"initialize","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"owner","type":"address"},{"internalType":"address","name":"operator","type":"address"}],"name":"isApprovedForAll","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"isLocked","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"lockCard","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256[3]","name":"tokenIds","type":"uint256[3]"}],"name":"mergeCards","outputs":[{"internalType":"uint256","name":"newTokenId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"startupId","type":"uint256"}],"name":"mint","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"name","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"ownerOf","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"pause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"paused","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"pendingOwner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"proxiableUUID","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"reinitializeStartups","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"uint256","name":"salePrice","type":"uint256"}],"name":"royaltyInfo","outputs":[{"internalType":"address","name":"receiver","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"safeTransferFrom","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"},{"internalType":"bytes","name":"data","type":"bytes"}],"name":"safeTransferFrom","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"operator","type":"address"},{"internalType":"bool","name":"approved","type":"bool"}],"name":"setApprovalForAll","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"locker","type":"address"},{"internalType":"bool","name":"authorized","type":"bool"}],"name":"setAuthorizedLocker","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"minter","type":"address"},{"internalType":"bool","name":"authorized","type":"bool"}],"name":"setAuthorizedMinter","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"string","name":"newBaseURI","type":"string"}],"name":"setBaseURI","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"receiver","type":"address"}],"name":"setRoyaltyReceiver","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"startupMintCount","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"startups","outputs":[{"internalType":"string","name":"name","type":"string"},{"internalType":"enum UnicornX_NFT.Rarity","name":"rarity","type":"uint8"},{"internalType":"uint256","name":"multiplier","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"bytes4","name":"interfaceId","type":"bytes4"}],"name":"supportsInterface","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"symbol","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"index","type":"uint256"}],"name":"tokenByIndex","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"owner","type":"address"},{"internalType":"uint256","name":"index","type":"uint256"}],"name":"tokenOfOwnerByIndex","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"tokenToEdition","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"tokenToStartup","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"tokenURI","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+    {"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+    {"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"transferFrom","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"uint256","name":"tokenId","type":"uint256"}],"name":"unlockCard","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[],"name":"unpause","outputs":[],"stateMutability":"nonpayable","type":"function"},
+    {"inputs":[{"internalType":"address","name":"newImplementation","type":"address"},{"internalType":"bytes","name":"data","type":"bytes"}],"name":"upgradeToAndCall","outputs":[],"stateMutability":"payable","type":"function"},
+];
+
+// ============ Structs ============
+export interface CardInfo {
+    startupId: bigint;
+    edition: bigint;
+    rarity: number;
+    multiplier: bigint;
+    isLocked: boolean;
+    name: string;
+}
+
+export interface CardInfoOutput {
+    startupId: bigint;
+    edition: bigint;
+    rarity: bigint;
+    multiplier: bigint;
+    isLocked: boolean;
+    name: string;
+}
+
+export function decodeCardInfo(raw: CardInfoOutput): CardInfo {
+    return {
+        startupId: raw.startupId,
+        edition: raw.edition,
+        rarity: Number(raw.rarity),
+        multiplier: raw.multiplier,
+        isLocked: raw.isLocked,
+        name: raw.name,
+    };
+}
+
+export interface StartupInfo {
+    name: string;
+    rarity: number;
+    multiplier: bigint;
+}
+
+export interface StartupInfoOutput {
+    name: string;
+    rarity: bigint;
+    multiplier: bigint;
+}
+
+export function decodeStartupInfo(raw: StartupInfoOutput): StartupInfo {
+    return {
+        name: raw.name,
+        rarity: Number(raw.rarity),
+        multiplier: raw.multiplier,
+    };
+}
+
+// ============ Multi-value Results ============
+export type RoyaltyInfoResult = [string, bigint] & { receiver: string; amount: bigint };
+export type StartupsResult = [string, bigint, bigint] & { name: string; rarity: bigint; multiplier: bigint };
+
+// ============ Events ============
+export type UnicornX_NFTEvent =
+    | { name: 'Approval'; args: { owner: string; approved: string; tokenId: bigint } }
+    | { name: 'ApprovalForAll'; args: { owner: string; operator: string; approved: boolean } }
+    | { name: 'AuthorizedLockerSet'; args: { locker: string; authorized: boolean } }
+    | { name: 'AuthorizedMinterSet'; args: { minter: string; authorized: boolean } }
+    | { name: 'BaseURIUpdated'; args: { newBaseURI: string } }
+    | { name: 'CardLocked'; args: { tokenId: bigint; locker: string } }
+    | { name: 'CardMinted'; args: { to: string; tokenId: bigint; startupId: bigint; edition: bigint } }
+    | { name: 'CardUnlocked'; args: { tokenId: bigint; unlocker: string } }
+    | { name: 'CardsLockedBatch'; args: { tokenIds: bigint[]; locker: string } }
+    | { name: 'CardsMerged'; args: { owner: string; burnedTokenIds: bigint[]; newTokenId: bigint; fromRarity: bigint; toRarity: bigint } }
+    | { name: 'CardsUnlockedBatch'; args: { tokenIds: bigint[]; unlocker: string } }
+    | { name: 'Initialized'; args: { version: bigint } }
+    | { name: 'OwnershipTransferStarted'; args: { previousOwner: string; newOwner: string } }
+    | { name: 'OwnershipTransferred'; args: { previousOwner: string; newOwner: string } }
+    | { name: 'Paused'; args: { account: string } }
+    | { name: 'Transfer'; args: { from: string; to: string; tokenId: bigint } }
+    | { name: 'Unpaused'; args: { account: string } }
+    | { name: 'Upgraded'; args: { implementation: string } };
+
+// ============ Contract ============
+export interface UnicornXNFTContract extends BaseContract {
+    MAX_SUPPLY: BaseContractMethod<[], bigint, bigint>;
+    ROYALTY_FEE: BaseContractMethod<[], bigint, bigint>;
+    ROYALTY_RECEIVER: BaseContractMethod<[], string, string>;
+    SECOND_ADMIN: BaseContractMethod<[], string, string>;
+    TOTAL_STARTUPS: BaseContractMethod<[], bigint, bigint>;
+    UPGRADE_INTERFACE_VERSION: BaseContractMethod<[], string, string>;
+    acceptOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+    approve: BaseContractMethod<[to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+    authorizedLockers: BaseContractMethod<[arg0: AddressLike], boolean, boolean>;
+    authorizedMinters: BaseContractMethod<[arg0: AddressLike], boolean, boolean>;
+    balanceOf: BaseContractMethod<[owner: AddressLike], bigint, bigint>;
+    baseURI: BaseContractMethod<[], string, string>;
+    batchLock: BaseContractMethod<[tokenIds: BigNumberish[]], void, ContractTransactionResponse>;
+    batchMint: BaseContractMethod<[to: AddressLike, startupIds: BigNumberish[]], bigint[], ContractTransactionResponse>;
+    batchUnlock: BaseContractMethod<[tokenIds: BigNumberish[]], void, ContractTransactionResponse>;
+    getApproved: BaseContractMethod<[tokenId: BigNumberish], string, string>;
+    getCardInfo: BaseContractMethod<[tokenId: BigNumberish], CardInfoOutput, CardInfoOutput>;
+    getOwnedTokens: BaseContractMethod<[tokenOwner: AddressLike], bigint[], bigint[]>;
+    getStartupInfo: BaseContractMethod<[startupId: BigNumberish], StartupInfoOutput, StartupInfoOutput>;
+    initialize: BaseContractMethod<[initialOwner: AddressLike], void, ContractTransactionResponse>;
+    isApprovedForAll: BaseContractMethod<[owner: AddressLike, operator: AddressLike], boolean, boolean>;
+    isLocked: BaseContractMethod<[arg0: BigNumberish], boolean, boolean>;
+    lockCard: BaseContractMethod<[tokenId: BigNumberish], void, ContractTransactionResponse>;
+    mergeCards: BaseContractMethod<[tokenIds: BigNumberish[]], bigint, ContractTransactionResponse>;
+    mint: BaseContractMethod<[to: AddressLike, startupId: BigNumberish], bigint, ContractTransactionResponse>;
+    name: BaseContractMethod<[], string, string>;
+    owner: BaseContractMethod<[], string, string>;
+    ownerOf: BaseContractMethod<[tokenId: BigNumberish], string, string>;
+    pause: BaseContractMethod<[], void, ContractTransactionResponse>;
+    paused: BaseContractMethod<[], boolean, boolean>;
+    pendingOwner: BaseContractMethod<[], string, string>;
+    proxiableUUID: BaseContractMethod<[], string, string>;
+    reinitializeStartups: BaseContractMethod<[], void, ContractTransactionResponse>;
+    renounceOwnership: BaseContractMethod<[], void, ContractTransactionResponse>;
+    royaltyInfo: BaseContractMethod<[tokenId: BigNumberish, salePrice: BigNumberish], RoyaltyInfoResult, RoyaltyInfoResult>;
+    'safeTransferFrom(address,address,uint256)': BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+    'safeTransferFrom(address,address,uint256,bytes)': BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish, data: BytesLike], void, ContractTransactionResponse>;
+    setApprovalForAll: BaseContractMethod<[operator: AddressLike, approved: boolean], void, ContractTransactionResponse>;
+    setAuthorizedLocker: BaseContractMethod<[locker: AddressLike, authorized: boolean], void, ContractTransactionResponse>;
+    setAuthorizedMinter: BaseContractMethod<[minter: AddressLike, authorized: boolean], void, ContractTransactionResponse>;
+    setBaseURI: BaseContractMethod<[newBaseURI: string], void, ContractTransactionResponse>;
+    setRoyaltyReceiver: BaseContractMethod<[receiver: AddressLike], void, ContractTransactionResponse>;
+    startupMintCount: BaseContractMethod<[arg0: BigNumberish], bigint, bigint>;
+    startups: BaseContractMethod<[arg0: BigNumberish], StartupsResult, StartupsResult>;
+    supportsInterface: BaseContractMethod<[interfaceId: BytesLike], boolean, boolean>;
+    symbol: BaseContractMethod<[], string, string>;
+    tokenByIndex: BaseContractMethod<[index: BigNumberish], bigint, bigint>;
+    tokenOfOwnerByIndex: BaseContractMethod<[owner: AddressLike, index: BigNumberish], bigint, bigint>;
+    tokenToEdition: BaseContractMethod<[arg0: BigNumberish], bigint, bigint>;
+    tokenToStartup: BaseContractMethod<[arg0: BigNumberish], bigint, bigint>;
+    tokenURI: BaseContractMethod<[tokenId: BigNumberish], string, string>;
+    totalSupply: BaseContractMethod<[], bigint, bigint>;
+    transferFrom: BaseContractMethod<[from: AddressLike, to: AddressLike, tokenId: BigNumberish], void, ContractTransactionResponse>;
+    transferOwnership: BaseContractMethod<[newOwner: AddressLike], void, ContractTransactionResponse>;
+    unlockCard: BaseContractMethod<[tokenId: BigNumberish], void, ContractTransactionResponse>;
+    unpause: BaseContractMethod<[], void, ContractTransactionResponse>;
+    upgradeToAndCall: BaseContractMethod<[newImplementation: AddressLike, data: BytesLike], void, ContractTransactionResponse>;
+}
@@ -0,0 +1,142 @@
+// Achievements — long-term goals computed from a wallet's cards, forge logs and tournament history
+//
+// Nothing is stored: every badge is re-derived from chain and API data, so it shows the same
+// on any device and on any profile, and a sold card can take a set badge with it
+
+import { ethers } from 'ethers';
+import { CONTRACTS, NFT_ABI } from './contracts';
+import { getLogs, getBlockTimestamps, toTopic, eventTopic } from './logs';
+import type { RaritySet } from './collection';
+import type { TournamentEntry } from './tournamentHistory';
+import { Rarity } from '../types';
+
+const RARITY_BY_INDEX = [Rarity.COMMON, Rarity.RARE, Rarity.EPIC, Rarity.EPIC_RARE, Rarity.LEGENDARY];
+
+export interface Forge {
+    newTokenId: number;
+    burnedTokenIds: number[];
+    fromRarity: Rarity;
+    toRarity: Rarity;
+    timestamp?: number;         // Epoch seconds
+}
+
+export type AchievementCategory = 'collection' | 'forge' | 'tournament';
+
+export interface Achievement {
+    id: string;
+    title: string;
+    description: string;
+    category: AchievementCategory;
+    current: number;
+    target: number;
+    unlocked: boolean;
+}
+
+export interface AchievementInput {
+    sets: RaritySet[];
+    forges: Forge[];
+    tournaments: TournamentEntry[];
+    finishedTournamentIds: Set<number>;     // Finalized — only these count as a finish
+}
+
+const nftIface = new ethers.Interface(NFT_ABI);
+
+/** Every merge the wallet made, oldest first */
+export async function getForgeHistory(address: string): Promise<Forge[]> {
+    const logs = await getLogs({
+        address: CONTRACTS.UnicornX_NFT,
+        topics: [eventTopic(nftIface, 'CardsMerged'), toTopic(ethers.getAddress(address))],
+    });
+    const times = await getBlockTimestamps(logs.map(l => l.blockNumber));
+
+    return logs.map(log => {
+        const { args } = nftIface.parseLog(log)!;
+        return {
+            newTokenId: Number(args.newTokenId),
+            burnedTokenIds: args.burnedTokenIds.map(Number),
+            fromRarity: RARITY_BY_INDEX[Number(args.fromRarity)] ?? Rarity.COMMON,
+            toRarity: RARITY_BY_INDEX[Number(args.toRarity)] ?? Rarity.COMMON,
+            timestamp: times.get(log.blockNumber),
+        };
+    });
+}
+
+const TOURNAMENT_GOAL = 5;
+const TOP_FINISH = 10;
+
+function progress(current: number, target: number) {
+    return { current: Math.min(current, target), target, unlocked: current >= target };
+}
+
+export function computeAchievements({ sets, forges, tournaments, finishedTournamentIds }: AchievementInput): Achievement[] {
+    const achievements: Achievement[] = [];
+
+    for (const set of sets) {
+        achievements.push({
+            id: `set-${set.rarity.toLowerCase()}`,
+            title: `Full ${set.rarity} Set`,
+            description: `Hold one card of every ${set.rarity} startup`,
+            category: 'collection',
+            ...progress(set.owned, set.startups.length),
+        });
+    }
+
+    const startupsHeld = sets.reduce((sum, s) => sum + s.owned, 0);
+    const startupCount = sets.reduce((sum, s) => sum + s.startups.length, 0);
+    achievements.push({
+        id: 'set-all',
+        title: 'Complete Collection',
+        description: `Hold a card of all ${startupCount} startups at once`,
+        category: 'collection',
+        ...progress(startupsHeld, startupCount),
+    });
+
+    achievements.push({
+        id: 'forge-first',
+        title: 'First Forge',
+        description: 'Merge three cards into a rarer one',
+        category: 'forge',
+        ...progress(forges.length, 1),
+    });
+    achievements.push({
+        id: 'forge-legendary',
+        title: 'Legendary Forge',
+        description: 'Forge a Legendary card',
+        category: 'forge',
+        ...progress(forges.filter(f => f.toRarity === Rarity.LEGENDARY).length, 1),
+    });
+
+    const entered = tournaments.filter(t => !t.cancelled);
+    achievements.push({
+        id: 'tournament-first',
+        title: 'Into the Arena',
+        description: 'Enter a tournament',
+        category: 'tournament',
+        ...progress(entered.length, 1),
+    });
+    achievements.push({
+        id: `tournament-${TOURNAMENT_GOAL}`,
+        title: 'Regular',
+        description: `Enter ${TOURNAMENT_GOAL} tournaments`,
+        category: 'tournament',
+        ...progress(entered.length, TOURNAMENT_GOAL),
+    });
+
+    const finishes = entered.filter(t => finishedTournamentIds.has(t.tournamentId) && t.rank !== null);
+    achievements.push({
+        id: `tournament-top-${TOP_FINISH}`,
+        title: `Top ${TOP_FINISH}`,
+        description: `Finish a tournament in the top ${TOP_FINISH}`,
+        category: 'tournament',
+        ...progress(finishes.filter(t => t.rank! <= TOP_FINISH).length, 1),
+    });
+    achievements.push({
+        id: 'tournament-winner',
+        title: 'Champion',
+        description: 'Finish a tournament in first place',
+        category: 'tournament',
+        ...progress(finishes.filter(t => t.rank === 1).length, 1),
+    });
+
+    return achievements;
+}
@@ -0,0 +1,110 @@
+// Market alerts — in-app notifications raised by saved searches, mirrored to the browser
+//
+// - Kept for the session only (newest first, capped); the toast stack shows unseen ones and the
+//   bell in the top bar lists them all
+// - Browser notifications go out only while the tab is in the background and permission was
+//   granted — in the foreground the toast is enough. Clicking one focuses the tab on the item
+
+import { navigate } from './router';
+
+const MAX_ALERTS = 50;
+const TOAST_DISMISS = 12000;
+
+export interface MarketAlert {
+    id: string;
+    title: string;              // "New listing: Openclaw #42"
+    body: string;               // Price and the search that matched
+    href: string;               // In-app path of the listing / auction
+    image?: string;
+    createdAt: number;          // Epoch ms
+    read: boolean;
+    toast: boolean;             // Still showing as a toast
+}
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+class AlertCenter {
+    private alerts: MarketAlert[] = [];
+    private listeners = new Set<(alerts: MarketAlert[]) => void>();
+    private toastTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    getAlerts(): MarketAlert[] {
+        return this.alerts;
+    }
+
+    push(alert: Pick<MarketAlert, 'title' | 'body' | 'href' | 'image'>): void {
+        const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+        this.alerts = [{ ...alert, id, createdAt: Date.now(), read: false, toast: true }, ...this.alerts].slice(0, MAX_ALERTS);
+        this.toastTimers.set(id, setTimeout(() => this.hideToast(id), TOAST_DISMISS));
+        this.emit();
+        this.notifyBrowser(id, alert);
+    }
+
+    // Open the alert's item and mark it read
+    open(id: string): void {
+        const alert = this.alerts.find(a => a.id === id);
+        if (!alert) return;
+        this.update(id, { read: true, toast: false });
+        navigate(alert.href);
+    }
+
+    hideToast(id: string): void {
+        clearTimeout(this.toastTimers.get(id));
+        this.toastTimers.delete(id);
+        this.update(id, { toast: false });
+    }
+
+    markAllRead(): void {
+        this.alerts = this.alerts.map(a => (a.read ? a : { ...a, read: true }));
+        this.emit();
+    }
+
+    clear(): void {
+        this.toastTimers.forEach(timer => clearTimeout(timer));
+        this.toastTimers.clear();
+        this.alerts = [];
+        this.emit();
+    }
+
+    subscribe(listener: (alerts: MarketAlert[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    permission(): NotificationPermissionState {
+        return notificationsSupported() ? Notification.permission : 'unsupported';
+    }
+
+    async requestPermission(): Promise<NotificationPermissionState> {
+        if (!notificationsSupported()) return 'unsupported';
+        if (Notification.permission !== 'default') return Notification.permission;
+        return Notification.requestPermission();
+    }
+
+    private notifyBrowser(id: string, alert: Pick<MarketAlert, 'title' | 'body' | 'image'>): void {
+        if (this.permission() !== 'granted' || document.visibilityState === 'visible') return;
+        try {
+            const notification = new Notification(alert.title, { body: alert.body, icon: alert.image || '/unicornx.png', tag: id });
+            notification.onclick = () => {
+                window.focus();
+                this.open(id);
+                notification.close();
+            };
+        } catch { /* Some mobile browsers only allow notifications from a service worker */ }
+    }
+
+    private update(id: string, changes: Partial<MarketAlert>): void {
+        this.alerts = this.alerts.map(a => (a.id === id ? { ...a, ...changes } : a));
+        this.emit();
+    }
+
+    private emit(): void {
+        const alerts = this.alerts;
+        this.listeners.forEach(listener => listener(alerts));
+    }
+}
+
+// Singleton — fed by useSearchAlerts, read by the bell and the toast stack
+export const alertCenter = new AlertCenter();
@@ -1,16 +1,80 @@
 import { ethers } from 'ethers';
+import { CHAIN_ID } from './contracts';
+
+const API_BASE = '/api';
+const SESSION_KEY = `unicornx:session:${CHAIN_ID}`;
+const MESSAGE_TTL = 5 * 60 * 1000;      // The signed message itself is only good for logging in
+const EXPIRY_MARGIN = 60;               // Seconds — renew a little before the server would reject
+
+export interface AuthSession {
+    address: string;        // Lowercase
+    token: string;
+    expiresAt: number;      // Epoch seconds
+}
+
+/**
+ * EIP-4361 (Sign-In with Ethereum) message — the wallet shows it as a login request
+ * bound to this site and chain instead of an opaque string.
+ */
+export function buildSiweMessage(address: string, nonce: string, issuedAt = new Date()): string {
+    const { host, origin } = window.location;
+    const expiration = new Date(issuedAt.getTime() + MESSAGE_TTL);
+    return [
+        `${host} wants you to sign in with your Ethereum account:`,
+        ethers.getAddress(address),
+        '',
+        'Sign in to UnicornX. This request does not trigger a transaction or cost any gas.',
+        '',
+        `URI: ${origin}`,
+        'Version: 1',
+        `Chain ID: ${CHAIN_ID}`,
+        `Nonce: ${nonce}`,
+        `Issued At: ${issuedAt.toISOString()}`,
+        `Expiration Time: ${expiration.toISOString()}`,
+    ].join('\n');
+}
 
 /**
- * Create a signed auth payload for API requests.
- * Human-readable message shown in wallet, with embedded auth data.
- * The backend verifies the signature to prove wallet ownership.
+ * Sign in: fetch a nonce, sign the SIWE message, exchange it for a session token.
  */
-export async function createSignedAuth(
-    signer: ethers.Signer,
-    address: string
-): Promise<{ message: string; signature: string }> {
-    const timestamp = Math.floor(Date.now() / 1000);
-    const message = `Welcome to UnicornX! Have fun!\n\nWallet: ${address.toLowerCase()}\nTimestamp: ${timestamp}`;
+export async function signInWithEthereum(signer: ethers.Signer, address: string): Promise<AuthSession> {
+    const nonceRes = await fetch(`${API_BASE}/auth/nonce`);
+    const nonceData = await nonceRes.json();
+    if (!nonceData.success) throw new Error(nonceData.error || 'Could not start sign-in');
+
+    const message = buildSiweMessage(address, nonceData.data.nonce);
     const signature = await signer.signMessage(message);
-    return { message, signature };
+
+    const res = await fetch(`${API_BASE}/auth/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature }),
+    });
+    const data = await res.json();
+    if (!data.success) throw new Error(data.error || 'Sign-in failed');
+    return data.data as AuthSession;
+}
+
+export function isSessionValid(session: AuthSession | null, address: string | null): session is AuthSession {
+    return !!session && !!address
+        && session.address === address.toLowerCase()
+        && session.expiresAt - EXPIRY_MARGIN > Date.now() / 1000;
+}
+
+// ── Persistence — a reload within the session doesn't ask for another signature ──
+
+export function loadSession(): AuthSession | null {
+    try {
+        const raw = localStorage.getItem(SESSION_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+export function saveSession(session: AuthSession | null): void {
+    try {
+        if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+        else localStorage.removeItem(SESSION_KEY);
+    } catch { /* storage unavailable */ }
 }
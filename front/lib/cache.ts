@@ -1,6 +1,12 @@
 // Centralized cache service for blockchain data
 // Cache first, update in background, refresh on changes
 // With subscription-based polling for real-time updates
+// Keys covered by the on-chain event watcher (lib/chainEvents) only poll as a slow fallback
+// Entries under PERSISTED_PREFIXES are written behind to IndexedDB (lib/persistentStore) and
+// restored before the first render, namespaced by chain ID so switching networks never restores foreign data
+
+import { ACTIVE_NETWORK } from './networks';
+import { persistentStore, encode, decode, entryId, type StoredEntry, type StorageUsage } from './persistentStore';
 
 type CacheEntry<T> = {
     data: T;
@@ -48,12 +54,26 @@ const DEFAULT_TTL = 30 * 1000;
 // Long TTL: 5 minutes for rarely changing data
 const LONG_TTL = 5 * 60 * 1000;
 
+const DAY = 24 * 60 * 60 * 1000;
+
+// Persisted key prefixes → how long an entry stays on disk after it was fetched.
+// Restored entries keep their fetch time, so anything past its TTL is re-fetched as usual
+const PERSISTED_PREFIXES: Record<string, number> = {
+    'nft:': 7 * DAY,            // Owned cards, card metadata, approvals
+    'marketplace:': DAY,        // Listings, auctions, bids, stats
+    'tournament:': 3 * DAY,     // Tournaments, lineups, entries
+};
+
+const FLUSH_DELAY = 1000;       // Batch writes from a polling burst into one transaction
+const RESTORE_TIMEOUT = 1500;   // First render never waits longer on a slow disk
+
 // Polling intervals
 const POLLING_INTERVALS = {
     FAST: 10 * 1000,      // 10s - for balances
     NORMAL: 30 * 1000,    // 30s - for NFTs, marketplace
     SLOW: 60 * 1000,      // 60s - for tournaments
     RARE: 5 * 60 * 1000,  // 5min - for pack prices
+    FALLBACK: 2 * 60 * 1000, // 2min - safety net for event-driven keys
 };
 
 class BlockchainCache {
@@ -62,6 +82,13 @@ class BlockchainCache {
     private subscriptions = new Map<string, Subscription>();
     private pollingIntervalId: NodeJS.Timeout | null = null;
     private isPolling = false;
+    // Key prefixes kept fresh by contract events — polled at FALLBACK rate while set
+    private eventDrivenPrefixes: string[] = [];
+    // Persisted keys changed since the last flush — written if still cached, deleted otherwise
+    private dirtyKeys = new Set<string>();
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(private readonly namespace: string) { }
 
     // Get cached data immediately, optionally fetch fresh in background
     get<T>(key: string): T | undefined {
@@ -76,6 +103,11 @@ class BlockchainCache {
         return Date.now() - entry.timestamp > ttl;
     }
 
+    // When the cached value was fetched (epoch ms) — restored entries keep their original fetch time
+    fetchedAt(key: string): number | undefined {
+        return this.cache.get(key)?.timestamp;
+    }
+
     // Set cache value
     set<T>(key: string, data: T): void {
         this.cache.set(key, {
@@ -83,11 +115,13 @@ class BlockchainCache {
             timestamp: Date.now(),
             key
         });
+        this.markDirty(key);
     }
 
     // Invalidate specific cache key
     invalidate(key: string): void {
         this.cache.delete(key);
+        this.markDirty(key);
     }
 
     // Invalidate all keys starting with prefix
@@ -95,12 +129,14 @@ class BlockchainCache {
         for (const key of this.cache.keys()) {
             if (key.startsWith(prefix)) {
                 this.cache.delete(key);
+                this.markDirty(key);
             }
         }
     }
 
     // Clear all cache
     clear(): void {
+        for (const key of this.cache.keys()) this.markDirty(key);
         this.cache.clear();
     }
 
@@ -217,26 +253,10 @@ class BlockchainCache {
                 const lastUpdate = entry?.timestamp || 0;
 
                 // Check if this key needs refresh
-                if (now - lastUpdate >= sub.interval) {
+                if (now - lastUpdate >= this.effectiveInterval(key, sub.interval)) {
                     // Fetch in background without blocking
                     if (!this.pendingRequests.has(key)) {
-                        const request = sub.fetcher()
-                            .then(data => {
-                                const oldData = this.get(key);
-                                this.set(key, data);
-                                this.pendingRequests.delete(key);
-
-                                // Notify subscribers only if data changed (using safe comparison)
-                                const hasChanged = !deepEqual(oldData, data);
-                                if (hasChanged || oldData === undefined) {
-                                    sub.callbacks.forEach(cb => cb(data));
-                                }
-                            })
-                            .catch(err => {
-                                this.pendingRequests.delete(key);
-                            });
-
-                        this.pendingRequests.set(key, request);
+                        this.fetchSubscription(key, sub);
                     }
                 }
             }
@@ -247,6 +267,36 @@ class BlockchainCache {
         this.pollingIntervalId = setInterval(pollTick, 5000);
     }
 
+    // Fetch a subscribed key and notify its callbacks if the data changed
+    private fetchSubscription(key: string, sub: Subscription): Promise<void> {
+        const request = sub.fetcher()
+            .then(data => {
+                const oldData = this.get(key);
+                this.set(key, data);
+                this.pendingRequests.delete(key);
+
+                // Notify subscribers only if data changed (using safe comparison)
+                const hasChanged = !deepEqual(oldData, data);
+                if (hasChanged || oldData === undefined) {
+                    sub.callbacks.forEach(cb => cb(data));
+                }
+            })
+            .catch(err => {
+                this.pendingRequests.delete(key);
+            });
+
+        this.pendingRequests.set(key, request);
+        return request;
+    }
+
+    // Event-driven keys fall back to slow polling; everything else keeps its own interval
+    private effectiveInterval(key: string, interval: number): number {
+        if (this.eventDrivenPrefixes.some(prefix => key.startsWith(prefix))) {
+            return Math.max(interval, POLLING_INTERVALS.FALLBACK);
+        }
+        return interval;
+    }
+
     // Stop polling
     private stopPolling(): void {
         if (this.pollingIntervalId) {
@@ -271,57 +321,157 @@ class BlockchainCache {
         }
     }
 
-    // ── LocalStorage persistence ──
+    // ── Event-driven invalidation ──
 
-    // Persist cache entries matching prefix to localStorage
-    persistKeys(prefix: string): void {
-        const toSave: Record<string, CacheEntry<any>> = {};
-        for (const [key, entry] of this.cache) {
-            if (key.startsWith(prefix)) {
-                toSave[key] = entry;
+    // Mark key prefixes as kept fresh by contract events (empty array = plain polling again)
+    setEventDriven(prefixes: string[]): void {
+        this.eventDrivenPrefixes = prefixes;
+    }
+
+    // Drop every cached key matching predicate; subscribed keys are re-fetched right away
+    invalidateWhere(predicate: (key: string) => boolean): void {
+        for (const key of [...this.cache.keys()]) {
+            if (predicate(key) && !this.subscriptions.has(key)) {
+                this.cache.delete(key);
+                this.markDirty(key);
             }
         }
-        try {
-            localStorage.setItem(`fyc:${prefix}`, JSON.stringify(toSave));
-        } catch {
-            // localStorage full or unavailable — silently ignore
+
+        for (const [key, sub] of this.subscriptions) {
+            if (!predicate(key)) continue;
+            // An in-flight request may have read pre-event state — fetch again once it settles
+            const pending = this.pendingRequests.get(key);
+            if (pending) {
+                pending.catch(() => { }).then(() => {
+                    if (this.subscriptions.get(key) === sub && !this.pendingRequests.has(key)) {
+                        this.fetchSubscription(key, sub);
+                    }
+                });
+            } else {
+                this.fetchSubscription(key, sub);
+            }
+        }
+    }
+
+    // Update a cached value in place and notify subscribers (no-op if key isn't cached)
+    patch<T>(key: string, updater: (data: T) => T): void {
+        const current = this.get<T>(key);
+        if (current === undefined) return;
+        const next = updater(current);
+        this.set(key, next);
+        this.subscriptions.get(key)?.callbacks.forEach(cb => cb(next));
+    }
+
+    // ── IndexedDB persistence ──
+
+    private retention(key: string): number | undefined {
+        for (const prefix in PERSISTED_PREFIXES) {
+            if (key.startsWith(prefix)) return PERSISTED_PREFIXES[prefix];
+        }
+        return undefined;
+    }
+
+    private markDirty(key: string): void {
+        if (this.retention(key) === undefined) return;
+        this.dirtyKeys.add(key);
+        if (!this.flushTimer) this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY);
+    }
+
+    // Write pending changes now — also called when the page is hidden
+    flush(): Promise<void> {
+        if (this.flushTimer) clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+
+        const puts: StoredEntry[] = [];
+        const deletes: string[] = [];
+        for (const key of this.dirtyKeys) {
+            const entry = this.cache.get(key);
+            if (!entry) {
+                deletes.push(entryId(this.namespace, key));
+                continue;
+            }
+            let value: string;
+            try {
+                value = encode(entry.data);
+            } catch {
+                continue; // Not serialisable (cycles) — stays in memory only
+            }
+            puts.push({
+                id: entryId(this.namespace, key),
+                namespace: this.namespace,
+                key,
+                value,
+                timestamp: entry.timestamp,
+                expiresAt: entry.timestamp + this.retention(key)!,
+                size: value.length * 2,
+            });
+        }
+        this.dirtyKeys.clear();
+        return persistentStore.write(puts, deletes);
+    }
+
+    // Load persisted entries (won't overwrite in-memory data) — returns how many were restored
+    async restore(): Promise<number> {
+        let count = this.migrateLocalStorage();
+        for (const stored of await persistentStore.load(this.namespace)) {
+            if (this.cache.has(stored.key) || this.retention(stored.key) === undefined) continue;
+            try {
+                this.cache.set(stored.key, { data: decode(stored.value), timestamp: stored.timestamp, key: stored.key });
+                count++;
+            } catch { /* corrupt record — the next fetch replaces it */ }
         }
+        return count;
     }
 
-    // Restore cache entries from localStorage (won't overwrite in-memory data)
-    restoreKeys(prefix: string): number {
+    // Cards persisted to localStorage by earlier versions move over once, then the slot is freed
+    private migrateLocalStorage(): number {
+        let count = 0;
         try {
-            const raw = localStorage.getItem(`fyc:${prefix}`);
+            const storageKey = `fyc:${this.namespace}:nft:`;
+            const raw = localStorage.getItem(storageKey);
+            localStorage.removeItem(storageKey);
+            // Entries persisted before namespacing belong to Shadownet — drop them rather than guess
+            localStorage.removeItem('fyc:nft:');
             if (!raw) return 0;
             const entries: Record<string, CacheEntry<any>> = JSON.parse(raw);
-            let count = 0;
             for (const [key, entry] of Object.entries(entries)) {
-                if (!this.cache.has(key)) {
-                    this.cache.set(key, entry);
-                    count++;
-                }
+                if (this.cache.has(key)) continue;
+                this.cache.set(key, entry);
+                this.markDirty(key);
+                count++;
             }
-            return count;
-        } catch {
-            return 0;
-        }
+        } catch { /* unreadable — nothing to migrate */ }
+        return count;
     }
 
-    // Clear persisted localStorage for a prefix
-    clearPersistedKeys(prefix: string): void {
-        try {
-            localStorage.removeItem(`fyc:${prefix}`);
-        } catch {}
+    // Size of what's on disk for this chain, plus the browser's quota for the site
+    storageUsage(): Promise<StorageUsage> {
+        return this.flush().then(() => persistentStore.usage(this.namespace));
+    }
+
+    // Drop everything persisted for this chain — the in-memory cache is left alone
+    async clearPersisted(): Promise<void> {
+        if (this.flushTimer) clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+        this.dirtyKeys.clear();
+        await persistentStore.clear(this.namespace);
     }
 }
 
-// Singleton instance
-export const blockchainCache = new BlockchainCache();
+// Singleton instance — one per page load, scoped to the active chain
+export const blockchainCache = new BlockchainCache(String(ACTIVE_NETWORK.chainId));
 
-// Auto-restore NFT card cache from localStorage on startup (instant load)
-const _restored = blockchainCache.restoreKeys('nft:');
-if (_restored > 0) {
-}
+// Restore persisted entries on startup (instant load) — index.tsx renders once this settles
+export const cacheRestored: Promise<void> = Promise.race([
+    blockchainCache.restore().then(() => { }, () => { }),
+    new Promise<void>(resolve => setTimeout(resolve, RESTORE_TIMEOUT)),
+]);
+
+// Pending writes would be lost with the page — start the transaction while it's still alive
+window.addEventListener('pagehide', () => { blockchainCache.flush(); });
+document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') blockchainCache.flush();
+});
 
 // Export polling intervals for use in hooks
 export { POLLING_INTERVALS };
@@ -343,12 +493,20 @@ export const CacheKeys = {
     ownedTokens: (address: string) => `nft:owned:${address}`,
     cardMetadata: (tokenId: number) => `nft:card:${tokenId}`,
     userCards: (address: string) => `nft:cards:${address}`,
+    marketplaceApproval: (address: string) => `nft:approvedForAll:${address}`,
+    mintStats: () => 'nft:mintStats',
+
+    // Log-derived history — rebuilt from logs each session, not persisted
+    cardProvenance: (tokenId: number) => `provenance:${tokenId}`,
+    costLedger: (address: string) => `provenance:ledger:${address}`,
+    tournamentHistory: (address: string) => `provenance:tournaments:${address}`,
+    forgeHistory: (address: string) => `provenance:forges:${address}`,
 
     // Tournament data
     activeTournamentId: () => 'tournament:activeId',
     tournament: (id: number) => `tournament:${id}`,
     allTournaments: () => 'tournament:all',
-    canRegister: (id: number) => `tournament:canRegister:${id}`,
+    canRegister: (id: number, address: string) => `tournament:canRegister:${id}:${address}`,
     userEntered: (id: number, address: string) => `tournament:entered:${id}:${address}`,
     userLineup: (id: number, address: string) => `tournament:lineup:${id}:${address}`,
     tournamentPhase: (id: number) => `tournament:phase:${id}`,
@@ -359,6 +517,14 @@ export const CacheKeys = {
     userBids: (address: string) => `marketplace:userBids:${address}`,
     marketplaceStats: () => 'marketplace:stats',
     activeAuctions: () => 'marketplace:auctions',
+    marketTrades: () => 'marketplace:trades',
+    startupFloors: () => 'marketplace:floors',
+
+    // Backend scoring data — refreshed by polling, not by chain events
+    startupPoints: () => 'scores:startups',
+
+    // Network data
+    gasPrice: () => 'network:gasPrice',
 };
 
 // TTL constants
@@ -0,0 +1,370 @@
+// On-chain event watcher — turns contract logs into targeted cache invalidations
+//
+// Flow:
+// 1. Every few seconds: one eth_blockNumber + one eth_getLogs across all four contracts
+// 2. Each decoded log maps to the exact CacheKeys it affects (owner, listing, tournament...)
+// 3. Matching keys are dropped/patched; subscribed keys re-fetch immediately
+// 4. While logs flow, BlockchainCache polls those keys only as a slow fallback —
+//    after repeated getLogs failures it goes back to normal polling until logs recover
+
+import { ethers } from 'ethers';
+import {
+    CONTRACTS,
+    getReadProvider,
+    NFT_ABI,
+    PACK_OPENER_ABI,
+    TOURNAMENT_ABI,
+    MARKETPLACE_V2_ABI,
+} from './contracts';
+import { blockchainCache, CacheKeys } from './cache';
+import type { UnicornX_NFTEvent } from './abi/UnicornX_NFT';
+import type { PackOpenerEvent } from './abi/PackOpener';
+import type { TournamentManagerEvent } from './abi/TournamentManager';
+import type { MarketplaceV2Event } from './abi/MarketplaceV2';
+import type { Listing, Auction } from '../hooks/useMarketplaceV2';
+
+const LOG_POLL_INTERVAL = 4000;   // 4s - Etherlink produces several blocks in this window
+const MAX_BLOCK_RANGE = 1000;     // Larger gaps (tab slept) → refresh everything instead of getLogs
+const MAX_FAILURES = 3;           // Consecutive errors before falling back to plain polling
+
+// Key prefixes the handlers below keep fresh (Portfolio/Marketplace polling keys included)
+const EVENT_DRIVEN_PREFIXES = ['nft:', 'pack:', 'tournament:', 'marketplace:', 'portfolio:cards:', 'provenance:'];
+
+// Polling keys used by components on top of the raw CacheKeys
+const DerivedKeys = {
+    marketplaceListings: 'marketplace:active-listings',
+    marketplaceAuctions: 'marketplace:active-auctions',
+    portfolioCards: (address: string) => `portfolio:cards:${address}`,
+};
+
+// Collects affected keys for one batch of logs — compared lowercase because wallets
+// hand out lowercase addresses while logs carry checksummed ones
+class Invalidation {
+    readonly keys = new Set<string>();
+    readonly prefixes = new Set<string>();
+    readonly removedListings = new Set<bigint>();
+    readonly removedAuctions = new Set<bigint>();
+
+    key(key: string) {
+        this.keys.add(key.toLowerCase());
+    }
+
+    prefix(prefix: string) {
+        this.prefixes.add(prefix.toLowerCase());
+    }
+
+    // Everything derived from an address' card collection
+    owner(address: string) {
+        if (!address || address === ethers.ZeroAddress) return;
+        this.key(CacheKeys.ownedTokens(address));
+        this.key(CacheKeys.userCards(address));
+        this.key(DerivedKeys.portfolioCards(address));
+        this.key(CacheKeys.costLedger(address));
+        this.prefix(`nft:prevTokenIds:${address}`);
+    }
+
+    card(tokenId: bigint | number) {
+        this.key(CacheKeys.cardMetadata(Number(tokenId)));
+        this.key(CacheKeys.cardProvenance(Number(tokenId)));
+    }
+
+    listings() {
+        this.key(CacheKeys.activeListings());
+        this.removedListing(null);
+    }
+
+    // Removals are patched into the raw list, so only derived keys need a re-fetch
+    removedListing(listingId: bigint | null) {
+        if (listingId !== null) this.removedListings.add(listingId);
+        this.key(DerivedKeys.marketplaceListings);
+        this.key(CacheKeys.marketplaceStats());
+        this.key(CacheKeys.startupFloors());
+    }
+
+    auctions() {
+        this.key(CacheKeys.activeAuctions());
+        this.removedAuction(null);
+    }
+
+    removedAuction(auctionId: bigint | null) {
+        if (auctionId !== null) this.removedAuctions.add(auctionId);
+        this.key(DerivedKeys.marketplaceAuctions);
+        this.key(CacheKeys.marketplaceStats());
+    }
+
+    lineup(tournamentId: bigint, user: string) {
+        const id = Number(tournamentId);
+        this.key(CacheKeys.tournament(id));
+        this.key(CacheKeys.allTournaments());
+        this.key(CacheKeys.userEntered(id, user));
+        this.key(CacheKeys.userLineup(id, user));
+        this.key(CacheKeys.tournamentHistory(user));
+    }
+
+    tournament(tournamentId: bigint) {
+        const id = Number(tournamentId);
+        this.key(CacheKeys.tournament(id));
+        this.key(CacheKeys.allTournaments());
+        this.prefix(`tournament:canRegister:${id}:`);
+        this.key(CacheKeys.tournamentPhase(id));
+    }
+
+    get isEmpty() {
+        return this.keys.size === 0 && this.prefixes.size === 0;
+    }
+
+    matches = (key: string): boolean => {
+        const lower = key.toLowerCase();
+        if (this.keys.has(lower)) return true;
+        for (const prefix of this.prefixes) {
+            if (lower.startsWith(prefix)) return true;
+        }
+        return false;
+    };
+}
+
+// Decoded log of any watched contract — the generated unions type each event's args
+type ContractEvent = UnicornX_NFTEvent | PackOpenerEvent | TournamentManagerEvent | MarketplaceV2Event;
+
+// Map a decoded log to the cache keys it makes stale
+function collect(log: ContractEvent, inv: Invalidation): void {
+    const { name, args: a } = log;
+    switch (name) {
+        // ── UnicornX_NFT ──
+        case 'Transfer':
+            inv.owner(a.from);
+            inv.owner(a.to);
+            inv.key(CacheKeys.cardProvenance(Number(a.tokenId)));
+            if (a.to === ethers.ZeroAddress) inv.card(a.tokenId); // burned by merge
+            break;
+        case 'CardMinted':
+            inv.key(CacheKeys.mintStats());
+            break;
+        case 'CardsMerged':
+            inv.owner(a.owner);
+            inv.key(CacheKeys.forgeHistory(a.owner));
+            inv.key(CacheKeys.mintStats());
+            a.burnedTokenIds.forEach(id => inv.card(id));
+            inv.card(a.newTokenId);
+            break;
+        case 'CardLocked':
+        case 'CardUnlocked':
+            inv.card(a.tokenId);
+            break;
+        case 'CardsLockedBatch':
+        case 'CardsUnlockedBatch':
+            a.tokenIds.forEach(id => inv.card(id));
+            break;
+        case 'ApprovalForAll':
+            if (a.operator.toLowerCase() === CONTRACTS.MarketplaceV2.toLowerCase()) {
+                inv.key(CacheKeys.marketplaceApproval(a.owner));
+            }
+            break;
+
+        // ── PackOpener ──
+        case 'PackPurchased':
+        case 'MultiplePacksOpened':
+            inv.key(CacheKeys.packsSold());
+            inv.key(CacheKeys.userPacks(a.buyer));
+            inv.key(CacheKeys.userUnopenedPacks(a.buyer));
+            inv.key(CacheKeys.costLedger(a.buyer));
+            break;
+        case 'PackOpened':
+            inv.key(CacheKeys.userPacks(a.owner));
+            inv.key(CacheKeys.userUnopenedPacks(a.owner));
+            break;
+        case 'PackPriceUpdated':
+            inv.key(CacheKeys.packPrice());
+            break;
+        case 'ActiveTournamentUpdated':
+            inv.key(CacheKeys.activeTournamentId());
+            break;
+
+        // ── TournamentManager ──
+        case 'TournamentCreated':
+            inv.key(CacheKeys.allTournaments());
+            break;
+        case 'LineupRegistered':
+            inv.lineup(a.tournamentId, a.user);
+            inv.owner(a.user);
+            a.cardIds.forEach(id => inv.card(id));
+            break;
+        case 'LineupCancelled':
+            inv.lineup(a.tournamentId, a.user);
+            inv.owner(a.user);
+            break;
+        case 'NFTsUnfrozen':
+            inv.lineup(a.tournamentId, a.user);
+            inv.owner(a.user);
+            a.cardIds.forEach(id => inv.card(id));
+            break;
+        case 'PrizeClaimed':
+            inv.lineup(a.tournamentId, a.user);
+            inv.key(CacheKeys.costLedger(a.user));
+            break;
+        case 'TournamentUpdated':
+        case 'TournamentStarted':
+        case 'TournamentFinalized':
+        case 'TournamentCancelled':
+        case 'PrizePoolIncreased':
+            inv.tournament(a.tournamentId);
+            break;
+
+        // ── MarketplaceV2 ──
+        case 'CardListed':
+            inv.listings();
+            inv.key(CacheKeys.userListings(a.seller));
+            break;
+        case 'CardSold':
+            inv.key(CacheKeys.marketTrades());
+            inv.removedListing(a.listingId);
+            inv.key(CacheKeys.userListings(a.seller));
+            break;
+        case 'ListingCancelled':
+            inv.removedListing(a.listingId);
+            inv.key(CacheKeys.userListings(a.seller));
+            break;
+        case 'BidPlaced':
+        case 'BidCancelled':
+            inv.key(CacheKeys.userBids(a.bidder));
+            break;
+        case 'BidAccepted':
+            // Accepting a bid also closes any listing of the token
+            inv.key(CacheKeys.userBids(a.bidder));
+            inv.key(CacheKeys.userListings(a.seller));
+            inv.key(CacheKeys.marketTrades());
+            inv.listings();
+            break;
+        case 'AuctionCreated':
+        case 'AuctionBid':
+            inv.auctions();
+            break;
+        case 'AuctionFinalized':
+            inv.key(CacheKeys.marketTrades());
+            inv.removedAuction(a.auctionId);
+            break;
+        case 'AuctionCancelled':
+            inv.removedAuction(a.auctionId);
+            break;
+    }
+}
+
+class ChainEventWatcher {
+    private provider: ethers.JsonRpcProvider | null = null;
+    private interfaces = new Map<string, ethers.Interface>();
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private lastBlock: number | null = null;
+    private failures = 0;
+    private running = false;
+    private isEventDriven = false;
+
+    constructor() {
+        this.interfaces.set(CONTRACTS.UnicornX_NFT.toLowerCase(), new ethers.Interface(NFT_ABI));
+        this.interfaces.set(CONTRACTS.PackOpener.toLowerCase(), new ethers.Interface(PACK_OPENER_ABI));
+        this.interfaces.set(CONTRACTS.TournamentManager.toLowerCase(), new ethers.Interface(TOURNAMENT_ABI));
+        this.interfaces.set(CONTRACTS.MarketplaceV2.toLowerCase(), new ethers.Interface(MARKETPLACE_V2_ABI));
+    }
+
+    /** True while logs are flowing and polling is in fallback mode */
+    get isHealthy(): boolean {
+        return this.running && this.lastBlock !== null && this.failures < MAX_FAILURES;
+    }
+
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        this.provider = getReadProvider();
+        this.schedule(0);
+    }
+
+    stop(): void {
+        this.running = false;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.provider = null;
+        this.lastBlock = null;
+        this.failures = 0;
+        this.isEventDriven = false;
+        blockchainCache.setEventDriven([]);
+    }
+
+    private schedule(delay: number): void {
+        if (!this.running) return;
+        this.timer = setTimeout(() => this.tick(), delay);
+    }
+
+    private async tick(): Promise<void> {
+        const provider = this.provider;
+        if (!provider) return;
+
+        try {
+            const latest = await provider.getBlockNumber();
+
+            if (this.lastBlock === null) {
+                // First successful tick — start from the head, nothing to replay
+                this.lastBlock = latest;
+            } else if (latest - this.lastBlock > MAX_BLOCK_RANGE) {
+                // Missed too many blocks to replay cheaply — refresh everything event-driven
+                blockchainCache.invalidateWhere(key => EVENT_DRIVEN_PREFIXES.some(p => key.startsWith(p)));
+                this.lastBlock = latest;
+            } else if (latest > this.lastBlock) {
+                const logs = await provider.getLogs({
+                    address: [...this.interfaces.keys()],
+                    fromBlock: this.lastBlock + 1,
+                    toBlock: latest,
+                });
+                this.applyLogs(logs);
+                this.lastBlock = latest;
+            }
+
+            if (!this.isEventDriven) {
+                blockchainCache.setEventDriven(EVENT_DRIVEN_PREFIXES);
+                this.isEventDriven = true;
+            }
+            this.failures = 0;
+            this.schedule(LOG_POLL_INTERVAL);
+        } catch {
+            this.failures++;
+            if (this.failures >= MAX_FAILURES && this.isEventDriven) {
+                // Log subscription is down — regular polling takes over until it recovers
+                blockchainCache.setEventDriven([]);
+                this.isEventDriven = false;
+            }
+            // Back off while the node is struggling
+            this.schedule(LOG_POLL_INTERVAL * Math.min(this.failures + 1, 8));
+        }
+    }
+
+    // Decode logs and invalidate/patch the affected cache keys in one pass
+    // Also fed receipt logs by the tx manager, so confirmed writes refresh without waiting a tick
+    applyLogs(logs: readonly ethers.Log[]): void {
+        if (logs.length === 0) return;
+
+        const inv = new Invalidation();
+        for (const log of logs) {
+            const iface = this.interfaces.get(log.address.toLowerCase());
+            if (!iface) continue;
+            try {
+                const parsed = iface.parseLog(log);
+                if (parsed) collect(parsed as unknown as ContractEvent, inv);
+            } catch { /* log from an unknown event signature */ }
+        }
+
+        if (inv.isEmpty) return;
+
+        // Removals are patched straight into the raw lists — no extra RPC round trip
+        if (inv.removedListings.size > 0) {
+            blockchainCache.patch<Listing[]>(CacheKeys.activeListings(), list =>
+                list.filter(l => !inv.removedListings.has(BigInt(l.listingId))));
+        }
+        if (inv.removedAuctions.size > 0) {
+            blockchainCache.patch<Auction[]>(CacheKeys.activeAuctions(), list =>
+                list.filter(a => !inv.removedAuctions.has(BigInt(a.auctionId))));
+        }
+
+        blockchainCache.invalidateWhere(inv.matches);
+    }
+}
+
+// Singleton instance — started by the app shell, stopped on unmount
+export const chainEvents = new ChainEventWatcher();
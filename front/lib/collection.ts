@@ -0,0 +1,79 @@
+// Collection sets — which of the 19 startups a wallet holds, grouped by rarity tier
+//
+// - A startup's rarity is fixed (STARTUPS), so a tier's set is complete with one card of each of its startups
+// - Mint counts come from startupMintCount; there is no per-startup cap, only the global MAX_SUPPLY
+
+import { STARTUPS, getNFTContract } from './contracts';
+import { CardData, Rarity, RARITY_ORDER } from '../types';
+
+export interface MintStats {
+    minted: Record<number, number>;     // startupId → editions minted so far
+    totalSupply: number;                // Live cards (merges burn)
+    maxSupply: number;
+}
+
+export interface StartupSet {
+    startupId: number;
+    name: string;
+    rarity: Rarity;
+    multiplier: number;
+    editions: number[];                 // Owned editions, ascending
+    tokenIds: number[];
+    minted: number | null;              // null until mint stats load
+}
+
+export interface RaritySet {
+    rarity: Rarity;
+    startups: StartupSet[];
+    owned: number;                      // Distinct startups held
+    complete: boolean;
+}
+
+export async function getMintStats(): Promise<MintStats> {
+    const nft = getNFTContract();
+    const ids = Object.keys(STARTUPS).map(Number);
+    const [counts, totalSupply, maxSupply] = await Promise.all([
+        Promise.all(ids.map(id => nft.startupMintCount(id))),
+        nft.totalSupply(),
+        nft.MAX_SUPPLY(),
+    ]);
+
+    const minted: Record<number, number> = {};
+    ids.forEach((id, i) => { minted[id] = Number(counts[i]); });
+    return { minted, totalSupply: Number(totalSupply), maxSupply: Number(maxSupply) };
+}
+
+/** Commonest tier first — the order players usually complete them in */
+export function buildCollection(cards: CardData[], mintStats?: MintStats | null): RaritySet[] {
+    const held = new Map<number, CardData[]>();
+    for (const card of cards) {
+        const list = held.get(card.startupId) ?? [];
+        list.push(card);
+        held.set(card.startupId, list);
+    }
+
+    const tiers = new Map<Rarity, StartupSet[]>();
+    for (const [key, startup] of Object.entries(STARTUPS)) {
+        const startupId = Number(key);
+        const rarity = startup.rarity as Rarity;
+        const owned = (held.get(startupId) ?? []).sort((a, b) => a.edition - b.edition);
+        const list = tiers.get(rarity) ?? [];
+        list.push({
+            startupId,
+            name: startup.name,
+            rarity,
+            multiplier: startup.multiplier,
+            editions: owned.map(c => c.edition),
+            tokenIds: owned.map(c => c.tokenId),
+            minted: mintStats?.minted[startupId] ?? null,
+        });
+        tiers.set(rarity, list);
+    }
+
+    return [...tiers.entries()]
+        .sort(([a], [b]) => (RARITY_ORDER[a] ?? 0) - (RARITY_ORDER[b] ?? 0))
+        .map(([rarity, startups]) => {
+            const owned = startups.filter(s => s.editions.length > 0).length;
+            return { rarity, startups, owned, complete: owned === startups.length };
+        });
+}
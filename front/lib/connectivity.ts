@@ -0,0 +1,19 @@
+// Browser connectivity — the offline banner and write guards read from here
+//
+// navigator.onLine only knows about the network interface, not whether the API answers,
+// so "online" can still mean slow; the service worker covers that with cached responses
+
+export const OFFLINE_MESSAGE = 'You’re offline. Transactions are paused until you reconnect.';
+
+export function isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+export function subscribeConnectivity(listener: () => void): () => void {
+    window.addEventListener('online', listener);
+    window.addEventListener('offline', listener);
+    return () => {
+        window.removeEventListener('online', listener);
+        window.removeEventListener('offline', listener);
+    };
+}
@@ -1,161 +1,31 @@
 // Contract addresses and ABIs for UnicornX
 import { ethers } from 'ethers';
+import { NFT_ABI, type UnicornXNFTContract } from './abi/UnicornX_NFT';
+import { PACK_OPENER_ABI, type PackOpenerContract } from './abi/PackOpener';
+import { TOURNAMENT_ABI, type TournamentManagerContract } from './abi/TournamentManager';
+import { MARKETPLACE_V2_ABI, type MarketplaceV2Contract } from './abi/MarketplaceV2';
+import { ACTIVE_NETWORK } from './networks';
+import { RpcPool, PooledJsonRpcProvider } from './rpcPool';
 
 // ============ Network Configuration ============
-export const CHAIN_ID = 127823;
-export const CHAIN_NAME = 'Etherlink Shadownet Testnet';
-export const RPC_URL = 'https://node.shadownet.etherlink.com';
-export const EXPLORER_URL = 'https://shadownet.explorer.etherlink.com';
+// Resolved from the network registry (deployment-*.json) once per page load
+export const NETWORK = ACTIVE_NETWORK;
+export const CHAIN_ID = NETWORK.chainId;
+export const CHAIN_NAME = NETWORK.name;
+export const RPC_URL = NETWORK.rpcUrl;
+export const EXPLORER_URL = NETWORK.explorerUrl;
 export const METADATA_API = '';
 
 // ============ Contract Addresses ============
-export const CONTRACTS = {
-    UnicornX_NFT: '0x172aC7aa7a6774559b1588E2F4426F7303a97cf1',
-    PackOpener: '0x78b602DE1721FF85C0c07F2Db5CF253c73590BaF',
-    TournamentManager: '0xc367886000da37447AC592fc3571ceb63184BF1b',
-    MarketplaceV2: '0x5BCf9A613C117dacD5C74199b288CCDdc7f5aa82',
-} as const;
-
-// ============ ABIs (minimal for frontend) ============
-export const NFT_ABI = [
-    // Read functions
-    'function ownerOf(uint256 tokenId) view returns (address)',
-    'function balanceOf(address owner) view returns (uint256)',
-    'function totalSupply() view returns (uint256)',
-    'function tokenToStartup(uint256 tokenId) view returns (uint256)',
-    'function tokenToEdition(uint256 tokenId) view returns (uint256)',
-    'function isLocked(uint256 tokenId) view returns (bool)',
-    'function startupMintCount(uint256 startupId) view returns (uint256)',
-    'function getCardInfo(uint256 tokenId) view returns (tuple(uint256 startupId, uint256 edition, uint8 rarity, uint256 multiplier, bool isLocked, string name))',
-    'function getOwnedTokens(address owner) view returns (uint256[])',
-    'function startups(uint256 id) view returns (tuple(string name, uint8 rarity, uint256 multiplier))',
-    // Write functions
-    'function mergeCards(uint256[3] tokenIds) returns (uint256)',
-    'function approve(address to, uint256 tokenId)',
-    'function setApprovalForAll(address operator, bool approved)',
-    // Events
-    'event CardMinted(address indexed to, uint256 indexed tokenId, uint256 indexed startupId, uint256 edition)',
-    'event CardsMerged(address indexed owner, uint256[3] burnedTokenIds, uint256 indexed newTokenId, uint8 fromRarity, uint8 toRarity)',
-    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
-];
-
-export const PACK_OPENER_ABI = [
-    // Read functions
-    'function currentPackPrice() view returns (uint256)',
-    'function packsSold() view returns (uint256)',
-    'function MAX_PACKS() view returns (uint256)',
-    'function getUserPacks(address user) view returns (uint256[])',
-    'function getPackInfo(uint256 packId) view returns (tuple(address buyer, uint256 purchaseTime, bool opened, uint256[5] cardIds))',
-    'function getUnopenedPackCount(address user) view returns (uint256)',
-    'function activeTournamentId() view returns (uint256)',
-    'function pendingPrizePool() view returns (uint256)',
-    'function getReferrer(address user) view returns (address)',
-    'function getReferralStats(address referrer) view returns (uint256 count, uint256 totalEarned)',
-    'function referralEarnings(address referrer) view returns (uint256)',
-    'function referralCount(address referrer) view returns (uint256)',
-    // Write functions - referrer is passed directly in buy functions
-    'function buyPack(address referrer) payable returns (uint256)',
-    'function buyAndOpenPack(address referrer) payable returns (uint256[5], uint256[5])',
-    'function buyAndOpenMultiplePacks(address referrer, uint256 count) payable returns (uint256[], uint256[])',
-    'function MAX_MULTI_PACKS() view returns (uint256)',
-    'function openPack(uint256 packId) returns (uint256[5], uint256[5])',
-    // Admin functions
-    'function withdraw()',
-    'function setPackPrice(uint256 newPrice)',
-    'function setActiveTournament(uint256 tournamentId)',
-    'function forwardPendingFunds()',
-    'function pause()',
-    'function unpause()',
-    // Events
-    'event PackPurchased(address indexed buyer, uint256 indexed packId, uint256 price, uint256 timestamp)',
-    'event PackOpened(address indexed opener, uint256 indexed packId, uint256[5] cardIds, uint256[5] startupIds)',
-    'event ReferralRegistered(address indexed user, address indexed referrer)',
-    'event ReferralRewardPaid(address indexed referrer, address indexed buyer, uint256 amount)',
-    'event MultiplePacksOpened(address indexed buyer, uint256 count, uint256[] cardIds, uint256[] startupIds)',
-    'event FundsDistributed(uint256 prizePoolAmount, uint256 platformAmount, uint256 referralAmount)',
-];
-
-export const TOURNAMENT_ABI = [
-    // Read functions
-    'function getTournament(uint256 tournamentId) view returns (tuple(uint256 id, uint256 registrationStart, uint256 startTime, uint256 endTime, uint256 prizePool, uint256 entryCount, uint8 status))',
-    'function getUserLineup(uint256 tournamentId, address user) view returns (tuple(uint256[5] cardIds, address owner, uint256 timestamp, bool cancelled, bool claimed))',
-    'function getTournamentParticipants(uint256 tournamentId) view returns (address[])',
-    'function canRegister(uint256 tournamentId) view returns (bool)',
-    'function canCancelEntry(uint256 tournamentId, address user) view returns (bool)',
-    'function hasEntered(uint256 tournamentId, address user) view returns (bool)',
-    'function getTournamentPhase(uint256 tournamentId) view returns (string)',
-    'function getActiveEntryCount(uint256 tournamentId) view returns (uint256)',
-    'function nextTournamentId() view returns (uint256)',
-    'function getUserScoreInfo(uint256 tournamentId, address user) view returns (uint256 score, uint256 prize, uint256 totalScore)',
-    'function getTournamentPoints(uint256 tournamentId) view returns (uint256[19])',
-    'function totalTournamentScore(uint256 tournamentId) view returns (uint256)',
-    'function userScores(uint256 tournamentId, address user) view returns (uint256)',
-    // Write functions
-    'function enterTournament(uint256 tournamentId, uint256[5] cardIds)',
-    'function cancelEntry(uint256 tournamentId)',
-    'function claimPrize(uint256 tournamentId)',
-    // Admin functions
-    'function createTournament(uint256 registrationStart, uint256 startTime, uint256 endTime) returns (uint256)',
-    'function finalizeTournament(uint256 tournamentId, address[] winners, uint256[] amounts)',
-    'function finalizeWithPoints(uint256 tournamentId, uint256[19] points)',
-    'function cancelTournament(uint256 tournamentId)',
-    'function withdrawFromPrizePool(uint256 tournamentId, uint256 amount, address to)',
-    'function emergencyWithdraw(uint256 amount, address to)',
-    'function pause()',
-    'function unpause()',
-    // Events
-    'event TournamentCreated(uint256 indexed tournamentId, uint256 registrationStart, uint256 startTime, uint256 endTime)',
-    'event LineupRegistered(uint256 indexed tournamentId, address indexed user, uint256[5] cardIds)',
-    'event LineupCancelled(uint256 indexed tournamentId, address indexed user)',
-];
-
-// Old MARKETPLACE_ABI removed - using MarketplaceV2 exclusively
-
-export const MARKETPLACE_V2_ABI = [
-    // ===== Listings =====
-    'function listCard(uint256 tokenId, uint256 price) returns (uint256)',
-    'function buyCard(uint256 listingId) payable',
-    'function cancelListing(uint256 listingId)',
-    'function getActiveListings() view returns (tuple(uint256 listingId, address seller, uint256 tokenId, uint256 price, uint256 listedAt, bool active)[])',
-    'function getListing(uint256 listingId) view returns (tuple(uint256 listingId, address seller, uint256 tokenId, uint256 price, uint256 listedAt, bool active))',
-    'function getListingsBySeller(address seller) view returns (tuple(uint256 listingId, address seller, uint256 tokenId, uint256 price, uint256 listedAt, bool active)[])',
-    'function getActiveListingCount() view returns (uint256)',
-    'function isTokenListed(uint256 tokenId) view returns (bool)',
-
-    // ===== Bids =====
-    'function placeBid(uint256 tokenId, uint256 expiration) payable returns (uint256)',
-    'function cancelBid(uint256 bidId)',
-    'function acceptBid(uint256 bidId)',
-    'function getActiveBidsForToken(uint256 tokenId) view returns (tuple(uint256 bidId, address bidder, uint256 tokenId, uint256 amount, uint256 expiration, bool active)[])',
-    'function getBidsOnToken(uint256 tokenId) view returns (tuple(uint256 bidId, address bidder, uint256 tokenId, uint256 amount, uint256 expiration, bool active)[])',
-    'function getUserBids(address user) view returns (tuple(uint256 bidId, address bidder, uint256 tokenId, uint256 amount, uint256 expiration, bool active)[])',
-
-    // ===== Auctions =====
-    'function createAuction(uint256 tokenId, uint256 startPrice, uint256 reservePrice, uint256 duration) returns (uint256)',
-    'function bidOnAuction(uint256 auctionId) payable',
-    'function finalizeAuction(uint256 auctionId)',
-    'function cancelAuction(uint256 auctionId)',
-    'function getActiveAuctions() view returns (tuple(uint256 auctionId, address seller, uint256 tokenId, uint256 startPrice, uint256 reservePrice, uint256 highestBid, address highestBidder, uint256 startTime, uint256 endTime, uint8 status)[])',
-    'function getAuction(uint256 auctionId) view returns (tuple(uint256 auctionId, address seller, uint256 tokenId, uint256 startPrice, uint256 reservePrice, uint256 highestBid, address highestBidder, uint256 startTime, uint256 endTime, uint8 status))',
-    'function getActiveAuctionCount() view returns (uint256)',
-
-    // ===== History & Stats =====
-    'function getTokenSaleHistory(uint256 tokenId) view returns (tuple(uint256 saleId, uint256 tokenId, address seller, address buyer, uint256 price, uint256 timestamp, uint8 saleType)[])',
-    'function getTokenStats(uint256 tokenId) view returns (tuple(uint256 lastSalePrice, uint256 totalVolume, uint256 salesCount, uint256 highestSale, uint256 lowestSale))',
-    'function getGlobalStats() view returns (uint256 _totalVolume, uint256 _totalSales, uint256 _activeListings, uint256 _activeAuctions)',
-
-    // Events
-    'event CardListed(uint256 indexed listingId, address indexed seller, uint256 indexed tokenId, uint256 price)',
-    'event CardSold(uint256 indexed listingId, address indexed seller, address indexed buyer, uint256 tokenId, uint256 price)',
-    'event ListingCancelled(uint256 indexed listingId, address indexed seller, uint256 indexed tokenId)',
-    'event BidPlaced(uint256 indexed bidId, address indexed bidder, uint256 indexed tokenId, uint256 amount)',
-    'event BidCancelled(uint256 indexed bidId, address indexed bidder, uint256 indexed tokenId)',
-    'event BidAccepted(uint256 indexed bidId, address indexed seller, address indexed bidder, uint256 tokenId, uint256 amount)',
-    'event AuctionCreated(uint256 indexed auctionId, address indexed seller, uint256 indexed tokenId, uint256 startPrice, uint256 reservePrice, uint256 endTime)',
-    'event AuctionBid(uint256 indexed auctionId, address indexed bidder, uint256 amount)',
-    'event AuctionFinalized(uint256 indexed auctionId, address indexed winner, uint256 finalPrice)',
-    'event AuctionCancelled(uint256 indexed auctionId, address indexed seller, uint256 indexed tokenId)',
-];
+export const CONTRACTS = NETWORK.contracts;
+
+// ============ ABIs ============
+// Generated from the compiled contracts by scripts/generate-abis.js — never edit by hand.
+// `npm run build` runs the drift check and fails when contracts/*.sol changed without regenerating.
+export { NFT_ABI } from './abi/UnicornX_NFT';
+export { PACK_OPENER_ABI } from './abi/PackOpener';
+export { TOURNAMENT_ABI } from './abi/TournamentManager';
+export { MARKETPLACE_V2_ABI } from './abi/MarketplaceV2';
 
 // ============ Startup Data (matches contract) ============
 export const STARTUPS: Record<number, { name: string; rarity: string; multiplier: number }> = {
@@ -188,34 +58,59 @@ export const STARTUPS: Record<number, { name: string; rarity: string; multiplier
 };
 
 // ============ Provider ============
-export function getProvider() {
-    if (typeof window !== 'undefined' && window.ethereum) {
-        return new ethers.BrowserProvider(window.ethereum as unknown as ethers.Eip1193Provider);
+// Reads always go through the RPC pool (the wallet's own node may be slow or on another chain);
+// signing goes through WalletContext.getSigner()
+export function getProvider(): ethers.JsonRpcProvider {
+    return getReadProvider();
+}
+
+// Shared read-only provider — eth_calls issued in the same tick go out as one JSON-RPC batch,
+// and each batch is sent to the healthiest endpoint of the network's RPC pool
+const READ_BATCH_MAX_COUNT = 50;
+let rpcPool: RpcPool | null = null;
+let readProvider: ethers.JsonRpcProvider | null = null;
+
+export function getRpcPool(): RpcPool {
+    if (!rpcPool) {
+        rpcPool = new RpcPool(NETWORK.rpcUrls);
+    }
+    return rpcPool;
+}
+
+export function getReadProvider(): ethers.JsonRpcProvider {
+    if (!readProvider) {
+        readProvider = new PooledJsonRpcProvider(getRpcPool(), CHAIN_ID, {
+            staticNetwork: true,
+            batchStallTime: 0,
+            batchMaxCount: READ_BATCH_MAX_COUNT,
+        });
     }
-    return new ethers.JsonRpcProvider(RPC_URL);
+    return readProvider;
 }
 
 // ============ Contract Instances ============
-export function getNFTContract(signerOrProvider?: ethers.Signer | ethers.Provider) {
-    const provider = signerOrProvider || getProvider();
-    return new ethers.Contract(CONTRACTS.UnicornX_NFT, NFT_ABI, provider);
+// Without a signer, contracts read through the batching provider — fire calls together
+// (Promise.all) instead of awaiting them one by one to get a single round trip
+export function getNFTContract(signerOrProvider?: ethers.Signer | ethers.Provider): UnicornXNFTContract {
+    const provider = signerOrProvider || getReadProvider();
+    return new ethers.Contract(CONTRACTS.UnicornX_NFT, NFT_ABI, provider) as unknown as UnicornXNFTContract;
 }
 
-export function getPackOpenerContract(signerOrProvider?: ethers.Signer | ethers.Provider) {
-    const provider = signerOrProvider || getProvider();
-    return new ethers.Contract(CONTRACTS.PackOpener, PACK_OPENER_ABI, provider);
+export function getPackOpenerContract(signerOrProvider?: ethers.Signer | ethers.Provider): PackOpenerContract {
+    const provider = signerOrProvider || getReadProvider();
+    return new ethers.Contract(CONTRACTS.PackOpener, PACK_OPENER_ABI, provider) as unknown as PackOpenerContract;
 }
 
-export function getTournamentContract(signerOrProvider?: ethers.Signer | ethers.Provider) {
-    const provider = signerOrProvider || getProvider();
-    return new ethers.Contract(CONTRACTS.TournamentManager, TOURNAMENT_ABI, provider);
+export function getTournamentContract(signerOrProvider?: ethers.Signer | ethers.Provider): TournamentManagerContract {
+    const provider = signerOrProvider || getReadProvider();
+    return new ethers.Contract(CONTRACTS.TournamentManager, TOURNAMENT_ABI, provider) as unknown as TournamentManagerContract;
 }
 
 // Old getMarketplaceContract removed - using getMarketplaceV2Contract exclusively
 
-export function getMarketplaceV2Contract(signerOrProvider?: ethers.Signer | ethers.Provider) {
-    const provider = signerOrProvider || getProvider();
-    return new ethers.Contract(CONTRACTS.MarketplaceV2, MARKETPLACE_V2_ABI, provider);
+export function getMarketplaceV2Contract(signerOrProvider?: ethers.Signer | ethers.Provider): MarketplaceV2Contract {
+    const provider = signerOrProvider || getReadProvider();
+    return new ethers.Contract(CONTRACTS.MarketplaceV2, MARKETPLACE_V2_ABI, provider) as unknown as MarketplaceV2Contract;
 }
 
 // ============ Utils ============
@@ -0,0 +1,163 @@
+// Cost basis ledger — what a wallet paid for each card and what it got back
+//
+// - Pack cards: the PackPurchased price split evenly across the 5 cards of the pack
+// - Marketplace buys: the price of the sale that brought the card to the wallet (getTokenSaleHistory)
+// - Forged cards: the summed basis of the 3 burned inputs
+// - Sales: proceeds net of marketplace fee and royalty, at today's rates
+// - Cards that arrived any other way (plain transfer, free pack) have a zero basis marked 'unknown'
+
+import { ethers } from 'ethers';
+import {
+    CONTRACTS,
+    NFT_ABI,
+    PACK_OPENER_ABI,
+    TOURNAMENT_ABI,
+    MARKETPLACE_V2_ABI,
+    getMarketplaceV2Contract,
+    getNFTContract,
+} from './contracts';
+import { decodeSale, type Sale } from './abi/MarketplaceV2';
+import { getLogs, eventTopic, toTopic } from './logs';
+
+const CARDS_PER_PACK = 5n;
+const BPS = 10000n;
+
+export type CostSource = 'pack' | 'market' | 'merge' | 'unknown';
+
+export interface CostBasis {
+    basis: bigint;              // wei
+    source: CostSource;
+}
+
+export interface RealizedSale {
+    tokenId: number;
+    basis: bigint;
+    proceeds: bigint;           // Net of marketplace fee and royalty
+    timestamp: number;          // Epoch seconds
+}
+
+export interface CostLedger {
+    basisByToken: Record<number, CostBasis>;   // Latest acquisition per card the wallet touched
+    realized: RealizedSale[];
+    packSpend: bigint;
+    packsBought: number;
+    packsUnopened: number;
+    marketSpend: bigint;
+    prizes: bigint;
+}
+
+const packIface = new ethers.Interface(PACK_OPENER_ABI);
+const nftIface = new ethers.Interface(NFT_ABI);
+const tournamentIface = new ethers.Interface(TOURNAMENT_ABI);
+const marketIface = new ethers.Interface(MARKETPLACE_V2_ABI);
+
+/** Builds the ledger for `address`; `heldTokenIds` are the cards it owns right now */
+export async function buildCostLedger(address: string, heldTokenIds: number[]): Promise<CostLedger> {
+    const who = toTopic(ethers.getAddress(address));
+
+    // Sequential — lib/logs may split each query into many range requests
+    const purchased = await getLogs({ address: CONTRACTS.PackOpener, topics: [eventTopic(packIface, 'PackPurchased'), who] });
+    const opened = await getLogs({ address: CONTRACTS.PackOpener, topics: [eventTopic(packIface, 'PackOpened'), who] });
+    const merged = await getLogs({ address: CONTRACTS.UnicornX_NFT, topics: [eventTopic(nftIface, 'CardsMerged'), who] });
+    const prizes = await getLogs({ address: CONTRACTS.TournamentManager, topics: [eventTopic(tournamentIface, 'PrizeClaimed'), null, who] });
+    // Cards the wallet sold — the sale history of each one holds the full buy/sell record
+    const sold = await getLogs({
+        address: CONTRACTS.MarketplaceV2,
+        topics: [[eventTopic(marketIface, 'CardSold'), eventTopic(marketIface, 'BidAccepted'), eventTopic(marketIface, 'AuctionCreated')], null, who],
+    });
+
+    const packPrice = new Map<bigint, bigint>();
+    let packSpend = 0n;
+    for (const log of purchased) {
+        const { packId, price } = packIface.parseLog(log)!.args;
+        packPrice.set(packId, price);
+        packSpend += price;
+    }
+
+    // Pack share per card; a non-divisible price puts the remainder on the first card
+    const mintBasis = new Map<number, CostBasis>();
+    for (const log of opened) {
+        const { packId, cardIds } = packIface.parseLog(log)!.args;
+        const price = packPrice.get(packId);
+        const share = price !== undefined ? price / CARDS_PER_PACK : 0n;
+        cardIds.forEach((id: bigint, i: number) => mintBasis.set(Number(id), {
+            basis: i === 0 && price !== undefined ? price - share * (CARDS_PER_PACK - 1n) : share,
+            source: price !== undefined ? 'pack' : 'unknown',
+        }));
+    }
+
+    const merges = merged.map(log => {
+        const { burnedTokenIds, newTokenId } = nftIface.parseLog(log)!.args;
+        return { burned: burnedTokenIds.map(Number) as number[], created: Number(newTokenId) };
+    });
+
+    const soldTokenIds = sold.map(log => {
+        const parsed = marketIface.parseLog(log)!;
+        return Number(parsed.args.tokenId);
+    });
+
+    const candidates = new Set<number>([
+        ...heldTokenIds,
+        ...mintBasis.keys(),
+        ...merges.flatMap(m => [...m.burned, m.created]),
+        ...soldTokenIds,
+    ]);
+
+    const marketplace = getMarketplaceV2Contract();
+    const [histories, marketplaceFee, royalty] = await Promise.all([
+        Promise.all([...candidates].map(async id =>
+            [id, (await marketplace.getTokenSaleHistory(id)).map(decodeSale)] as [number, Sale[]])),
+        marketplace.marketplaceFee(),
+        getNFTContract().royaltyInfo(0, BPS).then(r => r.amount).catch(() => 0n),
+    ]);
+    const netOf = (price: bigint) => price - (price * (marketplaceFee + royalty)) / BPS;
+
+    const me = address.toLowerCase();
+    const basisByToken: Record<number, CostBasis> = {};
+    const realized: RealizedSale[] = [];
+    let marketSpend = 0n;
+
+    // Merge outputs depend on their inputs' basis — resolved once the inputs are walked
+    const mergeOf = new Map(merges.map(m => [m.created, m.burned]));
+    const originOf = (tokenId: number): CostBasis => {
+        const inputs = mergeOf.get(tokenId);
+        if (inputs) {
+            const basis = inputs.reduce((sum, id) => sum + (basisByToken[id]?.basis ?? originOf(id).basis), 0n);
+            return { basis, source: 'merge' };
+        }
+        return mintBasis.get(tokenId) ?? { basis: 0n, source: 'unknown' };
+    };
+
+    // Forged cards last and in merge order, so their inputs are always walked first
+    const mergeRank = new Map(merges.map((m, i) => [m.created, i + 1]));
+    const ordered = [...histories].sort(([a], [b]) => (mergeRank.get(a) ?? 0) - (mergeRank.get(b) ?? 0));
+    for (const [tokenId, sales] of ordered) {
+        let current: CostBasis | null = originOf(tokenId);
+        for (const sale of sales) {
+            if (sale.buyer.toLowerCase() === me) {
+                current = { basis: sale.price, source: 'market' };
+                marketSpend += sale.price;
+            } else if (sale.seller.toLowerCase() === me) {
+                realized.push({
+                    tokenId,
+                    basis: current?.basis ?? 0n,
+                    proceeds: netOf(sale.price),
+                    timestamp: Number(sale.timestamp),
+                });
+                current = null;
+            }
+        }
+        // Sold and never re-bought — the realized entry carries its basis
+        if (current) basisByToken[tokenId] = current;
+    }
+
+    return {
+        basisByToken,
+        realized: realized.sort((a, b) => a.timestamp - b.timestamp),
+        packSpend,
+        packsBought: purchased.length,
+        packsUnopened: purchased.length - opened.filter(log => packPrice.has(packIface.parseLog(log)!.args.packId)).length,
+        marketSpend,
+        prizes: prizes.reduce((sum, log) => sum + tournamentIface.parseLog(log)!.args.prizeAmount, 0n),
+    };
+}
@@ -0,0 +1,195 @@
+// Turns wallet / RPC / contract errors into short messages users can act on
+//
+// - Custom errors are decoded against all four contract ABIs, so a revert surfaces
+//   correctly even when it comes from a contract the caller didn't talk to directly
+// - Wallet errors (rejection, funds, wrong chain) are recognised by code first, message second
+// - Anything unrecognised falls back to the caller's message instead of a JSON-RPC dump
+
+import { ethers } from 'ethers';
+import { NFT_ABI, PACK_OPENER_ABI, TOURNAMENT_ABI, MARKETPLACE_V2_ABI, NETWORK } from './contracts';
+
+const MAX_MESSAGE_LENGTH = 140;     // Longer raw messages are RPC payloads, not sentences
+
+// Contract custom errors → user-facing text (unlisted names fall back to a spaced-out name)
+const CUSTOM_ERROR_MESSAGES: Record<string, string> = {
+    // Shared
+    EnforcedPause: 'This contract is paused for maintenance. Try again later.',
+    NotAdmin: 'Only an admin can do this.',
+    OwnableUnauthorizedAccount: 'Only the contract owner can do this.',
+    ReentrancyGuardReentrantCall: 'Another call is already in progress. Try again.',
+    ZeroAddress: 'An address is missing.',
+    WithdrawFailed: 'The withdrawal transfer failed.',
+    ArrayLengthMismatch: 'The input lists have different lengths.',
+
+    // UnicornX_NFT
+    RarityMismatch: 'Cards have different rarities on-chain. Try refreshing your cards — cached data may be stale.',
+    CannotMergeLegendary: 'Legendary cards are already the highest rarity and can’t be merged.',
+    CardIsLocked: 'This card is locked in a tournament lineup.',
+    CardNotLocked: 'This card is not locked.',
+    NotCardOwner: 'You don’t own one of these cards.',
+    MaxSupplyReached: 'The maximum card supply has been reached.',
+    InvalidStartupId: 'Unknown startup.',
+    ERC721NonexistentToken: 'This card doesn’t exist (it may have been merged).',
+    ERC721IncorrectOwner: 'You don’t own this card anymore.',
+    ERC721InsufficientApproval: 'The marketplace isn’t approved to move this card yet.',
+    ERC721InvalidReceiver: 'The recipient is a contract that can’t hold cards.',
+
+    // PackOpener
+    InsufficientPayment: 'The amount sent is below the current price. Refresh and try again.',
+    InvalidPackCount: 'You can buy between 1 and 10 packs at once.',
+    MaxPacksReached: 'All packs have been sold.',
+    CannotReferSelf: 'You can’t use your own referral link.',
+    PackAlreadyOpened: 'This pack was already opened.',
+    PackDoesNotExist: 'This pack doesn’t exist.',
+    NotPackOwner: 'You don’t own this pack.',
+    InvalidPrice: 'Enter a valid price.',
+
+    // TournamentManager
+    AlreadyEntered: 'You already have a lineup in this tournament.',
+    NotEntered: 'You haven’t entered this tournament.',
+    RegistrationNotOpen: 'Registration for this tournament isn’t open.',
+    TournamentNotInRegistration: 'Registration for this tournament is closed.',
+    TournamentAlreadyStarted: 'This tournament has already started.',
+    CannotCancelAfterStart: 'Entries can’t be cancelled once the tournament has started.',
+    TournamentNotActive: 'This tournament isn’t active.',
+    TournamentNotFinalized: 'Prizes can be claimed once the tournament is finalized.',
+    TournamentAlreadyFinalized: 'This tournament is already finalized.',
+    TournamentCancelledError: 'This tournament was cancelled.',
+    TournamentDoesNotExist: 'This tournament doesn’t exist.',
+    CardAlreadyLocked: 'One of these cards is already in another lineup.',
+    LineupAlreadyCancelled: 'This lineup was already cancelled.',
+    AlreadyClaimed: 'You already claimed this prize.',
+    InsufficientPrizePool: 'The prize pool doesn’t hold enough funds.',
+    InvalidTimeRange: 'Check the tournament dates: registration < start < end.',
+
+    // MarketplaceV2
+    ListingNotActive: 'This listing is no longer available.',
+    TokenAlreadyListed: 'This card is already listed.',
+    TokenInAuction: 'This card is in an active auction.',
+    TokenIsLocked: 'This card is locked in a tournament lineup and can’t be sold.',
+    NotTokenOwner: 'You don’t own this card.',
+    NotListingSeller: 'Only the seller can cancel this listing.',
+    NotAuctionSeller: 'Only the seller can manage this auction.',
+    NotBidder: 'Only the bidder can cancel this bid.',
+    BidNotActive: 'This bid is no longer active.',
+    BidExpired: 'This bid has expired.',
+    BidNotExpired: 'This bid hasn’t expired yet.',
+    BidTooLow: 'Your bid is too low — it must beat the current bid by at least 5%.',
+    AuctionNotActive: 'This auction is no longer active.',
+    AuctionEnded: 'This auction has ended.',
+    AuctionNotEnded: 'This auction is still running.',
+    AuctionHasBids: 'This auction already has bids and can’t be cancelled.',
+    InvalidDuration: 'Choose a valid duration.',
+    ZeroPrice: 'The price must be greater than 0.',
+    TransferFailed: 'The payment transfer failed.',
+};
+
+export interface DecodedRevert {
+    name: string;
+    args: ethers.Result | null;
+}
+
+// One interface holding every custom error of the four contracts (shared ones once)
+let errorInterface: ethers.Interface | null = null;
+function getErrorInterface(): ethers.Interface {
+    if (!errorInterface) {
+        const seen = new Set<string>();
+        const fragments = [NFT_ABI, PACK_OPENER_ABI, TOURNAMENT_ABI, MARKETPLACE_V2_ABI]
+            .flatMap(abi => abi.filter(f => f.type === 'error'))
+            .filter(f => {
+                const sig = `${f.name}(${f.inputs.map(i => i.type).join(',')})`;
+                if (seen.has(sig)) return false;
+                seen.add(sig);
+                return true;
+            });
+        errorInterface = new ethers.Interface(fragments);
+    }
+    return errorInterface;
+}
+
+// Revert data sits at different depths depending on wallet and ethers wrapping
+function findRevertData(e: any, depth = 0): string | null {
+    if (!e || depth > 4) return null;
+    if (typeof e === 'string') return /^0x[0-9a-fA-F]{8}/.test(e) ? e : null;
+    if (typeof e !== 'object') return null;
+    for (const key of ['data', 'error', 'info', 'cause']) {
+        const found = findRevertData(e[key], depth + 1);
+        if (found) return found;
+    }
+    return null;
+}
+
+// Messages along the wrapping chain, for keyword checks — shortMessage first, since
+// ethers' full message embeds the transaction JSON (chainId, value...)
+function messagesOf(e: any): string {
+    return [e?.shortMessage || e?.message, e?.info?.error?.message, e?.error?.message, e?.data?.message]
+        .filter(Boolean)
+        .join(' | ');
+}
+
+function errorCode(e: any): unknown {
+    return e?.info?.error?.code ?? e?.error?.code ?? e?.code;
+}
+
+/** Custom error behind a revert, if the data matches one of our ABIs */
+export function decodeRevert(e: any): DecodedRevert | null {
+    if (e?.revert?.name) return { name: e.revert.name, args: e.revert.args ?? null };
+
+    const data = findRevertData(e);
+    if (!data) return null;
+    try {
+        const parsed = getErrorInterface().parseError(data);
+        return parsed ? { name: parsed.name, args: parsed.args } : null;
+    } catch {
+        return null;
+    }
+}
+
+/** User closed or rejected the wallet prompt — usually not worth an error message */
+export function isUserRejection(e: any): boolean {
+    const code = errorCode(e);
+    return code === 4001 || code === 'ACTION_REJECTED' || e?.code === 'ACTION_REJECTED'
+        || /user (rejected|denied|cancelled)|rejected by user/i.test(messagesOf(e));
+}
+
+/** eth_getLogs rejected for covering too many blocks or returning too many logs — worth retrying smaller */
+export function isLogRangeError(e: any): boolean {
+    return errorCode(e) === -32005
+        || /block range|range (is )?too (large|wide|big)|too many (blocks|results|logs)|more than \d+ (results|logs)|response size|limit exceeded/i.test(messagesOf(e));
+}
+
+/** Friendly, actionable message for any error thrown by a wallet or contract call */
+export function describeError(e: any, fallback = 'Something went wrong. Please try again.'): string {
+    if (!e) return fallback;
+
+    if (isUserRejection(e)) return 'Request rejected in your wallet.';
+
+    const code = errorCode(e);
+    const text = messagesOf(e);
+
+    if (code === 'INSUFFICIENT_FUNDS' || /insufficient funds|insufficient balance/i.test(text)) {
+        return `Not enough ${NETWORK.currency} to cover the amount plus gas. Top up your wallet and try again.`;
+    }
+    if (code === 4902 || /network changed|must match the active chain|does not match the target chain|wrong (network|chain)|unrecognized chain/i.test(text)) {
+        return `Your wallet is on a different network. Switch to ${NETWORK.name} and try again.`;
+    }
+    if (code === -32002 || /already pending/i.test(text)) {
+        return 'Your wallet already has a request waiting — open it to continue.';
+    }
+
+    const revert = decodeRevert(e);
+    if (revert) {
+        if (revert.name === 'Error' && revert.args?.[0]) return String(revert.args[0]);
+        return CUSTOM_ERROR_MESSAGES[revert.name] || revert.name.replace(/([a-z])([A-Z])/g, '$1 $2');
+    }
+
+    // require() strings come through as the reason
+    if (typeof e.reason === 'string' && e.reason && !/unknown custom error/i.test(e.reason)) return e.reason;
+
+    if (e.code === 'CALL_EXCEPTION') return `${fallback} — the transaction was reverted.`;
+    if (e.code === 'TIMEOUT' || /timed? ?out/i.test(text)) return 'The network took too long to respond. Check the transaction status before retrying.';
+
+    const message: string = e.shortMessage || e.message || '';
+    if (message && message.length <= MAX_MESSAGE_LENGTH && !message.includes('{')) return message;
+    return fallback;
+}
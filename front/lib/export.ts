@@ -0,0 +1,244 @@
+// Portfolio export — holdings plus the wallet's on-chain history as CSV or JSON
+//
+// History comes from contract logs (lib/logs), so every row carries its tx hash and block time.
+// Amounts are decimal XTZ strings; timestamps are ISO-8601 UTC.
+
+import { ethers } from 'ethers';
+import {
+    CONTRACTS,
+    NETWORK,
+    PACK_OPENER_ABI,
+    TOURNAMENT_ABI,
+    MARKETPLACE_V2_ABI,
+    formatXTZ,
+    getMarketplaceV2Contract,
+    getNFTContract,
+    getPackOpenerContract,
+} from './contracts';
+import { decodeAuction } from './abi/MarketplaceV2';
+import { decodeCardInfo } from './abi/UnicornX_NFT';
+import { getLogs, getBlockTimestamps, eventTopic, toTopic } from './logs';
+import { CardData } from '../types';
+
+export type ExportSection = 'holdings' | 'trades' | 'bids' | 'packs' | 'referrals' | 'prizes';
+
+export const EXPORT_SECTIONS: { id: ExportSection; label: string }[] = [
+    { id: 'holdings', label: 'Holdings' },
+    { id: 'trades', label: 'Marketplace trades' },
+    { id: 'bids', label: 'Bids' },
+    { id: 'packs', label: 'Pack purchases' },
+    { id: 'referrals', label: 'Referral earnings' },
+    { id: 'prizes', label: 'Tournament prizes' },
+];
+
+type Cell = string | number | boolean | null;
+type Row = Record<string, Cell>;
+
+export interface PortfolioExport {
+    address: string;
+    network: string;
+    chainId: number;
+    exportedAt: string;
+    referralSummary: { count: number; totalEarned: string };
+    holdings: Row[];
+    trades: Row[];
+    bids: Row[];
+    packs: Row[];
+    referrals: Row[];
+    prizes: Row[];
+}
+
+const packIface = new ethers.Interface(PACK_OPENER_ABI);
+const tournamentIface = new ethers.Interface(TOURNAMENT_ABI);
+const marketIface = new ethers.Interface(MARKETPLACE_V2_ABI);
+
+// Columns every history row starts with
+function base(log: ethers.Log, times: Map<number, number>): Row {
+    const time = times.get(log.blockNumber);
+    return {
+        timestamp: time !== undefined ? new Date(time * 1000).toISOString() : null,
+        block: log.blockNumber,
+        txHash: log.transactionHash,
+    };
+}
+
+export async function buildPortfolioExport(address: string, cards: CardData[]): Promise<PortfolioExport> {
+    const me = address.toLowerCase();
+    const who = toTopic(ethers.getAddress(address));
+    const marketplace = getMarketplaceV2Contract();
+
+    const packLogs = await getLogs({ address: CONTRACTS.PackOpener, topics: [eventTopic(packIface, 'PackPurchased'), who] });
+    const referralLogs = await getLogs({ address: CONTRACTS.PackOpener, topics: [eventTopic(packIface, 'ReferralRewardPaid'), who] });
+    const prizeLogs = await getLogs({ address: CONTRACTS.TournamentManager, topics: [eventTopic(tournamentIface, 'PrizeClaimed'), null, who] });
+
+    // Trades: the wallet as seller (topic 2) or buyer (topic 3); auctions are matched by id below
+    const tradeTopics = [eventTopic(marketIface, 'CardSold'), eventTopic(marketIface, 'BidAccepted')];
+    const asSeller = await getLogs({ address: CONTRACTS.MarketplaceV2, topics: [tradeTopics, null, who] });
+    const asBuyer = await getLogs({ address: CONTRACTS.MarketplaceV2, topics: [tradeTopics, null, null, who] });
+    const myAuctions = await getLogs({ address: CONTRACTS.MarketplaceV2, topics: [eventTopic(marketIface, 'AuctionCreated'), null, who] });
+    const won = await getLogs({ address: CONTRACTS.MarketplaceV2, topics: [eventTopic(marketIface, 'AuctionFinalized'), null, who] });
+    const auctionIds = myAuctions.map(log => log.topics[1]);
+    const sold = auctionIds.length > 0
+        ? await getLogs({ address: CONTRACTS.MarketplaceV2, topics: [eventTopic(marketIface, 'AuctionFinalized'), auctionIds] })
+        : [];
+
+    const bidLogs = await getLogs({ address: CONTRACTS.MarketplaceV2, topics: [eventTopic(marketIface, 'BidPlaced'), null, who] });
+    const auctionBidLogs = await getLogs({ address: CONTRACTS.MarketplaceV2, topics: [eventTopic(marketIface, 'AuctionBid'), null, who] });
+
+    // Auction details (seller, token) for finalized auctions and auction bids
+    const auctionIdSet = new Set<bigint>([
+        ...won.map(log => BigInt(log.topics[1])),
+        ...sold.map(log => BigInt(log.topics[1])),
+        ...auctionBidLogs.map(log => BigInt(log.topics[1])),
+    ]);
+    const auctions = new Map(await Promise.all([...auctionIdSet].map(async id =>
+        [id, decodeAuction(await marketplace.getAuction(id))] as const)));
+
+    const allLogs = [packLogs, referralLogs, prizeLogs, asSeller, asBuyer, won, sold, bidLogs, auctionBidLogs].flat();
+    const times = await getBlockTimestamps(allLogs.map(log => log.blockNumber));
+
+    const trades: Row[] = [];
+    for (const log of [...asSeller, ...asBuyer]) {
+        const { name, args } = marketIface.parseLog(log)!;
+        const seller = String(args.seller).toLowerCase();
+        const buyer = String(name === 'CardSold' ? args.buyer : args.bidder).toLowerCase();
+        trades.push({
+            ...base(log, times),
+            side: seller === me ? 'sell' : 'buy',
+            saleType: name === 'CardSold' ? 'listing' : 'offer',
+            tokenId: Number(args.tokenId),
+            startup: '',
+            priceXTZ: formatXTZ(name === 'CardSold' ? args.price : args.amount),
+            counterparty: seller === me ? buyer : seller,
+        });
+    }
+    // An auction the wallet both created and won would match both queries
+    const seenAuctions = new Set<string>();
+    for (const log of [...won, ...sold]) {
+        const { args } = marketIface.parseLog(log)!;
+        const auction = auctions.get(BigInt(log.topics[1]));
+        if (!auction || args.winner === ethers.ZeroAddress || seenAuctions.has(log.transactionHash)) continue;
+        seenAuctions.add(log.transactionHash);
+        const isSeller = auction.seller.toLowerCase() === me;
+        trades.push({
+            ...base(log, times),
+            side: isSeller ? 'sell' : 'buy',
+            saleType: 'auction',
+            tokenId: Number(auction.tokenId),
+            startup: '',
+            priceXTZ: formatXTZ(args.finalPrice),
+            counterparty: isSeller ? String(args.winner).toLowerCase() : auction.seller.toLowerCase(),
+        });
+    }
+    trades.sort((a, b) => Number(a.block) - Number(b.block));
+
+    // Startup names for traded cards — burned cards revert and stay blank
+    const nft = getNFTContract();
+    const tradedIds = [...new Set(trades.map(t => Number(t.tokenId)))];
+    const names = new Map(await Promise.all(tradedIds.map(async id => {
+        try {
+            return [id, decodeCardInfo(await nft.getCardInfo(id)).name] as const;
+        } catch {
+            return [id, ''] as const;
+        }
+    })));
+    trades.forEach(t => { t.startup = names.get(Number(t.tokenId)) ?? ''; });
+
+    const bids: Row[] = [
+        ...bidLogs.map((log): Row => {
+            const { args } = marketIface.parseLog(log)!;
+            return {
+                ...base(log, times),
+                kind: 'offer',
+                id: Number(args.bidId),
+                tokenId: Number(args.tokenId),
+                amountXTZ: formatXTZ(args.amount),
+                expiration: new Date(Number(args.expiration) * 1000).toISOString(),
+            };
+        }),
+        ...auctionBidLogs.map((log): Row => {
+            const { args } = marketIface.parseLog(log)!;
+            const auction = auctions.get(args.auctionId);
+            return {
+                ...base(log, times),
+                kind: 'auction',
+                id: Number(args.auctionId),
+                tokenId: auction ? Number(auction.tokenId) : null,
+                amountXTZ: formatXTZ(args.amount),
+                expiration: auction ? new Date(Number(auction.endTime) * 1000).toISOString() : null,
+            };
+        }),
+    ].sort((a, b) => Number(a.block) - Number(b.block));
+
+    const packs = packLogs.map(log => {
+        const { args } = packIface.parseLog(log)!;
+        return { ...base(log, times), packId: Number(args.packId), priceXTZ: formatXTZ(args.price) };
+    });
+
+    const referrals = referralLogs.map(log => {
+        const { args } = packIface.parseLog(log)!;
+        return { ...base(log, times), buyer: String(args.buyer).toLowerCase(), amountXTZ: formatXTZ(args.amount) };
+    });
+
+    const prizes = prizeLogs.map(log => {
+        const { args } = tournamentIface.parseLog(log)!;
+        return { ...base(log, times), tournamentId: Number(args.tournamentId), amountXTZ: formatXTZ(args.prizeAmount) };
+    });
+
+    const [referralCount, referralEarned] = await getPackOpenerContract().getReferralStats(address);
+
+    return {
+        address: me,
+        network: NETWORK.name,
+        chainId: NETWORK.chainId,
+        exportedAt: new Date().toISOString(),
+        referralSummary: { count: Number(referralCount), totalEarned: formatXTZ(referralEarned) },
+        holdings: cards.map(card => ({
+            tokenId: card.tokenId,
+            startupId: card.startupId,
+            startup: card.name,
+            rarity: card.rarity,
+            multiplier: card.multiplier,
+            edition: card.edition,
+            locked: card.isLocked,
+        })),
+        trades,
+        bids,
+        packs,
+        referrals,
+        prizes,
+    };
+}
+
+// ── Serialisation ──
+
+function csvCell(value: Cell): string {
+    if (value === null) return '';
+    let text = String(value);
+    // Spreadsheets run cells starting with these as formulas
+    if (/^[=+@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Row[]): string {
+    if (rows.length === 0) return '';
+    const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+    const lines = [columns.join(','), ...rows.map(row => columns.map(c => csvCell(row[c] ?? null)).join(','))];
+    return lines.join('\r\n') + '\r\n';
+}
+
+export function downloadFile(filename: string, content: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+export function exportFilename(data: PortfolioExport, section: ExportSection | 'all', ext: 'csv' | 'json'): string {
+    const date = data.exportedAt.slice(0, 10);
+    return `unicornx-${section}-${data.address.slice(0, 8)}-${date}.${ext}`;
+}
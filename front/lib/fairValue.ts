@@ -0,0 +1,182 @@
+// Fair-value estimate per startup — what a card should sell for, with a confidence band
+//
+// Blend of up to three prices, each weighted by how much evidence stands behind it:
+// - Recent sales of the startup: time-weighted median over 30 days (half-life 7 days);
+//   full weight from 5 sales on
+// - Active floor: the cheapest listing of the startup — a buyer can always pay this
+// - Rarity prior: median recent sale of the startup's rarity tier, or failing that the market's
+//   price per multiplier point × the card's multiplier. It fills the weight thin sales leave open
+// The blend is then nudged (±20% max) by how the startup scores in the active tournament
+// compared with the rest of its tier, and the band widens with price dispersion and few sales
+//
+// Scores come from /api/top-startups, not /api/player/:address/card-scores: the latter only covers
+// startups in one player's lineup, already multiplied by that player's cards, so it would make a
+// card's estimate depend on who is looking. Per startup, both come from the same daily scoring
+
+import { ethers } from 'ethers';
+import { STARTUPS } from './contracts';
+import type { MarketTrade } from './priceHistory';
+
+const API_BASE = '/api';
+
+const DAY = 24 * 3600;
+const SALES_WINDOW = 30 * DAY;
+const HALF_LIFE = 7 * DAY;
+const FULL_WEIGHT_SALES = 5;
+
+const SALES_WEIGHT = 0.6;
+const FLOOR_WEIGHT = 0.3;
+const PRIOR_WEIGHT = 0.1;
+
+const SCORE_SENSITIVITY = 0.15;     // Premium per 100% above the tier's average points
+const MAX_SCORE_ADJUST = 0.2;
+
+// Within this many percent a price reads as "at fair value"
+export const FAIR_TOLERANCE = 5;
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+export interface FairValue {
+    startupId: number;
+    value: bigint;              // wei
+    low: bigint;
+    high: bigint;
+    confidence: Confidence;
+    sales: number;              // Sales of the startup inside the window
+    floor: bigint | null;
+    scoreFactor: number;        // 1 = scores like the average of its tier
+}
+
+export interface FairValueInputs {
+    trades: MarketTrade[];
+    floors: Record<number, bigint>;         // startupId → cheapest active listing
+    points: Record<number, number>;         // startupId → active tournament points
+}
+
+const toXTZ = (wei: bigint) => Number(ethers.formatEther(wei));
+const toWei = (xtz: number) => ethers.parseEther(Math.max(0, xtz).toFixed(6));
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Median and coefficient of variation, each sale weighted by recency
+function weightedStats(trades: MarketTrade[], now: number): { median: number; cv: number } {
+    const points = trades
+        .map(t => ({ price: toXTZ(t.price), weight: Math.pow(0.5, (now - t.timestamp) / HALF_LIFE) }))
+        .sort((a, b) => a.price - b.price);
+    const total = points.reduce((sum, p) => sum + p.weight, 0);
+
+    let acc = 0;
+    let med = points[points.length - 1].price;
+    for (const p of points) {
+        acc += p.weight;
+        if (acc >= total / 2) {
+            med = p.price;
+            break;
+        }
+    }
+
+    const mean = points.reduce((sum, p) => sum + p.price * p.weight, 0) / total;
+    const variance = points.reduce((sum, p) => sum + p.weight * (p.price - mean) ** 2, 0) / total;
+    return { median: med, cv: mean > 0 ? Math.sqrt(variance) / mean : 0 };
+}
+
+/** Points each startup scored in the tournament so far, keyed by startup id */
+export async function getStartupPoints(tournamentId: number): Promise<Record<number, number>> {
+    if (!tournamentId) return {};
+    const res = await fetch(`${API_BASE}/top-startups/${tournamentId}?limit=50`);
+    const data = await res.json();
+    if (!data.success) return {};
+
+    const idByName = new Map(Object.entries(STARTUPS).map(([id, s]) => [s.name, Number(id)]));
+    const points: Record<number, number> = {};
+    for (const row of data.data as { name: string; points: number }[]) {
+        const id = idByName.get(row.name);
+        if (id !== undefined) points[id] = row.points;
+    }
+    return points;
+}
+
+/** Estimates for every startup with any price evidence at all */
+export function estimateFairValues(
+    { trades, floors, points }: FairValueInputs,
+    now = Math.floor(Date.now() / 1000)
+): Record<number, FairValue> {
+    const recent = trades.filter(t => t.timestamp >= now - SALES_WINDOW);
+
+    // Priors — tier medians, and a market-wide price per multiplier point for empty tiers
+    const tierMedian = new Map<string, number | null>();
+    const perMultiplier = median(recent.map(t => toXTZ(t.price) / (STARTUPS[t.startupId]?.multiplier || 1)));
+
+    const estimates: Record<number, FairValue> = {};
+    for (const [key, startup] of Object.entries(STARTUPS)) {
+        const startupId = Number(key);
+        const sales = recent.filter(t => t.startupId === startupId);
+        const floor = floors[startupId] ?? null;
+
+        if (!tierMedian.has(startup.rarity)) {
+            tierMedian.set(startup.rarity, median(recent.filter(t => t.rarity === startup.rarity).map(t => toXTZ(t.price))));
+        }
+        const prior = tierMedian.get(startup.rarity) ?? (perMultiplier !== null ? perMultiplier * startup.multiplier : null);
+
+        const parts: { price: number; weight: number }[] = [];
+        let salesStats: { median: number; cv: number } | null = null;
+        let salesWeight = 0;
+        if (sales.length > 0) {
+            salesStats = weightedStats(sales, now);
+            salesWeight = SALES_WEIGHT * Math.min(sales.length, FULL_WEIGHT_SALES) / FULL_WEIGHT_SALES;
+            parts.push({ price: salesStats.median, weight: salesWeight });
+        }
+        if (floor !== null) parts.push({ price: toXTZ(floor), weight: FLOOR_WEIGHT });
+        if (prior !== null) parts.push({ price: prior, weight: PRIOR_WEIGHT + (SALES_WEIGHT - salesWeight) });
+        if (parts.length === 0) continue;
+
+        const totalWeight = parts.reduce((sum, p) => sum + p.weight, 0);
+        let value = parts.reduce((sum, p) => sum + p.price * p.weight, 0) / totalWeight;
+
+        // Tournament form relative to the tier — a hot startup earns its holders more points
+        let scoreFactor = 1;
+        const tierPoints = Object.entries(STARTUPS)
+            .filter(([, s]) => s.rarity === startup.rarity)
+            .map(([id]) => points[Number(id)])
+            .filter((p): p is number => p !== undefined);
+        const tierAverage = tierPoints.length > 0 ? tierPoints.reduce((a, b) => a + b, 0) / tierPoints.length : 0;
+        if (tierAverage > 0 && points[startupId] !== undefined) {
+            scoreFactor = 1 + clamp((points[startupId] / tierAverage - 1) * SCORE_SENSITIVITY, -MAX_SCORE_ADJUST, MAX_SCORE_ADJUST);
+            value *= scoreFactor;
+        }
+
+        const spread = salesStats
+            ? clamp(salesStats.cv, 0.05, 0.4) + 0.3 / Math.sqrt(sales.length)
+            : floor !== null ? 0.3 : 0.45;
+        const halfWidth = Math.min(spread, 0.6);
+
+        estimates[startupId] = {
+            startupId,
+            value: toWei(value),
+            low: toWei(value * (1 - halfWidth)),
+            high: toWei(value * (1 + halfWidth)),
+            confidence: halfWidth <= 0.15 ? 'high' : halfWidth <= 0.3 ? 'medium' : 'low',
+            sales: sales.length,
+            floor,
+            scoreFactor,
+        };
+    }
+    return estimates;
+}
+
+/** Percent `price` sits above (positive) or below (negative) the estimate */
+export function compareToFairValue(price: bigint, estimate: FairValue): number {
+    if (estimate.value === 0n) return 0;
+    return (toXTZ(price) / toXTZ(estimate.value) - 1) * 100;
+}
+
+/** Estimate in XTZ to three significant digits — what a suggested price field gets filled with */
+export function formatEstimate(wei: bigint): string {
+    return String(parseFloat(toXTZ(wei).toPrecision(3)));
+}
@@ -0,0 +1,77 @@
+// Historical log queries against the read pool
+//
+// - Ranges start at the deployment block (NETWORK.startBlock) unless the caller narrows them. A
+//   network without a known deployment block only scans its last UNKNOWN_START_SPAN blocks rather
+//   than walking from genesis
+// - Nodes cap eth_getLogs by block span or result size; a range rejected for that is split in half
+//   and retried, so the same call works on a permissive node and a strict one. Any other error
+//   (node down, rate limited) goes straight to the caller
+// - Block timestamps are looked up once per block and kept for the session
+
+import { ethers } from 'ethers';
+import { NETWORK, getReadProvider } from './contracts';
+import { isLogRangeError } from './errors';
+
+const MIN_SPLIT_SPAN = 100;             // Below this a failing range is a real error, not a cap
+const UNKNOWN_START_SPAN = 200_000;     // History window when the deployment file has no startBlock
+
+export interface LogQuery {
+    address: string | string[];
+    topics: (string | string[] | null)[];
+    fromBlock?: number;         // Defaults to NETWORK.startBlock
+    toBlock?: number;           // Defaults to the current head
+}
+
+async function fetchRange(
+    provider: ethers.JsonRpcProvider,
+    query: LogQuery,
+    from: number,
+    to: number
+): Promise<ethers.Log[]> {
+    try {
+        return await provider.getLogs({ address: query.address, topics: query.topics, fromBlock: from, toBlock: to });
+    } catch (e) {
+        if (!isLogRangeError(e) || to - from < MIN_SPLIT_SPAN) throw e;
+        const mid = Math.floor((from + to) / 2);
+        // Sequential on purpose — a strict node is usually also a rate-limited one
+        const first = await fetchRange(provider, query, from, mid);
+        const second = await fetchRange(provider, query, mid + 1, to);
+        return [...first, ...second];
+    }
+}
+
+/** All logs matching the query, oldest first */
+export async function getLogs(query: LogQuery): Promise<ethers.Log[]> {
+    const provider = getReadProvider();
+    const to = query.toBlock ?? await provider.getBlockNumber();
+    const start = query.fromBlock ?? NETWORK.startBlock;
+    const from = start > 0 ? start : Math.max(0, to - UNKNOWN_START_SPAN);
+    if (from > to) return [];
+    const logs = await fetchRange(provider, query, from, to);
+    return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+}
+
+/** topic0 of `event` in `iface` */
+export function eventTopic(iface: ethers.Interface, event: string): string {
+    return iface.getEvent(event)!.topicHash;
+}
+
+/** Topic for an indexed uint256 or address argument */
+export function toTopic(value: bigint | number | string): string {
+    return typeof value === 'string'
+        ? ethers.zeroPadValue(value, 32)
+        : ethers.zeroPadValue(ethers.toBeHex(value), 32);
+}
+
+const blockTimes = new Map<number, number>();
+
+/** Epoch seconds per block number — requests go out together and share the JSON-RPC batch */
+export async function getBlockTimestamps(blockNumbers: Iterable<number>): Promise<Map<number, number>> {
+    const provider = getReadProvider();
+    const missing = [...new Set(blockNumbers)].filter(n => !blockTimes.has(n));
+    await Promise.all(missing.map(async n => {
+        const block = await provider.getBlock(n);
+        if (block) blockTimes.set(n, block.timestamp);
+    }));
+    return blockTimes;
+}
@@ -0,0 +1,155 @@
+// Marketplace search — the advanced filters behind the Buy Now / Auctions / All grids
+//
+// - Every filter lives in the URL query next to tab / rarity / sort / q, so a filtered view can be shared
+// - Listings and auctions are matched as one entry shape; an auction's price is its highest bid, or the
+//   start price before the first bid, and its listing time is the auction start
+// - The text search splits on spaces and every word must hit the card name, startup, rarity,
+//   #tokenId or seller address
+
+import { STARTUPS, parseXTZ } from './contracts';
+
+export interface MarketFilters {
+    startupId: number | null;
+    minMultiplier: number | null;
+    editionMin: number | null;
+    editionMax: number | null;
+    priceMin: string | null;        // XTZ, as typed
+    priceMax: string | null;
+    seller: string | null;          // Address, address prefix or username, as typed
+    listedWithin: number | null;    // Hours
+}
+
+export interface MarketEntry {
+    kind: 'listing' | 'auction';
+    tokenId: bigint;
+    startupId?: number;
+    cardName?: string;
+    rarity?: string;
+    multiplier?: number;
+    edition?: number;
+    seller: string;
+    price: bigint;                  // Wei
+    listedAt: bigint;               // Unix seconds
+}
+
+export type MarketSort = 'price_asc' | 'price_desc' | 'recent';
+
+export const LISTED_WITHIN_HOURS = [1, 6, 24, 72, 168];
+
+// Query keys of each filter
+export const FILTER_PARAMS: Record<keyof MarketFilters, string> = {
+    startupId: 'startup',
+    minMultiplier: 'mult',
+    editionMin: 'edmin',
+    editionMax: 'edmax',
+    priceMin: 'min',
+    priceMax: 'max',
+    seller: 'seller',
+    listedWithin: 'within',
+};
+
+export const EMPTY_FILTERS: MarketFilters = {
+    startupId: null,
+    minMultiplier: null,
+    editionMin: null,
+    editionMax: null,
+    priceMin: null,
+    priceMax: null,
+    seller: null,
+    listedWithin: null,
+};
+
+const positiveInt = (value: string | null): number | null => {
+    const n = Number(value);
+    return value && Number.isInteger(n) && n > 0 ? n : null;
+};
+
+const toWei = (xtz: string | null): bigint | null => {
+    if (!xtz) return null;
+    try {
+        return parseXTZ(xtz);
+    } catch {
+        return null;
+    }
+};
+
+export function parseMarketFilters(query: URLSearchParams): MarketFilters {
+    const startupId = Number(query.get(FILTER_PARAMS.startupId) ?? NaN);
+    const price = (key: string) => {
+        const value = query.get(key)?.trim() || null;
+        return value !== null && parseFloat(value) >= 0 ? value : null;
+    };
+    return {
+        startupId: STARTUPS[startupId] ? startupId : null,
+        minMultiplier: positiveInt(query.get(FILTER_PARAMS.minMultiplier)),
+        editionMin: positiveInt(query.get(FILTER_PARAMS.editionMin)),
+        editionMax: positiveInt(query.get(FILTER_PARAMS.editionMax)),
+        priceMin: price(FILTER_PARAMS.priceMin),
+        priceMax: price(FILTER_PARAMS.priceMax),
+        seller: query.get(FILTER_PARAMS.seller)?.trim() || null,
+        listedWithin: positiveInt(query.get(FILTER_PARAMS.listedWithin)),
+    };
+}
+
+/** Query params for `changes` — pass to updateQuery; null clears a filter */
+export function filterQuery(changes: Partial<MarketFilters>): Record<string, string | null> {
+    const params: Record<string, string | null> = {};
+    for (const [key, value] of Object.entries(changes)) {
+        params[FILTER_PARAMS[key as keyof MarketFilters]] = value === null || value === undefined ? null : String(value);
+    }
+    return params;
+}
+
+export function countActiveFilters(filters: MarketFilters): number {
+    return Object.values(filters).filter(value => value !== null).length;
+}
+
+/** A seller filter that starts with 0x matches addresses by prefix; anything else is a username to look up */
+export const isAddressFilter = (seller: string) => seller.toLowerCase().startsWith('0x');
+
+/**
+ * Entries matching the text search, rarity and filters. `sellers` holds the wallets a username
+ * filter resolved to — null while the lookup is pending, which matches nothing
+ */
+export function filterMarket<T extends MarketEntry>(
+    entries: T[],
+    search: { query: string; rarity: string | null },
+    filters: MarketFilters,
+    sellers: Set<string> | null,
+    now = Math.floor(Date.now() / 1000)
+): T[] {
+    const words = search.query.toLowerCase().split(/\s+/).filter(Boolean);
+    const priceMin = toWei(filters.priceMin);
+    const priceMax = toWei(filters.priceMax);
+    const seller = filters.seller?.toLowerCase() ?? null;
+    const since = filters.listedWithin !== null ? BigInt(now - filters.listedWithin * 3600) : null;
+
+    return entries.filter(entry => {
+        if (search.rarity !== null && entry.rarity !== search.rarity) return false;
+        if (filters.startupId !== null && entry.startupId !== filters.startupId) return false;
+        if (filters.minMultiplier !== null && (entry.multiplier ?? 0) < filters.minMultiplier) return false;
+        if (filters.editionMin !== null && (entry.edition ?? 0) < filters.editionMin) return false;
+        if (filters.editionMax !== null && (entry.edition ?? Infinity) > filters.editionMax) return false;
+        if (priceMin !== null && entry.price < priceMin) return false;
+        if (priceMax !== null && entry.price > priceMax) return false;
+        if (since !== null && entry.listedAt < since) return false;
+        if (seller !== null) {
+            const address = entry.seller.toLowerCase();
+            if (isAddressFilter(seller) ? !address.startsWith(seller) : !sellers?.has(address)) return false;
+        }
+        if (words.length > 0) {
+            const startup = entry.startupId !== undefined ? STARTUPS[entry.startupId]?.name ?? '' : '';
+            const haystack = `${entry.cardName ?? ''} ${startup} ${entry.rarity ?? ''} #${entry.tokenId} ${entry.seller}`.toLowerCase();
+            if (!words.every(word => haystack.includes(word))) return false;
+        }
+        return true;
+    });
+}
+
+export function sortMarket<T extends MarketEntry>(entries: T[], sort: MarketSort): T[] {
+    return [...entries].sort((a, b) => {
+        if (sort === 'price_asc') return a.price < b.price ? -1 : a.price > b.price ? 1 : 0;
+        if (sort === 'price_desc') return a.price > b.price ? -1 : a.price < b.price ? 1 : 0;
+        return Number(b.listedAt - a.listedAt);
+    });
+}
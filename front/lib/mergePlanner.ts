@@ -0,0 +1,154 @@
+// Merge planner — proposes forge triples across the whole collection
+//
+// - Triples are disjoint, so every proposal can be queued in one go
+// - Locked cards and cards in a listing or auction are never proposed; neither are rarities
+//   the contract refuses to merge (EpicRare, Legendary)
+// - The goal decides which cards go into triples and how the triples are ranked
+
+import { CardData, Rarity } from '../types';
+import { STARTUPS } from './contracts';
+
+export type MergeGoal = 'squad' | 'duplicates' | 'legendary';
+
+export interface MergeProposal {
+    id: string;                                 // Sorted token ids, stable across re-plans
+    cards: [CardData, CardData, CardData];
+    from: Rarity;
+    to: Rarity;
+    reason: string;
+    score: number;                              // Higher = proposed first
+}
+
+export interface MergePlan {
+    proposals: MergeProposal[];
+    protectedCount: number;                     // Mergeable cards held back by the goal
+    legendaryReach: number;                     // Legendaries reachable by chaining every eligible merge
+}
+
+const SQUAD_SIZE = 5;                           // TournamentManager.LINEUP_SIZE
+
+// Contract merge ladder: Common → Rare → Epic → Legendary
+const MERGE_RESULT: Partial<Record<Rarity, Rarity>> = {
+    [Rarity.COMMON]: Rarity.RARE,
+    [Rarity.RARE]: Rarity.EPIC,
+    [Rarity.EPIC]: Rarity.LEGENDARY,
+};
+
+const LADDER_STEP: Partial<Record<Rarity, number>> = {
+    [Rarity.COMMON]: 0,
+    [Rarity.RARE]: 1,
+    [Rarity.EPIC]: 2,
+};
+
+// Multiplier of the card a merge produces — every startup of a rarity shares it
+function rarityMultiplier(rarity: Rarity): number {
+    const startup = Object.values(STARTUPS).find(s => s.rarity === rarity);
+    return startup?.multiplier ?? 1;
+}
+
+export function isMergeable(card: CardData): boolean {
+    return !!MERGE_RESULT[card.rarity];
+}
+
+// Best lineup by multiplier — what a tournament entry would use today
+function pickSquad(cards: CardData[]): CardData[] {
+    return [...cards].sort((a, b) => b.multiplier - a.multiplier || a.tokenId - b.tokenId).slice(0, SQUAD_SIZE);
+}
+
+// Three Commons make a Rare, three Rares an Epic, three Epics a Legendary
+function countLegendaryReach(eligible: CardData[]): number {
+    const count = (r: Rarity) => eligible.filter(c => c.rarity === r).length;
+    const rares = count(Rarity.RARE) + Math.floor(count(Rarity.COMMON) / 3);
+    const epics = count(Rarity.EPIC) + Math.floor(rares / 3);
+    return Math.floor(epics / 3);
+}
+
+export function planMerges(cards: CardData[], goal: MergeGoal, excludedTokenIds: ReadonlySet<number> = new Set()): MergePlan {
+    const copies = new Map<number, number>();
+    cards.forEach(c => copies.set(c.startupId, (copies.get(c.startupId) ?? 0) + 1));
+
+    const available = cards.filter(c => isMergeable(c) && !c.isLocked && !excludedTokenIds.has(c.tokenId));
+
+    // Cards the goal keeps out of every triple
+    const squad = pickSquad(cards);
+    const held = new Set<number>();
+    if (goal === 'squad') {
+        squad.forEach(c => held.add(c.tokenId));
+    } else if (goal === 'duplicates') {
+        // Keep one copy of each startup — preferably one that couldn't be merged anyway
+        const availableIds = new Set(available.map(c => c.tokenId));
+        const kept = new Set(cards.filter(c => !availableIds.has(c.tokenId)).map(c => c.startupId));
+        for (const card of available) {
+            if (!kept.has(card.startupId)) {
+                kept.add(card.startupId);
+                held.add(card.tokenId);
+            }
+        }
+    }
+    const eligible = available.filter(c => !held.has(c.tokenId));
+
+    // Most-duplicated startups go first so single copies survive as long as possible
+    const byRarity = new Map<Rarity, CardData[]>();
+    for (const card of eligible) {
+        const group = byRarity.get(card.rarity) ?? [];
+        group.push(card);
+        byRarity.set(card.rarity, group);
+    }
+
+    const weakestSquad = squad.length < SQUAD_SIZE ? 0 : Math.min(...squad.map(c => c.multiplier));
+    const proposals: MergeProposal[] = [];
+
+    for (const [rarity, group] of byRarity) {
+        const to = MERGE_RESULT[rarity]!;
+        group.sort((a, b) => (copies.get(b.startupId)! - copies.get(a.startupId)!) || a.tokenId - b.tokenId);
+
+        for (let i = 0; i + 3 <= group.length; i += 3) {
+            const triple = group.slice(i, i + 3) as [CardData, CardData, CardData];
+            const { reason, score } = rank(goal, triple, rarity, to, copies, weakestSquad);
+            proposals.push({
+                id: triple.map(c => c.tokenId).sort((a, b) => a - b).join('-'),
+                cards: triple,
+                from: rarity,
+                to,
+                reason,
+                score,
+            });
+        }
+    }
+
+    proposals.sort((a, b) => b.score - a.score);
+    return {
+        proposals,
+        protectedCount: available.length - eligible.length,
+        legendaryReach: countLegendaryReach(eligible),
+    };
+}
+
+function rank(
+    goal: MergeGoal,
+    triple: CardData[],
+    from: Rarity,
+    to: Rarity,
+    copies: Map<number, number>,
+    weakestSquad: number
+): { reason: string; score: number } {
+    const step = LADDER_STEP[from] ?? 0;
+
+    if (goal === 'squad') {
+        const gain = rarityMultiplier(to) - weakestSquad;
+        return gain > 0
+            ? { reason: `New ${to} joins your squad (+${gain}x over its weakest card)`, score: 100 + gain * 10 + step }
+            : { reason: 'Squad untouched', score: step };
+    }
+
+    if (goal === 'duplicates') {
+        const spare = triple.reduce((sum, c) => sum + copies.get(c.startupId)!, 0);
+        const names = [...new Set(triple.map(c => c.name))].join(', ');
+        // Lower rarities first — the same three slots freed for the cheapest cards
+        return { reason: `Spare copies of ${names}`, score: spare * 10 - step };
+    }
+
+    return to === Rarity.LEGENDARY
+        ? { reason: 'Forges a Legendary', score: 100 + step }
+        : { reason: `One step toward Legendary (${from} → ${to})`, score: step };
+}
@@ -0,0 +1,105 @@
+// Network registry — built from the deployment-<network>.json files written by scripts/deploy.js
+// The active network is picked once per page load; switching persists the choice and reloads,
+// so providers, the event watcher and the cache all start clean on the new chain.
+
+export type ContractName = 'UnicornX_NFT' | 'PackOpener' | 'TournamentManager' | 'MarketplaceV2';
+
+export interface NetworkConfig {
+    key: string;            // 'shadownet' | 'mainnet' | 'local' — matches deployment-<key>.json
+    chainId: number;
+    name: string;           // Full name shown to wallets (wallet_addEthereumChain)
+    label: string;          // Short name for the UI
+    rpcUrl: string;         // Primary endpoint (first of rpcUrls)
+    rpcUrls: string[];      // Failover pool, in preference order
+    explorerUrl: string;    // Empty for local devnets
+    currency: string;
+    contracts: Record<ContractName, string>;
+    startBlock: number;     // Deployment block — history scans start here (0 when unknown: recent blocks only)
+}
+
+// Shape of deployment-<network>.json (only the fields the frontend needs)
+interface DeploymentFile {
+    network: string;
+    networkName: string;
+    chainId: number;
+    explorer?: string;
+    rpc?: string;
+    rpcs?: string[];
+    startBlock?: number;
+    proxies: Record<ContractName, string>;
+}
+
+// Deployment files only carry addresses — RPC/label defaults live here
+const NETWORK_DEFAULTS: Record<string, { label: string; rpcUrl: string; explorerUrl: string }> = {
+    shadownet: { label: 'Shadownet', rpcUrl: 'https://node.shadownet.etherlink.com', explorerUrl: 'https://shadownet.explorer.etherlink.com' },
+    mainnet: { label: 'Etherlink', rpcUrl: 'https://node.mainnet.etherlink.com', explorerUrl: 'https://explorer.etherlink.com' },
+    local: { label: 'Local', rpcUrl: 'http://127.0.0.1:8545', explorerUrl: '' },
+};
+
+const DEFAULT_NETWORK = import.meta.env.VITE_NETWORK || 'shadownet';
+const STORAGE_KEY = 'unicornx:network';
+
+const deployments = import.meta.glob<DeploymentFile>('../../deployment-*.json', { eager: true, import: 'default' });
+
+// Extra fallback endpoints per network, e.g. VITE_RPC_URLS_SHADOWNET=https://a,https://b
+function envRpcUrls(key: string): string[] {
+    const raw: string | undefined = import.meta.env[`VITE_RPC_URLS_${key.toUpperCase()}`];
+    return raw ? raw.split(',').map(u => u.trim()).filter(Boolean) : [];
+}
+
+function toNetwork(file: DeploymentFile): NetworkConfig {
+    const defaults = NETWORK_DEFAULTS[file.network];
+    // Local RPC can be overridden for devnets that don't run on the default port
+    const envRpc = file.network === 'local' ? import.meta.env.VITE_LOCAL_RPC_URL : undefined;
+    const primary = envRpc || file.rpc || defaults?.rpcUrl || '';
+    const rpcUrls = [...new Set([primary, ...(file.rpcs || []), ...envRpcUrls(file.network)].filter(Boolean))];
+    return {
+        key: file.network,
+        chainId: file.chainId,
+        name: file.networkName,
+        label: defaults?.label || file.networkName,
+        rpcUrl: rpcUrls[0] || '',
+        rpcUrls,
+        explorerUrl: file.explorer ?? defaults?.explorerUrl ?? '',
+        currency: 'XTZ',
+        contracts: file.proxies,
+        startBlock: file.startBlock ?? 0,
+    };
+}
+
+export const NETWORKS: NetworkConfig[] = Object.values(deployments)
+    .map(toNetwork)
+    .filter(n => n.rpcUrl && n.contracts)
+    .sort((a, b) => a.chainId - b.chainId);
+
+export function getNetwork(key: string): NetworkConfig | undefined {
+    return NETWORKS.find(n => n.key === key);
+}
+
+export function getNetworkByChainId(chainId: number): NetworkConfig | undefined {
+    return NETWORKS.find(n => n.chainId === chainId);
+}
+
+function resolveActiveNetwork(): NetworkConfig {
+    let saved: string | null = null;
+    try {
+        saved = localStorage.getItem(STORAGE_KEY);
+    } catch { /* storage unavailable */ }
+
+    const network = (saved && getNetwork(saved)) || getNetwork(DEFAULT_NETWORK) || NETWORKS[0];
+    if (!network) {
+        throw new Error('No deployment-*.json found — deploy the contracts or restore deployment-shadownet.json');
+    }
+    return network;
+}
+
+// Network this page load runs against
+export const ACTIVE_NETWORK: NetworkConfig = resolveActiveNetwork();
+
+// Remember the network for the next load (callers reload the page afterwards)
+export function selectNetwork(key: string): void {
+    if (!getNetwork(key)) return;
+    try {
+        localStorage.setItem(STORAGE_KEY, key);
+    } catch { /* storage unavailable */ }
+}
@@ -0,0 +1,211 @@
+// IndexedDB store behind BlockchainCache persistence — one record per cache key
+//
+// - Values are JSON with bigints tagged as {"$bigint":"123"}, so contract structs round-trip intact
+// - Every record carries an expiry; expired records are deleted on startup and never restored
+// - Over the size budget, the oldest records go first
+// - Cached data is disposable: a schema bump drops the store instead of migrating it
+// - Without IndexedDB (some private modes) every call resolves empty and the cache stays in memory
+
+const DB_NAME = 'unicornx-cache';
+const SCHEMA_VERSION = 2;
+const STORE = 'entries';
+const MAX_BYTES = 25 * 1024 * 1024;
+
+export interface StoredEntry {
+    id: string;             // `${namespace}|${key}`
+    namespace: string;      // Chain ID
+    key: string;
+    value: string;          // Encoded data
+    timestamp: number;      // When the data was fetched
+    expiresAt: number;
+    size: number;           // Approximate bytes (UTF-16)
+}
+
+export interface StorageUsage {
+    entries: number;
+    bytes: number;
+    byPrefix: Record<string, { entries: number; bytes: number }>;
+    originUsage?: number;   // Whole site, from navigator.storage.estimate()
+    originQuota?: number;
+}
+
+export function encode(value: unknown): string {
+    return JSON.stringify(value, (_, v) => typeof v === 'bigint' ? { $bigint: v.toString() } : v);
+}
+
+export function decode<T>(text: string): T {
+    return JSON.parse(text, (_, v) =>
+        v && typeof v === 'object' && typeof v.$bigint === 'string' && Object.keys(v).length === 1 ? BigInt(v.$bigint) : v);
+}
+
+export const entryId = (namespace: string, key: string) => `${namespace}|${key}`;
+
+// First segment of a cache key — 'nft:card:12' → 'nft:'
+const prefixOf = (key: string) => key.slice(0, key.indexOf(':') + 1) || key;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Walk an index in key order without reading record values — stops once `visit` returns false
+function walkKeys(index: IDBIndex, visit: (cursor: IDBCursor) => boolean | void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const request = index.openKeyCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor && visit(cursor) !== false) cursor.continue();
+            else resolve();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+class PersistentStore {
+    private db: Promise<IDBDatabase | null> | null = null;
+
+    private open(): Promise<IDBDatabase | null> {
+        if (this.db) return this.db;
+
+        this.db = new Promise(resolve => {
+            let request: IDBOpenDBRequest;
+            try {
+                request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+            } catch {
+                resolve(null);
+                return;
+            }
+
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (db.objectStoreNames.contains(STORE)) db.deleteObjectStore(STORE);
+                const store = db.createObjectStore(STORE, { keyPath: 'id' });
+                store.createIndex('namespace', 'namespace');
+                store.createIndex('expiresAt', 'expiresAt');
+                // Oldest first, with the size in the key itself so eviction never loads a value
+                store.createIndex('age', ['timestamp', 'size']);
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // A newer tab bumped the schema — step aside so its upgrade can run
+                db.onversionchange = () => {
+                    db.close();
+                    this.db = Promise.resolve(null);
+                };
+                resolve(db);
+            };
+            request.onerror = () => resolve(null);
+            // An older tab holds the database open — run from memory rather than wait
+            request.onblocked = () => resolve(null);
+        });
+        return this.db;
+    }
+
+    /** Live records of a namespace — expired records (any namespace) are deleted first */
+    async load(namespace: string): Promise<StoredEntry[]> {
+        const db = await this.open();
+        if (!db) return [];
+
+        try {
+            await this.evict(db);
+            const tx = db.transaction(STORE, 'readonly');
+            return await requestResult(tx.objectStore(STORE).index('namespace').getAll(namespace) as IDBRequest<StoredEntry[]>);
+        } catch {
+            return [];
+        }
+    }
+
+    // Expired records, then the oldest ones while over the size budget
+    private async evict(db: IDBDatabase): Promise<void> {
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+
+        const expired = await requestResult(store.index('expiresAt').getAllKeys(IDBKeyRange.upperBound(Date.now())));
+        expired.forEach(id => store.delete(id));
+
+        const age = store.index('age');
+        const sizeOf = (cursor: IDBCursor) => (cursor.key as [number, number])[1];
+        let bytes = 0;
+        await walkKeys(age, cursor => { bytes += sizeOf(cursor); });
+        if (bytes > MAX_BYTES) {
+            await walkKeys(age, cursor => {
+                store.delete(cursor.primaryKey);
+                bytes -= sizeOf(cursor);
+                return bytes > MAX_BYTES;
+            });
+        }
+
+        await transactionDone(tx);
+    }
+
+    /** Writes and deletes in one transaction */
+    async write(puts: StoredEntry[], deletes: string[]): Promise<void> {
+        if (puts.length === 0 && deletes.length === 0) return;
+        const db = await this.open();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction(STORE, 'readwrite');
+            const store = tx.objectStore(STORE);
+            deletes.forEach(id => store.delete(id));
+            puts.forEach(entry => store.put(entry));
+            await transactionDone(tx);
+        } catch {
+            // Quota exceeded or the database went away — the in-memory cache still has the data
+        }
+    }
+
+    async clear(namespace: string): Promise<void> {
+        const db = await this.open();
+        if (!db) return;
+
+        try {
+            const tx = db.transaction(STORE, 'readwrite');
+            const store = tx.objectStore(STORE);
+            const ids = await requestResult(store.index('namespace').getAllKeys(namespace));
+            ids.forEach(id => store.delete(id));
+            await transactionDone(tx);
+        } catch { /* nothing to clear */ }
+    }
+
+    async usage(namespace: string): Promise<StorageUsage> {
+        const usage: StorageUsage = { entries: 0, bytes: 0, byPrefix: {} };
+
+        const db = await this.open();
+        if (db) {
+            try {
+                const tx = db.transaction(STORE, 'readonly');
+                const entries = await requestResult(tx.objectStore(STORE).index('namespace').getAll(namespace) as IDBRequest<StoredEntry[]>);
+                for (const entry of entries) {
+                    const prefix = prefixOf(entry.key);
+                    const bucket = usage.byPrefix[prefix] ??= { entries: 0, bytes: 0 };
+                    bucket.entries++;
+                    bucket.bytes += entry.size;
+                    usage.entries++;
+                    usage.bytes += entry.size;
+                }
+            } catch { /* report what we have */ }
+        }
+
+        try {
+            const estimate = await navigator.storage?.estimate();
+            usage.originUsage = estimate?.usage;
+            usage.originQuota = estimate?.quota;
+        } catch { /* not supported */ }
+
+        return usage;
+    }
+}
+
+// Singleton instance — shared by every BlockchainCache namespace
+export const persistentStore = new PersistentStore();
@@ -0,0 +1,92 @@
+// Pre-flight checks for writes — simulate against the read pool before the wallet opens
+//
+// - staticCall runs the exact call as the user: a revert comes back with its custom error,
+//   decoded to a readable reason, and the transaction is never signed
+// - estimateGas × current gas price gives the fee shown next to the value being sent
+// - Hooks run the same check right before sending, so a stale estimate can't slip through
+// - Offline, every check fails with OFFLINE_MESSAGE, so preflighted buttons disable themselves
+
+import { ethers, type BaseContractMethod, type ContractMethodArgs } from 'ethers';
+import { getReadProvider } from './contracts';
+import { blockchainCache, CacheKeys, CacheTTL } from './cache';
+import { describeError } from './errors';
+import { isOnline, OFFLINE_MESSAGE } from './connectivity';
+
+export interface GasQuote {
+    gasLimit: bigint;
+    gasCost: bigint;        // gasLimit × gas price, in wei
+    value: bigint;          // XTZ sent with the call
+    total: bigint;
+}
+
+export interface PreflightResult {
+    ok: boolean;
+    quote?: GasQuote;       // Set when ok
+    error?: string;         // Decoded revert / failure reason when not ok
+}
+
+export interface PreflightOverrides {
+    from: string;
+    value?: bigint;
+    gasLimit?: bigint;      // Explicit limit the write uses — also the fallback if estimation fails
+}
+
+// Gas price changes slowly on Etherlink — one lookup serves every estimate for a few seconds
+async function getGasPrice(): Promise<bigint> {
+    return blockchainCache.getOrFetch(CacheKeys.gasPrice(), async () => {
+        const fee = await getReadProvider().getFeeData();
+        return fee.gasPrice ?? fee.maxFeePerGas ?? 0n;
+    }, CacheTTL.SHORT);
+}
+
+/** Simulate a contract call as `from` and price it — method must come from a read-only contract */
+export async function simulate<A extends any[]>(
+    method: BaseContractMethod<A, any, any>,
+    args: A,
+    overrides: PreflightOverrides,
+    fallback = 'This transaction would fail'
+): Promise<PreflightResult> {
+    if (!isOnline()) return { ok: false, error: OFFLINE_MESSAGE };
+
+    const value = overrides.value ?? 0n;
+    const callArgs = [...args, { from: overrides.from, value }] as ContractMethodArgs<A>;
+
+    try {
+        await method.staticCall(...callArgs);
+    } catch (e) {
+        return { ok: false, error: describeError(e, fallback) };
+    }
+
+    try {
+        const [gasLimit, gasPrice] = await Promise.all([
+            // Some calls (large mints) estimate unreliably — the caller's explicit limit stands in
+            method.estimateGas(...callArgs).catch(e => {
+                if (overrides.gasLimit) return overrides.gasLimit;
+                throw e;
+            }),
+            getGasPrice(),
+        ]);
+        const gasCost = gasLimit * gasPrice;
+        return { ok: true, quote: { gasLimit, gasCost, value, total: value + gasCost } };
+    } catch (e) {
+        return { ok: false, error: describeError(e, fallback) };
+    }
+}
+
+/** Throws the decoded reason when the simulation failed — for write paths */
+export function assertPreflight(result: PreflightResult): void {
+    if (!result.ok) throw new Error(result.error);
+}
+
+/** XTZ amount for cost lines — gas fees are tiny, so keep up to 6 decimals */
+export function formatCost(wei: bigint): string {
+    const xtz = Number(ethers.formatEther(wei));
+    if (xtz > 0 && xtz < 0.000001) return '<0.000001';
+    return xtz.toLocaleString('en-US', { maximumFractionDigits: 6 });
+}
+
+/** One-line fee summary for confirm dialogs */
+export function formatQuote(quote: GasQuote): string {
+    const gas = `Est. gas ≈ ${formatCost(quote.gasCost)} XTZ`;
+    return quote.value > 0n ? `${gas} · Total ≈ ${formatCost(quote.total)} XTZ` : gas;
+}
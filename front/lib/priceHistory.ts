@@ -0,0 +1,192 @@
+// Market-wide price history — every completed sale, bucketed into candles per startup or rarity
+//
+// - Sales are CardSold (listings), BidAccepted (offers) and AuctionFinalized with a winner;
+//   AuctionFinalized carries no token, so getAuction supplies it (once per auction for the session)
+// - A token's startup never changes (tokenToStartup survives the burn of a merge), and a startup's
+//   rarity is fixed, so each sale belongs to exactly one startup × rarity bucket
+// - Scans are incremental: a previous history is extended from the block after its last scan
+
+import { ethers } from 'ethers';
+import { CONTRACTS, MARKETPLACE_V2_ABI, STARTUPS, getMarketplaceV2Contract, getNFTContract, getReadProvider, NETWORK } from './contracts';
+import { decodeAuction } from './abi/MarketplaceV2';
+import { getLogs, getBlockTimestamps, eventTopic } from './logs';
+import { Rarity } from '../types';
+
+export type SaleKind = 'listing' | 'offer' | 'auction';
+
+export interface MarketTrade {
+    tokenId: number;
+    startupId: number;
+    rarity: Rarity;
+    price: bigint;              // wei
+    kind: SaleKind;
+    timestamp: number;          // Epoch seconds
+    txHash: string;
+}
+
+export interface TradeHistory {
+    trades: MarketTrade[];      // Oldest first
+    scannedTo: number;          // Last block included
+}
+
+export type PriceRange = '24h' | '7d' | '30d' | 'all';
+
+export interface Candle {
+    time: number;               // Bucket start, epoch seconds
+    open: number;               // XTZ
+    high: number;
+    low: number;
+    close: number;
+    average: number;
+    volume: number;             // XTZ traded in the bucket
+    count: number;
+}
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+export const PRICE_RANGES: Record<PriceRange, { label: string; span: number | null; bucket: number }> = {
+    '24h': { label: '24H', span: DAY, bucket: HOUR },
+    '7d': { label: '7D', span: 7 * DAY, bucket: 6 * HOUR },
+    '30d': { label: '30D', span: 30 * DAY, bucket: DAY },
+    'all': { label: 'All', span: null, bucket: DAY },
+};
+
+// Above this many daily candles, 'all' switches to weekly ones
+const MAX_ALL_CANDLES = 120;
+
+const marketIface = new ethers.Interface(MARKETPLACE_V2_ABI);
+
+// Token → startup for every sale or listing seen; burned tokens resolve too
+const startupOf = new Map<number, number>();
+// Auction → token; an auction's token never changes
+const auctionTokens = new Map<bigint, number>();
+// Latest history of this session — survives a cache invalidation so the next scan stays incremental
+let lastHistory: TradeHistory | null = null;
+
+/** Startup of each token — looked up once per token for the session */
+export async function getStartupIds(tokenIds: number[]): Promise<Map<number, number>> {
+    const missing = [...new Set(tokenIds)].filter(id => !startupOf.has(id));
+    if (missing.length > 0) {
+        const nft = getNFTContract();
+        const ids = await Promise.all(missing.map(id => nft.tokenToStartup(id)));
+        missing.forEach((id, i) => startupOf.set(id, Number(ids[i])));
+    }
+    return new Map(tokenIds.map(id => [id, startupOf.get(id)!]));
+}
+
+/** Sales since `previous` (or since deployment), appended to it */
+export async function getMarketTrades(previous?: TradeHistory | null): Promise<TradeHistory> {
+    const base = previous ?? lastHistory;
+    const head = await getReadProvider().getBlockNumber();
+    const fromBlock = base ? base.scannedTo + 1 : NETWORK.startBlock;
+    if (base && fromBlock > head) return base;
+
+    const range = { fromBlock, toBlock: head };
+    const direct = await getLogs({ address: CONTRACTS.MarketplaceV2, topics: [[eventTopic(marketIface, 'CardSold'), eventTopic(marketIface, 'BidAccepted')]], ...range });
+    // No winner means the reserve wasn't met and the card went back unsold — nothing traded
+    const finalized = (await getLogs({ address: CONTRACTS.MarketplaceV2, topics: [eventTopic(marketIface, 'AuctionFinalized')], ...range }))
+        .filter(log => marketIface.parseLog(log)!.args.winner !== ethers.ZeroAddress);
+    // Auctions can be created long before they finalize — read the token from the auction itself
+    // rather than scanning back for its AuctionCreated log
+    const marketplace = getMarketplaceV2Contract();
+    const missing = [...new Set(finalized.map(log => BigInt(log.topics[1])))].filter(id => !auctionTokens.has(id));
+    await Promise.all(missing.map(async id => {
+        auctionTokens.set(id, Number(decodeAuction(await marketplace.getAuction(id)).tokenId));
+    }));
+
+    const raw: Omit<MarketTrade, 'startupId' | 'rarity' | 'timestamp'>[] = [];
+    const blocks: number[] = [];
+    for (const log of direct) {
+        const { name, args } = marketIface.parseLog(log)!;
+        raw.push({
+            tokenId: Number(args.tokenId),
+            price: name === 'CardSold' ? args.price : args.amount,
+            kind: name === 'CardSold' ? 'listing' : 'offer',
+            txHash: log.transactionHash,
+        });
+        blocks.push(log.blockNumber);
+    }
+    for (const log of finalized) {
+        const { args } = marketIface.parseLog(log)!;
+        const tokenId = auctionTokens.get(BigInt(log.topics[1]));
+        if (tokenId === undefined) continue;
+        raw.push({ tokenId, price: args.finalPrice, kind: 'auction', txHash: log.transactionHash });
+        blocks.push(log.blockNumber);
+    }
+
+    const [times] = await Promise.all([
+        getBlockTimestamps(blocks),
+        getStartupIds(raw.map(t => t.tokenId)),
+    ]);
+
+    const fresh: MarketTrade[] = raw.map((trade, i) => {
+        const startupId = startupOf.get(trade.tokenId) ?? 0;
+        return {
+            ...trade,
+            startupId,
+            rarity: (STARTUPS[startupId]?.rarity ?? Rarity.COMMON) as Rarity,
+            timestamp: times.get(blocks[i]) ?? 0,
+        };
+    });
+
+    const trades = [...(base?.trades ?? []), ...fresh].sort((a, b) => a.timestamp - b.timestamp);
+    lastHistory = { trades, scannedTo: head };
+    return lastHistory;
+}
+
+export type TradeFilter = { startupId: number } | { rarity: Rarity | string };
+
+export function filterTrades(trades: MarketTrade[], filter: TradeFilter): MarketTrade[] {
+    return 'startupId' in filter
+        ? trades.filter(t => t.startupId === filter.startupId)
+        : trades.filter(t => t.rarity === filter.rarity);
+}
+
+/** Candles over the range ending now — empty buckets are skipped, not interpolated */
+export function buildCandles(trades: MarketTrade[], range: PriceRange, now = Math.floor(Date.now() / 1000)): Candle[] {
+    const { span, bucket: baseBucket } = PRICE_RANGES[range];
+    const inRange = span === null ? trades : trades.filter(t => t.timestamp >= now - span);
+    if (inRange.length === 0) return [];
+
+    let bucket = baseBucket;
+    if (span === null && (now - inRange[0].timestamp) / DAY > MAX_ALL_CANDLES) bucket = 7 * DAY;
+
+    const candles = new Map<number, Candle>();
+    for (const trade of inRange) {
+        const time = trade.timestamp - (trade.timestamp % bucket);
+        const price = Number(ethers.formatEther(trade.price));
+        const candle = candles.get(time);
+        if (!candle) {
+            candles.set(time, { time, open: price, high: price, low: price, close: price, average: price, volume: price, count: 1 });
+            continue;
+        }
+        candle.high = Math.max(candle.high, price);
+        candle.low = Math.min(candle.low, price);
+        candle.close = price;
+        candle.volume += price;
+        candle.count++;
+        candle.average = candle.volume / candle.count;
+    }
+
+    return [...candles.values()].sort((a, b) => a.time - b.time);
+}
+
+export interface PriceSummary {
+    last: number | null;
+    change: number | null;      // Percent, first to last trade in the range
+    volume: number;
+    count: number;
+}
+
+export function summarize(candles: Candle[]): PriceSummary {
+    if (candles.length === 0) return { last: null, change: null, volume: 0, count: 0 };
+    const first = candles[0].open;
+    const last = candles[candles.length - 1].close;
+    return {
+        last,
+        change: first > 0 ? ((last - first) / first) * 100 : null,
+        volume: candles.reduce((sum, c) => sum + c.volume, 0),
+        count: candles.reduce((sum, c) => sum + c.count, 0),
+    };
+}
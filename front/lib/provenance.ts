@@ -0,0 +1,241 @@
+// Card provenance — one token's life rebuilt from on-chain events
+//
+// 1. Every Transfer of the token since the deployment block (lib/logs)
+// 2. Receipts of those transactions say why it moved: pack opening, merge, listing, sale...
+//    The marketplace escrows listed and auctioned cards, so a move in and back out to the
+//    same address is a listing that ended, not a change of owner
+// 3. Each owner's LineupRegistered events inside their holding window give the tournaments
+//    the card played; points come from the card-scores API
+
+import { ethers } from 'ethers';
+import {
+    CONTRACTS,
+    STARTUPS,
+    getReadProvider,
+    NFT_ABI,
+    PACK_OPENER_ABI,
+    TOURNAMENT_ABI,
+    MARKETPLACE_V2_ABI,
+} from './contracts';
+import { getLogs, getBlockTimestamps, toTopic, eventTopic } from './logs';
+
+const API_BASE = '/api';
+
+export type ProvenanceKind =
+    | 'minted'          // Pack opening or admin mint
+    | 'forged'          // Minted by a merge
+    | 'transfer'
+    | 'listed'
+    | 'auctioned'
+    | 'delisted'        // Listing cancelled / auction ended without a sale
+    | 'sale'
+    | 'tournament'
+    | 'burned';         // Consumed by a merge
+
+export interface ProvenanceEntry {
+    kind: ProvenanceKind;
+    blockNumber: number;
+    logIndex: number;
+    txHash: string;
+    timestamp?: number;             // Epoch seconds
+    from?: string;                  // Previous owner / seller
+    to?: string;                    // New owner / buyer
+    price?: bigint;                 // Sale, listing or auction start price (wei)
+    saleType?: 'listing' | 'offer' | 'auction';
+    packId?: number;
+    tokenIds?: number[];            // Merge: burned cards (forged) or the new card (burned)
+    tournamentId?: number;
+    points?: number;                // Tournament points of the startup in that lineup
+}
+
+export interface Provenance {
+    tokenId: number;
+    startupId: number | null;
+    owners: string[];               // Every holder in order, escrow excluded
+    currentOwner: string | null;    // Null once burned
+    entries: ProvenanceEntry[];     // Oldest first
+}
+
+const nftIface = new ethers.Interface(NFT_ABI);
+const interfaces = new Map<string, ethers.Interface>([
+    [CONTRACTS.UnicornX_NFT.toLowerCase(), nftIface],
+    [CONTRACTS.PackOpener.toLowerCase(), new ethers.Interface(PACK_OPENER_ABI)],
+    [CONTRACTS.TournamentManager.toLowerCase(), new ethers.Interface(TOURNAMENT_ABI)],
+    [CONTRACTS.MarketplaceV2.toLowerCase(), new ethers.Interface(MARKETPLACE_V2_ABI)],
+]);
+const tournamentIface = interfaces.get(CONTRACTS.TournamentManager.toLowerCase())!;
+
+const MARKETPLACE = CONTRACTS.MarketplaceV2.toLowerCase();
+
+function decodeReceipt(receipt: ethers.TransactionReceipt): ethers.LogDescription[] {
+    const events: ethers.LogDescription[] = [];
+    for (const log of receipt.logs) {
+        const iface = interfaces.get(log.address.toLowerCase());
+        if (!iface) continue;
+        try {
+            const parsed = iface.parseLog(log);
+            if (parsed) events.push(parsed);
+        } catch { /* unknown event signature */ }
+    }
+    return events;
+}
+
+// Classify one Transfer of the token using the other events of its transaction
+function classifyTransfer(
+    transfer: ethers.Log,
+    events: ethers.LogDescription[],
+    tokenId: bigint,
+    escrowedBy: string | null
+): ProvenanceEntry {
+    const from = ethers.getAddress(ethers.dataSlice(transfer.topics[1], 12)).toLowerCase();
+    const to = ethers.getAddress(ethers.dataSlice(transfer.topics[2], 12)).toLowerCase();
+    const base = { blockNumber: transfer.blockNumber, logIndex: transfer.index, txHash: transfer.transactionHash };
+    const find = (name: string, match: (e: ethers.LogDescription) => boolean = () => true) =>
+        events.find(e => e.name === name && match(e));
+
+    if (from === ethers.ZeroAddress) {
+        const merge = find('CardsMerged', e => e.args.newTokenId === tokenId);
+        if (merge) {
+            return { ...base, kind: 'forged', to, tokenIds: merge.args.burnedTokenIds.map(Number) };
+        }
+        const pack = find('PackOpened', e => e.args.cardIds.some((id: bigint) => id === tokenId));
+        return { ...base, kind: 'minted', to, packId: pack ? Number(pack.args.packId) : undefined };
+    }
+
+    if (to === ethers.ZeroAddress) {
+        const merge = find('CardsMerged', e => e.args.burnedTokenIds.some((id: bigint) => id === tokenId));
+        return { ...base, kind: 'burned', from, tokenIds: merge ? [Number(merge.args.newTokenId)] : undefined };
+    }
+
+    if (to === MARKETPLACE) {
+        const auction = find('AuctionCreated', e => e.args.tokenId === tokenId);
+        if (auction) return { ...base, kind: 'auctioned', from, price: auction.args.startPrice };
+        const listing = find('CardListed', e => e.args.tokenId === tokenId);
+        return { ...base, kind: 'listed', from, price: listing?.args.price };
+    }
+
+    if (from === MARKETPLACE) {
+        const seller = escrowedBy ?? undefined;
+        if (to === escrowedBy) return { ...base, kind: 'delisted', to };
+        const sold = find('CardSold', e => e.args.tokenId === tokenId);
+        if (sold) return { ...base, kind: 'sale', saleType: 'listing', from: seller, to, price: sold.args.price };
+        const finalized = find('AuctionFinalized');
+        if (finalized) return { ...base, kind: 'sale', saleType: 'auction', from: seller, to, price: finalized.args.finalPrice };
+        return { ...base, kind: 'transfer', from: seller, to };
+    }
+
+    // Accepting an offer on an unlisted card moves it straight from seller to bidder
+    const offer = find('BidAccepted', e => e.args.tokenId === tokenId);
+    if (offer) return { ...base, kind: 'sale', saleType: 'offer', from, to, price: offer.args.amount };
+
+    return { ...base, kind: 'transfer', from, to };
+}
+
+// Points per startup name for one player in one tournament
+async function fetchCardScores(address: string, tournamentId: number): Promise<Record<string, { totalPoints: number }>> {
+    try {
+        const res = await fetch(`${API_BASE}/player/${address}/card-scores/${tournamentId}`);
+        const data = await res.json();
+        return data.success ? data.data : {};
+    } catch {
+        return {};
+    }
+}
+
+export async function getCardProvenance(tokenId: number): Promise<Provenance> {
+    const provider = getReadProvider();
+    const id = BigInt(tokenId);
+    const head = await provider.getBlockNumber();
+
+    const transfers = await getLogs({
+        address: CONTRACTS.UnicornX_NFT,
+        topics: [eventTopic(nftIface, 'Transfer'), null, null, toTopic(id)],
+        toBlock: head,
+    });
+
+    const txHashes = [...new Set(transfers.map(t => t.transactionHash))];
+    const receipts = await Promise.all(txHashes.map(hash => provider.getTransactionReceipt(hash)));
+    const eventsByTx = new Map<string, ethers.LogDescription[]>();
+    receipts.forEach((receipt, i) => eventsByTx.set(txHashes[i], receipt ? decodeReceipt(receipt) : []));
+
+    const entries: ProvenanceEntry[] = [];
+    const owners: string[] = [];
+    // Holding windows [fromBlock, toBlock] — tournaments are looked up inside these
+    const holdings: { owner: string; fromBlock: number; toBlock: number }[] = [];
+    let startupId: number | null = null;
+    let escrowedBy: string | null = null;
+    let currentOwner: string | null = null;
+
+    const changeOwner = (owner: string | null, block: number) => {
+        if (currentOwner) holdings[holdings.length - 1].toBlock = block;
+        currentOwner = owner;
+        if (owner) {
+            owners.push(owner);
+            holdings.push({ owner, fromBlock: block, toBlock: head });
+        }
+    };
+
+    for (const transfer of transfers) {
+        const events = eventsByTx.get(transfer.transactionHash) ?? [];
+        const entry = classifyTransfer(transfer, events, id, escrowedBy);
+        entries.push(entry);
+
+        switch (entry.kind) {
+            case 'minted':
+            case 'forged': {
+                const minted = events.find(e => e.name === 'CardMinted' && e.args.tokenId === id);
+                if (minted) startupId = Number(minted.args.startupId);
+                changeOwner(entry.to!, entry.blockNumber);
+                break;
+            }
+            case 'listed':
+            case 'auctioned':
+                escrowedBy = entry.from!;
+                break;
+            case 'delisted':
+                escrowedBy = null;
+                break;
+            case 'sale':
+            case 'transfer':
+                escrowedBy = null;
+                changeOwner(entry.to!, entry.blockNumber);
+                break;
+            case 'burned':
+                changeOwner(null, entry.blockNumber);
+                break;
+        }
+    }
+
+    // Tournaments entered by each owner while holding the card
+    const startupName = startupId !== null ? STARTUPS[startupId]?.name : undefined;
+    const lineupTopic = eventTopic(tournamentIface, 'LineupRegistered');
+    for (const holding of holdings) {
+        const lineups = await getLogs({
+            address: CONTRACTS.TournamentManager,
+            topics: [lineupTopic, null, toTopic(holding.owner)],
+            fromBlock: holding.fromBlock,
+            toBlock: holding.toBlock,
+        });
+        for (const log of lineups) {
+            const parsed = tournamentIface.parseLog(log);
+            if (!parsed || !parsed.args.cardIds.some((c: bigint) => c === id)) continue;
+            const tournamentId = Number(parsed.args.tournamentId);
+            const scores = startupName ? await fetchCardScores(holding.owner, tournamentId) : {};
+            entries.push({
+                kind: 'tournament',
+                blockNumber: log.blockNumber,
+                logIndex: log.index,
+                txHash: log.transactionHash,
+                to: holding.owner,
+                tournamentId,
+                points: startupName ? scores[startupName]?.totalPoints : undefined,
+            });
+        }
+    }
+
+    entries.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    const times = await getBlockTimestamps(entries.map(e => e.blockNumber));
+    entries.forEach(e => { e.timestamp = times.get(e.blockNumber); });
+
+    return { tokenId, startupId, owners, currentOwner, entries };
+}
@@ -0,0 +1,72 @@
+// Recipient lookup for card transfers — a wallet address or a registered username (the name lookup
+// also backs the Marketplace seller filter)
+
+import { ethers } from 'ethers';
+import { CONTRACTS } from './contracts';
+import { isAddress } from './router';
+
+const API_BASE = '/api';
+
+export interface Recipient {
+    address: string;            // Lowercase
+    username: string | null;
+    avatar: string | null;
+}
+
+/** Throws a user-facing reason when `address` shouldn't receive cards from `from` */
+export function validateRecipient(address: string, from: string): void {
+    const lower = address.toLowerCase();
+    if (lower === ethers.ZeroAddress) throw new Error('Cards sent to the zero address are lost for good.');
+    if (lower === from.toLowerCase()) throw new Error('That’s the wallet you’re sending from.');
+    // Contracts without onERC721Received revert anyway, but these would take the card silently
+    if (Object.values(CONTRACTS).some(c => c.toLowerCase() === lower)) {
+        throw new Error('That’s a UnicornX contract, not a wallet.');
+    }
+}
+
+async function fetchProfile(address: string): Promise<{ username: string; avatar: string | null } | null> {
+    try {
+        const res = await fetch(`${API_BASE}/users/${address}`);
+        const data = await res.json();
+        return data.success ? data.data : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Every wallet `input` can mean — one for an address, each player of that name for a username */
+export async function resolveRecipient(input: string, from: string): Promise<Recipient[]> {
+    const query = input.trim();
+
+    if (query.startsWith('0x')) {
+        if (!isAddress(query)) throw new Error('Not a valid wallet address.');
+        let address: string;
+        try {
+            // Rejects mixed-case input whose checksum doesn't match — usually a typo
+            address = ethers.getAddress(query).toLowerCase();
+        } catch {
+            throw new Error('Address checksum doesn’t match — check it for typos.');
+        }
+        validateRecipient(address, from);
+        const profile = await fetchProfile(address);
+        return [{ address, username: profile?.username ?? null, avatar: profile?.avatar ?? null }];
+    }
+
+    const username = query.replace(/^@/, '');
+    if (username.length < 3) throw new Error('Enter a wallet address or a username.');
+
+    const me = from.toLowerCase();
+    const matches = (await findPlayers(username)).filter(p => p.address !== me);
+    if (matches.length === 0) throw new Error('That’s the wallet you’re sending from.');
+    return matches;
+}
+
+/** Every player registered as `username` (leading @ optional); throws when there are none */
+export async function findPlayers(username: string): Promise<Recipient[]> {
+    const name = username.trim().replace(/^@/, '');
+    const res = await fetch(`${API_BASE}/users/by-username/${encodeURIComponent(name)}`);
+    const data = await res.json();
+    if (!data.success) throw new Error(data.error || 'Username lookup failed.');
+    if (data.data.length === 0) throw new Error(`No player named “${name}”.`);
+    return data.data.map((p: any) => ({ address: p.address.toLowerCase(), username: p.username, avatar: p.avatar || null }));
+}
@@ -0,0 +1,146 @@
+// Client-side routing over the History API — every section, filter set and detail modal has a URL
+//
+// Paths:
+//   /                          Dashboard
+//   /marketplace               ?tab=auctions&rarity=Epic&sort=price_asc&q=open
+//   /listing/:listingId        Marketplace with the listing's detail modal open
+//   /auction/:auctionId        Marketplace with the auction's detail modal open
+//   /portfolio, /feed, /admin
+//   /leagues, /tournament/:id  Leagues for the active / a given tournament (?player=:address expands a lineup)
+//   /player/:address           Read-only profile of any wallet — cards, lineups, rank, referrals
+//   /card/:tokenId             Card detail modal over the view it was opened from (Dashboard on a fresh visit)
+//
+// Unknown paths fall back to the Dashboard. The nginx config and the Vite dev server both serve
+// index.html for any path, so deep links load the app directly.
+
+import { useSyncExternalStore } from 'react';
+import { NavSection } from '../types';
+
+export interface Route {
+    path: string;
+    section: NavSection;
+    query: URLSearchParams;
+    tokenId?: number;
+    listingId?: number;
+    auctionId?: number;
+    tournamentId?: number;
+    player?: string;
+}
+
+const SECTION_PATHS: Record<NavSection, string> = {
+    [NavSection.HOME]: '/',
+    [NavSection.MARKETPLACE]: '/marketplace',
+    [NavSection.PORTFOLIO]: '/portfolio',
+    [NavSection.LEAGUES]: '/leagues',
+    [NavSection.FEED]: '/feed',
+    [NavSection.ADMIN]: '/admin',
+};
+
+export const RoutePaths = {
+    section: (section: NavSection) => SECTION_PATHS[section],
+    card: (tokenId: number | bigint) => `/card/${tokenId}`,
+    listing: (listingId: number | bigint) => `/listing/${listingId}`,
+    auction: (auctionId: number | bigint) => `/auction/${auctionId}`,
+    tournament: (tournamentId: number) => `/tournament/${tournamentId}`,
+    player: (address: string) => `/player/${address.toLowerCase()}`,
+};
+
+export const isAddress = (value: string | undefined | null): value is string =>
+    !!value && /^0x[0-9a-fA-F]{40}$/.test(value);
+
+const toId = (segment: string | undefined): number | undefined =>
+    segment && /^\d+$/.test(segment) ? Number(segment) : undefined;
+
+function parse(pathname: string, search: string, previous: NavSection): Route {
+    const [head = '', param] = pathname.split('/').filter(Boolean);
+    const route = (section: NavSection, extra: Partial<Route> = {}): Route => ({
+        path: pathname,
+        section,
+        query: new URLSearchParams(search),
+        ...extra,
+    });
+
+    switch (head) {
+        case '': return route(NavSection.HOME);
+        case 'marketplace': return route(NavSection.MARKETPLACE);
+        case 'portfolio': return route(NavSection.PORTFOLIO);
+        case 'leagues': return route(NavSection.LEAGUES);
+        case 'feed': return route(NavSection.FEED);
+        case 'admin': return route(NavSection.ADMIN);
+        case 'listing': return route(NavSection.MARKETPLACE, { listingId: toId(param) });
+        case 'auction': return route(NavSection.MARKETPLACE, { auctionId: toId(param) });
+        case 'tournament': return route(NavSection.LEAGUES, { tournamentId: toId(param) });
+        case 'player':
+            return isAddress(param) ? route(NavSection.PORTFOLIO, { player: param.toLowerCase() }) : route(NavSection.HOME);
+        // The card modal overlays whatever section was showing
+        case 'card': return route(previous, { tokenId: toId(param) });
+        default: return route(NavSection.HOME);
+    }
+}
+
+// ── Store ──
+
+const listeners = new Set<() => void>();
+let current: Route = parse(window.location.pathname, window.location.search, NavSection.HOME);
+
+// Entries pushed during this visit — closing a modal only steps back when it stays inside the app
+let depth = typeof history.state?.depth === 'number' ? history.state.depth : 0;
+
+function sync() {
+    const next = parse(window.location.pathname, window.location.search, current.section);
+    if (next.path === current.path && next.query.toString() === current.query.toString()) return;
+    current = next;
+    listeners.forEach(listener => listener());
+}
+
+window.addEventListener('popstate', (event) => {
+    depth = typeof event.state?.depth === 'number' ? event.state.depth : 0;
+    sync();
+});
+
+/** Goes to `to` (path plus optional ?query); `replace` swaps the current entry instead of adding one */
+export function navigate(to: string, options: { replace?: boolean } = {}): void {
+    const url = new URL(to, window.location.origin);
+    if (url.pathname === window.location.pathname && url.search === window.location.search) return;
+    if (options.replace) {
+        history.replaceState({ depth }, '', url.pathname + url.search);
+    } else {
+        depth += 1;
+        history.pushState({ depth }, '', url.pathname + url.search);
+    }
+    const section = current.section;
+    sync();
+    // New section starts at the top; modals and filters keep the scroll position
+    if (current.section !== section) window.scrollTo(0, 0);
+}
+
+/** Leaves a detail URL — back to the page that opened it, or `fallback` on a direct visit */
+export function goBack(fallback: string): void {
+    if (depth > 0) history.back();
+    else navigate(fallback, { replace: true });
+}
+
+/** Merges `params` into the current query string without adding history entries; null/'' removes a key */
+export function updateQuery(params: Record<string, string | null>): void {
+    const query = new URLSearchParams(window.location.search);
+    for (const [key, value] of Object.entries(params)) {
+        if (value === null || value === '') query.delete(key);
+        else query.set(key, value);
+    }
+    const search = query.toString();
+    navigate(window.location.pathname + (search ? `?${search}` : ''), { replace: true });
+}
+
+/** Absolute URL for sharing */
+export function shareUrl(path: string): string {
+    return new URL(path, window.location.origin).toString();
+}
+
+function subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+export function useRoute(): Route {
+    return useSyncExternalStore(subscribe, () => current);
+}
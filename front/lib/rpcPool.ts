@@ -0,0 +1,186 @@
+// RPC endpoint pool — health-scored failover for all read traffic
+//
+// - Each JSON-RPC request (or batch) goes to the best-scoring endpoint
+// - Timeouts, network errors and HTTP errors count against an endpoint, bench it for an
+//   exponential cooldown and the same payload is retried on the next endpoint
+// - Latency is an EWMA, so a slow-but-alive node loses to a faster one without being benched
+// - JSON-RPC error responses (reverts etc.) are valid answers and don't affect health
+
+import { ethers } from 'ethers';
+
+const REQUEST_TIMEOUT = 8000;       // Per-request timeout before trying the next endpoint
+const SLOW_LATENCY = 1500;          // EWMA above this → degraded
+const BASE_COOLDOWN = 2000;         // First bench after a failure, doubled per consecutive failure
+const MAX_COOLDOWN = 60 * 1000;
+const LATENCY_ALPHA = 0.3;          // EWMA weight of the newest sample
+const FAILURE_PENALTY = 2000;       // Score penalty (ms) per recent consecutive failure
+const NOTIFY_THROTTLE = 1000;       // Latency-only updates reach listeners at most once a second
+
+export type RpcHealthStatus = 'healthy' | 'degraded' | 'down';
+
+export interface RpcEndpointHealth {
+    url: string;
+    latency: number | null;         // EWMA in ms, null until the first success
+    failures: number;               // Consecutive failures
+    benchedUntil: number;           // Epoch ms, 0 when available
+    lastError: string | null;
+}
+
+export interface RpcHealth {
+    status: RpcHealthStatus;
+    activeUrl: string | null;       // Endpoint that served the last successful request
+    latency: number | null;
+    endpoints: RpcEndpointHealth[];
+}
+
+class Endpoint implements RpcEndpointHealth {
+    latency: number | null = null;
+    failures = 0;
+    benchedUntil = 0;
+    lastError: string | null = null;
+
+    constructor(readonly url: string) { }
+
+    get isBenched(): boolean {
+        return Date.now() < this.benchedUntil;
+    }
+
+    // Lower is better — unknown latency ranks as merely "slow" so new endpoints get tried
+    get score(): number {
+        return (this.latency ?? SLOW_LATENCY) + this.failures * FAILURE_PENALTY;
+    }
+
+    recordSuccess(latency: number): void {
+        this.latency = this.latency === null
+            ? latency
+            : this.latency * (1 - LATENCY_ALPHA) + latency * LATENCY_ALPHA;
+        this.failures = 0;
+        this.benchedUntil = 0;
+        this.lastError = null;
+    }
+
+    recordFailure(error: string): void {
+        this.failures++;
+        this.lastError = error;
+        this.benchedUntil = Date.now() + Math.min(BASE_COOLDOWN * 2 ** (this.failures - 1), MAX_COOLDOWN);
+    }
+}
+
+export class RpcPool {
+    private endpoints: Endpoint[];
+    private active: Endpoint | null = null;
+    private listeners = new Set<(health: RpcHealth) => void>();
+    private lastNotified: { status: RpcHealthStatus; activeUrl: string | null; at: number } | null = null;
+
+    constructor(urls: string[]) {
+        if (urls.length === 0) throw new Error('RpcPool needs at least one endpoint');
+        this.endpoints = urls.map(url => new Endpoint(url));
+    }
+
+    get primaryUrl(): string {
+        return this.endpoints[0].url;
+    }
+
+    // Available endpoints by score, then benched ones by soonest recovery (last resort)
+    private ranked(): Endpoint[] {
+        const available = this.endpoints.filter(e => !e.isBenched).sort((a, b) => a.score - b.score);
+        const benched = this.endpoints.filter(e => e.isBenched).sort((a, b) => a.benchedUntil - b.benchedUntil);
+        return [...available, ...benched];
+    }
+
+    // POST a JSON-RPC payload, failing over until an endpoint answers
+    async send(payload: unknown): Promise<any> {
+        const body = JSON.stringify(payload);
+        let lastError: Error | null = null;
+
+        for (const endpoint of this.ranked()) {
+            const started = performance.now();
+            const controller = new AbortController();
+            const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+            try {
+                const res = await fetch(endpoint.url, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body,
+                    signal: controller.signal,
+                });
+                if (!res.ok) throw new Error(`HTTP ${res.status}`);
+                const json = await res.json();
+
+                endpoint.recordSuccess(performance.now() - started);
+                this.active = endpoint;
+                this.notify();
+                return json;
+            } catch (e: any) {
+                const message = e?.name === 'AbortError' ? `Timed out after ${REQUEST_TIMEOUT}ms` : (e?.message || 'Request failed');
+                endpoint.recordFailure(message);
+                lastError = new Error(`${endpoint.url}: ${message}`);
+                this.notify();
+            } finally {
+                clearTimeout(timer);
+            }
+        }
+
+        throw lastError ?? new Error('No RPC endpoint available');
+    }
+
+    getHealth(): RpcHealth {
+        const available = this.endpoints.filter(e => !e.isBenched);
+        const active = this.active && !this.active.isBenched ? this.active : available[0] || null;
+
+        let status: RpcHealthStatus;
+        if (available.length === 0) {
+            status = 'down';
+        } else if (
+            available.length < this.endpoints.length ||
+            (active?.latency ?? 0) > SLOW_LATENCY
+        ) {
+            // Running on a fallback, or the best node is slow
+            status = 'degraded';
+        } else {
+            status = 'healthy';
+        }
+
+        return {
+            status,
+            activeUrl: active?.url ?? null,
+            latency: active?.latency ?? null,
+            endpoints: this.endpoints.map(e => ({
+                url: e.url,
+                latency: e.latency,
+                failures: e.failures,
+                benchedUntil: e.benchedUntil,
+                lastError: e.lastError,
+            })),
+        };
+    }
+
+    subscribe(listener: (health: RpcHealth) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private notify(): void {
+        if (this.listeners.size === 0) return;
+        const health = this.getHealth();
+        const last = this.lastNotified;
+        const now = Date.now();
+        if (last && last.status === health.status && last.activeUrl === health.activeUrl && now - last.at < NOTIFY_THROTTLE) {
+            return;
+        }
+        this.lastNotified = { status: health.status, activeUrl: health.activeUrl, at: now };
+        this.listeners.forEach(listener => listener(health));
+    }
+}
+
+// JsonRpcProvider whose transport is the pool — batching, caching and decoding stay with ethers
+export class PooledJsonRpcProvider extends ethers.JsonRpcProvider {
+    constructor(readonly pool: RpcPool, network: ethers.Networkish, options?: ethers.JsonRpcApiProviderOptions) {
+        super(pool.primaryUrl, network, options);
+    }
+
+    async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+        const result = await this.pool.send(payload);
+        return Array.isArray(result) ? result : [result];
+    }
+}
@@ -0,0 +1,131 @@
+// Saved marketplace searches — filter combinations a wallet wants to be alerted about
+//
+// - Stored per chain and wallet in localStorage; the store is a singleton so the Marketplace editor
+//   and the app-wide alert watcher see the same rules
+// - A rule matches a card by startup, rarity, max price and min multiplier; unset fields match anything
+
+import { CHAIN_ID, STARTUPS, parseXTZ } from './contracts';
+
+export interface SavedSearch {
+    id: string;
+    name: string;
+    startupId: number | null;
+    rarity: string | null;
+    maxPrice: string | null;        // XTZ, as typed
+    minMultiplier: number | null;
+    listings: boolean;              // Alert on new listings
+    auctions: boolean;              // Alert on auctions about to end
+    createdAt: number;              // Epoch ms
+}
+
+export type SavedSearchInput = Omit<SavedSearch, 'id' | 'createdAt' | 'name'> & { name?: string };
+
+// What a rule is checked against — a listing, or an auction at its current price
+export interface SearchTarget {
+    startupId?: number;
+    rarity?: string;
+    multiplier?: number;
+    price: bigint;
+}
+
+const storageKey = (address: string) => `unicornx:searches:${CHAIN_ID}:${address.toLowerCase()}`;
+
+const toWei = (xtz: string | null): bigint | null => {
+    if (!xtz) return null;
+    try {
+        return parseXTZ(xtz);
+    } catch {
+        return null;
+    }
+};
+
+export function matchesSearch(search: SavedSearch, target: SearchTarget): boolean {
+    if (search.startupId !== null && target.startupId !== search.startupId) return false;
+    if (search.rarity !== null && target.rarity !== search.rarity) return false;
+    if (search.minMultiplier !== null && (target.multiplier ?? 0) < search.minMultiplier) return false;
+    const maxPrice = toWei(search.maxPrice);
+    if (maxPrice !== null && target.price > maxPrice) return false;
+    return true;
+}
+
+/** "Openclaw · ≤ 5 XTZ · 10x+" — used as the default name and in alerts */
+export function describeSearch(search: Omit<SavedSearch, 'id' | 'createdAt' | 'name'>): string {
+    const parts: string[] = [];
+    if (search.startupId !== null) parts.push(STARTUPS[search.startupId]?.name ?? `Startup #${search.startupId}`);
+    if (search.rarity !== null && search.startupId === null) parts.push(search.rarity);
+    if (search.maxPrice) parts.push(`≤ ${search.maxPrice} XTZ`);
+    if (search.minMultiplier !== null) parts.push(`${search.minMultiplier}x+`);
+    return parts.length > 0 ? parts.join(' · ') : 'Any card';
+}
+
+class SavedSearchStore {
+    private address: string | null = null;
+    private searches: SavedSearch[] = [];
+    private listeners = new Set<(searches: SavedSearch[]) => void>();
+
+    // Switch to a wallet's rules (null = disconnected, no rules)
+    setWallet(address: string | null): void {
+        const next = address?.toLowerCase() ?? null;
+        if (next === this.address) return;
+        this.address = next;
+        this.searches = next ? this.load(next) : [];
+        this.emit();
+    }
+
+    getSearches(): SavedSearch[] {
+        return this.searches;
+    }
+
+    add(input: SavedSearchInput): SavedSearch | null {
+        if (!this.address) return null;
+        const search: SavedSearch = {
+            ...input,
+            name: input.name?.trim() || describeSearch(input),
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+            createdAt: Date.now(),
+        };
+        this.searches = [...this.searches, search];
+        this.persist();
+        return search;
+    }
+
+    update(id: string, changes: Partial<Omit<SavedSearch, 'id' | 'createdAt'>>): void {
+        this.searches = this.searches.map(s => (s.id === id ? { ...s, ...changes } : s));
+        this.persist();
+    }
+
+    remove(id: string): void {
+        this.searches = this.searches.filter(s => s.id !== id);
+        this.persist();
+    }
+
+    subscribe(listener: (searches: SavedSearch[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    private emit(): void {
+        const searches = this.searches;
+        this.listeners.forEach(listener => listener(searches));
+    }
+
+    private load(address: string): SavedSearch[] {
+        try {
+            const raw = localStorage.getItem(storageKey(address));
+            return raw ? JSON.parse(raw) : [];
+        } catch {
+            return [];
+        }
+    }
+
+    private persist(): void {
+        if (!this.address) return;
+        try {
+            if (this.searches.length > 0) localStorage.setItem(storageKey(this.address), JSON.stringify(this.searches));
+            else localStorage.removeItem(storageKey(this.address));
+        } catch { /* storage full or blocked — rules last for this session */ }
+        this.emit();
+    }
+}
+
+export const savedSearches = new SavedSearchStore();
@@ -0,0 +1,63 @@
+// Floor sweep — pick the cheapest listings matching a startup / rarity, within a count and a budget
+//
+// Planning is pure; the purchases run in useMarketplaceV2.sweepListings, which re-reads every listing
+// right before buying it and stops at the first one that is gone or would overrun the budget
+
+import { STARTUPS } from './contracts';
+import type { Listing } from './abi/MarketplaceV2';
+
+export interface SweepCriteria {
+    startupId: number | null;       // null = any startup
+    rarity: string | null;          // null = any rarity
+    quantity: number;
+    budget: bigint;                 // Max total, wei
+}
+
+export interface SweepItem {
+    listingId: bigint;
+    tokenId: bigint;
+    startupId: number;
+    seller: string;
+    price: bigint;
+}
+
+export type SweepStatus = 'pending' | 'checking' | 'buying' | 'bought' | 'stopped';
+
+export type SweepStopReason = 'budget' | 'gone' | 'cancelled' | 'error';
+
+export interface SweepResult {
+    bought: SweepItem[];
+    spent: bigint;
+    stopped: { reason: SweepStopReason; item: SweepItem; message: string } | null;
+}
+
+/** Listings the user could sweep — someone else's, matching the criteria, cheapest first */
+export function sweepCandidates(
+    listings: Listing[],
+    startupOf: Map<number, number>,
+    criteria: Pick<SweepCriteria, 'startupId' | 'rarity'>,
+    buyer: string
+): SweepItem[] {
+    return listings
+        .filter(l => l.active && l.seller.toLowerCase() !== buyer.toLowerCase())
+        .map(l => ({ listingId: l.listingId, tokenId: l.tokenId, startupId: startupOf.get(Number(l.tokenId)) ?? 0, seller: l.seller, price: l.price }))
+        .filter(item => criteria.startupId === null || item.startupId === criteria.startupId)
+        .filter(item => criteria.rarity === null || STARTUPS[item.startupId]?.rarity === criteria.rarity)
+        .sort((a, b) => (a.price < b.price ? -1 : a.price > b.price ? 1 : Number(a.listingId - b.listingId)));
+}
+
+/** Cheapest first, up to the quantity, while the running total stays within the budget */
+export function planSweep(candidates: SweepItem[], quantity: number, budget: bigint): SweepItem[] {
+    const plan: SweepItem[] = [];
+    let total = 0n;
+    for (const item of candidates) {
+        if (plan.length >= quantity || total + item.price > budget) break;
+        plan.push(item);
+        total += item.price;
+    }
+    return plan;
+}
+
+export function sweepTotal(items: SweepItem[]): bigint {
+    return items.reduce((sum, item) => sum + item.price, 0n);
+}
@@ -0,0 +1,74 @@
+// Tournaments a wallet has entered — lineups and prizes from TournamentManager logs, rank from the scorer API
+
+import { ethers } from 'ethers';
+import { CONTRACTS, TOURNAMENT_ABI } from './contracts';
+import { getLogs, getBlockTimestamps, toTopic, eventTopic } from './logs';
+
+const API_BASE = '/api';
+
+export interface TournamentEntry {
+    tournamentId: number;
+    cardIds: number[];
+    cancelled: boolean;
+    prize: bigint;              // Claimed prize in wei, 0 when none
+    rank: number | null;        // Scorer rank, null when not scored
+    score: number | null;
+    enteredAt?: number;         // Epoch seconds
+}
+
+const tournamentIface = new ethers.Interface(TOURNAMENT_ABI);
+
+async function fetchRank(address: string, tournamentId: number): Promise<{ rank: number; score: number } | null> {
+    try {
+        const res = await fetch(`${API_BASE}/player/${address}/rank/${tournamentId}`);
+        const data = await res.json();
+        return data.success ? { rank: data.data.rank, score: data.data.score } : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Newest tournament first */
+export async function getTournamentHistory(address: string): Promise<TournamentEntry[]> {
+    const who = toTopic(ethers.getAddress(address));
+    const logs = await getLogs({
+        address: CONTRACTS.TournamentManager,
+        topics: [[eventTopic(tournamentIface, 'LineupRegistered'), eventTopic(tournamentIface, 'LineupCancelled'), eventTopic(tournamentIface, 'PrizeClaimed')], null, who],
+    });
+
+    const entries = new Map<number, TournamentEntry & { block: number }>();
+    for (const log of logs) {
+        const { name, args } = tournamentIface.parseLog(log)!;
+        const tournamentId = Number(args.tournamentId);
+        if (name === 'LineupRegistered') {
+            // Re-entering after a cancel replaces the lineup
+            entries.set(tournamentId, {
+                tournamentId,
+                cardIds: args.cardIds.map(Number),
+                cancelled: false,
+                prize: entries.get(tournamentId)?.prize ?? 0n,
+                rank: null,
+                score: null,
+                block: log.blockNumber,
+            });
+        } else {
+            const entry = entries.get(tournamentId);
+            if (!entry) continue;
+            if (name === 'LineupCancelled') entry.cancelled = true;
+            else entry.prize += args.prizeAmount;
+        }
+    }
+
+    const list = [...entries.values()].sort((a, b) => b.tournamentId - a.tournamentId);
+    const [times, ranks] = await Promise.all([
+        getBlockTimestamps(list.map(e => e.block)),
+        Promise.all(list.map(e => e.cancelled ? null : fetchRank(address.toLowerCase(), e.tournamentId))),
+    ]);
+
+    return list.map(({ block, ...entry }, i) => ({
+        ...entry,
+        rank: ranks[i]?.rank ?? null,
+        score: ranks[i]?.score ?? null,
+        enteredAt: times.get(block),
+    }));
+}
@@ -0,0 +1,183 @@
+// Transaction manager — every write goes through here once the wallet returns a hash
+//
+// - Pending hashes are persisted per chain, so a refresh mid-confirmation resumes watching
+//   (from the read pool) instead of losing the transaction. Dismissing a pending toast only hides
+//   it — the hash stays watched and persisted until it's final
+// - Confirmed receipts go through the event watcher's decoder → the same targeted cache
+//   invalidations as live logs, without waiting for the next getLogs tick
+// - Listeners (the toast stack) see every pending → confirmed/failed transition
+
+import { ethers } from 'ethers';
+import { CHAIN_ID, EXPLORER_URL, getReadProvider } from './contracts';
+import { chainEvents } from './chainEvents';
+import { describeError } from './errors';
+
+const STORAGE_KEY = `unicornx:txs:${CHAIN_ID}`;
+const RESUME_POLL_INTERVAL = 3000;          // Receipt polling for transactions restored after a reload
+const DROPPED_AFTER = 30 * 60 * 1000;       // Still unknown to the node this long after submission → dropped
+const CONFIRMED_DISMISS = 6000;             // Finished entries hide themselves after these delays
+const FAILED_DISMISS = 15000;
+
+export type TxStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface TrackedTx {
+    hash: string;
+    label: string;              // Short action name shown in the toast ("Buy card #12")
+    status: TxStatus;
+    submittedAt: number;        // Epoch ms
+    error?: string;
+    hidden?: boolean;           // Toast dismissed while still pending
+}
+
+// Anything with a hash and wait() — plain and contract transaction responses alike
+interface Waitable<R> {
+    hash: string;
+    wait(): Promise<R | null>;
+}
+
+export function txExplorerUrl(hash: string): string | null {
+    return EXPLORER_URL ? `${EXPLORER_URL}/tx/${hash}` : null;
+}
+
+class TransactionManager {
+    private txs: TrackedTx[] = [];
+    private listeners = new Set<(txs: TrackedTx[]) => void>();
+    private dismissTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    private watching = new Set<string>();
+    private running = false;
+
+    constructor() {
+        this.txs = this.load();
+    }
+
+    // Record a submitted transaction and wait for it — throws like tx.wait() on revert
+    async track<R extends ethers.TransactionReceipt>(tx: Waitable<R>, label: string): Promise<R> {
+        this.upsert({ hash: tx.hash, label, status: 'pending', submittedAt: Date.now() });
+        try {
+            const receipt = await tx.wait();
+            // Only happens when the wallet reports nothing back — not a confirmation
+            if (!receipt) throw new Error('No receipt returned for this transaction');
+            this.confirm(tx.hash, receipt);
+            return receipt;
+        } catch (e: any) {
+            this.fail(tx.hash, describeError(e, 'Transaction failed'));
+            throw e;
+        }
+    }
+
+    // Resume watching transactions restored from storage — started by the app shell
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        this.txs.filter(t => t.status === 'pending').forEach(t => this.watch(t.hash));
+    }
+
+    stop(): void {
+        this.running = false;
+        this.dismissTimers.forEach(timer => clearTimeout(timer));
+        this.dismissTimers.clear();
+    }
+
+    getTransactions(): TrackedTx[] {
+        return this.txs;
+    }
+
+    // Pending entries are only hidden — their receipt still has to drive the cache invalidations
+    dismiss(hash: string): void {
+        if (this.txs.some(t => t.hash === hash && t.status === 'pending')) {
+            this.update(this.txs.map(t => t.hash === hash ? { ...t, hidden: true } : t));
+            return;
+        }
+        const timer = this.dismissTimers.get(hash);
+        if (timer) clearTimeout(timer);
+        this.dismissTimers.delete(hash);
+        this.update(this.txs.filter(t => t.hash !== hash));
+    }
+
+    subscribe(listener: (txs: TrackedTx[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    // Poll the receipt of a transaction this page didn't submit itself
+    private async watch(hash: string): Promise<void> {
+        if (this.watching.has(hash)) return;
+        this.watching.add(hash);
+        const provider = getReadProvider();
+
+        try {
+            while (this.running) {
+                const entry = this.txs.find(t => t.hash === hash);
+                if (!entry || entry.status !== 'pending') return;
+
+                try {
+                    const receipt = await provider.getTransactionReceipt(hash);
+                    if (receipt) {
+                        if (receipt.status === 1) this.confirm(hash, receipt);
+                        else this.fail(hash, 'Transaction reverted');
+                        return;
+                    }
+                    if (Date.now() - entry.submittedAt > DROPPED_AFTER && !(await provider.getTransaction(hash))) {
+                        this.fail(hash, 'Transaction was dropped or replaced');
+                        return;
+                    }
+                } catch { /* RPC hiccup — try again next round */ }
+
+                await new Promise(r => setTimeout(r, RESUME_POLL_INTERVAL));
+            }
+        } finally {
+            this.watching.delete(hash);
+        }
+    }
+
+    private confirm(hash: string, receipt: ethers.TransactionReceipt): void {
+        chainEvents.applyLogs(receipt.logs);
+        this.finish(hash, { status: 'confirmed' }, CONFIRMED_DISMISS);
+    }
+
+    private fail(hash: string, error: string): void {
+        this.finish(hash, { status: 'failed', error }, FAILED_DISMISS);
+    }
+
+    private finish(hash: string, patch: Partial<TrackedTx>, dismissAfter: number): void {
+        if (this.txs.some(t => t.hash === hash && t.hidden)) {
+            this.update(this.txs.filter(t => t.hash !== hash));
+            return;
+        }
+        this.update(this.txs.map(t => t.hash === hash ? { ...t, ...patch } : t));
+        this.dismissTimers.set(hash, setTimeout(() => this.dismiss(hash), dismissAfter));
+    }
+
+    private upsert(entry: TrackedTx): void {
+        this.update([...this.txs.filter(t => t.hash !== entry.hash), entry]);
+    }
+
+    private update(txs: TrackedTx[]): void {
+        this.txs = txs;
+        this.save();
+        this.listeners.forEach(listener => listener(txs));
+    }
+
+    // ── Persistence (pending only — finished entries are just toasts) ──
+
+    private load(): TrackedTx[] {
+        try {
+            const raw = localStorage.getItem(STORAGE_KEY);
+            const stored: TrackedTx[] = raw ? JSON.parse(raw) : [];
+            return stored.filter(t => t.hash && t.status === 'pending');
+        } catch {
+            return [];
+        }
+    }
+
+    private save(): void {
+        try {
+            const pending = this.txs.filter(t => t.status === 'pending');
+            if (pending.length > 0) localStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+            else localStorage.removeItem(STORAGE_KEY);
+        } catch { /* storage full or unavailable */ }
+    }
+}
+
+// Singleton instance — shared by every write hook and the toast stack
+export const txManager = new TransactionManager();
@@ -0,0 +1,122 @@
+// Service worker template — vite.config.ts fills in the precache list and version and emits /sw.js
+//
+// - App shell, hashed bundles and startup images: precached on install, served cache-first
+// - Page loads: network first, cached index.html when the network is down or too slow
+// - Leaderboard, live feed and card metadata: stale-while-revalidate
+// - Every other /api call and all RPC traffic: network only — balances and prices must be live
+// - Tailwind CDN and Google Fonts: cached on first use so the offline shell is still styled
+
+const VERSION = '__CACHE_VERSION__';
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const SHELL_CACHE = `unicornx-shell-${VERSION}`;
+const DATA_CACHE = 'unicornx-data';
+const CDN_CACHE = 'unicornx-cdn';
+const KEEP = [SHELL_CACHE, DATA_CACHE, CDN_CACHE];
+
+const NAVIGATION_TIMEOUT = 3000;
+const MAX_DATA_ENTRIES = 300;
+
+const SWR_PATHS = ['/api/leaderboard', '/api/live-feed', '/metadata/'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => !KEEP.includes(k)).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin !== self.location.origin) {
+    if (CDN_HOSTS.includes(url.hostname)) event.respondWith(cacheFirst(request, CDN_CACHE));
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+
+  if (SWR_PATHS.some((p) => url.pathname.startsWith(p))) {
+    event.respondWith(staleWhileRevalidate(event, request));
+    return;
+  }
+
+  if (url.pathname.startsWith('/api/') || url.pathname === '/health') return;
+
+  if (PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Opaque (status 0) is what no-cors CDN requests return — still worth keeping
+  if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+  return response;
+}
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await withTimeout(fetch(request), NAVIGATION_TIMEOUT);
+    if (response.ok) cache.put('/index.html', response.clone());
+    return response;
+  } catch {
+    // Every route is the same SPA shell
+    return (await cache.match('/index.html')) || Response.error();
+  }
+}
+
+async function staleWhileRevalidate(event, request) {
+  const cache = await caches.open(DATA_CACHE);
+  const cached = await cache.match(request);
+
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        cache.put(request, response.clone()).then(() => trimCache(cache, MAX_DATA_ENTRIES));
+      }
+      return response;
+    });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => {}));
+    return cached;
+  }
+  return network;
+}
+
+// Keys come back in insertion order, so the front of the list is the oldest
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((k) => cache.delete(k)));
+}
+
+function withTimeout(promise, ms) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('timeout')), ms);
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (error) => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    readonly VITE_WALLETCONNECT_PROJECT_ID?: string;
+    readonly VITE_NETWORK?: string;
+    readonly VITE_LOCAL_RPC_URL?: string;
+}
@@ -1,14 +1,62 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits /sw.js from service-worker.js with the build's file list baked in —
+// the version is a hash of everything precached, so each deploy installs a fresh worker
+function serviceWorker(): Plugin {
+    const template = path.resolve(__dirname, 'service-worker.js');
+    const publicDir = path.resolve(__dirname, 'public');
+    return {
+      name: 'unicornx-service-worker',
+      apply: 'build',
+      enforce: 'post',   // After the HTML plugin, so index.html is in the bundle
+      generateBundle(_, bundle) {
+        const hash = crypto.createHash('sha256');
+        const urls: string[] = [];
+
+        for (const file of Object.values(bundle)) {
+          if (file.fileName.endsWith('.map')) continue;
+          urls.push('/' + file.fileName);
+          hash.update(file.type === 'chunk' ? file.code : file.source);
+        }
+
+        const images = fs.readdirSync(path.join(publicDir, 'images')).filter(f => f.endsWith('.png'));
+        for (const file of ['unicornx.png', 'manifest.json', ...images.map(f => `images/${f}`)]) {
+          urls.push('/' + file);
+          hash.update(fs.readFileSync(path.join(publicDir, file)));
+        }
+
+        const source = fs.readFileSync(template, 'utf8');
+        hash.update(source);
+        this.emitFile({
+          type: 'asset',
+          fileName: 'sw.js',
+          source: source
+            .replace('__CACHE_VERSION__', hash.digest('hex').slice(0, 12))
+            .replace('__PRECACHE_URLS__', JSON.stringify(urls.sort(), null, 2)),
+        });
+      },
+    };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Network registry reads ../deployment-*.json — allow exactly those files outside the app root
+    const repoRoot = path.resolve(__dirname, '..');
+    const deploymentFiles = fs.readdirSync(repoRoot)
+      .filter(f => /^deployment-.+\.json$/.test(f))
+      .map(f => path.join(repoRoot, f));
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
         hmr: false,
+        fs: {
+          allow: ['.', ...deploymentFiles],
+        },
         proxy: {
           '/api': {
             target: 'http://localhost:3003',
@@ -24,7 +72,7 @@ export default defineConfig(({ mode }) => {
           },
         },
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
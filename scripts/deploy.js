@@ -20,6 +20,13 @@ const NETWORKS = {
         chainId: 42793,
         rpc: "https://node.mainnet.etherlink.com",
         explorer: "https://explorer.etherlink.com"
+    },
+    // Anvil / Hardhat node for local testing (frontend picks up deployment-local.json)
+    local: {
+        name: "Local Devnet",
+        chainId: 31337,
+        rpc: process.env.LOCAL_RPC_URL || "http://127.0.0.1:8545",
+        explorer: ""
     }
 };
 
@@ -91,6 +98,9 @@ async function main() {
     console.log(`💰 Balance: ${ethers.formatEther(balance)} XTZ`);
     console.log("");
 
+    // First block the contracts can have logs in — the frontend scans history from here
+    const startBlock = await provider.getBlockNumber();
+
     // Load compiled contracts
     const buildDir = path.join(__dirname, "..", "build");
 
@@ -195,10 +205,12 @@ async function main() {
         network: networkArg,
         networkName: network.name,
         chainId: network.chainId,
+        rpc: network.rpc,
         explorer: network.explorer,
         timestamp: new Date().toISOString(),
         deployer: wallet.address,
         deployMode: "UUPS Proxy",
+        startBlock,
         proxies: {
             UnicornX_NFT: nft.proxyAddress,
             PackOpener: pack.proxyAddress,
@@ -0,0 +1,67 @@
+// scripts/find-start-block.js
+// Find the block the proxies were deployed in and record it as startBlock in the deployment file,
+// for deployments made before deploy.js wrote it. The frontend's history scans start there
+//
+// Usage: node scripts/find-start-block.js <network>
+// Example: node scripts/find-start-block.js shadownet
+
+const { ethers } = require("ethers");
+const fs = require("fs");
+const path = require("path");
+
+const RPCS = {
+    shadownet: "https://node.shadownet.etherlink.com",
+    mainnet: "https://node.mainnet.etherlink.com"
+};
+
+async function main() {
+    const networkArg = process.argv[2];
+    const rpc = RPCS[networkArg];
+    if (!rpc) {
+        console.error("❌ Usage: node scripts/find-start-block.js <network>");
+        console.error(`   Networks: ${Object.keys(RPCS).join(", ")}`);
+        process.exit(1);
+    }
+
+    const deploymentFile = path.join(__dirname, "..", `deployment-${networkArg}.json`);
+    if (!fs.existsSync(deploymentFile)) {
+        console.error(`❌ Deployment file not found: deployment-${networkArg}.json`);
+        process.exit(1);
+    }
+    const deployment = JSON.parse(fs.readFileSync(deploymentFile, "utf8"));
+    const provider = new ethers.JsonRpcProvider(deployment.rpc || rpc);
+
+    // The earliest recorded upgrade bounds the search from above
+    let high = await provider.getBlockNumber();
+    for (const upgrade of deployment.upgradeHistory || []) {
+        const receipt = upgrade.txHash ? await provider.getTransactionReceipt(upgrade.txHash) : null;
+        if (receipt && receipt.blockNumber < high) high = receipt.blockNumber;
+    }
+
+    // First block any proxy has code in — nothing of ours can have logs before it
+    const addresses = Object.values(deployment.proxies);
+    const deployed = async (block) => {
+        const codes = await Promise.all(addresses.map(a => provider.getCode(a, block)));
+        return codes.some(code => code !== "0x");
+    };
+    if (!(await deployed(high))) {
+        console.error(`❌ Proxies have no code at block ${high} — wrong network or RPC?`);
+        process.exit(1);
+    }
+
+    let low = 0;
+    while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if (await deployed(mid)) high = mid;
+        else low = mid + 1;
+    }
+
+    deployment.startBlock = low;
+    fs.writeFileSync(deploymentFile, JSON.stringify(deployment, null, 2) + "\n");
+    console.log(`✅ startBlock = ${low} written to deployment-${networkArg}.json`);
+}
+
+main().catch((e) => {
+    console.error("❌", e.message || e);
+    process.exit(1);
+});
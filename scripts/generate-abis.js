@@ -0,0 +1,294 @@
+// scripts/generate-abis.js
+// Generate typed frontend bindings (front/lib/abi/*.ts) from compiled contract artifacts
+//
+// Usage:
+//   node scripts/compile.js && node scripts/generate-abis.js   - regenerate bindings
+//   node scripts/generate-abis.js --check                      - fail if bindings drifted from contracts/
+
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+
+const ROOT = path.join(__dirname, "..");
+const CONTRACTS_DIR = path.join(ROOT, "contracts");
+const BUILD_DIR = path.join(ROOT, "build");
+const OUT_DIR = path.join(ROOT, "front", "lib", "abi");
+
+// Contract -> exported ABI constant / contract interface names used by the frontend
+const TARGETS = [
+    { name: "UnicornX_NFT", abiConst: "NFT_ABI", contractType: "UnicornXNFTContract" },
+    { name: "PackOpener", abiConst: "PACK_OPENER_ABI", contractType: "PackOpenerContract" },
+    { name: "TournamentManager", abiConst: "TOURNAMENT_ABI", contractType: "TournamentManagerContract" },
+    { name: "MarketplaceV2", abiConst: "MARKETPLACE_V2_ABI", contractType: "MarketplaceV2Contract" },
+];
+
+const CHECK = process.argv.includes("--check");
+
+function hashSource(name) {
+    const source = fs.readFileSync(path.join(CONTRACTS_DIR, `${name}.sol`));
+    return crypto.createHash("sha256").update(source).digest("hex");
+}
+
+function readRecordedHash(file) {
+    if (!fs.existsSync(file)) return null;
+    const match = fs.readFileSync(file, "utf8").match(/^\/\/ Source hash: ([0-9a-f]{64})$/m);
+    return match ? match[1] : null;
+}
+
+// ============ Type Mapping ============
+
+// "struct MarketplaceV2.Listing[]" -> "Listing"
+function structName(param) {
+    return param.internalType.replace(/^struct /, "").replace(/\[\d*\]/g, "").split(".").pop();
+}
+
+function isEnum(param) {
+    return (param.internalType || "").startsWith("enum ");
+}
+
+function arraySuffix(type) {
+    const match = type.match(/(\[\d*\])+$/);
+    return match ? match[0] : "";
+}
+
+function arrayDepth(type) {
+    return (arraySuffix(type).match(/\[/g) || []).length;
+}
+
+function baseType(type) {
+    return type.replace(/(\[\d*\])+$/, "");
+}
+
+// Argument types accepted by ethers for each Solidity type
+function inputType(param) {
+    const depth = arrayDepth(param.type);
+    const base = baseType(param.type);
+    let ts;
+    if (base === "tuple") {
+        ts = `{ ${param.components.map(c => `${c.name}: ${inputType(c)}`).join("; ")} }`;
+    } else if (/^u?int\d*$/.test(base)) {
+        ts = "BigNumberish";
+    } else if (base === "address") {
+        ts = "AddressLike";
+    } else if (base === "bool") {
+        ts = "boolean";
+    } else if (base === "string") {
+        ts = "string";
+    } else {
+        ts = "BytesLike";
+    }
+    return ts + "[]".repeat(depth);
+}
+
+// Raw values as returned by ethers (every integer is a bigint, structs are Results)
+function outputType(param) {
+    const depth = arrayDepth(param.type);
+    const base = baseType(param.type);
+    let ts;
+    if (base === "tuple") {
+        ts = `${structName(param)}Output`;
+    } else if (/^u?int\d*$/.test(base)) {
+        ts = "bigint";
+    } else if (base === "bool") {
+        ts = "boolean";
+    } else {
+        ts = "string";
+    }
+    return ts + "[]".repeat(depth);
+}
+
+// Plain decoded values handed to hooks (enums become numbers, structs plain objects)
+function decodedType(param) {
+    const depth = arrayDepth(param.type);
+    const base = baseType(param.type);
+    let ts;
+    if (base === "tuple") {
+        ts = structName(param);
+    } else if (isEnum(param)) {
+        ts = "number";
+    } else {
+        ts = outputType({ ...param, type: base });
+    }
+    return ts + "[]".repeat(depth);
+}
+
+function decodeExpr(param, expr) {
+    const depth = arrayDepth(param.type);
+    const base = baseType(param.type);
+    if (depth > 0) {
+        const inner = { ...param, type: param.type.replace(/\[\d*\]$/, ""), internalType: param.internalType.replace(/\[\d*\]$/, "") };
+        return `Array.from(${expr}, (v: ${outputType(inner)}) => ${decodeExpr(inner, "v")})`;
+    }
+    if (base === "tuple") return `decode${structName(param)}(${expr})`;
+    if (isEnum(param)) return `Number(${expr})`;
+    return expr;
+}
+
+function returnType(outputs) {
+    if (outputs.length === 0) return "void";
+    if (outputs.length === 1) return outputType(outputs[0]);
+    const tuple = `[${outputs.map(outputType).join(", ")}]`;
+    if (outputs.every(o => o.name)) {
+        return `${tuple} & { ${outputs.map(o => `${o.name}: ${outputType(o)}`).join("; ")} }`;
+    }
+    return tuple;
+}
+
+// Named type for functions returning several values, e.g. getUserLineup -> GetUserLineupResult
+function resultTypeName(fn) {
+    return `${fn.name[0].toUpperCase()}${fn.name.slice(1)}Result`;
+}
+
+function args(inputs) {
+    return `[${inputs.map((p, i) => `${p.name || `arg${i}`}: ${inputType(p)}`).join(", ")}]`;
+}
+
+// ============ Code Generation ============
+
+function collectStructs(abi) {
+    const structs = new Map();
+    const visit = (param) => {
+        if (baseType(param.type) !== "tuple") return;
+        param.components.forEach(visit);
+        const name = structName(param);
+        if (!structs.has(name)) structs.set(name, param.components);
+    };
+    for (const entry of abi) {
+        (entry.inputs || []).forEach(visit);
+        (entry.outputs || []).forEach(visit);
+    }
+    return structs;
+}
+
+function generate(target, abi, hash) {
+    const entries = abi.filter(e => ["function", "event", "error"].includes(e.type));
+    const functions = entries.filter(e => e.type === "function");
+    const events = entries.filter(e => e.type === "event");
+    const structs = collectStructs(entries);
+
+    const overloaded = new Set(
+        functions.map(f => f.name).filter((n, i, all) => all.indexOf(n) !== i)
+    );
+
+    const lines = [];
+    lines.push(`// Generated by scripts/generate-abis.js from contracts/${target.name}.sol - do not edit`);
+    lines.push(`// Source hash: ${hash}`);
+    lines.push(`import type {`);
+    lines.push(`    AddressLike,`);
+    lines.push(`    BaseContract,`);
+    lines.push(`    BaseContractMethod,`);
+    lines.push(`    BigNumberish,`);
+    lines.push(`    BytesLike,`);
+    lines.push(`    ContractTransactionResponse,`);
+    lines.push(`} from 'ethers';`);
+    lines.push(``);
+
+    lines.push(`// ============ ABI ============`);
+    lines.push(`export const ${target.abiConst} = [`);
+    for (const entry of entries) lines.push(`    ${JSON.stringify(entry)},`);
+    lines.push(`];`);
+    lines.push(``);
+
+    if (structs.size > 0) {
+        lines.push(`// ============ Structs ============`);
+        for (const [name, components] of structs) {
+            lines.push(`export interface ${name} {`);
+            for (const c of components) lines.push(`    ${c.name}: ${decodedType(c)};`);
+            lines.push(`}`);
+            lines.push(``);
+            lines.push(`export interface ${name}Output {`);
+            for (const c of components) lines.push(`    ${c.name}: ${outputType(c)};`);
+            lines.push(`}`);
+            lines.push(``);
+            lines.push(`export function decode${name}(raw: ${name}Output): ${name} {`);
+            lines.push(`    return {`);
+            for (const c of components) lines.push(`        ${c.name}: ${decodeExpr(c, `raw.${c.name}`)},`);
+            lines.push(`    };`);
+            lines.push(`}`);
+            lines.push(``);
+        }
+    }
+
+    const multiResults = functions.filter(f => f.outputs.length > 1 && !overloaded.has(f.name));
+    if (multiResults.length > 0) {
+        lines.push(`// ============ Multi-value Results ============`);
+        for (const f of multiResults) {
+            lines.push(`export type ${resultTypeName(f)} = ${returnType(f.outputs)};`);
+        }
+        lines.push(``);
+    }
+
+    lines.push(`// ============ Events ============`);
+    lines.push(`export type ${target.name}Event =`);
+    events.forEach((e, i) => {
+        const fields = e.inputs.map(p => `${p.name}: ${outputType(p)}`).join("; ");
+        const end = i === events.length - 1 ? ";" : "";
+        lines.push(`    | { name: '${e.name}'; args: { ${fields} } }${end}`);
+    });
+    lines.push(``);
+
+    lines.push(`// ============ Contract ============`);
+    lines.push(`export interface ${target.contractType} extends BaseContract {`);
+    for (const f of functions) {
+        const isView = f.stateMutability === "view" || f.stateMutability === "pure";
+        const result = f.outputs.length > 1 && !overloaded.has(f.name) ? resultTypeName(f) : returnType(f.outputs);
+        const sent = isView ? result : "ContractTransactionResponse";
+        const key = overloaded.has(f.name)
+            ? `'${f.name}(${f.inputs.map(p => p.type).join(",")})'`
+            : f.name;
+        lines.push(`    ${key}: BaseContractMethod<${args(f.inputs)}, ${result}, ${sent}>;`);
+    }
+    lines.push(`}`);
+    lines.push(``);
+
+    return lines.join("\n");
+}
+
+// ============ Main ============
+
+let drifted = false;
+
+if (!CHECK) {
+    console.log("🧬 Generating typed contract bindings...\n");
+    fs.mkdirSync(OUT_DIR, { recursive: true });
+}
+
+for (const target of TARGETS) {
+    const outFile = path.join(OUT_DIR, `${target.name}.ts`);
+    const artifactFile = path.join(BUILD_DIR, `${target.name}.json`);
+    const hash = hashSource(target.name);
+
+    if (CHECK) {
+        if (readRecordedHash(outFile) !== hash) {
+            console.error(`❌ ${target.name}: contracts/${target.name}.sol changed since front/lib/abi/${target.name}.ts was generated`);
+            drifted = true;
+            continue;
+        }
+        // With fresh artifacts around, also verify the generated ABI itself
+        if (fs.existsSync(artifactFile)) {
+            const { abi } = JSON.parse(fs.readFileSync(artifactFile, "utf8"));
+            if (generate(target, abi, hash) !== fs.readFileSync(outFile, "utf8")) {
+                console.error(`❌ ${target.name}: front/lib/abi/${target.name}.ts does not match build/${target.name}.json`);
+                drifted = true;
+                continue;
+            }
+        }
+        console.log(`✅ ${target.name}: bindings up to date`);
+        continue;
+    }
+
+    if (!fs.existsSync(artifactFile)) {
+        console.error(`❌ Missing build/${target.name}.json - run node scripts/compile.js first`);
+        process.exit(1);
+    }
+
+    const { abi } = JSON.parse(fs.readFileSync(artifactFile, "utf8"));
+    fs.writeFileSync(outFile, generate(target, abi, hash));
+    console.log(`✅ Generated: front/lib/abi/${target.name}.ts (${abi.length} ABI entries)`);
+}
+
+if (drifted) {
+    console.error("\n❌ Contract ABIs drifted from the frontend bindings.");
+    console.error("   Run: npm run generate:abis (from the repo root)");
+    process.exit(1);
+}
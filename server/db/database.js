@@ -394,6 +394,10 @@ export function getUserProfiles(addresses) {
     );
 }
 
+export function getUserProfilesByUsername(username) {
+    return all('SELECT * FROM user_profiles WHERE username = ? COLLATE NOCASE', [username]);
+}
+
 export function updateUserProfile(address, username, avatarUrl) {
     exec(`
         UPDATE user_profiles
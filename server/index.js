@@ -14,6 +14,7 @@ import * as db from './db/database.js';
 import { CHAIN, CONTRACTS } from './config.js';
 import { verifyWalletSignature, requireAdmin, isValidAddress, isValidTournamentId, isValidDate } from './middleware/auth.js';
 import { computeLeaderboardHmac, verifyHmac } from './middleware/integrity.js';
+import { issueNonce, verifySiweLogin, createSessionToken, isSiweConfigured } from './middleware/siwe.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -453,6 +454,68 @@ app.get('/api/feed', (req, res) => {
     }
 });
 
+// ============= AUTH (SIWE) =============
+// One EIP-4361 signature per session; the token then authorizes every signed endpoint.
+
+/**
+ * GET /api/auth/nonce
+ * Issue a single-use nonce for a Sign-In with Ethereum message
+ */
+app.get('/api/auth/nonce', writeLimiter, (req, res) => {
+    return res.json({
+        success: true,
+        data: { nonce: issueNonce() }
+    });
+});
+
+/**
+ * POST /api/auth/verify
+ * Exchange a signed SIWE message for a session token
+ * Body: { message, signature }
+ */
+app.post('/api/auth/verify', writeLimiter, (req, res) => {
+    try {
+        const { message, signature } = req.body;
+
+        if (!message || !signature) {
+            return res.status(400).json({
+                success: false,
+                error: 'Missing message or signature'
+            });
+        }
+
+        if (!isSiweConfigured()) {
+            return res.status(503).json({
+                success: false,
+                error: 'Sign-in not configured'
+            });
+        }
+
+        const result = verifySiweLogin(message, signature);
+        if (result.error) {
+            return res.status(401).json({
+                success: false,
+                error: result.error
+            });
+        }
+
+        const { token, expiresAt } = createSessionToken(result.address);
+        return res.json({
+            success: true,
+            data: {
+                address: result.address,
+                token,
+                expiresAt
+            }
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
 /**
  * POST /api/users/register
  * Register a new user profile
@@ -545,6 +608,38 @@ app.get('/api/users/:address', (req, res) => {
     }
 });
 
+/**
+ * GET /api/users/by-username/:username
+ * Resolve a username to wallet addresses (case-insensitive, usernames aren't unique)
+ */
+app.get('/api/users/by-username/:username', (req, res) => {
+    try {
+        const { username } = req.params;
+        if (username.length < 3 || username.length > 20) {
+            return res.status(400).json({
+                success: false,
+                error: 'Username must be 3-20 characters'
+            });
+        }
+
+        const profiles = db.getUserProfilesByUsername(username);
+
+        return res.json({
+            success: true,
+            data: profiles.map(p => ({
+                address: p.address,
+                username: p.username,
+                avatar: p.avatar_url
+            }))
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
 /**
  * PUT /api/users/:address
  * Update user profile
@@ -1177,6 +1272,10 @@ async function startServer() {
 
         // AI summarizer runs automatically after daily scorer (no separate schedule)
 
+        if (!isSiweConfigured()) {
+            console.warn('⚠️  SIWE_DOMAINS not set — wallet sign-in is disabled until it lists the site domain(s)');
+        }
+
         // Start Express server
         app.listen(PORT, () => {
             console.log(`🚀 FantasyYC API Server running on port ${PORT}`);
@@ -1194,6 +1293,7 @@ async function startServer() {
             console.log(`   GET /api/feed`);
             console.log(`   POST /api/users/register`);
             console.log(`   GET /api/users/:address`);
+            console.log(`   GET /api/users/by-username/:username`);
             console.log(`   PUT /api/users/:address`);
             console.log(`   POST /api/users/bulk`);
             console.log(`   GET /api/referrals/:address`);
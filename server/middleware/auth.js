@@ -1,19 +1,41 @@
 /**
  * Authentication & validation middleware for FantasyYC API.
- * - Wallet signature verification (proves wallet ownership)
+ * - Wallet authentication: SIWE session token, or a per-request signature (legacy)
  * - Admin API key authentication
  * - Input validators
  */
 
 import { ethers } from 'ethers';
+import { getBearerToken, verifySessionToken } from './siwe.js';
 
 /**
- * Middleware: verifies wallet signature on write requests.
- * Expects body: { address, signature, message }
+ * Middleware: proves wallet ownership on write requests.
+ * Preferred: "Authorization: Bearer <session token>" from POST /api/auth/verify (SIWE).
+ * Legacy: body { address, signature, message }
  * Message format: "Welcome to UnicornX! Have fun!\n\nWallet: <address>\nTimestamp: <ts>"
  * Timestamp must be within 5 minutes. Recovered signer must match claimed address.
  */
 export function verifyWalletSignature(req, res, next) {
+    const token = getBearerToken(req);
+    if (token) {
+        const sessionAddress = verifySessionToken(token);
+        if (!sessionAddress) {
+            return res.status(401).json({
+                success: false,
+                error: 'Session expired, please sign in again'
+            });
+        }
+        const claimed = req.body?.address;
+        if (claimed && claimed.toLowerCase() !== sessionAddress) {
+            return res.status(401).json({
+                success: false,
+                error: 'Address does not match session'
+            });
+        }
+        req.verifiedAddress = sessionAddress;
+        return next();
+    }
+
     try {
         const { address, signature, message } = req.body;
 
@@ -0,0 +1,177 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) sessions.
+ * - Nonces are single-use and expire after 5 minutes
+ * - A verified SIWE message is exchanged for a short-lived session token,
+ *   so the wallet signs once per session instead of once per write
+ * - Tokens are HMAC-signed (stateless): "<base64url payload>.<hex hmac>"
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+import { CHAIN } from '../config.js';
+
+const NONCE_TTL_MS = 5 * 60 * 1000;
+const MAX_PENDING_NONCES = 10000;
+const SESSION_TTL_SEC = 60 * 60;            // 1 hour
+const MAX_CLOCK_SKEW_SEC = 5 * 60;
+
+// nonce -> expiry (ms)
+const pendingNonces = new Map();
+
+// Without SESSION_SECRET, sessions only live as long as the process — clients sign in again
+let ephemeralSecret = null;
+function getSessionSecret() {
+    if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+    if (!ephemeralSecret) ephemeralSecret = randomBytes(32).toString('hex');
+    return ephemeralSecret;
+}
+
+function sign(payload) {
+    return createHmac('sha256', getSessionSecret()).update(payload).digest('hex');
+}
+
+// ============ Nonces ============
+
+export function issueNonce() {
+    const now = Date.now();
+    for (const [nonce, expiry] of pendingNonces) {
+        if (expiry < now) pendingNonces.delete(nonce);
+    }
+    if (pendingNonces.size >= MAX_PENDING_NONCES) {
+        // Drop the oldest — Map keeps insertion order
+        pendingNonces.delete(pendingNonces.keys().next().value);
+    }
+    const nonce = randomBytes(12).toString('hex');
+    pendingNonces.set(nonce, now + NONCE_TTL_MS);
+    return nonce;
+}
+
+function consumeNonce(nonce) {
+    const expiry = pendingNonces.get(nonce);
+    pendingNonces.delete(nonce);
+    return expiry !== undefined && expiry >= Date.now();
+}
+
+// ============ Message parsing ============
+
+const SIWE_HEADER = /^(?<domain>[^\s]+) wants you to sign in with your Ethereum account:\n(?<address>0x[0-9a-fA-F]{40})\n/;
+
+/**
+ * Parse an EIP-4361 message into its fields. Returns null if the layout is wrong.
+ */
+export function parseSiweMessage(message) {
+    if (typeof message !== 'string') return null;
+    const header = message.match(SIWE_HEADER);
+    if (!header) return null;
+
+    const fields = {};
+    for (const line of message.split('\n')) {
+        const m = line.match(/^(URI|Version|Chain ID|Nonce|Issued At|Expiration Time|Not Before|Request ID): (.+)$/);
+        if (m) fields[m[1]] = m[2].trim();
+    }
+    if (!fields['URI'] || !fields['Version'] || !fields['Chain ID'] || !fields['Nonce'] || !fields['Issued At']) {
+        return null;
+    }
+
+    return {
+        domain: header.groups.domain,
+        address: header.groups.address,
+        uri: fields['URI'],
+        version: fields['Version'],
+        chainId: parseInt(fields['Chain ID'], 10),
+        nonce: fields['Nonce'],
+        issuedAt: fields['Issued At'],
+        expirationTime: fields['Expiration Time'] || null,
+        notBefore: fields['Not Before'] || null,
+    };
+}
+
+// Domains a message may be bound to — SIWE_DOMAINS (comma-separated). The request's own Origin header
+// can't stand in for it: any client can send whatever Origin it likes
+function allowedDomains() {
+    return (process.env.SIWE_DOMAINS || '').split(',').map(d => d.trim()).filter(Boolean);
+}
+
+/**
+ * Whether sign-in can be served at all — false until SIWE_DOMAINS is set.
+ */
+export function isSiweConfigured() {
+    return allowedDomains().length > 0;
+}
+
+/**
+ * Check a signed SIWE message. Returns { address } on success or { error } on failure.
+ */
+export function verifySiweLogin(message, signature) {
+    const fields = parseSiweMessage(message);
+    if (!fields) return { error: 'Invalid sign-in message format' };
+
+    if (fields.version !== '1') return { error: 'Unsupported sign-in message version' };
+    if (fields.chainId !== CHAIN.CHAIN_ID) return { error: 'Sign-in message is for a different chain' };
+    if (!allowedDomains().includes(fields.domain)) return { error: 'Sign-in message domain mismatch' };
+
+    const now = Math.floor(Date.now() / 1000);
+    const issuedAt = Math.floor(Date.parse(fields.issuedAt) / 1000);
+    if (isNaN(issuedAt) || Math.abs(now - issuedAt) > MAX_CLOCK_SKEW_SEC) {
+        return { error: 'Sign-in message expired' };
+    }
+    if (fields.expirationTime && Date.parse(fields.expirationTime) < Date.now()) {
+        return { error: 'Sign-in message expired' };
+    }
+    if (fields.notBefore && Date.parse(fields.notBefore) > Date.now()) {
+        return { error: 'Sign-in message not yet valid' };
+    }
+
+    // Consume before verifying so a nonce can never be tried twice
+    if (!consumeNonce(fields.nonce)) return { error: 'Unknown or expired nonce' };
+
+    let recovered;
+    try {
+        recovered = ethers.verifyMessage(message, signature);
+    } catch {
+        return { error: 'Signature verification failed' };
+    }
+    if (recovered.toLowerCase() !== fields.address.toLowerCase()) {
+        return { error: 'Signature verification failed' };
+    }
+
+    return { address: fields.address.toLowerCase() };
+}
+
+// ============ Session tokens ============
+
+export function createSessionToken(address) {
+    const expiresAt = Math.floor(Date.now() / 1000) + SESSION_TTL_SEC;
+    const payload = Buffer.from(JSON.stringify({ a: address, c: CHAIN.CHAIN_ID, exp: expiresAt })).toString('base64url');
+    return { token: `${payload}.${sign(payload)}`, expiresAt };
+}
+
+/**
+ * Verify a session token. Returns the lowercase address, or null if invalid/expired.
+ */
+export function verifySessionToken(token) {
+    if (typeof token !== 'string') return null;
+    const [payload, mac] = token.split('.');
+    if (!payload || !mac) return null;
+
+    const expected = Buffer.from(sign(payload), 'hex');
+    const provided = Buffer.from(mac, 'hex');
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) return null;
+
+    try {
+        const { a, c, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+        if (c !== CHAIN.CHAIN_ID || typeof exp !== 'number' || exp < Math.floor(Date.now() / 1000)) return null;
+        return typeof a === 'string' ? a : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Extract a Bearer token from the Authorization header.
+ */
+export function getBearerToken(req) {
+    const header = req.headers.authorization;
+    if (typeof header !== 'string' || !header.startsWith('Bearer ')) return null;
+    return header.slice(7).trim();
+}